@@ -2100,6 +2100,7 @@ public struct CronJob: Codable, Sendable {
     public let wakemode: AnyCodable
     public let payload: AnyCodable
     public let delivery: AnyCodable?
+    public let exclusions: [AnyCodable]?
     public let state: [String: AnyCodable]
 
     public init(
@@ -2117,6 +2118,7 @@ public struct CronJob: Codable, Sendable {
         wakemode: AnyCodable,
         payload: AnyCodable,
         delivery: AnyCodable?,
+        exclusions: [AnyCodable]?,
         state: [String: AnyCodable]
     ) {
         self.id = id
@@ -2133,6 +2135,7 @@ public struct CronJob: Codable, Sendable {
         self.wakemode = wakemode
         self.payload = payload
         self.delivery = delivery
+        self.exclusions = exclusions
         self.state = state
     }
     private enum CodingKeys: String, CodingKey {
@@ -2150,6 +2153,7 @@ public struct CronJob: Codable, Sendable {
         case wakemode = "wakeMode"
         case payload
         case delivery
+        case exclusions
         case state
     }
 }
@@ -2182,6 +2186,7 @@ public struct CronAddParams: Codable, Sendable {
     public let wakemode: AnyCodable
     public let payload: AnyCodable
     public let delivery: AnyCodable?
+    public let exclusions: [AnyCodable]?
 
     public init(
         name: String,
@@ -2194,7 +2199,8 @@ public struct CronAddParams: Codable, Sendable {
         sessiontarget: AnyCodable,
         wakemode: AnyCodable,
         payload: AnyCodable,
-        delivery: AnyCodable?
+        delivery: AnyCodable?,
+        exclusions: [AnyCodable]?
     ) {
         self.name = name
         self.agentid = agentid
@@ -2207,6 +2213,7 @@ public struct CronAddParams: Codable, Sendable {
         self.wakemode = wakemode
         self.payload = payload
         self.delivery = delivery
+        self.exclusions = exclusions
     }
     private enum CodingKeys: String, CodingKey {
         case name
@@ -2220,6 +2227,44 @@ public struct CronAddParams: Codable, Sendable {
         case wakemode = "wakeMode"
         case payload
         case delivery
+        case exclusions
+    }
+}
+
+public struct CronRunsParams: Codable, Sendable {
+    public let id: String?
+    public let jobid: String?
+    public let status: AnyCodable?
+    public let since: Int?
+    public let until: Int?
+    public let offset: Int?
+    public let limit: Int?
+
+    public init(
+        id: String?,
+        jobid: String?,
+        status: AnyCodable?,
+        since: Int?,
+        until: Int?,
+        offset: Int?,
+        limit: Int?
+    ) {
+        self.id = id
+        self.jobid = jobid
+        self.status = status
+        self.since = since
+        self.until = until
+        self.offset = offset
+        self.limit = limit
+    }
+    private enum CodingKeys: String, CodingKey {
+        case id
+        case jobid = "jobId"
+        case status
+        case since
+        case until
+        case offset
+        case limit
     }
 }
 
@@ -8,15 +8,18 @@
  *   bun skills/houdini-annotator/scripts/run-pipeline.ts --mode full
  *   bun skills/houdini-annotator/scripts/run-pipeline.ts --mode incremental
  *   bun skills/houdini-annotator/scripts/run-pipeline.ts --mode full --system pyro
+ *   bun skills/houdini-annotator/scripts/run-pipeline.ts --mode full --discover site --system cop,lop
+ *   bun skills/houdini-annotator/scripts/run-pipeline.ts --mode full --model anthropic/claude-opus-4-6
  *   bun skills/houdini-annotator/scripts/run-pipeline.ts --seed-only
  *
  * Environment:
- *   OPENAI_API_KEY       - Required for annotation and embedding
+ *   HOUDINI_CLAW_ANNOTATION_MODEL - Optional annotation model ref (default: the agent's default model)
+ *   OPENAI_API_KEY       - Required for embedding
  *   HOUDINI_CLAW_DB_PATH - Optional, defaults to ~/.openclaw/houdini-claw/houdini_kb.db
  */
 
-import path from "node:path";
 import fs from "node:fs";
+import path from "node:path";
 
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
@@ -25,6 +28,8 @@ async function main(): Promise<void> {
   const seedOnly = args.includes("--seed-only");
   const skipCrawl = args.includes("--skip-crawl");
   const skipAnnotate = args.includes("--skip-annotate");
+  const discoverSource = getArg(args, "--discover");
+  const annotationModel = getArg(args, "--model");
 
   const tmpBase = path.join("/tmp", "houdini-claw-pipeline");
   const rawDir = path.join(tmpBase, "raw");
@@ -46,41 +51,67 @@ async function main(): Promise<void> {
   }
 
   // Stage 1: Crawl
+  let staleNodes: string[] = [];
   if (!skipCrawl) {
     console.log("[pipeline] Stage 1: Crawling documentation...");
     const { runCrawl } = await import("../../../src/houdini-claw/crawl.js");
-    const crawled = await runCrawl({
-      mode: mode as "full" | "incremental",
-      outputDir: rawDir,
-      systems,
-      onProgress: (fetched, total, nodeName) => {
-        process.stdout.write(`\r  [crawl] ${fetched}/${total}: ${nodeName}          `);
-      },
-    });
-    console.log(`\n  Crawled ${crawled.length} pages.`);
-  } else {
-    console.log("[pipeline] Skipping crawl (--skip-crawl)");
-  }
+    const { initDatabase } = await import("../../../src/houdini-claw/db.js");
+    const kb = await initDatabase();
+    try {
+      let nodePaths: Record<string, string[]> | undefined;
+      if (discoverSource) {
+        const { discoverNodePaths, groupNodePathsBySystem, parseDiscoverySource, recordDiscovery } =
+          await import("../../../src/houdini-claw/discover.js");
+        const discovered = await discoverNodePaths(parseDiscoverySource(discoverSource));
+        recordDiscovery(kb, discovered, discoverSource);
+        nodePaths = groupNodePathsBySystem(discovered);
+        console.log(`  Discovered ${discovered.length} node pages from ${discoverSource}`);
+      }
 
-  // Stage 2: Annotate
-  if (!skipAnnotate) {
-    if (!process.env.OPENAI_API_KEY) {
-      console.warn("[pipeline] Warning: OPENAI_API_KEY not set, skipping annotation");
-    } else {
-      console.log("\n[pipeline] Stage 2: Generating annotations...");
-      const { annotateAll } = await import("../../../src/houdini-claw/annotate.js");
-      const result = await annotateAll({
-        inputDir: rawDir,
-        outputDir: annotatedDir,
-        force: mode === "full",
-        onProgress: (done, total, name) => {
-          process.stdout.write(`\r  [annotate] ${done}/${total}: ${name}          `);
+      const { report } = await runCrawl({
+        mode: mode as "full" | "incremental",
+        outputDir: rawDir,
+        systems,
+        nodePaths,
+        kb,
+        onProgress: (fetched, total, nodeName) => {
+          process.stdout.write(`\r  [crawl] ${fetched}/${total}: ${nodeName}          `);
         },
       });
+      staleNodes = report.staleNodes;
       console.log(
-        `\n  Annotated: ${result.annotated}, Errors: ${result.errors}, Skipped: ${result.skipped}`,
+        `\n  Added ${report.added.length}, changed ${report.changed.length}, unchanged ${report.unchanged.length}, failed ${report.failed.length}.`,
       );
+      if (report.changed.length > 0) {
+        console.log(`  Changed: ${report.changed.join(", ")}`);
+      }
+      if (staleNodes.length > 0) {
+        console.log(`  Stale annotations queued for re-annotation: ${staleNodes.join(", ")}`);
+      }
+    } finally {
+      kb.close();
     }
+  } else {
+    console.log("[pipeline] Skipping crawl (--skip-crawl)");
+  }
+
+  // Stage 2: Annotate
+  if (!skipAnnotate) {
+    console.log("\n[pipeline] Stage 2: Generating annotations...");
+    const { annotateAll } = await import("../../../src/houdini-claw/annotate.js");
+    const result = await annotateAll({
+      inputDir: rawDir,
+      outputDir: annotatedDir,
+      model: annotationModel,
+      force: mode === "full",
+      reannotate: staleNodes,
+      onProgress: (done, total, name) => {
+        process.stdout.write(`\r  [annotate] ${done}/${total}: ${name}          `);
+      },
+    });
+    console.log(
+      `\n  Annotated: ${result.annotated}, Errors: ${result.errors}, Skipped: ${result.skipped}`,
+    );
   } else {
     console.log("[pipeline] Skipping annotation (--skip-annotate)");
   }
@@ -107,6 +138,8 @@ async function main(): Promise<void> {
   const { initDatabase } = await import("../../../src/houdini-claw/db.js");
   const kb = await initDatabase();
   const report = kb.getCoverageReport();
+  // Refresh totals against discovered node pages, if any were recorded
+  const bySystem = kb.writeCoverageSnapshot();
 
   console.log("\n  System          | Nodes | Verified | Params");
   console.log("  ─────────────────┼───────┼──────────┼───────");
@@ -118,6 +151,15 @@ async function main(): Promise<void> {
     console.log(`  ${sys} | ${nodes} | ${verified} | ${params}`);
   }
 
+  if (bySystem.length > 0) {
+    console.log("\n  System          | Annotated / Discovered");
+    console.log("  ─────────────────┼───────────────────────");
+    for (const row of bySystem) {
+      const sys = String(row.system).padEnd(15);
+      console.log(`  ${sys} | ${row.annotated_nodes} / ${row.total_nodes}`);
+    }
+  }
+
   kb.close();
   console.log("\n=== Pipeline complete ===");
 }
@@ -250,6 +250,7 @@ export function buildAgentSystemPrompt(params: {
     session_status:
       "Show a /status-equivalent status card (usage + time + Reasoning/Verbose/Elevated); use for model-use questions (📊 session_status); optional per-session model override",
     image: "Analyze an image with the configured image model",
+    houdini_kb: "Look up Houdini nodes, parameters, recipes and error patterns",
   };
 
   const toolOrder = [
@@ -277,6 +278,7 @@ export function buildAgentSystemPrompt(params: {
     "subagents",
     "session_status",
     "image",
+    "houdini_kb",
   ];
 
   const rawToolNames = (params.toolNames ?? []).map((tool) => tool.trim());
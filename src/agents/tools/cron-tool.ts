@@ -220,7 +220,8 @@ JOB SCHEMA (for add action):
   "payload": { ... },       // Required: what to execute
   "delivery": { ... },      // Optional: announce summary or webhook POST
   "sessionTarget": "main" | "isolated",  // Required
-  "enabled": true | false   // Optional, default true
+  "enabled": true | false,  // Optional, default true
+  "exclusions": [ ... ]     // Optional: days on which runs are skipped
 }
 
 SCHEDULE TYPES (schedule.kind):
@@ -230,25 +231,41 @@ SCHEDULE TYPES (schedule.kind):
   { "kind": "every", "everyMs": <interval-ms>, "anchorMs": <optional-start-ms> }
 - "cron": Cron expression
   { "kind": "cron", "expr": "<cron-expression>", "tz": "<optional-timezone>" }
+- "after": Chained job, runs when another job finishes (agentTurn messages get the upstream summary appended)
+  { "kind": "after", "jobId": "<upstream-job-id>", "on": "<optional ok|error|any, default ok>" }
+- "trigger": Runs when an event fires (agentTurn messages get the event content appended as untrusted external content)
+  { "kind": "trigger", "trigger": { "kind": "file", "path": "<dir-or-file>", "glob": "<optional glob>", "debounceMs": <optional-ms> } }
+  { "kind": "trigger", "trigger": { "kind": "webhook", "name": "<name, POST to <hooks.path>/cron/<name>>", "template": "<optional {{payload.field}} template>" } }
 
 ISO timestamps without an explicit timezone are treated as UTC.
 
+EXCLUSIONS (optional, skipped runs are logged as "excluded by calendar"):
+- { "kind": "dates", "from": "YYYY-MM-DD", "to": "<optional YYYY-MM-DD>", "label": "<optional>" }
+- { "kind": "holidays", "set": "us|uk|de" }
+- { "kind": "ics", "path": "<local .ics file>" }
+Use a weekday cron expression plus holiday exclusions for business-day schedules.
+
 PAYLOAD TYPES (payload.kind):
 - "systemEvent": Injects text as system event into session
   { "kind": "systemEvent", "text": "<message>" }
 - "agentTurn": Runs agent with message (isolated sessions only)
   { "kind": "agentTurn", "message": "<prompt>", "model": "<optional>", "thinking": "<optional>", "timeoutSeconds": <optional, 0 means no timeout> }
+- "houdiniRefresh": Refreshes the Houdini knowledge base (crawl → annotate → ingest) and announces the coverage change (isolated sessions only)
+  { "kind": "houdiniRefresh", "mode": "<optional incremental|full>", "systems": ["<optional>"], "maxNodes": <optional>, "maxTokens": <optional>, "model": "<optional>" }
 
 DELIVERY (top-level):
   { "mode": "none|announce|webhook", "channel": "<optional>", "to": "<optional>", "bestEffort": <optional-bool> }
-  - Default for isolated agentTurn jobs (when delivery omitted): "announce"
+  - Default for isolated agentTurn and houdiniRefresh jobs (when delivery omitted): "announce"
   - announce: send to chat channel (optional channel/to target)
   - webhook: send finished-run event as HTTP POST to delivery.to (URL required)
+  - Announce conditions (optional): "onChange": true (skip results identical to the previous run),
+    "whenMatches": { "pattern": "<regex>", "flags": "<optional>", "path": "<optional $.json.path>" } (skip non-matching results),
+    "quietSummary": true (end-of-day message listing the skipped runs)
   - If the task needs to send to a specific chat/recipient, set announce delivery.channel/to; do not call messaging tools inside the run.
 
 CRITICAL CONSTRAINTS:
 - sessionTarget="main" REQUIRES payload.kind="systemEvent"
-- sessionTarget="isolated" REQUIRES payload.kind="agentTurn"
+- sessionTarget="isolated" REQUIRES payload.kind="agentTurn" or "houdiniRefresh"
 - For webhook callbacks, use delivery.mode="webhook" with delivery.to set to a URL.
 Default: prefer isolated agentTurn jobs unless the user explicitly wants a main-session system event.
 
@@ -295,6 +312,7 @@ Use jobId as the canonical identifier; id is accepted for compatibility. Use con
               "wakeMode",
               "payload",
               "delivery",
+              "exclusions",
               "enabled",
               "description",
               "deleteAfterRun",
@@ -357,7 +375,9 @@ Use jobId as the canonical identifier; id is accepted for compatibility. Use con
             job &&
             typeof job === "object" &&
             "payload" in job &&
-            (job as { payload?: { kind?: string } }).payload?.kind === "agentTurn"
+            ["agentTurn", "houdiniRefresh"].includes(
+              (job as { payload?: { kind?: string } }).payload?.kind ?? "",
+            )
           ) {
             const deliveryValue = (job as { delivery?: unknown }).delivery;
             const delivery = isRecord(deliveryValue) ? deliveryValue : undefined;
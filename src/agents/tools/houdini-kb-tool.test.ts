@@ -0,0 +1,195 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+const kb = vi.hoisted(() => ({ close: vi.fn() }));
+
+vi.mock("../../houdini-claw/db.js", () => ({
+  initDatabase: vi.fn(async () => kb),
+  resolveDbPath: () => "/nonexistent/houdini_kb.db",
+}));
+
+const query = vi.hoisted(() => ({
+  queryNode: vi.fn(() => ({ node_name: "pyro_solver" })),
+  queryParam: vi.fn(() => ({ param_name: "dissipation" })),
+  queryParamAdvice: vi.fn(() => ({ recommended_value: 0.2 })),
+  queryVersionDiff: vi.fn(() => ({ changed: [] })),
+  querySemanticSearch: vi.fn(async () => ({ results: [] })),
+  queryRecipe: vi.fn(() => ({ count: 0 })),
+  queryRecipeScript: vi.fn(() => ({ script: "import hou\n" })),
+  queryDiagnose: vi.fn(() => ({ count: 0 })),
+  queryDiagnosisFeedback: vi.fn(() => ({ recorded: {} })),
+  queryBuildPath: vi.fn(() => ({ steps: [] })),
+  queryNetworkCheck: vi.fn(() => ({ ok: true })),
+  queryCoverage: vi.fn(() => ({ coverage: [] })),
+}));
+vi.mock("../../houdini-claw/query.js", () => query);
+
+import { initDatabase } from "../../houdini-claw/db.js";
+import { createHoudiniKbTool } from "./houdini-kb-tool.js";
+
+let tmpDir = "";
+let dbPath = "";
+
+function createTool() {
+  const tool = createHoudiniKbTool({ dbPath });
+  if (!tool) {
+    throw new Error("houdini_kb tool missing");
+  }
+  return tool;
+}
+
+describe("houdini_kb tool", () => {
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "houdini-kb-tool-"));
+    dbPath = path.join(tmpDir, "houdini_kb.db");
+    await fs.writeFile(dbPath, "");
+  });
+
+  afterAll(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("is not offered before a knowledge base exists", () => {
+    expect(createHoudiniKbTool()).toBeNull();
+    expect(createHoudiniKbTool({ dbPath: path.join(tmpDir, "missing.db") })).toBeNull();
+  });
+
+  it("looks up nodes, version diffs and parameters", async () => {
+    const tool = createTool();
+
+    const node = await tool.execute("call-1", {
+      action: "node",
+      node: "pyro_solver",
+      format: "summary",
+      houdiniVersion: "20.5",
+    });
+    expect(node.details).toEqual({ node_name: "pyro_solver" });
+    expect(query.queryNode).toHaveBeenCalledWith(kb, "pyro_solver", "summary", "20.5");
+
+    await tool.execute("call-2", {
+      action: "node",
+      node: "pyro_solver",
+      diffVersions: "19.5, 20.5",
+    });
+    expect(query.queryVersionDiff).toHaveBeenCalledWith(kb, "pyro_solver", "19.5", "20.5");
+
+    await tool.execute("call-3", { action: "param", node: "pyro_solver", param: "dissipation" });
+    expect(query.queryParam).toHaveBeenCalledWith(kb, "pyro_solver", "dissipation", undefined);
+  });
+
+  it("opens each knowledge base once and keeps it open across calls", async () => {
+    const otherPath = path.join(tmpDir, "other_kb.db");
+    await fs.writeFile(otherPath, "");
+    const first = createHoudiniKbTool({ dbPath: otherPath });
+    const second = createHoudiniKbTool({ dbPath: otherPath });
+
+    await first?.execute("call-1", { action: "coverage" });
+    await first?.execute("call-2", { action: "coverage" });
+    await second?.execute("call-3", { action: "coverage" });
+
+    expect(vi.mocked(initDatabase).mock.calls).toEqual([[otherPath]]);
+    expect(kb.close).not.toHaveBeenCalled();
+  });
+
+  it("returns parameter advice when context, intent or a value is given", async () => {
+    const result = await createTool().execute("call-1", {
+      action: "param",
+      node: "pyro_solver",
+      param: "dissipation",
+      intent: "smoke lingers longer",
+      currentValue: 0.5,
+    });
+
+    expect(result.details).toEqual({ recommended_value: 0.2 });
+    expect(query.queryParamAdvice).toHaveBeenCalledWith(kb, {
+      nodeName: "pyro_solver",
+      paramName: "dissipation",
+      context: undefined,
+      intent: "smoke lingers longer",
+      currentValue: 0.5,
+      houdiniVersion: undefined,
+    });
+  });
+
+  it("caps search results and passes recipe and diagnose filters", async () => {
+    const tool = createTool();
+
+    await tool.execute("call-1", { action: "search", query: "smoke fades", topK: 50 });
+    expect(query.querySemanticSearch).toHaveBeenCalledWith(
+      kb,
+      "smoke fades",
+      20,
+      undefined,
+      undefined,
+    );
+
+    await tool.execute("call-2", { action: "recipe", system: "pyro", tags: ["indoor"] });
+    expect(query.queryRecipe).toHaveBeenCalledWith(kb, "pyro", ["indoor"]);
+
+    await tool.execute("call-3", {
+      action: "recipe",
+      recipe: "Realistic Indoor Explosion",
+      variation: "smaller_room",
+      scriptFormat: "hscript",
+    });
+    expect(query.queryRecipeScript).toHaveBeenCalledWith(kb, "Realistic Indoor Explosion", {
+      format: "hscript",
+      variation: "smaller_room",
+      context: undefined,
+      houdiniVersion: undefined,
+    });
+
+    await tool.execute("call-4", { action: "diagnose", symptoms: "sim explodes" });
+    expect(query.queryDiagnose).toHaveBeenCalledWith(kb, undefined, "sim explodes");
+
+    await tool.execute("call-5", {
+      action: "feedback",
+      patternId: "PYRO-001",
+      cause: "2",
+      fixed: "true",
+      system: "pyro",
+    });
+    expect(query.queryDiagnosisFeedback).toHaveBeenCalledWith(kb, {
+      patternId: "PYRO-001",
+      cause: "2",
+      fixed: true,
+      symptoms: undefined,
+      system: "pyro",
+    });
+  });
+
+  it("passes build path and network check requests", async () => {
+    const tool = createTool();
+
+    await tool.execute("call-1", {
+      action: "path",
+      node: "flip_solver",
+      from: "flip_object",
+      includeOptional: true,
+    });
+    expect(query.queryBuildPath).toHaveBeenCalledWith(kb, "flip_solver", {
+      from: "flip_object",
+      includeOptional: true,
+      houdiniVersion: undefined,
+    });
+
+    await tool.execute("call-2", { action: "check", network: "Smoke Object -> Pyro Solver" });
+    expect(query.queryNetworkCheck).toHaveBeenCalledWith(
+      kb,
+      "Smoke Object -> Pyro Solver",
+      undefined,
+    );
+  });
+
+  it("rejects missing required fields", async () => {
+    await expect(
+      createTool().execute("call-1", { action: "param", node: "pyro_solver" }),
+    ).rejects.toThrow("param required");
+  });
+});
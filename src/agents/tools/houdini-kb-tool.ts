@@ -0,0 +1,240 @@
+import fs from "node:fs";
+import path from "node:path";
+import { Type } from "@sinclair/typebox";
+import type { OpenClawConfig } from "../../config/config.js";
+import { initDatabase, resolveDbPath, type KnowledgeBase } from "../../houdini-claw/db.js";
+import {
+  queryBuildPath,
+  queryCoverage,
+  queryDiagnose,
+  queryDiagnosisFeedback,
+  queryNetworkCheck,
+  queryNode,
+  queryParam,
+  queryParamAdvice,
+  queryRecipe,
+  queryRecipeScript,
+  querySemanticSearch,
+  queryVersionDiff,
+  type QueryResult,
+} from "../../houdini-claw/query.js";
+import { optionalStringEnum, stringEnum } from "../schema/typebox.js";
+import type { AnyAgentTool } from "./common.js";
+import {
+  jsonResult,
+  readBooleanParam,
+  readNumberParam,
+  readStringArrayParam,
+  readStringParam,
+  ToolInputError,
+} from "./common.js";
+
+const HOUDINI_KB_ACTIONS = [
+  "node",
+  "param",
+  "search",
+  "recipe",
+  "diagnose",
+  "feedback",
+  "path",
+  "check",
+  "coverage",
+] as const;
+const HOUDINI_KB_FORMATS = ["full", "summary"] as const;
+const HOUDINI_KB_SCRIPT_FORMATS = ["python", "hscript"] as const;
+
+const DEFAULT_SEARCH_TOP_K = 5;
+const MAX_SEARCH_TOP_K = 20;
+
+// Flattened schema: runtime validates per-action requirements.
+const HoudiniKbSchema = Type.Object({
+  action: stringEnum(HOUDINI_KB_ACTIONS),
+  node: Type.Optional(Type.String({ description: "Node name, e.g. pyro_solver" })),
+  param: Type.Optional(Type.String({ description: "Parameter name, e.g. dissipation" })),
+  query: Type.Optional(Type.String({ description: "Natural-language question for search" })),
+  system: Type.Optional(Type.String({ description: "pyro, rbd, flip, vellum, sop, ..." })),
+  tags: Type.Optional(Type.Array(Type.String())),
+  symptoms: Type.Optional(Type.String()),
+  patternId: Type.Optional(
+    Type.String({ description: "feedback action: diagnosed pattern_id, e.g. PYRO-001" }),
+  ),
+  cause: Type.Optional(
+    Type.String({ description: "feedback action: root cause that was tried (text or 1-based)" }),
+  ),
+  fixed: Type.Optional(
+    Type.Boolean({ description: "feedback action: whether that cause's fix solved it" }),
+  ),
+  format: optionalStringEnum(HOUDINI_KB_FORMATS),
+  houdiniVersion: Type.Optional(Type.String({ description: "e.g. 20.5; falls back to older" })),
+  diffVersions: Type.Optional(
+    Type.String({ description: "node action: compare two versions, e.g. 19.5,20.5" }),
+  ),
+  context: Type.Optional(
+    Type.String({ description: "param/recipe action: scene context, e.g. indoor" }),
+  ),
+  intent: Type.Optional(Type.String({ description: "param action: what the user wants" })),
+  currentValue: Type.Optional(Type.Number({ description: "param action: value in the scene" })),
+  topK: Type.Optional(Type.Number({ minimum: 1, maximum: MAX_SEARCH_TOP_K })),
+  recipe: Type.Optional(
+    Type.String({ description: "recipe action: recipe name to export as a setup script" }),
+  ),
+  variation: Type.Optional(Type.String({ description: "recipe action: named variation" })),
+  scriptFormat: optionalStringEnum(HOUDINI_KB_SCRIPT_FORMATS),
+  from: Type.Optional(Type.String({ description: "path action: start node, e.g. smoke_object" })),
+  includeOptional: Type.Optional(
+    Type.Boolean({ description: "path action: include optional nodes" }),
+  ),
+  network: Type.Optional(
+    Type.String({
+      description:
+        'check action: node chains, e.g. "Smoke Object -> Pyro Solver; Volume Source -> Pyro Solver"',
+    }),
+  ),
+});
+
+// One open knowledge base per file, reused across calls and tool instances
+const KB_CACHE = new Map<string, Promise<KnowledgeBase>>();
+
+function openKnowledgeBase(dbPath: string): Promise<KnowledgeBase> {
+  const key = path.resolve(dbPath);
+  let kb = KB_CACHE.get(key);
+  if (!kb) {
+    kb = initDatabase(dbPath);
+    KB_CACHE.set(key, kb);
+    // Retry on the next call instead of caching a failed open
+    kb.catch(() => KB_CACHE.delete(key));
+  }
+  return kb;
+}
+
+type HoudiniKbToolOptions = {
+  config?: OpenClawConfig;
+  /** Knowledge base file (default: resolveDbPath(config)) */
+  dbPath?: string;
+};
+
+export function createHoudiniKbTool(options?: HoudiniKbToolOptions): AnyAgentTool | null {
+  const dbPath = options?.dbPath ?? resolveDbPath(options?.config);
+  // Only offer the tool once a knowledge base has been built (seeded or ingested).
+  if (!fs.existsSync(dbPath)) {
+    return null;
+  }
+  return {
+    label: "Houdini KB",
+    name: "houdini_kb",
+    description: `Query the Houdini knowledge base of annotated nodes, parameters, recipes and error patterns.
+
+ACTIONS:
+- node: node annotation (node required; format full|summary; houdiniVersion; diffVersions "19.5,20.5" compares parameters)
+- param: parameter ranges, intents and interactions (node + param required); add context, intent or currentValue for a recommended value with risk level
+- search: hybrid keyword + semantic search (query required; system, topK, houdiniVersion)
+- recipe: parameter presets for an effect (system, tags); with recipe (a name) returns a python|hscript setup script (scriptFormat, variation, context) and flags parameters missing from the knowledge base
+- diagnose: error patterns ranked by symptom match, severity and learned fix rates (symptoms; system)
+- feedback: after a diagnosis, record which root cause fixed the problem (patternId required; cause, fixed; omit cause with fixed false when nothing worked)
+- path: ordered build path of everything upstream of a node (node required; from, includeOptional)
+- check: find missing prerequisites and cycles in a described network (network required)
+- coverage: which systems and nodes are annotated and verified
+
+Prefer human_verified results. Results with an error field mean nothing matched.`,
+    parameters: HoudiniKbSchema,
+    execute: async (_toolCallId, args) => {
+      const params = args as Record<string, unknown>;
+      const action = readStringParam(params, "action", { required: true });
+      const houdiniVersion = readStringParam(params, "houdiniVersion");
+      const system = readStringParam(params, "system");
+
+      const kb = await openKnowledgeBase(dbPath);
+      let result: QueryResult;
+      switch (action) {
+        case "node": {
+          const node = readStringParam(params, "node", { required: true });
+          const diffVersions = readStringParam(params, "diffVersions");
+          if (diffVersions) {
+            const [fromVersion, toVersion] = diffVersions.split(",").map((v) => v.trim());
+            if (!fromVersion || !toVersion) {
+              throw new ToolInputError("diffVersions must be two versions, e.g. 19.5,20.5");
+            }
+            result = queryVersionDiff(kb, node, fromVersion, toVersion);
+          } else {
+            const format = readStringParam(params, "format") === "summary" ? "summary" : "full";
+            result = queryNode(kb, node, format, houdiniVersion);
+          }
+          break;
+        }
+        case "param": {
+          const node = readStringParam(params, "node", { required: true });
+          const param = readStringParam(params, "param", { required: true });
+          const context = readStringParam(params, "context");
+          const intent = readStringParam(params, "intent");
+          const currentValue = readNumberParam(params, "currentValue");
+          result =
+            context || intent || currentValue !== undefined
+              ? queryParamAdvice(kb, {
+                  nodeName: node,
+                  paramName: param,
+                  context,
+                  intent,
+                  currentValue,
+                  houdiniVersion,
+                })
+              : queryParam(kb, node, param, houdiniVersion);
+          break;
+        }
+        case "search": {
+          const query = readStringParam(params, "query", { required: true });
+          const topK = Math.min(
+            readNumberParam(params, "topK", { integer: true }) ?? DEFAULT_SEARCH_TOP_K,
+            MAX_SEARCH_TOP_K,
+          );
+          result = await querySemanticSearch(kb, query, topK, system, houdiniVersion);
+          break;
+        }
+        case "recipe": {
+          const recipe = readStringParam(params, "recipe");
+          result = recipe
+            ? queryRecipeScript(kb, recipe, {
+                format:
+                  readStringParam(params, "scriptFormat") === "hscript" ? "hscript" : "python",
+                variation: readStringParam(params, "variation"),
+                context: readStringParam(params, "context"),
+                houdiniVersion,
+              })
+            : queryRecipe(kb, system, readStringArrayParam(params, "tags"));
+          break;
+        }
+        case "diagnose":
+          result = queryDiagnose(kb, system, readStringParam(params, "symptoms"));
+          break;
+        case "feedback":
+          result = queryDiagnosisFeedback(kb, {
+            patternId: readStringParam(params, "patternId", { required: true }),
+            cause: readStringParam(params, "cause"),
+            fixed: readBooleanParam(params, "fixed") ?? false,
+            symptoms: readStringParam(params, "symptoms"),
+            system,
+          });
+          break;
+        case "path":
+          result = queryBuildPath(kb, readStringParam(params, "node", { required: true }), {
+            from: readStringParam(params, "from"),
+            includeOptional: readBooleanParam(params, "includeOptional") ?? false,
+            houdiniVersion,
+          });
+          break;
+        case "check":
+          result = queryNetworkCheck(
+            kb,
+            readStringParam(params, "network", { required: true }),
+            houdiniVersion,
+          );
+          break;
+        case "coverage":
+          result = queryCoverage(kb);
+          break;
+        default:
+          throw new Error(`Unknown action: ${action}`);
+      }
+      return jsonResult(result);
+    },
+  };
+}
@@ -38,7 +38,15 @@ const { registerCronCli } = await import("./cron-cli.js");
 type CronUpdatePatch = {
   patch?: {
     payload?: { message?: string };
-    delivery?: { mode?: string; channel?: string; to?: string; bestEffort?: boolean };
+    delivery?: {
+      mode?: string;
+      channel?: string;
+      to?: string;
+      bestEffort?: boolean;
+      onChange?: boolean;
+      whenMatches?: unknown;
+      quietSummary?: boolean;
+    };
   };
 };
 
@@ -597,4 +605,221 @@ describe("cron cli", () => {
       program.parseAsync(["cron", "edit", "job-1", "--exact"], { from: "user" }),
     ).rejects.toThrow("__exit__:1");
   });
+
+  it("adds a chained job with --after and --on", async () => {
+    resetGatewayMock();
+    const program = buildProgram();
+
+    await program.parseAsync(
+      [
+        "cron",
+        "add",
+        "--name",
+        "report",
+        "--after",
+        "fetch-job",
+        "--on",
+        "any",
+        "--message",
+        "Summarize the fetch run",
+      ],
+      { from: "user" },
+    );
+
+    const addCall = callGatewayFromCli.mock.calls.find((call) => call[0] === "cron.add");
+    const params = addCall?.[2] as { schedule?: { kind?: string; jobId?: string; on?: string } };
+    expect(params?.schedule).toEqual({ kind: "after", jobId: "fetch-job", on: "any" });
+  });
+
+  it("adds webhook and file-watch trigger jobs", async () => {
+    resetGatewayMock();
+    const program = buildProgram();
+
+    await program.parseAsync(
+      [
+        "cron",
+        "add",
+        "--name",
+        "deploys",
+        "--webhook",
+        "deploys",
+        "--webhook-template",
+        "Deploy {{payload.service}}",
+        "--message",
+        "Write release notes",
+      ],
+      { from: "user" },
+    );
+    await program.parseAsync(
+      [
+        "cron",
+        "add",
+        "--name",
+        "inbox",
+        "--watch",
+        "~/inbox",
+        "--watch-glob",
+        "*.pdf",
+        "--debounce",
+        "5s",
+        "--message",
+        "Triage the inbox",
+      ],
+      { from: "user" },
+    );
+
+    const schedules = callGatewayFromCli.mock.calls
+      .filter((call) => call[0] === "cron.add")
+      .map((call) => (call[2] as { schedule?: unknown }).schedule);
+    expect(schedules).toEqual([
+      {
+        kind: "trigger",
+        trigger: { kind: "webhook", name: "deploys", template: "Deploy {{payload.service}}" },
+      },
+      {
+        kind: "trigger",
+        trigger: { kind: "file", path: "~/inbox", glob: "*.pdf", debounceMs: 5000 },
+      },
+    ]);
+  });
+
+  it("rejects --on without a chained schedule on add", async () => {
+    resetGatewayMock();
+    const program = buildProgram();
+
+    await expect(
+      program.parseAsync(
+        ["cron", "add", "--name", "invalid", "--every", "10m", "--on", "error", "--message", "hi"],
+        { from: "user" },
+      ),
+    ).rejects.toThrow("__exit__:1");
+  });
+
+  it("applies --on to an existing chained job on edit", async () => {
+    resetGatewayMock();
+    callGatewayFromCli.mockImplementation(
+      async (method: string, _opts: unknown, params?: unknown) => {
+        if (method === "cron.status") {
+          return { enabled: true };
+        }
+        if (method === "cron.list") {
+          return {
+            ok: true,
+            params: {},
+            jobs: [{ id: "job-1", schedule: { kind: "after", jobId: "fetch-job", on: "ok" } }],
+          };
+        }
+        return { ok: true, params };
+      },
+    );
+    const program = buildProgram();
+
+    await program.parseAsync(["cron", "edit", "job-1", "--on", "error"], { from: "user" });
+
+    const updateCall = callGatewayFromCli.mock.calls.find((call) => call[0] === "cron.update");
+    const patch = updateCall?.[2] as { patch?: { schedule?: unknown } };
+    expect(patch?.patch?.schedule).toEqual({ kind: "after", jobId: "fetch-job", on: "error" });
+  });
+
+  it("adds announce conditions and clears them on edit", async () => {
+    resetGatewayMock();
+    const program = buildProgram();
+
+    await program.parseAsync(
+      [
+        "cron",
+        "add",
+        "--name",
+        "status page",
+        "--every",
+        "1h",
+        "--message",
+        "Check the status page",
+        "--on-change",
+        "--when-matches",
+        "/degraded|outage/i",
+        "--quiet-summary",
+      ],
+      { from: "user" },
+    );
+
+    const addCall = callGatewayFromCli.mock.calls.find((call) => call[0] === "cron.add");
+    const params = addCall?.[2] as { delivery?: Record<string, unknown> };
+    expect(params?.delivery).toMatchObject({
+      mode: "announce",
+      onChange: true,
+      whenMatches: { pattern: "degraded|outage", flags: "i" },
+      quietSummary: true,
+    });
+
+    const patch = await runCronEditAndGetPatch(["--no-on-change", "--clear-when-matches"]);
+    expect(patch.patch?.delivery).toEqual({ onChange: false, whenMatches: null });
+  });
+
+  it("walks every cron.runs page with filters and prints CSV", async () => {
+    resetGatewayMock();
+    const pages: Record<number, object> = {
+      0: {
+        entries: [{ ts: 3_000, jobId: "job-1", action: "finished", status: "error", error: "a,b" }],
+        total: 2,
+        hasMore: true,
+        nextOffset: 1,
+        stats: [],
+      },
+      1: {
+        entries: [{ ts: 1_000, jobId: "job-1", action: "finished", status: "error" }],
+        total: 2,
+        hasMore: false,
+        stats: [],
+      },
+    };
+    callGatewayFromCli.mockImplementation(
+      async (method: string, _opts: unknown, params?: unknown) => ({
+        ok: true,
+        params,
+        ...(method === "cron.runs" ? pages[(params as { offset: number }).offset] : {}),
+      }),
+    );
+    const { defaultRuntime } = await import("../runtime.js");
+    vi.mocked(defaultRuntime.log).mockClear();
+    const program = buildProgram();
+
+    await program.parseAsync(
+      [
+        "cron",
+        "runs",
+        "--job",
+        "job-1",
+        "--status",
+        "error",
+        "--since",
+        "2026-01-01T00:00:00Z",
+        "--limit",
+        "1",
+        "--all",
+        "--csv",
+      ],
+      { from: "user" },
+    );
+
+    const runsCalls = callGatewayFromCli.mock.calls.filter((call) => call[0] === "cron.runs");
+    expect(runsCalls.map((call) => call[2])).toEqual([
+      {
+        id: "job-1",
+        status: "error",
+        since: Date.parse("2026-01-01T00:00:00Z"),
+        until: undefined,
+        limit: 1,
+        offset: 0,
+      },
+      expect.objectContaining({ offset: 1 }),
+    ]);
+    const csv = String(vi.mocked(defaultRuntime.log).mock.calls.at(-1)?.[0]).split("\n");
+    expect(csv[0]).toMatch(/^finishedAt,jobId,status,durationMs,/);
+    expect(csv.slice(1).map((line) => line.split(",").slice(0, 3).join(","))).toEqual([
+      "1970-01-01T00:00:01.000Z,job-1,error",
+      "1970-01-01T00:00:03.000Z,job-1,error",
+    ]);
+    expect(csv[2]).toContain('"a,b"');
+  });
 });
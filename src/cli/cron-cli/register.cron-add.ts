@@ -5,11 +5,15 @@ import { sanitizeAgentId } from "../../routing/session-key.js";
 import { defaultRuntime } from "../../runtime.js";
 import type { GatewayRpcOpts } from "../gateway-rpc.js";
 import { addGatewayClientOptions, callGatewayFromCli } from "../gateway-rpc.js";
-import { parsePositiveIntOrUndefined } from "../program/helpers.js";
+import { collectOption, parsePositiveIntOrUndefined } from "../program/helpers.js";
 import {
   getCronChannelOptions,
   parseAt,
+  parseChainCondition,
+  parseDeliveryConditionOptions,
   parseDurationMs,
+  parseExclusionOptions,
+  parseTriggerOptions,
   printCronList,
   warnIfCronSchedulerDisabled,
 } from "./shared.js";
@@ -75,11 +79,39 @@ export function registerCronAddCommand(cron: Command) {
       .option("--at <when>", "Run once at time (ISO) or +duration (e.g. 20m)")
       .option("--every <duration>", "Run every duration (e.g. 10m, 1h)")
       .option("--cron <expr>", "Cron expression (5-field or 6-field with seconds)")
+      .option("--after <jobId>", "Run when another job finishes (chained job)")
+      .option("--on <status>", "Upstream status that triggers --after (ok|error|any, default ok)")
+      .option("--watch <path>", "Run when files under this path change (trigger job)")
+      .option("--watch-glob <glob>", "Only changes matching this glob fire --watch (e.g. **/*.md)")
+      .option("--debounce <duration>", "Quiet period before --watch fires (default 2s)")
+      .option("--webhook <name>", "Run on POST <hooks.path>/cron/<name> (trigger job)")
+      .option(
+        "--webhook-template <text>",
+        "Trigger data for --webhook, e.g. '{{payload.title}}' (default: JSON body)",
+      )
+      .option(
+        "--exclude-dates <range>",
+        "Skip runs on these days (YYYY-MM-DD or YYYY-MM-DD..YYYY-MM-DD, repeatable)",
+        collectOption,
+      )
+      .option("--exclude-holidays <set>", "Skip runs on public holidays (us|uk|de)", collectOption)
+      .option(
+        "--exclude-ics <path>",
+        "Skip runs on days with events in a local ICS file",
+        collectOption,
+      )
       .option("--tz <iana>", "Timezone for cron expressions (IANA)", "")
       .option("--stagger <duration>", "Cron stagger window (e.g. 30s, 5m)")
       .option("--exact", "Disable cron staggering (set stagger to 0)", false)
       .option("--system-event <text>", "System event payload (main session)")
       .option("--message <text>", "Agent message payload")
+      .option(
+        "--houdini-refresh [mode]",
+        "Houdini knowledge base refresh payload (incremental|full, default incremental)",
+      )
+      .option("--houdini-systems <list>", "Systems to refresh, comma-separated (e.g. pyro,flip)")
+      .option("--max-nodes <n>", "Max nodes annotated per Houdini refresh")
+      .option("--max-tokens <n>", "Max annotation tokens per Houdini refresh")
       .option("--thinking <level>", "Thinking level for agent jobs (off|minimal|low|medium|high)")
       .option("--model <model>", "Model override for agent jobs (provider/model or alias)")
       .option("--timeout-seconds <n>", "Timeout seconds for agent jobs")
@@ -92,6 +124,12 @@ export function registerCronAddCommand(cron: Command) {
         "Delivery destination (E.164, Telegram chatId, or Discord channel/user)",
       )
       .option("--best-effort-deliver", "Do not fail the job if delivery fails", false)
+      .option("--on-change", "Only announce when the result differs from the previous run")
+      .option(
+        "--when-matches <predicate>",
+        "Only announce matching results (/regex/flags, $.json.path, or a regex)",
+      )
+      .option("--quiet-summary", "Announce an end-of-day list of runs that were not announced")
       .option("--json", "Output JSON", false)
       .action(async (opts: GatewayRpcOpts & Record<string, unknown>, cmd?: Command) => {
         try {
@@ -105,13 +143,27 @@ export function registerCronAddCommand(cron: Command) {
             const at = typeof opts.at === "string" ? opts.at : "";
             const every = typeof opts.every === "string" ? opts.every : "";
             const cronExpr = typeof opts.cron === "string" ? opts.cron : "";
-            const chosen = [Boolean(at), Boolean(every), Boolean(cronExpr)].filter(Boolean).length;
+            const after = typeof opts.after === "string" ? opts.after.trim() : "";
+            const trigger = parseTriggerOptions(opts);
+            const chosen = [at, every, cronExpr, after, trigger].filter(Boolean).length;
             if (chosen !== 1) {
-              throw new Error("Choose exactly one schedule: --at, --every, or --cron");
+              throw new Error(
+                "Choose exactly one schedule: --at, --every, --cron, --after, --watch or --webhook",
+              );
             }
             if ((useExact || staggerRaw) && !cronExpr) {
               throw new Error("--stagger/--exact are only valid with --cron");
             }
+            const on = parseChainCondition(opts.on);
+            if (on && !after) {
+              throw new Error("--on is only valid with --after");
+            }
+            if (after) {
+              return { kind: "after" as const, jobId: after, on };
+            }
+            if (trigger) {
+              return { kind: "trigger" as const, trigger };
+            }
             if (at) {
               const atIso = parseAt(at);
               if (!atIso) {
@@ -168,14 +220,45 @@ export function registerCronAddCommand(cron: Command) {
           const payload = (() => {
             const systemEvent = typeof opts.systemEvent === "string" ? opts.systemEvent.trim() : "";
             const message = typeof opts.message === "string" ? opts.message.trim() : "";
-            const chosen = [Boolean(systemEvent), Boolean(message)].filter(Boolean).length;
+            const houdiniRefresh = opts.houdiniRefresh !== undefined;
+            const chosen = [Boolean(systemEvent), Boolean(message), houdiniRefresh].filter(
+              Boolean,
+            ).length;
             if (chosen !== 1) {
-              throw new Error("Choose exactly one payload: --system-event or --message");
+              throw new Error(
+                "Choose exactly one payload: --system-event, --message or --houdini-refresh",
+              );
             }
             if (systemEvent) {
               return { kind: "systemEvent" as const, text: systemEvent };
             }
             const timeoutSeconds = parsePositiveIntOrUndefined(opts.timeoutSeconds);
+            if (houdiniRefresh) {
+              const mode = typeof opts.houdiniRefresh === "string" ? opts.houdiniRefresh : "";
+              if (mode && mode !== "incremental" && mode !== "full") {
+                throw new Error("--houdini-refresh must be incremental or full");
+              }
+              const systems =
+                typeof opts.houdiniSystems === "string"
+                  ? opts.houdiniSystems
+                      .split(",")
+                      .map((system) => system.trim())
+                      .filter(Boolean)
+                  : [];
+              return {
+                kind: "houdiniRefresh" as const,
+                mode: mode || undefined,
+                systems: systems.length > 0 ? systems : undefined,
+                maxNodes: parsePositiveIntOrUndefined(opts.maxNodes),
+                maxTokens: parsePositiveIntOrUndefined(opts.maxTokens),
+                model:
+                  typeof opts.model === "string" && opts.model.trim()
+                    ? opts.model.trim()
+                    : undefined,
+                timeoutSeconds:
+                  timeoutSeconds && Number.isFinite(timeoutSeconds) ? timeoutSeconds : undefined,
+              };
+            }
             return {
               kind: "agentTurn" as const,
               message,
@@ -196,7 +279,7 @@ export function registerCronAddCommand(cron: Command) {
               : () => undefined;
           const sessionSource = optionSource("session");
           const sessionTargetRaw = typeof opts.session === "string" ? opts.session.trim() : "";
-          const inferredSessionTarget = payload.kind === "agentTurn" ? "isolated" : "main";
+          const inferredSessionTarget = payload.kind === "systemEvent" ? "main" : "isolated";
           const sessionTarget =
             sessionSource === "cli" ? sessionTargetRaw || "" : inferredSessionTarget;
           if (sessionTarget !== "main" && sessionTarget !== "isolated") {
@@ -210,24 +293,30 @@ export function registerCronAddCommand(cron: Command) {
           if (sessionTarget === "main" && payload.kind !== "systemEvent") {
             throw new Error("Main jobs require --system-event (systemEvent).");
           }
-          if (sessionTarget === "isolated" && payload.kind !== "agentTurn") {
-            throw new Error("Isolated jobs require --message (agentTurn).");
+          if (sessionTarget === "isolated" && payload.kind === "systemEvent") {
+            throw new Error("Isolated jobs require --message (agentTurn) or --houdini-refresh.");
           }
           if (
             (opts.announce || typeof opts.deliver === "boolean") &&
-            (sessionTarget !== "isolated" || payload.kind !== "agentTurn")
+            (sessionTarget !== "isolated" || payload.kind === "systemEvent")
           ) {
             throw new Error("--announce/--no-deliver require --session isolated.");
           }
 
           const deliveryMode =
-            sessionTarget === "isolated" && payload.kind === "agentTurn"
+            sessionTarget === "isolated" && payload.kind !== "systemEvent"
               ? hasAnnounce
                 ? "announce"
                 : hasNoDeliver
                   ? "none"
                   : "announce"
               : undefined;
+          const deliveryConditions = parseDeliveryConditionOptions(opts);
+          if (deliveryConditions && deliveryMode !== "announce") {
+            throw new Error(
+              "--on-change/--when-matches/--quiet-summary require announce delivery (--session isolated).",
+            );
+          }
 
           const nameRaw = typeof opts.name === "string" ? opts.name : "";
           const name = nameRaw.trim();
@@ -250,6 +339,7 @@ export function registerCronAddCommand(cron: Command) {
             sessionTarget,
             wakeMode,
             payload,
+            exclusions: parseExclusionOptions(opts),
             delivery: deliveryMode
               ? {
                   mode: deliveryMode,
@@ -259,6 +349,7 @@ export function registerCronAddCommand(cron: Command) {
                       : undefined,
                   to: typeof opts.to === "string" && opts.to.trim() ? opts.to.trim() : undefined,
                   bestEffort: opts.bestEffortDeliver ? true : undefined,
+                  ...deliveryConditions,
                 }
               : undefined,
           };
@@ -4,10 +4,15 @@ import { danger } from "../../globals.js";
 import { sanitizeAgentId } from "../../routing/session-key.js";
 import { defaultRuntime } from "../../runtime.js";
 import { addGatewayClientOptions, callGatewayFromCli } from "../gateway-rpc.js";
+import { collectOption, parsePositiveIntOrUndefined } from "../program/helpers.js";
 import {
   getCronChannelOptions,
   parseAt,
+  parseChainCondition,
+  parseDeliveryConditionOptions,
   parseDurationMs,
+  parseExclusionOptions,
+  parseTriggerOptions,
   warnIfCronSchedulerDisabled,
 } from "./shared.js";
 
@@ -41,11 +46,37 @@ export function registerCronEditCommand(cron: Command) {
       .option("--at <when>", "Set one-shot time (ISO) or duration like 20m")
       .option("--every <duration>", "Set interval duration like 10m")
       .option("--cron <expr>", "Set cron expression")
+      .option("--after <jobId>", "Run when another job finishes (chained job)")
+      .option("--on <status>", "Upstream status that triggers chained runs (ok|error|any)")
+      .option("--watch <path>", "Run when files under this path change (trigger job)")
+      .option("--watch-glob <glob>", "Only changes matching this glob fire --watch")
+      .option("--debounce <duration>", "Quiet period before --watch fires (default 2s)")
+      .option("--webhook <name>", "Run on POST <hooks.path>/cron/<name> (trigger job)")
+      .option("--webhook-template <text>", "Trigger data for --webhook (default: JSON body)")
+      .option(
+        "--exclude-dates <range>",
+        "Replace exclusions: skip these days (YYYY-MM-DD[..YYYY-MM-DD], repeatable)",
+        collectOption,
+      )
+      .option(
+        "--exclude-holidays <set>",
+        "Replace exclusions: skip public holidays (us|uk|de)",
+        collectOption,
+      )
+      .option(
+        "--exclude-ics <path>",
+        "Replace exclusions: skip days with ICS events",
+        collectOption,
+      )
+      .option("--clear-exclusions", "Remove all calendar exclusions", false)
       .option("--tz <iana>", "Timezone for cron expressions (IANA)")
       .option("--stagger <duration>", "Cron stagger window (e.g. 30s, 5m)")
       .option("--exact", "Disable cron staggering (set stagger to 0)")
       .option("--system-event <text>", "Set systemEvent payload")
       .option("--message <text>", "Set agentTurn payload message")
+      .option("--houdini-systems <list>", "Set Houdini refresh systems (comma-separated)")
+      .option("--max-nodes <n>", "Set max nodes annotated per Houdini refresh")
+      .option("--max-tokens <n>", "Set max annotation tokens per Houdini refresh")
       .option("--thinking <level>", "Thinking level for agent jobs")
       .option("--model <model>", "Model override for agent jobs")
       .option("--timeout-seconds <n>", "Timeout seconds for agent jobs")
@@ -59,6 +90,15 @@ export function registerCronEditCommand(cron: Command) {
       )
       .option("--best-effort-deliver", "Do not fail job if delivery fails")
       .option("--no-best-effort-deliver", "Fail job when delivery fails")
+      .option("--on-change", "Only announce when the result differs from the previous run")
+      .option("--no-on-change", "Announce every result again")
+      .option(
+        "--when-matches <predicate>",
+        "Only announce matching results (/regex/flags, $.json.path, or a regex)",
+      )
+      .option("--clear-when-matches", "Remove the --when-matches predicate", false)
+      .option("--quiet-summary", "Announce an end-of-day list of runs that were not announced")
+      .option("--no-quiet-summary", "Stop sending the end-of-day quiet summary")
       .action(async (id, opts) => {
         try {
           if (opts.session === "main" && opts.message) {
@@ -134,16 +174,23 @@ export function registerCronEditCommand(cron: Command) {
             patch.agentId = null;
           }
 
-          const scheduleChosen = [opts.at, opts.every, opts.cron].filter(Boolean).length;
+          const trigger = parseTriggerOptions(opts);
+          const scheduleChosen = [opts.at, opts.every, opts.cron, opts.after, trigger].filter(
+            Boolean,
+          ).length;
           if (scheduleChosen > 1) {
             throw new Error("Choose at most one schedule change");
           }
           if (
             (requestedStaggerMs !== undefined || typeof opts.tz === "string") &&
-            (opts.at || opts.every)
+            (opts.at || opts.every || opts.after || trigger)
           ) {
             throw new Error("--stagger/--exact/--tz are only valid for cron schedules");
           }
+          const chainOn = parseChainCondition(opts.on);
+          if (chainOn && (opts.at || opts.every || opts.cron || trigger)) {
+            throw new Error("--on is only valid for chained (--after) schedules");
+          }
           if (opts.at) {
             const atIso = parseAt(String(opts.at));
             if (!atIso) {
@@ -156,6 +203,10 @@ export function registerCronEditCommand(cron: Command) {
               throw new Error("Invalid --every");
             }
             patch.schedule = { kind: "every", everyMs };
+          } else if (typeof opts.after === "string" && opts.after.trim()) {
+            patch.schedule = { kind: "after", jobId: opts.after.trim(), on: chainOn };
+          } else if (trigger) {
+            patch.schedule = { kind: "trigger", trigger };
           } else if (opts.cron) {
             patch.schedule = {
               kind: "cron",
@@ -183,6 +234,28 @@ export function registerCronEditCommand(cron: Command) {
               staggerMs:
                 requestedStaggerMs !== undefined ? requestedStaggerMs : existing.schedule.staggerMs,
             };
+          } else if (chainOn) {
+            const listed = (await callGatewayFromCli("cron.list", opts, {
+              includeDisabled: true,
+            })) as { jobs?: CronJob[] } | null;
+            const existing = (listed?.jobs ?? []).find((job) => job.id === id);
+            if (!existing) {
+              throw new Error(`unknown cron job id: ${id}`);
+            }
+            if (existing.schedule.kind !== "after") {
+              throw new Error("Current job is not chained; use --after to convert first");
+            }
+            patch.schedule = { kind: "after", jobId: existing.schedule.jobId, on: chainOn };
+          }
+
+          const exclusions = parseExclusionOptions(opts);
+          if (exclusions && opts.clearExclusions) {
+            throw new Error("Use --exclude-* or --clear-exclusions, not both");
+          }
+          if (exclusions) {
+            patch.exclusions = exclusions;
+          } else if (opts.clearExclusions) {
+            patch.exclusions = [];
           }
 
           const hasSystemEventPatch = typeof opts.systemEvent === "string";
@@ -199,6 +272,17 @@ export function registerCronEditCommand(cron: Command) {
           const hasDeliveryModeFlag = opts.announce || typeof opts.deliver === "boolean";
           const hasDeliveryTarget = typeof opts.channel === "string" || typeof opts.to === "string";
           const hasBestEffort = typeof opts.bestEffortDeliver === "boolean";
+          const maxNodes = parsePositiveIntOrUndefined(opts.maxNodes);
+          const maxTokens = parsePositiveIntOrUndefined(opts.maxTokens);
+          const houdiniSystems =
+            typeof opts.houdiniSystems === "string"
+              ? opts.houdiniSystems
+                  .split(",")
+                  .map((system: string) => system.trim())
+                  .filter(Boolean)
+              : [];
+          const hasHoudiniRefreshPatch =
+            maxNodes !== undefined || maxTokens !== undefined || houdiniSystems.length > 0;
           const hasAgentTurnPatch =
             typeof opts.message === "string" ||
             Boolean(model) ||
@@ -207,10 +291,21 @@ export function registerCronEditCommand(cron: Command) {
             hasDeliveryModeFlag ||
             hasDeliveryTarget ||
             hasBestEffort;
-          if (hasSystemEventPatch && hasAgentTurnPatch) {
+          if (
+            (hasSystemEventPatch && hasAgentTurnPatch) ||
+            (hasHoudiniRefreshPatch && (hasSystemEventPatch || typeof opts.message === "string"))
+          ) {
             throw new Error("Choose at most one payload change");
           }
-          if (hasSystemEventPatch) {
+          if (hasHoudiniRefreshPatch) {
+            const payload: Record<string, unknown> = { kind: "houdiniRefresh" };
+            assignIf(payload, "systems", houdiniSystems, houdiniSystems.length > 0);
+            assignIf(payload, "maxNodes", maxNodes, maxNodes !== undefined);
+            assignIf(payload, "maxTokens", maxTokens, maxTokens !== undefined);
+            assignIf(payload, "model", model, Boolean(model));
+            assignIf(payload, "timeoutSeconds", timeoutSeconds, hasTimeoutSeconds);
+            patch.payload = payload;
+          } else if (hasSystemEventPatch) {
             patch.payload = {
               kind: "systemEvent",
               text: String(opts.systemEvent),
@@ -245,6 +340,13 @@ export function registerCronEditCommand(cron: Command) {
             }
             patch.delivery = delivery;
           }
+          const deliveryConditions = parseDeliveryConditionOptions(opts);
+          if (deliveryConditions) {
+            patch.delivery = {
+              ...(patch.delivery as Record<string, unknown> | undefined),
+              ...deliveryConditions,
+            };
+          }
 
           const res = await callGatewayFromCli("cron.update", opts, {
             id,
@@ -1,8 +1,17 @@
 import type { Command } from "commander";
+import type { CronRunLogPage } from "../../cron/run-log.js";
+import type { CronJob } from "../../cron/types.js";
 import { danger } from "../../globals.js";
 import { defaultRuntime } from "../../runtime.js";
 import { addGatewayClientOptions, callGatewayFromCli } from "../gateway-rpc.js";
-import { warnIfCronSchedulerDisabled } from "./shared.js";
+import { parsePositiveIntOrUndefined } from "../program/helpers.js";
+import {
+  formatCronRunStatsCsv,
+  formatCronRunsCsv,
+  parseRunStatusOption,
+  parseRunsTimeOption,
+  warnIfCronSchedulerDisabled,
+} from "./shared.js";
 
 export function registerCronSimpleCommands(cron: Command) {
   addGatewayClientOptions(
@@ -68,17 +77,67 @@ export function registerCronSimpleCommands(cron: Command) {
     cron
       .command("runs")
       .description("Show cron run history (JSONL-backed)")
-      .requiredOption("--id <id>", "Job id")
-      .option("--limit <n>", "Max entries (default 50)", "50")
+      .option("--job <id>", "Job id (default: all jobs)")
+      .option("--id <id>", "Alias for --job")
+      .option("--status <status>", "Only runs with this status (ok|error|skipped)")
+      .option("--since <when>", "Runs finished at/after this time (ISO) or duration ago like 7d")
+      .option("--until <when>", "Runs finished before this time (ISO) or duration ago like 1d")
+      .option("--limit <n>", "Max entries per page (default 50)", "50")
+      .option("--offset <n>", "Skip this many newest matching entries", "0")
+      .option("--all", "Fetch every matching page", false)
+      .option("--stats", "Print per-job stats (success rate, p50/p95 duration, tokens)", false)
+      .option("--csv", "Print CSV instead of JSON", false)
       .action(async (opts) => {
         try {
-          const limitRaw = Number.parseInt(String(opts.limit ?? "50"), 10);
-          const limit = Number.isFinite(limitRaw) && limitRaw > 0 ? limitRaw : 50;
-          const id = String(opts.id);
-          const res = await callGatewayFromCli("cron.runs", opts, {
-            id,
-            limit,
-          });
+          if (opts.job && opts.id && opts.job !== opts.id) {
+            throw new Error("Use --job or --id, not both");
+          }
+          const jobId = String(opts.job ?? opts.id ?? "").trim();
+          const limit = parsePositiveIntOrUndefined(opts.limit) ?? 50;
+          const offsetRaw = Number.parseInt(String(opts.offset ?? "0"), 10);
+          if (!Number.isFinite(offsetRaw) || offsetRaw < 0) {
+            throw new Error("Invalid --offset; use a non-negative integer");
+          }
+          const query = {
+            ...(jobId ? { id: jobId } : {}),
+            status: parseRunStatusOption(opts.status),
+            since: parseRunsTimeOption(opts.since, "--since"),
+            until: parseRunsTimeOption(opts.until, "--until"),
+            limit: Math.min(limit, 5000),
+          };
+          const fetchPage = async (offset: number) =>
+            (await callGatewayFromCli("cron.runs", opts, { ...query, offset })) as CronRunLogPage;
+
+          let res = await fetchPage(offsetRaw);
+          if (opts.all) {
+            // Pages walk back in time; prepend older pages to keep entries oldest first.
+            let entries = res.entries;
+            let page = res;
+            while (page.hasMore && page.nextOffset !== undefined) {
+              page = await fetchPage(page.nextOffset);
+              entries = [...page.entries, ...entries];
+            }
+            res = { ...res, entries, hasMore: false, nextOffset: undefined };
+          }
+
+          if (opts.stats) {
+            if (!opts.csv) {
+              defaultRuntime.log(JSON.stringify({ total: res.total, stats: res.stats }, null, 2));
+              return;
+            }
+            const jobNames = await callGatewayFromCli("cron.list", opts, { includeDisabled: true })
+              .then((list) => {
+                const jobs = (list as { jobs?: CronJob[] } | null)?.jobs ?? [];
+                return new Map(jobs.map((job) => [job.id, job.name]));
+              })
+              .catch(() => undefined);
+            defaultRuntime.log(formatCronRunStatsCsv(res.stats, jobNames).trimEnd());
+            return;
+          }
+          if (opts.csv) {
+            defaultRuntime.log(formatCronRunsCsv(res.entries).trimEnd());
+            return;
+          }
           defaultRuntime.log(JSON.stringify(res, null, 2));
         } catch (err) {
           defaultRuntime.error(danger(String(err)));
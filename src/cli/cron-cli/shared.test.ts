@@ -1,7 +1,7 @@
 import { describe, expect, it } from "vitest";
 import type { CronJob } from "../../cron/types.js";
 import type { RuntimeEnv } from "../../runtime.js";
-import { printCronList } from "./shared.js";
+import { formatCronRunsCsv, printCronList } from "./shared.js";
 
 describe("printCronList", () => {
   it("handles job with undefined sessionTarget (#9649)", () => {
@@ -110,4 +110,60 @@ describe("printCronList", () => {
     printCronList([job], mockRuntime);
     expect(logs.some((line) => line.includes("(exact)"))).toBe(true);
   });
+
+  it("shows the upstream job name for chained schedules", () => {
+    const logs: string[] = [];
+    const mockRuntime = {
+      log: (msg: string) => logs.push(msg),
+      error: () => {},
+      exit: () => {},
+    } as RuntimeEnv;
+
+    const base = {
+      enabled: true,
+      createdAtMs: Date.now(),
+      updatedAtMs: Date.now(),
+      sessionTarget: "isolated",
+      wakeMode: "now",
+      payload: { kind: "agentTurn", message: "go" },
+      state: {},
+    } as const;
+    const upstream: CronJob = {
+      ...base,
+      id: "fetch-job",
+      name: "Fetch",
+      schedule: { kind: "every", everyMs: 60_000 },
+    };
+    const downstream: CronJob = {
+      ...base,
+      id: "report-job",
+      name: "Report",
+      schedule: { kind: "after", jobId: "fetch-job", on: "error" },
+    };
+
+    printCronList([upstream, downstream], mockRuntime);
+    expect(logs.some((line) => line.includes("after Fetch (on error)"))).toBe(true);
+  });
+});
+
+describe("formatCronRunsCsv", () => {
+  it("neutralizes cells that spreadsheets would evaluate as formulas", () => {
+    const csv = formatCronRunsCsv([
+      {
+        ts: 1_000,
+        jobId: "job-1",
+        action: "finished",
+        status: "error",
+        durationMs: 5,
+        error: '=HYPERLINK("http://example.test","x")',
+        summary: "@SUM(A1:A2)",
+      },
+      { ts: 2_000, jobId: "job-1", action: "finished", status: "ok", summary: "-1 item, +2 items" },
+    ]).split("\n");
+
+    expect(csv[1]).toBe(
+      `1970-01-01T00:00:01.000Z,job-1,error,5,,,,,,,"'=HYPERLINK(""http://example.test"",""x"")",'@SUM(A1:A2)`,
+    );
+    expect(csv[2]).toBe(`1970-01-01T00:00:02.000Z,job-1,ok,,,,,,,,,"'-1 item, +2 items"`);
+  });
 });
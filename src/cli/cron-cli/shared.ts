@@ -1,7 +1,17 @@
 import { listChannelPlugins } from "../../channels/plugins/index.js";
+import { assertValidCronDeliveryMatch, parseCronDeliveryMatch } from "../../cron/delivery.js";
 import { parseAbsoluteTimeMs } from "../../cron/parse.js";
+import type { CronRunLogEntry, CronRunStats } from "../../cron/run-log.js";
 import { resolveCronStaggerMs } from "../../cron/stagger.js";
-import type { CronJob, CronSchedule } from "../../cron/types.js";
+import type {
+  CronChainCondition,
+  CronDeliveryPatch,
+  CronExclusion,
+  CronJob,
+  CronRunStatus,
+  CronSchedule,
+  CronTrigger,
+} from "../../cron/types.js";
 import { formatDurationHuman } from "../../infra/format-time/format-duration.ts";
 import { defaultRuntime } from "../../runtime.js";
 import { colorize, isRich, theme } from "../../terminal/theme.js";
@@ -78,6 +88,218 @@ export function parseAt(input: string): string | null {
   return null;
 }
 
+export function parseChainCondition(input: unknown): CronChainCondition | undefined {
+  const raw = typeof input === "string" ? input.trim().toLowerCase() : "";
+  if (!raw) {
+    return undefined;
+  }
+  if (raw !== "ok" && raw !== "error" && raw !== "any") {
+    throw new Error("--on must be ok, error or any");
+  }
+  return raw;
+}
+
+/**
+ * Build a trigger from `--watch` (with `--watch-glob`/`--debounce`) or
+ * `--webhook` (with `--webhook-template`). Returns undefined when neither is set.
+ */
+export function parseTriggerOptions(opts: Record<string, unknown>): CronTrigger | undefined {
+  const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+  const watch = text(opts.watch);
+  const webhook = text(opts.webhook);
+  if (watch && webhook) {
+    throw new Error("Choose --watch or --webhook, not both");
+  }
+  const glob = text(opts.watchGlob);
+  const debounce = text(opts.debounce);
+  if ((glob || debounce) && !watch) {
+    throw new Error("--watch-glob/--debounce are only valid with --watch");
+  }
+  const template = typeof opts.webhookTemplate === "string" ? opts.webhookTemplate : "";
+  if (template && !webhook) {
+    throw new Error("--webhook-template is only valid with --webhook");
+  }
+  if (watch) {
+    const debounceMs = debounce ? parseDurationMs(debounce) : undefined;
+    if (debounceMs === null) {
+      throw new Error("Invalid --debounce; use e.g. 500ms, 5s, 1m");
+    }
+    return { kind: "file", path: watch, glob: glob || undefined, debounceMs };
+  }
+  if (webhook) {
+    return { kind: "webhook", name: webhook, template: template || undefined };
+  }
+  return undefined;
+}
+
+/**
+ * Build calendar exclusions from `--exclude-dates`, `--exclude-holidays` and
+ * `--exclude-ics`. Returns undefined when none of them were given.
+ */
+export function parseExclusionOptions(opts: Record<string, unknown>): CronExclusion[] | undefined {
+  const list = (value: unknown) =>
+    (Array.isArray(value) ? value : []).map((entry) => String(entry).trim()).filter(Boolean);
+  const dates = list(opts.excludeDates).map((range): CronExclusion => {
+    const [from, to] = range.split("..").map((part) => part.trim());
+    if (!from) {
+      throw new Error("Invalid --exclude-dates; use YYYY-MM-DD or YYYY-MM-DD..YYYY-MM-DD");
+    }
+    return { kind: "dates", from, to: to || undefined };
+  });
+  const holidays = list(opts.excludeHolidays).map(
+    (set): CronExclusion => ({ kind: "holidays", set: set.toLowerCase() }),
+  );
+  const calendars = list(opts.excludeIcs).map((path): CronExclusion => ({ kind: "ics", path }));
+  const exclusions = [...dates, ...holidays, ...calendars];
+  return exclusions.length > 0 ? exclusions : undefined;
+}
+
+/**
+ * Build delivery conditions from `--on-change`, `--when-matches` and
+ * `--quiet-summary` (and the `--no-*` / `--clear-when-matches` forms on edit).
+ * Returns undefined when none of them were given.
+ */
+export function parseDeliveryConditionOptions(
+  opts: Record<string, unknown>,
+): Pick<CronDeliveryPatch, "onChange" | "whenMatches" | "quietSummary"> | undefined {
+  const conditions: Pick<CronDeliveryPatch, "onChange" | "whenMatches" | "quietSummary"> = {};
+  if (typeof opts.onChange === "boolean") {
+    conditions.onChange = opts.onChange;
+  }
+  if (typeof opts.quietSummary === "boolean") {
+    conditions.quietSummary = opts.quietSummary;
+  }
+  const raw = typeof opts.whenMatches === "string" ? opts.whenMatches.trim() : "";
+  if (raw && opts.clearWhenMatches) {
+    throw new Error("Use --when-matches or --clear-when-matches, not both");
+  }
+  if (raw) {
+    const match = parseCronDeliveryMatch(raw);
+    assertValidCronDeliveryMatch(match);
+    conditions.whenMatches = match;
+  } else if (opts.clearWhenMatches) {
+    conditions.whenMatches = null;
+  }
+  return Object.keys(conditions).length > 0 ? conditions : undefined;
+}
+
+/** Parse `--since`/`--until`: an absolute time, or a duration like 7d meaning that long ago. */
+export function parseRunsTimeOption(input: unknown, flag: string, nowMs = Date.now()) {
+  const raw = typeof input === "string" ? input.trim() : "";
+  if (!raw) {
+    return undefined;
+  }
+  const absolute = parseAbsoluteTimeMs(raw);
+  if (absolute !== null) {
+    return absolute;
+  }
+  const dur = parseDurationMs(raw);
+  if (dur !== null) {
+    return Math.max(0, nowMs - dur);
+  }
+  throw new Error(`Invalid ${flag}; use an ISO time or a duration like 24h, 7d`);
+}
+
+export function parseRunStatusOption(input: unknown): CronRunStatus | undefined {
+  const raw = typeof input === "string" ? input.trim().toLowerCase() : "";
+  if (!raw) {
+    return undefined;
+  }
+  if (raw !== "ok" && raw !== "error" && raw !== "skipped") {
+    throw new Error("--status must be ok, error or skipped");
+  }
+  return raw;
+}
+
+type CsvValue = string | number | undefined;
+
+const csvCell = (value: CsvValue) => {
+  if (value === undefined) {
+    return "";
+  }
+  // Spreadsheets run text cells that start with a formula character; quote them as text.
+  const text = typeof value === "string" && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: CsvValue[][]) =>
+  `${[header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n")}\n`;
+
+const isoOrEmpty = (ms: number | undefined) =>
+  typeof ms === "number" ? new Date(ms).toISOString() : "";
+
+export function formatCronRunsCsv(entries: CronRunLogEntry[]) {
+  return toCsv(
+    [
+      "finishedAt",
+      "jobId",
+      "status",
+      "durationMs",
+      "runAt",
+      "model",
+      "provider",
+      "inputTokens",
+      "outputTokens",
+      "totalTokens",
+      "error",
+      "summary",
+    ],
+    entries.map((entry) => [
+      isoOrEmpty(entry.ts),
+      entry.jobId,
+      entry.status,
+      entry.durationMs,
+      isoOrEmpty(entry.runAtMs),
+      entry.model,
+      entry.provider,
+      entry.usage?.input_tokens,
+      entry.usage?.output_tokens,
+      entry.usage?.total_tokens,
+      entry.error,
+      entry.summary,
+    ]),
+  );
+}
+
+export function formatCronRunStatsCsv(stats: CronRunStats[], jobNames?: Map<string, string>) {
+  return toCsv(
+    [
+      "jobId",
+      "name",
+      "runs",
+      "ok",
+      "error",
+      "skipped",
+      "successRate",
+      "p50DurationMs",
+      "p95DurationMs",
+      "maxDurationMs",
+      "inputTokens",
+      "outputTokens",
+      "totalTokens",
+      "firstRunAt",
+      "lastRunAt",
+    ],
+    stats.map((row) => [
+      row.jobId,
+      jobNames?.get(row.jobId),
+      row.runs,
+      row.ok,
+      row.error,
+      row.skipped,
+      row.successRate === undefined ? undefined : row.successRate.toFixed(4),
+      row.durationMs?.p50,
+      row.durationMs?.p95,
+      row.durationMs?.max,
+      row.usage.input_tokens,
+      row.usage.output_tokens,
+      row.usage.total_tokens,
+      isoOrEmpty(row.firstRunAtMs),
+      isoOrEmpty(row.lastRunAtMs),
+    ]),
+  );
+}
+
 const CRON_ID_PAD = 36;
 const CRON_NAME_PAD = 24;
 const CRON_SCHEDULE_PAD = 32;
@@ -131,7 +353,18 @@ const formatRelative = (ms: number | null | undefined, nowMs: number) => {
   return delta >= 0 ? `in ${label}` : `${label} ago`;
 };
 
-const formatSchedule = (schedule: CronSchedule) => {
+const formatSchedule = (schedule: CronSchedule, jobNames: ReadonlyMap<string, string>) => {
+  if (schedule.kind === "after") {
+    const upstream = jobNames.get(schedule.jobId) ?? schedule.jobId;
+    return `after ${upstream} (on ${schedule.on ?? "ok"})`;
+  }
+  if (schedule.kind === "trigger") {
+    const { trigger } = schedule;
+    if (trigger.kind === "webhook") {
+      return `webhook ${trigger.name}`;
+    }
+    return trigger.glob ? `watch ${trigger.path} (${trigger.glob})` : `watch ${trigger.path}`;
+  }
   if (schedule.kind === "at") {
     return `at ${formatIsoMinute(schedule.at)}`;
   }
@@ -176,12 +409,13 @@ export function printCronList(jobs: CronJob[], runtime = defaultRuntime) {
 
   runtime.log(rich ? theme.heading(header) : header);
   const now = Date.now();
+  const jobNames = new Map(jobs.map((job) => [job.id, job.name]));
 
   for (const job of jobs) {
     const idLabel = pad(job.id, CRON_ID_PAD);
     const nameLabel = pad(truncate(job.name, CRON_NAME_PAD), CRON_NAME_PAD);
     const scheduleLabel = pad(
-      truncate(formatSchedule(job.schedule), CRON_SCHEDULE_PAD),
+      truncate(formatSchedule(job.schedule, jobNames), CRON_SCHEDULE_PAD),
       CRON_SCHEDULE_PAD,
     );
     const nextLabel = pad(
@@ -0,0 +1,244 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { Command } from "commander";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+const { initDatabase, ingestAll, querySemanticSearch } = vi.hoisted(() => ({
+  initDatabase: vi.fn(),
+  ingestAll: vi.fn(),
+  querySemanticSearch: vi.fn(),
+}));
+const loadConfig = vi.fn(() => ({ houdini: { dbPath: "/data/houdini/houdini_kb.db" } }));
+
+vi.mock("../config/config.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../config/config.js")>()),
+  loadConfig,
+}));
+
+vi.mock("../houdini-claw/db.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../houdini-claw/db.js")>()),
+  initDatabase,
+}));
+
+vi.mock("../houdini-claw/ingest.js", () => ({
+  ingestAll,
+}));
+
+vi.mock("../houdini-claw/query.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../houdini-claw/query.js")>()),
+  querySemanticSearch,
+}));
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  initDatabase.mockReset();
+  ingestAll.mockReset();
+  querySemanticSearch.mockReset();
+  process.exitCode = undefined;
+});
+
+describe("houdini cli", () => {
+  function mockKnowledgeBase(kb: Record<string, unknown> = {}) {
+    const close = vi.fn();
+    initDatabase.mockResolvedValue({ close, ...kb });
+    return close;
+  }
+
+  async function runHoudiniCli(args: string[]) {
+    const { registerHoudiniCli } = await import("./houdini-cli.js");
+    const program = new Command();
+    program.name("test");
+    registerHoudiniCli(program);
+    await program.parseAsync(["houdini", ...args], { from: "user" });
+  }
+
+  it("prints coverage as JSON from the configured knowledge base", async () => {
+    const { defaultRuntime } = await import("../runtime.js");
+    const close = mockKnowledgeBase({
+      getCoverageReport: () => [
+        { system: "pyro", annotated_nodes: 2, verified_nodes: 1, annotated_params: 9 },
+      ],
+      getCoverageSnapshot: () => [{ system: "pyro", total_nodes: 12 }],
+    });
+
+    const log = vi.spyOn(defaultRuntime, "log").mockImplementation(() => {});
+    await runHoudiniCli(["coverage", "--json"]);
+
+    expect(initDatabase).toHaveBeenCalledWith("/data/houdini/houdini_kb.db");
+    const payload = JSON.parse(String(log.mock.calls[0]?.[0]));
+    expect(payload.coverage[0]).toMatchObject({ system: "pyro", annotated_nodes: 2 });
+    expect(payload.by_system[0]).toMatchObject({ total_nodes: 12 });
+    expect(close).toHaveBeenCalled();
+  });
+
+  it("ingests from the refresh work dir next to the database by default", async () => {
+    const { defaultRuntime } = await import("../runtime.js");
+    ingestAll.mockResolvedValue({ ingested: 3, errors: 0, invalid: 0 });
+
+    const log = vi.spyOn(defaultRuntime, "log").mockImplementation(() => {});
+    await runHoudiniCli(["ingest", "--db", "/tmp/kb/houdini_kb.db", "--skip-vectors", "--json"]);
+
+    expect(ingestAll).toHaveBeenCalledWith(
+      expect.objectContaining({
+        inputDir: "/tmp/kb/refresh/annotated",
+        dbPath: "/tmp/kb/houdini_kb.db",
+        rebuildVectors: false,
+        onProgress: expect.any(Function),
+      }),
+    );
+    expect(JSON.parse(String(log.mock.calls[0]?.[0]))).toMatchObject({ ingested: 3 });
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it("renders search results and passes search options", async () => {
+    const { defaultRuntime } = await import("../runtime.js");
+    mockKnowledgeBase();
+    querySemanticSearch.mockResolvedValue({
+      query: "smoke dissipates",
+      results: [
+        {
+          score: "0.9120",
+          type: "parameter",
+          node: "pyro_solver",
+          system: "pyro",
+          text: "Dissipation controls how fast smoke fades",
+        },
+      ],
+    });
+
+    const log = vi.spyOn(defaultRuntime, "log").mockImplementation(() => {});
+    await runHoudiniCli([
+      "query",
+      "smoke",
+      "dissipates",
+      "--system",
+      "pyro",
+      "--top-k",
+      "3",
+      "--houdini-version",
+      "20.0",
+    ]);
+
+    expect(querySemanticSearch).toHaveBeenCalledWith(
+      expect.anything(),
+      "smoke dissipates",
+      3,
+      "pyro",
+      "20.0",
+    );
+    expect(log).toHaveBeenCalledWith(expect.stringContaining("pyro_solver"));
+    expect(log).toHaveBeenCalledWith(
+      expect.stringContaining("Dissipation controls how fast smoke fades"),
+    );
+  });
+
+  it("reports query errors and sets the exit code", async () => {
+    const { defaultRuntime } = await import("../runtime.js");
+    mockKnowledgeBase({
+      listNodeVersions: () => [],
+      listSemanticNames: () => [],
+      getNodeAnnotation: () => undefined,
+    });
+
+    const error = vi.spyOn(defaultRuntime, "error").mockImplementation(() => {});
+    await runHoudiniCli(["query", "--node", "missing_node"]);
+
+    expect(error).toHaveBeenCalledWith(expect.stringContaining("missing_node"));
+    expect(process.exitCode).toBe(1);
+  });
+
+  it("requires --set for review edits", async () => {
+    const { defaultRuntime } = await import("../runtime.js");
+    const error = vi.spyOn(defaultRuntime, "error").mockImplementation(() => {});
+
+    await runHoudiniCli(["review", "edit", "pyro_solver", "dissipation"]);
+
+    expect(error).toHaveBeenCalledWith(
+      "Houdini review failed: edit needs at least one --set column=value",
+    );
+    expect(initDatabase).not.toHaveBeenCalled();
+    expect(process.exitCode).toBe(1);
+  });
+  it("seeds a real knowledge base", async () => {
+    const { defaultRuntime } = await import("../runtime.js");
+    const actual =
+      await vi.importActual<typeof import("../houdini-claw/db.js")>("../houdini-claw/db.js");
+    initDatabase.mockImplementation(actual.initDatabase);
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "houdini-cli-seed-"));
+    const dbPath = path.join(tempDir, "houdini_kb.db");
+
+    try {
+      const error = vi.spyOn(defaultRuntime, "error").mockImplementation(() => {});
+      const log = vi.spyOn(defaultRuntime, "log").mockImplementation(() => {});
+      await runHoudiniCli(["seed", "--db", dbPath, "--json"]);
+
+      expect(process.exitCode).toBeUndefined();
+      expect(error).toHaveBeenCalledWith("[seed] Seeding Pyro Solver...");
+      expect(log).toHaveBeenCalledTimes(1);
+      const payload = JSON.parse(String(log.mock.calls[0]?.[0]));
+      expect(payload.coverage).toEqual(
+        expect.arrayContaining([expect.objectContaining({ system: "DOP", verified_nodes: 3 })]),
+      );
+
+      const kb = await actual.initDatabase(dbPath);
+      expect(kb.getParameterAnnotation("pyro_solver", "dissipation")).toMatchObject({
+        human_verified: 1,
+        safe_range_max: 0.5,
+      });
+      kb.close();
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("exports a bundle and imports it into another knowledge base", async () => {
+    const { defaultRuntime } = await import("../runtime.js");
+    const actual =
+      await vi.importActual<typeof import("../houdini-claw/db.js")>("../houdini-claw/db.js");
+    initDatabase.mockImplementation(actual.initDatabase);
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "houdini-cli-bundle-"));
+    const sourceDb = path.join(tempDir, "source.db");
+    const targetDb = path.join(tempDir, "target.db");
+    const bundleDir = path.join(tempDir, "bundle");
+
+    try {
+      const source = await actual.initDatabase(sourceDb);
+      source.upsertNodeAnnotation({
+        node_name: "pyro_solver",
+        node_category: "DOP",
+        one_line: "Sparse pyro solver",
+        annotation_yaml: "",
+        annotated_at: "2026-01-01T00:00:00Z",
+        annotation_model: "test",
+      });
+      source.close();
+
+      const log = vi.spyOn(defaultRuntime, "log").mockImplementation(() => {});
+      const error = vi.spyOn(defaultRuntime, "error").mockImplementation(() => {});
+      await runHoudiniCli(["export", bundleDir, "--unsigned", "--db", sourceDb, "--json"]);
+      expect(JSON.parse(String(log.mock.calls[0]?.[0]))).toMatchObject({
+        outputDir: bundleDir,
+        houdini_versions: ["20.5"],
+        rows: { node_annotations: 1 },
+      });
+
+      await runHoudiniCli(["import", bundleDir, "--db", targetDb]);
+      expect(error).toHaveBeenCalledWith("Houdini import failed: Bundle is not signed");
+      expect(process.exitCode).toBe(1);
+      process.exitCode = undefined;
+
+      await runHoudiniCli(["import", bundleDir, "--allow-unsigned", "--db", targetDb]);
+      expect(log).toHaveBeenLastCalledWith(
+        expect.stringContaining("node_annotations: 1 inserted, 0 replaced, 0 kept"),
+      );
+      expect(process.exitCode).toBeUndefined();
+
+      const target = await actual.initDatabase(targetDb);
+      expect(target.getNodeAnnotation("pyro_solver")?.one_line).toBe("Sparse pyro solver");
+      target.close();
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
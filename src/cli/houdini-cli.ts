@@ -0,0 +1,912 @@
+import path from "node:path";
+import type { Command } from "commander";
+import { loadConfig, type OpenClawConfig } from "../config/config.js";
+import { annotateAll } from "../houdini-claw/annotate.js";
+import { exportBundle, importBundle, type BundleImportReport } from "../houdini-claw/bundle.js";
+import { runCrawl } from "../houdini-claw/crawl.js";
+import { initDatabase, resolveDbPath, type KnowledgeBase } from "../houdini-claw/db.js";
+import {
+  discoverNodePaths,
+  groupNodePathsBySystem,
+  parseDiscoverySource,
+} from "../houdini-claw/discover.js";
+import type { EmbeddingProviderOptions } from "../houdini-claw/embedding-providers.js";
+import { ingestAll } from "../houdini-claw/ingest.js";
+import type { PipelineLog } from "../houdini-claw/pipeline-log.js";
+import {
+  queryCoverage,
+  queryDiagnose,
+  queryNode,
+  queryParam,
+  queryRecipe,
+  querySemanticSearch,
+  type QueryResult,
+} from "../houdini-claw/query.js";
+import { resolveRefreshWorkDir } from "../houdini-claw/refresh.js";
+import {
+  getReviewItem,
+  listReviewQueue,
+  resolveReviewer,
+  reviewAnnotation,
+  type ReviewAction,
+  type ReviewTarget,
+} from "../houdini-claw/review.js";
+import { seedDatabase } from "../houdini-claw/seed.js";
+import { defaultRuntime } from "../runtime.js";
+import { formatDocsLink } from "../terminal/links.js";
+import { renderTable } from "../terminal/table.js";
+import { colorize, isRich, theme } from "../terminal/theme.js";
+import { resolveUserPath, shortenHomePath } from "../utils.js";
+import { formatErrorMessage } from "./cli-utils.js";
+import { formatHelpExamples } from "./help-format.js";
+import { collectOption } from "./program/helpers.js";
+import { withProgressTotals } from "./progress.js";
+
+type HoudiniCommandOptions = {
+  db?: string;
+  json?: boolean;
+};
+
+type HoudiniCrawlOptions = HoudiniCommandOptions & {
+  mode?: string;
+  output?: string;
+  system?: string;
+  offlineDocs?: string;
+  discover?: string;
+  useDiscovered?: boolean;
+};
+
+type HoudiniAnnotateOptions = HoudiniCommandOptions & {
+  input?: string;
+  output?: string;
+  model?: string;
+  fallback?: string;
+  force?: boolean;
+  stale?: boolean;
+  maxNodes?: number;
+  maxTokens?: number;
+};
+
+type HoudiniIngestOptions = HoudiniCommandOptions & {
+  input?: string;
+  houdiniVersion?: string;
+  skipVectors?: boolean;
+  resetVectors?: boolean;
+  embeddingProvider?: string;
+  embeddingModel?: string;
+  embeddingBatch?: boolean;
+};
+
+type HoudiniQueryOptions = HoudiniCommandOptions & {
+  node?: string;
+  param?: string;
+  system?: string;
+  topK?: number;
+  houdiniVersion?: string;
+  summary?: boolean;
+  recipe?: boolean;
+  tags?: string;
+  diagnose?: boolean;
+};
+
+type HoudiniReviewOptions = HoudiniCommandOptions & {
+  houdiniVersion?: string;
+  reviewer?: string;
+  notes?: string;
+  set?: string[];
+  rawDir?: string;
+};
+
+type HoudiniExportOptions = HoudiniCommandOptions & {
+  houdiniVersion?: string;
+  embeddings?: boolean;
+  unsigned?: boolean;
+};
+
+type HoudiniImportOptions = HoudiniCommandOptions & {
+  trust?: string;
+  allowUntrusted?: boolean;
+  allowUnsigned?: boolean;
+  dryRun?: boolean;
+};
+
+// Row shapes the renderers read; the query layer hands them over as plain records.
+
+type SearchResultRow = {
+  node?: string;
+  node_label?: string | null;
+  system?: string | null;
+  type?: string;
+  score?: number;
+  text?: string | null;
+};
+
+type DiagnosisCauseRow = {
+  cause?: string;
+  learned_probability?: number | string;
+  fix?: string | null;
+};
+
+type ReviewQueueRow = {
+  node_name: string;
+  param_name?: string | null;
+  houdini_version?: string | null;
+  confidence_score?: number | null;
+  lookups?: number | null;
+  review_status?: string | null;
+};
+
+type ReviewLogRow = {
+  action: string;
+  reviewer: string;
+  notes?: string | null;
+  created_at: string;
+};
+
+const DB_OPTION_DESCRIPTION = "Knowledge base file (default: houdini.dbPath or the state dir)";
+
+function resolveHoudiniDbPath(opts: HoudiniCommandOptions, cfg: OpenClawConfig): string {
+  return opts.db ? resolveUserPath(opts.db) : resolveDbPath(cfg);
+}
+
+function splitList(value?: string): string[] | undefined {
+  const items = value
+    ?.split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items && items.length > 0 ? items : undefined;
+}
+
+function fail(label: string, err: unknown) {
+  defaultRuntime.error(`Houdini ${label} failed: ${formatErrorMessage(err)}`);
+  process.exitCode = 1;
+}
+
+/**
+ * Progress sink for the pipeline modules; warnings, failures and (with --json)
+ * everything else go to stderr so stdout stays parseable.
+ */
+function pipelineLog(json: boolean | undefined): PipelineLog {
+  return (message, level = "info") =>
+    json || level !== "info" ? defaultRuntime.error(message) : defaultRuntime.log(message);
+}
+
+async function withKnowledgeBase(
+  dbPath: string,
+  run: (kb: KnowledgeBase) => Promise<void> | void,
+): Promise<void> {
+  const kb = await initDatabase(dbPath);
+  try {
+    await run(kb);
+  } finally {
+    kb.close();
+  }
+}
+
+function printJson(value: unknown) {
+  defaultRuntime.log(JSON.stringify(value, null, 2));
+}
+
+/** Query results carry errors in an `error` field; report them and set the exit code. */
+function printQueryResult(result: QueryResult, opts: HoudiniCommandOptions, render: () => void) {
+  if (opts.json) {
+    printJson(result);
+  } else if (typeof result.error === "string" && !result.fallback) {
+    defaultRuntime.error(result.error);
+    if (typeof result.suggestion === "string") {
+      defaultRuntime.error(result.suggestion);
+    }
+  } else {
+    render();
+  }
+  if (typeof result.error === "string" && !result.fallback) {
+    process.exitCode = 1;
+  }
+}
+
+// ── Rendering ──────────────────────────────────────────────
+
+function formatSearchResults(result: QueryResult): string {
+  const rich = isRich();
+  const results = (result.results ?? []) as SearchResultRow[];
+  const lines: string[] = [];
+  if (typeof result.warning === "string") {
+    lines.push(colorize(rich, theme.warn, result.warning));
+  }
+  if (result.fallback && typeof result.error === "string") {
+    lines.push(colorize(rich, theme.warn, result.error));
+  }
+  if (results.length === 0) {
+    lines.push("No matches.");
+    return lines.join("\n");
+  }
+  for (const entry of results) {
+    const label = entry.node_label ? ` (${entry.node_label})` : "";
+    const where = [entry.system, entry.type].filter(Boolean).join(" · ");
+    lines.push(
+      `${colorize(rich, theme.success, String(entry.score))} ${colorize(
+        rich,
+        theme.accent,
+        `${entry.node ?? ""}${label}`,
+      )}${where ? ` ${colorize(rich, theme.muted, where)}` : ""}`,
+    );
+    if (entry.text) {
+      lines.push(colorize(rich, theme.muted, entry.text));
+    }
+    lines.push("");
+  }
+  return lines.join("\n").trim();
+}
+
+function formatDiagnosis(result: QueryResult): string {
+  const rich = isRich();
+  const patterns = (result.patterns ?? []) as Array<Record<string, unknown>>;
+  const lines: string[] = [];
+  for (const pattern of patterns) {
+    lines.push(
+      `${colorize(rich, theme.success, String(pattern.rank_score))} ${colorize(
+        rich,
+        theme.accent,
+        String(pattern.pattern_id),
+      )} ${colorize(rich, theme.muted, `${String(pattern.system)} · ${String(pattern.severity)}`)}`,
+    );
+    const symptoms = (pattern.symptoms ?? []) as string[];
+    if (symptoms.length > 0) {
+      lines.push(`  ${symptoms.join("; ")}`);
+    }
+    const causes = (pattern.root_causes ?? []) as DiagnosisCauseRow[];
+    causes.forEach((cause, index) => {
+      lines.push(
+        `  ${index + 1}. ${String(cause.cause)} ${colorize(
+          rich,
+          theme.muted,
+          `(${String(cause.learned_probability)})`,
+        )}`,
+      );
+      if (cause.fix) {
+        lines.push(`     ${colorize(rich, theme.info, cause.fix)}`);
+      }
+    });
+    lines.push("");
+  }
+  return lines.join("\n").trim();
+}
+
+function formatCoverage(result: QueryResult): string {
+  const coverage = (result.coverage ?? []) as Array<Record<string, unknown>>;
+  if (coverage.length === 0) {
+    return "Knowledge base is empty. Run `openclaw houdini seed` or `openclaw houdini ingest`.";
+  }
+  const snapshot = (result.by_system ?? []) as Array<Record<string, unknown>>;
+  const totals = new Map(snapshot.map((row) => [String(row.system), Number(row.total_nodes)]));
+  const rows = coverage.map((row) => {
+    const total = totals.get(String(row.system));
+    return {
+      System: String(row.system),
+      Nodes: total ? `${String(row.annotated_nodes)}/${total}` : String(row.annotated_nodes),
+      "Verified nodes": String(row.verified_nodes),
+      Params: String(row.annotated_params),
+      "Verified params": String(row.verified_params),
+    };
+  });
+  return [
+    theme.heading("Houdini knowledge base coverage"),
+    renderTable({
+      width: Math.max(60, (process.stdout.columns ?? 120) - 1),
+      columns: [
+        { key: "System", header: "System", minWidth: 10, flex: true },
+        { key: "Nodes", header: "Nodes", align: "right" },
+        { key: "Verified nodes", header: "Verified nodes", align: "right" },
+        { key: "Params", header: "Params", align: "right" },
+        { key: "Verified params", header: "Verified params", align: "right" },
+      ],
+      rows,
+    }).trimEnd(),
+  ].join("\n");
+}
+
+function formatReviewQueue(queue: ReviewQueueRow[]): string {
+  if (queue.length === 0) {
+    return "Review queue is empty.";
+  }
+  return renderTable({
+    width: Math.max(60, (process.stdout.columns ?? 120) - 1),
+    columns: [
+      { key: "Target", header: "Target", minWidth: 20, flex: true },
+      { key: "Version", header: "Version" },
+      { key: "Confidence", header: "Confidence", align: "right" },
+      { key: "Lookups", header: "Lookups", align: "right" },
+      { key: "Status", header: "Status" },
+    ],
+    rows: queue.map((item) => ({
+      Target: item.param_name ? `${item.node_name}/${item.param_name}` : item.node_name,
+      Version: item.houdini_version ?? "",
+      Confidence: item.confidence_score == null ? "" : String(item.confidence_score),
+      Lookups: String(item.lookups ?? 0),
+      Status: item.review_status ?? "pending",
+    })),
+  }).trimEnd();
+}
+
+function formatImportReport(report: BundleImportReport, inputDir: string): string {
+  const rich = isRich();
+  const source = report.signer
+    ? `${report.signer}${report.trusted ? "" : " (untrusted)"}`
+    : "an unsigned bundle";
+  const lines = [
+    `${report.dryRun ? "Would import" : "Imported"} ${shortenHomePath(inputDir)} from ${source}:`,
+  ];
+  for (const [table, counts] of Object.entries(report.tables)) {
+    lines.push(
+      `  ${table}: ${counts.inserted} inserted, ${counts.replaced} replaced, ${counts.kept} kept${counts.failed > 0 ? `, ${counts.failed} failed` : ""}`,
+    );
+  }
+  for (const table of report.skipped) {
+    lines.push(`  ${table}: skipped (needs a trusted signer)`);
+  }
+  for (const warning of report.warnings) {
+    lines.push(colorize(rich, theme.warn, warning));
+  }
+  return lines.join("\n");
+}
+
+function parseEdits(assignments: string[] = []): Record<string, string> {
+  const edits: Record<string, string> = {};
+  for (const assignment of assignments) {
+    const eq = assignment.indexOf("=");
+    if (eq <= 0) {
+      throw new Error(`--set expects column=value, got "${assignment}"`);
+    }
+    edits[assignment.slice(0, eq)] = assignment.slice(eq + 1);
+  }
+  return edits;
+}
+
+// ── Commands ───────────────────────────────────────────────
+
+export function registerHoudiniCli(program: Command) {
+  const houdini = program
+    .command("houdini")
+    .description("Build and query the Houdini knowledge base")
+    .addHelpText(
+      "after",
+      () =>
+        `\n${theme.heading("Examples:")}\n${formatHelpExamples([
+          ["openclaw houdini seed", "Seed the core nodes with verified annotations."],
+          ["openclaw houdini crawl --mode incremental", "Fetch new and changed doc pages."],
+          ["openclaw houdini annotate --stale --max-nodes 20", "Re-annotate changed nodes."],
+          ["openclaw houdini ingest", "Load annotations and rebuild the search index."],
+          ['openclaw houdini query "smoke dissipates too fast"', "Search the knowledge base."],
+          ["openclaw houdini query --node pyro_solver --param dissipation", "Parameter lookup."],
+          ["openclaw houdini coverage --json", "Per-system coverage as JSON."],
+          ["openclaw houdini review queue", "List annotations awaiting review."],
+          ["openclaw houdini export ./houdini-kb-bundle", "Write a signed bundle."],
+          [
+            "openclaw houdini import ./houdini-kb-bundle --trust <device-id>",
+            "Merge a bundle from another machine.",
+          ],
+        ])}\n\n${theme.muted("Docs:")} ${formatDocsLink("/cli/houdini", "docs.openclaw.ai/cli/houdini")}\n`,
+    );
+
+  houdini
+    .command("crawl")
+    .description("Fetch Houdini node documentation pages")
+    .option("--mode <mode>", "full or incremental (conditional requests)", "full")
+    .option("--output <dir>", "Raw page directory (default: refresh/raw next to the database)")
+    .option("--system <list>", "Comma-separated systems to crawl (default: all)")
+    .option("--offline-docs <path>", "Local help directory or archive instead of sidefx.com")
+    .option("--discover <source>", "Discover node pages first: site, a directory or a .zip")
+    .option("--use-discovered", "Crawl the node pages found by an earlier discovery", false)
+    .option("--db <path>", DB_OPTION_DESCRIPTION)
+    .option("--json", "Print JSON")
+    .action(async (opts: HoudiniCrawlOptions) => {
+      try {
+        if (opts.mode !== "full" && opts.mode !== "incremental") {
+          throw new Error(`--mode must be full or incremental, got "${opts.mode}"`);
+        }
+        const mode = opts.mode;
+        const dbPath = resolveHoudiniDbPath(opts, loadConfig());
+        const outputDir = opts.output
+          ? resolveUserPath(opts.output)
+          : path.join(resolveRefreshWorkDir(dbPath), "raw");
+        await withKnowledgeBase(dbPath, async (kb) => {
+          let nodePaths: Record<string, string[]> | undefined;
+          if (opts.discover) {
+            const discovered = await discoverNodePaths(parseDiscoverySource(opts.discover));
+            nodePaths = groupNodePathsBySystem(discovered);
+          } else if (opts.useDiscovered) {
+            nodePaths = kb.getDiscoveredNodePaths();
+          }
+          const { report, pages } = await withProgressTotals(
+            { label: "Crawling Houdini docs…", total: 0 },
+            async (update) =>
+              await runCrawl({
+                mode,
+                outputDir,
+                systems: splitList(opts.system),
+                nodePaths,
+                kb,
+                offlineDocs: opts.offlineDocs,
+                onProgress: (completed, total, nodeName) =>
+                  update({ completed, total, label: `Crawling ${nodeName}…` }),
+                log: pipelineLog(opts.json),
+              }),
+          );
+          if (opts.json) {
+            printJson({ outputDir, pages: pages.length, report });
+            return;
+          }
+          defaultRuntime.log(
+            `Crawled ${report.added.length + report.changed.length + report.unchanged.length + report.failed.length} pages → ${shortenHomePath(outputDir)}: added ${report.added.length}, changed ${report.changed.length}, unchanged ${report.unchanged.length}, failed ${report.failed.length}.`,
+          );
+          if (report.staleNodes.length > 0) {
+            defaultRuntime.log(
+              `Stale annotations: ${report.staleNodes.join(", ")} (run \`openclaw houdini annotate --stale\`)`,
+            );
+          }
+        });
+      } catch (err) {
+        fail("crawl", err);
+      }
+    });
+
+  houdini
+    .command("annotate")
+    .description("Annotate crawled pages with the configured model")
+    .option("--input <dir>", "Raw page directory (default: refresh/raw next to the database)")
+    .option(
+      "--output <dir>",
+      "Annotation directory (default: refresh/annotated next to the database)",
+    )
+    .option("--model <ref>", "Model ref or alias (default: agents.defaults.model)")
+    .option("--fallback <list>", "Comma-separated fallback model refs")
+    .option("--force", "Re-annotate pages that already have an annotation", false)
+    .option("--stale", "Re-annotate nodes whose docs changed since they were annotated", false)
+    .option("--max-nodes <n>", "Stop after this many nodes", (value: string) => Number(value))
+    .option("--max-tokens <n>", "Stop after this many tokens", (value: string) => Number(value))
+    .option("--db <path>", DB_OPTION_DESCRIPTION)
+    .option("--json", "Print JSON")
+    .action(async (opts: HoudiniAnnotateOptions) => {
+      try {
+        const cfg = loadConfig();
+        const dbPath = resolveHoudiniDbPath(opts, cfg);
+        const workDir = resolveRefreshWorkDir(dbPath);
+        const inputDir = opts.input ? resolveUserPath(opts.input) : path.join(workDir, "raw");
+        const outputDir = opts.output
+          ? resolveUserPath(opts.output)
+          : path.join(workDir, "annotated");
+        let reannotate: string[] | undefined;
+        if (opts.stale) {
+          await withKnowledgeBase(dbPath, (kb) => {
+            reannotate = [...new Set(kb.listStaleAnnotations().map((row) => row.node_name))];
+          });
+        }
+        const result = await withProgressTotals(
+          { label: "Annotating pages…", total: 0 },
+          async (update) =>
+            await annotateAll({
+              inputDir,
+              outputDir,
+              model: opts.model,
+              fallbacks: splitList(opts.fallback),
+              cfg,
+              force: opts.force,
+              reannotate,
+              maxNodes: opts.maxNodes,
+              maxTokens: opts.maxTokens,
+              onProgress: (completed, total, file) =>
+                update({ completed, total, label: `Annotating ${file}…` }),
+              log: pipelineLog(opts.json),
+            }),
+        );
+        if (opts.json) {
+          printJson({ outputDir, stale: reannotate, ...result });
+          return;
+        }
+        defaultRuntime.log(
+          `Annotated ${result.annotated} pages → ${shortenHomePath(outputDir)}: ${result.errors} errors, ${result.skipped} skipped, ${result.deferred} deferred, ${result.usage.total} tokens${result.model ? ` (${result.model})` : ""}.`,
+        );
+        if (result.errors > 0) {
+          process.exitCode = 1;
+        }
+      } catch (err) {
+        fail("annotate", err);
+      }
+    });
+
+  houdini
+    .command("ingest")
+    .description("Load annotations into the knowledge base and rebuild the search index")
+    .option(
+      "--input <dir>",
+      "Annotation directory (default: refresh/annotated next to the database)",
+    )
+    .option("--houdini-version <version>", "Version for files that don't declare one")
+    .option("--skip-vectors", "Skip the vector index rebuild", false)
+    .option("--reset-vectors", "Drop existing vectors first (after switching models)", false)
+    .option("--embedding-provider <provider>", "Embedding provider (default: memorySearch)")
+    .option("--embedding-model <model>", "Embedding model")
+    .option("--embedding-batch", "Embed through provider batch jobs", false)
+    .option("--db <path>", DB_OPTION_DESCRIPTION)
+    .option("--json", "Print JSON")
+    .action(async (opts: HoudiniIngestOptions) => {
+      try {
+        const cfg = loadConfig();
+        const dbPath = resolveHoudiniDbPath(opts, cfg);
+        const inputDir = opts.input
+          ? resolveUserPath(opts.input)
+          : path.join(resolveRefreshWorkDir(dbPath), "annotated");
+        const result = await withProgressTotals(
+          { label: "Ingesting annotations…", total: 0 },
+          async (update, progress) =>
+            await ingestAll({
+              inputDir,
+              dbPath,
+              rebuildVectors: !opts.skipVectors,
+              resetVectors: opts.resetVectors,
+              houdiniVersion: opts.houdiniVersion,
+              embeddingOptions: {
+                provider: opts.embeddingProvider as EmbeddingProviderOptions["provider"],
+                model: opts.embeddingModel,
+                batch: opts.embeddingBatch || undefined,
+                cfg,
+              },
+              onProgress: (completed, total, file) => {
+                update({ completed, total, label: `Ingesting ${file}…` });
+                if (completed === total && !opts.skipVectors) {
+                  progress.setLabel("Rebuilding search index…");
+                }
+              },
+              log: pipelineLog(opts.json),
+            }),
+        );
+        if (opts.json) {
+          printJson({ dbPath, ...result });
+          return;
+        }
+        defaultRuntime.log(
+          `Ingested ${result.ingested} annotations into ${shortenHomePath(dbPath)}: ${result.errors} errors (${result.invalid} failed validation).`,
+        );
+        if (result.errors > 0) {
+          process.exitCode = 1;
+        }
+      } catch (err) {
+        fail("ingest", err);
+      }
+    });
+
+  houdini
+    .command("seed")
+    .description("Seed core nodes with human-verified annotations")
+    .option("--db <path>", DB_OPTION_DESCRIPTION)
+    .option("--json", "Print JSON")
+    .action(async (opts: HoudiniCommandOptions) => {
+      try {
+        const dbPath = resolveHoudiniDbPath(opts, loadConfig());
+        await seedDatabase(dbPath, { log: pipelineLog(opts.json) });
+        if (opts.json) {
+          await withKnowledgeBase(dbPath, (kb) => printJson({ dbPath, ...queryCoverage(kb) }));
+          return;
+        }
+        defaultRuntime.log(`Seeded ${shortenHomePath(dbPath)}.`);
+      } catch (err) {
+        fail("seed", err);
+      }
+    });
+
+  houdini
+    .command("query")
+    .description("Search the knowledge base or look up a node, parameter, recipe or error")
+    .argument("[text...]", "Search text, or symptoms with --diagnose")
+    .option("--node <name>", "Node lookup (node_name or semantic name)")
+    .option("--param <name>", "Parameter lookup on --node")
+    .option("--system <name>", "Limit to a system (pyro, flip, rbd, …)")
+    .option("--top-k <n>", "Max search results", (value: string) => Number(value), 5)
+    .option("--houdini-version <version>", "Houdini version (default: nearest annotated)")
+    .option("--summary", "Node summary instead of the full annotation", false)
+    .option("--recipe", "List recipes for --system / --tags", false)
+    .option("--tags <list>", "Comma-separated recipe tags")
+    .option("--diagnose", "Match the text against known error patterns", false)
+    .option("--db <path>", DB_OPTION_DESCRIPTION)
+    .option("--json", "Print JSON")
+    .action(async (words: string[], opts: HoudiniQueryOptions) => {
+      const text = words.join(" ").trim();
+      try {
+        const dbPath = resolveHoudiniDbPath(opts, loadConfig());
+        await withKnowledgeBase(dbPath, async (kb) => {
+          if (opts.recipe) {
+            const result = queryRecipe(kb, opts.system, splitList(opts.tags));
+            printQueryResult(result, opts, () => printJson(result));
+          } else if (opts.diagnose) {
+            const result = queryDiagnose(kb, opts.system, text || undefined);
+            printQueryResult(result, opts, () => defaultRuntime.log(formatDiagnosis(result)));
+          } else if (opts.node && opts.param) {
+            const result = queryParam(kb, opts.node, opts.param, opts.houdiniVersion);
+            printQueryResult(result, opts, () => printJson(result));
+          } else if (opts.node) {
+            const format = opts.summary ? "summary" : "full";
+            const result = queryNode(kb, opts.node, format, opts.houdiniVersion);
+            printQueryResult(result, opts, () => printJson(result));
+          } else if (text) {
+            const result = await querySemanticSearch(
+              kb,
+              text,
+              opts.topK ?? 5,
+              opts.system,
+              opts.houdiniVersion,
+            );
+            printQueryResult(result, opts, () => defaultRuntime.log(formatSearchResults(result)));
+          } else {
+            throw new Error("Pass search text, --node, --recipe or --diagnose");
+          }
+        });
+      } catch (err) {
+        fail("query", err);
+      }
+    });
+
+  houdini
+    .command("coverage")
+    .description("Show annotated and verified nodes per system")
+    .option("--db <path>", DB_OPTION_DESCRIPTION)
+    .option("--json", "Print JSON")
+    .action(async (opts: HoudiniCommandOptions) => {
+      try {
+        const dbPath = resolveHoudiniDbPath(opts, loadConfig());
+        await withKnowledgeBase(dbPath, (kb) => {
+          const result = queryCoverage(kb);
+          if (opts.json) {
+            printJson(result);
+            return;
+          }
+          defaultRuntime.log(formatCoverage(result));
+        });
+      } catch (err) {
+        fail("coverage", err);
+      }
+    });
+
+  houdini
+    .command("export")
+    .description("Write the knowledge base as a signed bundle for another machine")
+    .argument("<dir>", "Bundle directory")
+    .option("--houdini-version <version>", "Only export annotations for this Houdini version")
+    .option("--no-embeddings", "Leave out cached embeddings")
+    .option("--unsigned", "Write the manifest without signing it", false)
+    .option("--db <path>", DB_OPTION_DESCRIPTION)
+    .option("--json", "Print JSON")
+    .action(async (dir: string, opts: HoudiniExportOptions) => {
+      try {
+        const dbPath = resolveHoudiniDbPath(opts, loadConfig());
+        const outputDir = resolveUserPath(dir);
+        await withKnowledgeBase(dbPath, (kb) => {
+          const manifest = exportBundle(kb, outputDir, {
+            houdiniVersion: opts.houdiniVersion,
+            includeEmbeddings: opts.embeddings,
+            unsigned: opts.unsigned,
+          });
+          const rows = Object.fromEntries(
+            Object.entries(manifest.tables).map(([table, entry]) => [table, entry.rows]),
+          );
+          const signer = manifest.signature?.device_id;
+          if (opts.json) {
+            printJson({
+              outputDir,
+              signer,
+              houdini_versions: manifest.houdini_versions,
+              embedding: manifest.embedding,
+              rows,
+            });
+            return;
+          }
+          const total = Object.values(rows).reduce((sum, count) => sum + count, 0);
+          defaultRuntime.log(
+            `Exported ${total} rows → ${shortenHomePath(outputDir)}${signer ? `, signed by ${signer}` : " (unsigned)"}.`,
+          );
+        });
+      } catch (err) {
+        fail("export", err);
+      }
+    });
+
+  houdini
+    .command("import")
+    .description("Verify a bundle and merge it into the knowledge base")
+    .argument("<dir>", "Bundle directory")
+    .option("--trust <ids>", "Comma-separated device IDs whose bundles are trusted")
+    .option("--allow-untrusted", "Import bundles from other signers as unverified rows", false)
+    .option("--allow-unsigned", "Import unsigned bundles as unverified rows", false)
+    .option("--dry-run", "Report what would change without writing", false)
+    .option("--db <path>", DB_OPTION_DESCRIPTION)
+    .option("--json", "Print JSON")
+    .action(async (dir: string, opts: HoudiniImportOptions) => {
+      try {
+        const dbPath = resolveHoudiniDbPath(opts, loadConfig());
+        const inputDir = resolveUserPath(dir);
+        await withKnowledgeBase(dbPath, (kb) => {
+          const report = importBundle(kb, inputDir, {
+            trustedSigners: splitList(opts.trust),
+            allowUntrusted: opts.allowUntrusted,
+            allowUnsigned: opts.allowUnsigned,
+            dryRun: opts.dryRun,
+          });
+          if (opts.json) {
+            printJson(report);
+          } else {
+            defaultRuntime.log(formatImportReport(report, inputDir));
+          }
+          if (Object.values(report.tables).some((counts) => counts.failed > 0)) {
+            process.exitCode = 1;
+          }
+        });
+      } catch (err) {
+        fail("import", err);
+      }
+    });
+
+  const review = houdini.command("review").description("Review machine-generated annotations");
+
+  review
+    .command("queue")
+    .description("List unverified annotations, most looked-up first")
+    .option("--type <type>", "node or parameter")
+    .option("--category <name>", "Limit to a node category")
+    .option("--include-rejected", "Include rejected annotations", false)
+    .option("--limit <n>", "Max entries", (value: string) => Number(value), 20)
+    .option("--db <path>", DB_OPTION_DESCRIPTION)
+    .option("--json", "Print JSON")
+    .action(
+      async (
+        opts: HoudiniCommandOptions & {
+          type?: string;
+          category?: string;
+          includeRejected?: boolean;
+          limit?: number;
+        },
+      ) => {
+        try {
+          if (opts.type && opts.type !== "node" && opts.type !== "parameter") {
+            throw new Error(`--type must be node or parameter, got "${opts.type}"`);
+          }
+          const targetType = opts.type as "node" | "parameter" | undefined;
+          const dbPath = resolveHoudiniDbPath(opts, loadConfig());
+          await withKnowledgeBase(dbPath, (kb) => {
+            const queue = listReviewQueue(kb, {
+              targetType,
+              category: opts.category,
+              includeRejected: opts.includeRejected,
+              limit: opts.limit,
+            });
+            if (opts.json) {
+              printJson({ queue });
+              return;
+            }
+            defaultRuntime.log(formatReviewQueue(queue as ReviewQueueRow[]));
+          });
+        } catch (err) {
+          fail("review", err);
+        }
+      },
+    );
+
+  review
+    .command("show")
+    .description("Show an annotation with its crawled source and review history")
+    .argument("<node>", "Node name")
+    .argument("[param]", "Parameter name (omit for the node annotation)")
+    .option("--houdini-version <version>", "Houdini version (default: latest)")
+    .option("--raw-dir <dir>", "Raw page directory (default: refresh/raw next to the database)")
+    .option("--db <path>", DB_OPTION_DESCRIPTION)
+    .action(async (node: string, param: string | undefined, opts: HoudiniReviewOptions) => {
+      try {
+        const dbPath = resolveHoudiniDbPath(opts, loadConfig());
+        await withKnowledgeBase(dbPath, (kb) => {
+          const target: ReviewTarget = {
+            nodeName: node,
+            paramName: param,
+            houdiniVersion: opts.houdiniVersion,
+          };
+          const item = getReviewItem(kb, target, {
+            rawDir: opts.rawDir
+              ? resolveUserPath(opts.rawDir)
+              : path.join(resolveRefreshWorkDir(dbPath), "raw"),
+          });
+          if (!item) {
+            throw new Error(`No annotation found for ${param ? `${node}/${param}` : node}`);
+          }
+          printJson(item);
+        });
+      } catch (err) {
+        fail("review", err);
+      }
+    });
+
+  const actions: Array<{ action: ReviewAction; description: string }> = [
+    { action: "approve", description: "Mark an annotation as human-verified" },
+    { action: "edit", description: "Correct annotation fields and mark it verified" },
+    { action: "reject", description: "Reject an annotation so it leaves the queue" },
+  ];
+  for (const { action, description } of actions) {
+    const command = review
+      .command(action)
+      .description(description)
+      .argument("<node>", "Node name")
+      .argument("[param]", "Parameter name (omit for the node annotation)")
+      .option("--houdini-version <version>", "Houdini version (default: latest)")
+      .option("--reviewer <name>", "Reviewer (default: HOUDINI_CLAW_REVIEWER or the OS user)")
+      .option("--notes <text>", "Review notes");
+    if (action === "edit") {
+      command.option("--set <column=value>", "Field to change (repeatable)", collectOption, []);
+    }
+    command
+      .option("--db <path>", DB_OPTION_DESCRIPTION)
+      .option("--json", "Print JSON")
+      .action(async (node: string, param: string | undefined, opts: HoudiniReviewOptions) => {
+        try {
+          const edits = action === "edit" ? parseEdits(opts.set) : undefined;
+          if (edits && Object.keys(edits).length === 0) {
+            throw new Error("edit needs at least one --set column=value");
+          }
+          const dbPath = resolveHoudiniDbPath(opts, loadConfig());
+          await withKnowledgeBase(dbPath, (kb) => {
+            const result = reviewAnnotation(kb, {
+              nodeName: node,
+              paramName: param,
+              houdiniVersion: opts.houdiniVersion,
+              action,
+              reviewer: resolveReviewer(opts.reviewer),
+              notes: opts.notes,
+              edits,
+            });
+            if (opts.json) {
+              printJson(result);
+              return;
+            }
+            const target = result.param_name
+              ? `${result.node_name}/${result.param_name}`
+              : result.node_name;
+            const changed = Object.keys(result.changes);
+            defaultRuntime.log(
+              `${action === "reject" ? "Rejected" : action === "edit" ? "Edited" : "Approved"} ${target} (${result.houdini_version}) as ${result.reviewer}${changed.length > 0 ? `: ${changed.join(", ")}` : ""}.`,
+            );
+          });
+        } catch (err) {
+          fail("review", err);
+        }
+      });
+  }
+
+  review
+    .command("history")
+    .description("Show the review log of an annotation")
+    .argument("<node>", "Node name")
+    .argument("[param]", "Parameter name (omit for the node annotation)")
+    .option("--db <path>", DB_OPTION_DESCRIPTION)
+    .option("--json", "Print JSON")
+    .action(async (node: string, param: string | undefined, opts: HoudiniCommandOptions) => {
+      try {
+        const dbPath = resolveHoudiniDbPath(opts, loadConfig());
+        await withKnowledgeBase(dbPath, (kb) => {
+          const history = kb.getReviewHistory(node, param) as ReviewLogRow[];
+          if (opts.json) {
+            printJson({ history });
+            return;
+          }
+          if (history.length === 0) {
+            defaultRuntime.log("No reviews recorded.");
+            return;
+          }
+          const rich = isRich();
+          for (const entry of history) {
+            defaultRuntime.log(
+              `${colorize(rich, theme.muted, entry.created_at)} ${entry.action} by ${entry.reviewer}${
+                entry.notes ? ` — ${entry.notes}` : ""
+              }`,
+            );
+          }
+        });
+      } catch (err) {
+        fail("review", err);
+      }
+    });
+}
@@ -153,6 +153,15 @@ const entries: SubCliEntry[] = [
       mod.registerCronCli(program);
     },
   },
+  {
+    name: "houdini",
+    description: "Build and query the Houdini knowledge base",
+    hasSubcommands: true,
+    register: async (program) => {
+      const mod = await import("../houdini-cli.js");
+      mod.registerHoudiniCli(program);
+    },
+  },
   {
     name: "dns",
     description: "DNS helpers for wide-area discovery (Tailscale + CoreDNS)",
@@ -254,6 +254,8 @@ export const FIELD_HELP: Record<string, string> = {
   "memory.qmd.limits.timeoutMs": "Per-query timeout for QMD searches (default: 4000).",
   "memory.qmd.scope":
     "Session/channel scope for QMD recall (same syntax as session.sendPolicy; default: direct-only). Use match.rawKeyPrefix to match full agent-prefixed session keys.",
+  "houdini.dbPath":
+    "Houdini knowledge base SQLite file used by `openclaw houdini` and the houdini_kb tool (default: ~/.openclaw/houdini-claw/houdini_kb.db; HOUDINI_CLAW_DB_PATH overrides).",
   "agents.defaults.memorySearch.cache.maxEntries":
     "Optional cap on cached embeddings (best-effort).",
   "agents.defaults.memorySearch.sync.onSearch":
@@ -15,4 +15,14 @@ export type CronConfig = {
    * Default: "24h".
    */
   sessionRetention?: string | false;
+  /**
+   * Global pause window: due runs of every job are skipped while it is active.
+   * Bounds accept a day (YYYY-MM-DD, inclusive, host timezone) or an ISO timestamp.
+   */
+  pause?: {
+    /** Start of the pause (default: now). */
+    from?: string;
+    until: string;
+    reason?: string;
+  };
 };
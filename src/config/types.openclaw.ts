@@ -97,6 +97,10 @@ export type OpenClawConfig = {
   talk?: TalkConfig;
   gateway?: GatewayConfig;
   memory?: MemoryConfig;
+  houdini?: {
+    /** Houdini knowledge base file (default: ~/.openclaw/houdini-claw/houdini_kb.db). */
+    dbPath?: string;
+  };
 };
 
 export type ConfigValidationIssue = {
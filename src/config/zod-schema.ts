@@ -306,6 +306,14 @@ export const OpenClawSchema = z
         webhook: HttpUrlSchema.optional(),
         webhookToken: z.string().optional().register(sensitive),
         sessionRetention: z.union([z.string(), z.literal(false)]).optional(),
+        pause: z
+          .object({
+            from: z.string().optional(),
+            until: z.string(),
+            reason: z.string().optional(),
+          })
+          .strict()
+          .optional(),
       })
       .strict()
       .optional(),
@@ -560,6 +568,12 @@ export const OpenClawSchema = z
       .strict()
       .optional(),
     memory: MemorySchema,
+    houdini: z
+      .object({
+        dbPath: z.string().optional(),
+      })
+      .strict()
+      .optional(),
     skills: z
       .object({
         allowBundled: z.array(z.string()).optional(),
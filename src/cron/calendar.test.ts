@@ -0,0 +1,118 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import {
+  findCronExclusion,
+  findHoliday,
+  findIcsEvent,
+  isWithinCalendarRange,
+  parseIcsExclusionEvents,
+  resolveCronPauseReason,
+} from "./calendar.js";
+
+const ICS = [
+  "BEGIN:VCALENDAR",
+  "BEGIN:VEVENT",
+  "SUMMARY:Summer trip",
+  "DTSTART;VALUE=DATE:20260803",
+  "DTEND;VALUE=DATE:20260815",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "SUMMARY:Company",
+  "  anniversary",
+  "DTSTART:20200312T090000Z",
+  "DTEND:20200312T170000Z",
+  "RRULE:FREQ=YEARLY",
+  "END:VEVENT",
+  "END:VCALENDAR",
+].join("\r\n");
+
+describe("cron calendar exclusions", () => {
+  it("computes observed and substitute holidays", () => {
+    expect(findHoliday("us", "2026-11-26")?.name).toBe("Thanksgiving Day");
+    expect(findHoliday("us", "2027-07-05")?.name).toBe("Independence Day");
+    expect(findHoliday("us", "2021-12-31")?.name).toBe("New Year's Day");
+    expect(findHoliday("uk", "2026-04-03")?.name).toBe("Good Friday");
+    expect(findHoliday("uk", "2022-12-27")?.name).toBe("Christmas Day (substitute)");
+    expect(findHoliday("de", "2026-05-14")?.name).toBe("Christi Himmelfahrt");
+    expect(findHoliday("us", "2026-11-27")).toBeUndefined();
+  });
+
+  it("matches day ranges in the job timezone", () => {
+    const atMs = Date.parse("2026-08-15T02:00:00Z");
+    const range = { from: "2026-08-03", to: "2026-08-14" };
+    expect(isWithinCalendarRange({ atMs, ...range, timeZone: "America/New_York" })).toBe(true);
+    expect(isWithinCalendarRange({ atMs, ...range, timeZone: "UTC" })).toBe(false);
+    expect(isWithinCalendarRange({ atMs, from: "2026-08-15", timeZone: "UTC" })).toBe(true);
+  });
+
+  it("parses ICS events with folded lines and yearly recurrence", () => {
+    const events = parseIcsExclusionEvents(ICS, "UTC");
+    expect(events).toEqual([
+      { summary: "Summer trip", startDay: "2026-08-03", endDay: "2026-08-14", yearly: false },
+      {
+        summary: "Company anniversary",
+        startDay: "2020-03-12",
+        endDay: "2020-03-12",
+        yearly: true,
+      },
+    ]);
+    expect(findIcsEvent(events, "2026-08-14")?.summary).toBe("Summer trip");
+    expect(findIcsEvent(events, "2026-08-15")).toBeUndefined();
+    expect(findIcsEvent(events, "2027-03-12")?.summary).toBe("Company anniversary");
+  });
+
+  it("reports the first matching rule and tolerates unreadable calendars", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-cron-calendar-"));
+    try {
+      const icsPath = path.join(dir, "vacation.ics");
+      await fs.writeFile(icsPath, ICS, "utf-8");
+      const onError = vi.fn();
+      const exclusions = [
+        { kind: "ics" as const, path: path.join(dir, "missing.ics") },
+        { kind: "holidays" as const, set: "us" },
+        { kind: "ics" as const, path: icsPath },
+      ];
+
+      await expect(
+        findCronExclusion({
+          exclusions,
+          atMs: Date.parse("2026-08-05T14:00:00Z"),
+          timeZone: "UTC",
+          onError,
+        }),
+      ).resolves.toBe(`Summer trip (${icsPath})`);
+      await expect(
+        findCronExclusion({
+          exclusions,
+          atMs: Date.parse("2026-11-26T14:00:00Z"),
+          timeZone: "UTC",
+        }),
+      ).resolves.toBe("Thanksgiving Day (us holidays)");
+      await expect(
+        findCronExclusion({
+          exclusions,
+          atMs: Date.parse("2026-11-27T14:00:00Z"),
+          timeZone: "UTC",
+        }),
+      ).resolves.toBeUndefined();
+      expect(onError).toHaveBeenCalledWith(exclusions[0], expect.anything());
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("describes an active pause window", () => {
+    const pause = {
+      from: "2026-08-03T00:00:00Z",
+      until: "2026-08-14T18:00:00Z",
+      reason: "vacation",
+    };
+    expect(resolveCronPauseReason(pause, Date.parse("2026-08-10T12:00:00Z"))).toBe(
+      "paused until 2026-08-14T18:00:00Z (vacation)",
+    );
+    expect(resolveCronPauseReason(pause, Date.parse("2026-08-14T18:00:00Z"))).toBeUndefined();
+    expect(resolveCronPauseReason(undefined, Date.now())).toBeUndefined();
+  });
+});
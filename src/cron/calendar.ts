@@ -0,0 +1,405 @@
+import fs from "node:fs/promises";
+import type { CronConfig } from "../config/types.cron.js";
+import { resolveUserPath } from "../utils.js";
+import { parseAbsoluteTimeMs } from "./parse.js";
+import type { CronExclusion } from "./types.js";
+
+const DAY_RE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DAY_MS = 86_400_000;
+
+type Holiday = { day: string; name: string };
+
+function toDay(year: number, month: number, date: number): string {
+  return new Date(Date.UTC(year, month - 1, date)).toISOString().slice(0, 10);
+}
+
+function addDays(day: string, days: number): string {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function weekdayOf(day: string): number {
+  return new Date(`${day}T00:00:00Z`).getUTCDay();
+}
+
+/** Calendar day (YYYY-MM-DD) of `atMs` in `timeZone` (host timezone when omitted or invalid). */
+export function resolveCalendarDay(atMs: number, timeZone?: string): string {
+  const format = (tz?: string) => {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: tz,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    }).formatToParts(new Date(atMs));
+    const pick = (type: string) => parts.find((part) => part.type === type)?.value ?? "";
+    return `${pick("year")}-${pick("month")}-${pick("day")}`;
+  };
+  try {
+    return format(timeZone?.trim() || undefined);
+  } catch {
+    return format();
+  }
+}
+
+// Nth weekday of a month (n = -1 for the last one); weekday 0 = Sunday.
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  if (n > 0) {
+    const first = toDay(year, month, 1);
+    const offset = (weekday - weekdayOf(first) + 7) % 7;
+    return addDays(first, offset + (n - 1) * 7);
+  }
+  const last = addDays(toDay(year, month + 1, 1), -1);
+  return addDays(last, -((weekdayOf(last) - weekday + 7) % 7));
+}
+
+// Gregorian Easter Sunday (anonymous Gregorian algorithm).
+function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const date = ((h + l - 7 * m + 114) % 31) + 1;
+  return toDay(year, month, date);
+}
+
+// US federal rule: Saturday holidays are observed on Friday, Sunday ones on Monday.
+function observedUs(day: string): string {
+  const weekday = weekdayOf(day);
+  return weekday === 6 ? addDays(day, -1) : weekday === 0 ? addDays(day, 1) : day;
+}
+
+// UK rule: weekend holidays move to the next weekday that is not already a holiday.
+function withUkSubstitutes(holidays: Holiday[]): Holiday[] {
+  const taken = new Set(holidays.map((holiday) => holiday.day));
+  return holidays.map((holiday) => {
+    let day = holiday.day;
+    if (weekdayOf(day) !== 0 && weekdayOf(day) !== 6) {
+      return holiday;
+    }
+    while (weekdayOf(day) === 0 || weekdayOf(day) === 6 || taken.has(day)) {
+      day = addDays(day, 1);
+    }
+    taken.add(day);
+    return { day, name: `${holiday.name} (substitute)` };
+  });
+}
+
+export const CRON_HOLIDAY_SETS: Record<
+  string,
+  { description: string; holidays: (year: number) => Holiday[] }
+> = {
+  us: {
+    description: "US federal holidays (observed dates)",
+    holidays: (year) => [
+      { day: observedUs(toDay(year, 1, 1)), name: "New Year's Day" },
+      { day: nthWeekday(year, 1, 1, 3), name: "Martin Luther King Jr. Day" },
+      { day: nthWeekday(year, 2, 1, 3), name: "Washington's Birthday" },
+      { day: nthWeekday(year, 5, 1, -1), name: "Memorial Day" },
+      ...(year >= 2021
+        ? [{ day: observedUs(toDay(year, 6, 19)), name: "Juneteenth National Independence Day" }]
+        : []),
+      { day: observedUs(toDay(year, 7, 4)), name: "Independence Day" },
+      { day: nthWeekday(year, 9, 1, 1), name: "Labor Day" },
+      { day: nthWeekday(year, 10, 1, 2), name: "Columbus Day" },
+      { day: observedUs(toDay(year, 11, 11)), name: "Veterans Day" },
+      { day: nthWeekday(year, 11, 4, 4), name: "Thanksgiving Day" },
+      { day: observedUs(toDay(year, 12, 25)), name: "Christmas Day" },
+    ],
+  },
+  uk: {
+    description: "England and Wales bank holidays",
+    holidays: (year) => {
+      const easter = easterSunday(year);
+      return [
+        ...withUkSubstitutes([{ day: toDay(year, 1, 1), name: "New Year's Day" }]),
+        { day: addDays(easter, -2), name: "Good Friday" },
+        { day: addDays(easter, 1), name: "Easter Monday" },
+        { day: nthWeekday(year, 5, 1, 1), name: "Early May bank holiday" },
+        { day: nthWeekday(year, 5, 1, -1), name: "Spring bank holiday" },
+        { day: nthWeekday(year, 8, 1, -1), name: "Summer bank holiday" },
+        ...withUkSubstitutes([
+          { day: toDay(year, 12, 25), name: "Christmas Day" },
+          { day: toDay(year, 12, 26), name: "Boxing Day" },
+        ]),
+      ];
+    },
+  },
+  de: {
+    description: "German nationwide public holidays",
+    holidays: (year) => {
+      const easter = easterSunday(year);
+      return [
+        { day: toDay(year, 1, 1), name: "Neujahr" },
+        { day: addDays(easter, -2), name: "Karfreitag" },
+        { day: addDays(easter, 1), name: "Ostermontag" },
+        { day: toDay(year, 5, 1), name: "Tag der Arbeit" },
+        { day: addDays(easter, 39), name: "Christi Himmelfahrt" },
+        { day: addDays(easter, 50), name: "Pfingstmontag" },
+        { day: toDay(year, 10, 3), name: "Tag der Deutschen Einheit" },
+        { day: toDay(year, 12, 25), name: "1. Weihnachtstag" },
+        { day: toDay(year, 12, 26), name: "2. Weihnachtstag" },
+      ];
+    },
+  },
+};
+
+/** Holiday from a built-in set that falls on `day`, if any. */
+export function findHoliday(set: string, day: string): Holiday | undefined {
+  const holidays = CRON_HOLIDAY_SETS[set]?.holidays;
+  if (!holidays) {
+    return undefined;
+  }
+  const year = Number(day.slice(0, 4));
+  // Observed dates can cross into the neighbouring year (e.g. New Year's Day on a Saturday).
+  return [year - 1, year, year + 1]
+    .flatMap((candidate) => holidays(candidate))
+    .find((holiday) => holiday.day === day);
+}
+
+// ── Date ranges ─────────────────────────────────────────────
+
+type RangeBound = { day: string } | { ms: number };
+
+function parseRangeBound(raw: string): RangeBound | null {
+  const trimmed = raw.trim();
+  if (DAY_RE.test(trimmed)) {
+    return Number.isFinite(Date.parse(`${trimmed}T00:00:00Z`)) ? { day: trimmed } : null;
+  }
+  const ms = parseAbsoluteTimeMs(trimmed);
+  return ms === null ? null : { ms };
+}
+
+/**
+ * Whether `atMs` falls inside a range. Day bounds are inclusive calendar days
+ * in `timeZone`; timestamp bounds are instants (`to` exclusive). Without `to`
+ * the range covers the day of `from`.
+ */
+export function isWithinCalendarRange(params: {
+  atMs: number;
+  from?: string;
+  to?: string;
+  timeZone?: string;
+}): boolean {
+  const day = resolveCalendarDay(params.atMs, params.timeZone);
+  const from = params.from ? parseRangeBound(params.from) : null;
+  let to = params.to ? parseRangeBound(params.to) : null;
+  if ((params.from && !from) || (params.to && !to)) {
+    return false;
+  }
+  if (!params.to) {
+    to = from && "ms" in from ? { day: resolveCalendarDay(from.ms, params.timeZone) } : from;
+  }
+  if (from && ("day" in from ? day < from.day : params.atMs < from.ms)) {
+    return false;
+  }
+  if (to && ("day" in to ? day > to.day : params.atMs >= to.ms)) {
+    return false;
+  }
+  return Boolean(from || to);
+}
+
+// ── ICS calendars ───────────────────────────────────────────
+
+export type IcsExclusionEvent = {
+  summary: string;
+  /** First and last day the event touches (inclusive). */
+  startDay: string;
+  endDay: string;
+  /** RRULE:FREQ=YEARLY events repeat on the same days every year. */
+  yearly: boolean;
+};
+
+function parseIcsDate(
+  value: string,
+  params: string,
+  timeZone?: string,
+): { day: string; midnight: boolean } | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, date, hour, minute, second, utc] = match;
+  const day = `${year}-${month}-${date}`;
+  if (!hour || /VALUE=DATE(?!-)/i.test(params)) {
+    return { day, midnight: true };
+  }
+  if (utc) {
+    const ms = Date.parse(`${day}T${hour}:${minute}:${second}Z`);
+    const local = resolveCalendarDay(ms, timeZone);
+    return { day: local, midnight: false };
+  }
+  // TZID or floating times: the wall-clock date is close enough for day exclusions.
+  return { day, midnight: hour === "00" && minute === "00" && second === "00" };
+}
+
+/** Parse the VEVENTs of an ICS calendar into excluded day spans. */
+export function parseIcsExclusionEvents(text: string, timeZone?: string): IcsExclusionEvent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: IcsExclusionEvent[] = [];
+  let current: Record<string, { params: string; value: string }> | null = null;
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (trimmed === "BEGIN:VEVENT") {
+      current = {};
+      continue;
+    }
+    if (trimmed === "END:VEVENT") {
+      const start = current?.DTSTART
+        ? parseIcsDate(current.DTSTART.value, current.DTSTART.params, timeZone)
+        : null;
+      if (current && start) {
+        const end = current.DTEND
+          ? parseIcsDate(current.DTEND.value, current.DTEND.params, timeZone)
+          : null;
+        // All-day and midnight DTEND values are exclusive.
+        const endDay = end ? (end.midnight ? addDays(end.day, -1) : end.day) : start.day;
+        events.push({
+          summary: current.SUMMARY?.value.trim() || "event",
+          startDay: start.day,
+          endDay: endDay < start.day ? start.day : endDay,
+          yearly: /(^|;)FREQ=YEARLY(;|$)/i.test(current.RRULE?.value ?? ""),
+        });
+      }
+      current = null;
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+    const colon = trimmed.indexOf(":");
+    if (colon <= 0) {
+      continue;
+    }
+    const [name, ...params] = trimmed.slice(0, colon).split(";");
+    current[name.toUpperCase()] = { params: params.join(";"), value: trimmed.slice(colon + 1) };
+  }
+  return events;
+}
+
+function shiftYear(day: string, years: number): string {
+  return `${String(Number(day.slice(0, 4)) + years).padStart(4, "0")}${day.slice(4)}`;
+}
+
+/** ICS event that touches `day`, if any. */
+export function findIcsEvent(
+  events: IcsExclusionEvent[],
+  day: string,
+): IcsExclusionEvent | undefined {
+  return events.find((event) => {
+    if (day >= event.startDay && day <= event.endDay) {
+      return true;
+    }
+    if (!event.yearly || day < event.startDay) {
+      return false;
+    }
+    // Events can span New Year, so also try the occurrence that started last year.
+    const years = Number(day.slice(0, 4)) - Number(event.startDay.slice(0, 4));
+    return [years - 1, years].some(
+      (shift) =>
+        shift > 0 &&
+        day >= shiftYear(event.startDay, shift) &&
+        day <= shiftYear(event.endDay, shift),
+    );
+  });
+}
+
+// ── Evaluation ──────────────────────────────────────────────
+
+export function assertValidCronExclusions(exclusions: CronExclusion[] | undefined) {
+  for (const rule of exclusions ?? []) {
+    if (rule.kind === "dates") {
+      if (!parseRangeBound(rule.from ?? "") || (rule.to && !parseRangeBound(rule.to))) {
+        throw new Error(
+          `invalid cron exclusion dates: ${rule.from}${rule.to ? `..${rule.to}` : ""} (use YYYY-MM-DD or ISO timestamps)`,
+        );
+      }
+    } else if (rule.kind === "holidays") {
+      if (!CRON_HOLIDAY_SETS[rule.set]) {
+        throw new Error(
+          `unknown holiday set: ${rule.set} (available: ${Object.keys(CRON_HOLIDAY_SETS).join(", ")})`,
+        );
+      }
+    } else if (rule.kind === "ics") {
+      if (!rule.path?.trim()) {
+        throw new Error("cron ics exclusions require a path");
+      }
+    } else {
+      throw new Error(
+        `unknown cron exclusion kind: ${JSON.stringify((rule as { kind?: unknown }).kind)}`,
+      );
+    }
+  }
+}
+
+/**
+ * First exclusion rule that covers `atMs`, described for the run log.
+ * Rules that cannot be evaluated (e.g. a missing ICS file) are reported
+ * through `onError` and do not exclude the run.
+ */
+export async function findCronExclusion(params: {
+  exclusions?: CronExclusion[];
+  atMs: number;
+  timeZone?: string;
+  onError?: (rule: CronExclusion, err: unknown) => void;
+}): Promise<string | undefined> {
+  const day = resolveCalendarDay(params.atMs, params.timeZone);
+  for (const rule of params.exclusions ?? []) {
+    try {
+      if (rule.kind === "dates") {
+        if (
+          isWithinCalendarRange({
+            atMs: params.atMs,
+            from: rule.from,
+            to: rule.to,
+            timeZone: params.timeZone,
+          })
+        ) {
+          const range = rule.to ? `${rule.from}..${rule.to}` : rule.from;
+          return rule.label ? `${rule.label} (${range})` : range;
+        }
+      } else if (rule.kind === "holidays") {
+        const holiday = findHoliday(rule.set, day);
+        if (holiday) {
+          return `${holiday.name} (${rule.set} holidays)`;
+        }
+      } else if (rule.kind === "ics") {
+        const text = await fs.readFile(resolveUserPath(rule.path), "utf-8");
+        const event = findIcsEvent(parseIcsExclusionEvents(text, params.timeZone), day);
+        if (event) {
+          return `${event.summary} (${rule.path})`;
+        }
+      }
+    } catch (err) {
+      params.onError?.(rule, err);
+    }
+  }
+  return undefined;
+}
+
+/** Describe the global `cron.pause` window when it covers `atMs`. */
+export function resolveCronPauseReason(
+  pause: CronConfig["pause"],
+  atMs: number,
+): string | undefined {
+  if (!pause?.until) {
+    return undefined;
+  }
+  const within = isWithinCalendarRange({
+    atMs,
+    from: pause.from ?? new Date(0).toISOString(),
+    to: pause.until,
+  });
+  if (!within) {
+    return undefined;
+  }
+  const reason = pause.reason?.trim();
+  return `paused until ${pause.until}${reason ? ` (${reason})` : ""}`;
+}
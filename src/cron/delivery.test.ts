@@ -1,5 +1,13 @@
 import { describe, expect, it } from "vitest";
-import { resolveCronDeliveryPlan } from "./delivery.js";
+import {
+  applyCronDeliveryOutcome,
+  assertValidCronDeliveryMatch,
+  hashCronResult,
+  matchesCronDeliveryPredicate,
+  parseCronDeliveryMatch,
+  resolveCronDeliveryGate,
+  resolveCronDeliveryPlan,
+} from "./delivery.js";
 import type { CronJob } from "./types.js";
 
 function makeJob(overrides: Partial<CronJob>): CronJob {
@@ -55,3 +63,116 @@ describe("resolveCronDeliveryPlan", () => {
     expect(plan.to).toBe("https://example.invalid/cron");
   });
 });
+
+describe("cron delivery conditions", () => {
+  const announce = { mode: "announce" as const, channel: "telegram" as const, to: "123" };
+
+  it("suppresses results identical to the previous run with onChange", () => {
+    const job = makeJob({
+      delivery: { ...announce, onChange: true },
+      state: { lastResultHash: hashCronResult("All systems operational") },
+    });
+    const nowMs = Date.parse("2026-03-02T10:00:00Z");
+
+    expect(resolveCronDeliveryGate({ job, text: "All systems operational\n", nowMs })).toEqual({
+      deliver: false,
+      suppressedReason: "unchanged",
+    });
+    expect(resolveCronDeliveryGate({ job, text: "API degraded", nowMs })).toEqual({
+      deliver: true,
+      suppressedReason: undefined,
+    });
+  });
+
+  it("matches regex and JSON path predicates", () => {
+    expect(parseCronDeliveryMatch("/degraded|outage/i")).toEqual({
+      pattern: "degraded|outage",
+      flags: "i",
+    });
+    expect(parseCronDeliveryMatch(" $.status ")).toEqual({ path: "$.status" });
+    expect(matchesCronDeliveryPredicate({ pattern: "degraded", flags: "i" }, "API DEGRADED")).toBe(
+      true,
+    );
+
+    const json = '{"status":"down","checks":[{"ok":true},{"ok":false}]}';
+    expect(matchesCronDeliveryPredicate({ path: "$.status", pattern: "^down$" }, json)).toBe(true);
+    expect(matchesCronDeliveryPredicate({ path: "checks[0].ok" }, json)).toBe(true);
+    expect(matchesCronDeliveryPredicate({ path: "$.checks[1].ok" }, json)).toBe(false);
+    expect(
+      matchesCronDeliveryPredicate(
+        { path: "$.status" },
+        'Summary:\n```json\n{"status":"degraded"}\n```',
+      ),
+    ).toBe(true);
+    expect(matchesCronDeliveryPredicate({ path: "$.status" }, "not json")).toBe(false);
+
+    expect(() => assertValidCronDeliveryMatch({ pattern: "(" })).toThrow(
+      "invalid delivery.whenMatches pattern",
+    );
+    expect(() => assertValidCronDeliveryMatch({ path: "$..status" })).toThrow(
+      "invalid delivery.whenMatches path",
+    );
+    expect(() => assertValidCronDeliveryMatch({})).toThrow("requires a pattern or a path");
+  });
+
+  it("sends the quiet summary with the last run of the day", () => {
+    const job = makeJob({
+      name: "Status page",
+      schedule: { kind: "cron", expr: "0 * * * *", tz: "UTC" },
+      delivery: { ...announce, whenMatches: { pattern: "down" }, quietSummary: true },
+      state: {
+        suppressedDeliveries: [
+          {
+            runAtMs: Date.parse("2026-03-02T09:00:00Z"),
+            reason: "no match",
+            summary: "All good",
+          },
+        ],
+      },
+    });
+
+    expect(
+      resolveCronDeliveryGate({
+        job,
+        text: "Still good",
+        nowMs: Date.parse("2026-03-02T22:00:00Z"),
+      }).quietSummary,
+    ).toBeUndefined();
+    expect(
+      resolveCronDeliveryGate({
+        job,
+        text: "Still good",
+        nowMs: Date.parse("2026-03-02T23:00:00Z"),
+      }),
+    ).toEqual({
+      deliver: false,
+      suppressedReason: "no match",
+      quietSummary: [
+        'Quiet summary for "Status page": 2 run(s) not announced.',
+        "- 09:00 no match: All good",
+        "- 23:00 no match: Still good",
+      ].join("\n"),
+    });
+  });
+
+  it("records suppressed runs until the quiet summary is delivered", () => {
+    const job = makeJob({ delivery: { ...announce, onChange: true, quietSummary: true } });
+
+    applyCronDeliveryOutcome(job, {
+      runAtMs: 1,
+      resultText: "same",
+      suppressedReason: "unchanged",
+    });
+    expect(job.state.lastResultHash).toBe(hashCronResult("same"));
+    expect(job.state.suppressedDeliveries).toEqual([
+      { runAtMs: 1, reason: "unchanged", summary: "same" },
+    ]);
+
+    applyCronDeliveryOutcome(job, { runAtMs: 2, resultText: "same", quietSummaryDelivered: true });
+    expect(job.state.suppressedDeliveries).toBeUndefined();
+
+    job.delivery = announce;
+    applyCronDeliveryOutcome(job, { runAtMs: 3, resultText: "new" });
+    expect(job.state.lastResultHash).toBeUndefined();
+  });
+});
@@ -1,4 +1,14 @@
-import type { CronDeliveryMode, CronJob, CronMessageChannel } from "./types.js";
+import crypto from "node:crypto";
+import { resolveCalendarDay } from "./calendar.js";
+import { computeNextRunAtMs } from "./schedule.js";
+import type {
+  CronDelivery,
+  CronDeliveryMatch,
+  CronDeliveryMode,
+  CronJob,
+  CronMessageChannel,
+  CronSuppressedDelivery,
+} from "./types.js";
 
 export type CronDeliveryPlan = {
   mode: CronDeliveryMode;
@@ -77,3 +87,277 @@ export function resolveCronDeliveryPlan(job: CronJob): CronDeliveryPlan {
     requested,
   };
 }
+
+/** Suppressed runs kept for the quiet summary; older entries are only counted. */
+const MAX_SUPPRESSED_DELIVERIES = 100;
+const QUIET_SUMMARY_SNIPPET_CHARS = 120;
+
+export type CronDeliveryGate = {
+  /** Whether the result itself should be announced. */
+  deliver: boolean;
+  /** Why the result was not announced. */
+  suppressedReason?: string;
+  /** End-of-day quiet summary to announce along with (or instead of) the result. */
+  quietSummary?: string;
+};
+
+export function hashCronResult(text: string): string {
+  return crypto.createHash("sha256").update(text.trim()).digest("hex").slice(0, 32);
+}
+
+export function hasCronDeliveryConditions(delivery: CronDelivery | undefined): boolean {
+  return Boolean(delivery?.onChange || delivery?.whenMatches || delivery?.quietSummary);
+}
+
+const JSON_PATH_SEGMENT = /\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[(["'])(.*?)\3\]/y;
+
+function parseJsonPath(path: string): Array<string | number> | null {
+  let rest = path.trim();
+  if (rest.startsWith("$")) {
+    rest = rest.slice(1);
+  }
+  if (rest && !rest.startsWith(".") && !rest.startsWith("[")) {
+    rest = `.${rest}`;
+  }
+  const segments: Array<string | number> = [];
+  JSON_PATH_SEGMENT.lastIndex = 0;
+  while (JSON_PATH_SEGMENT.lastIndex < rest.length) {
+    const match = JSON_PATH_SEGMENT.exec(rest);
+    if (!match) {
+      return null;
+    }
+    segments.push(match[1] ?? (match[2] !== undefined ? Number(match[2]) : match[4]));
+  }
+  return segments;
+}
+
+function parseResultJson(text: string): unknown {
+  const candidates = [text.trim()];
+  const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)```/);
+  if (fenced?.[1]) {
+    candidates.push(fenced[1].trim());
+  }
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Not JSON; try the next candidate.
+    }
+  }
+  return undefined;
+}
+
+function resolveJsonPathValue(root: unknown, segments: Array<string | number>): unknown {
+  let current = root;
+  for (const segment of segments) {
+    if (current === null || typeof current !== "object") {
+      return undefined;
+    }
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Parse the `whenMatches` shorthand: `/regex/flags`, a `$.json.path`, or a
+ * bare regular expression.
+ */
+export function parseCronDeliveryMatch(raw: string): CronDeliveryMatch | undefined {
+  const trimmed = raw.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  const literal = trimmed.match(/^\/(.+)\/([a-z]*)$/);
+  if (literal) {
+    return literal[2] ? { pattern: literal[1], flags: literal[2] } : { pattern: literal[1] };
+  }
+  return trimmed.startsWith("$") ? { path: trimmed } : { pattern: trimmed };
+}
+
+/**
+ * Validate `delivery.whenMatches` so bad patterns fail at add/update time
+ * instead of silently suppressing every run.
+ */
+export function assertValidCronDeliveryMatch(match: CronDeliveryMatch | undefined) {
+  if (!match) {
+    return;
+  }
+  if (!match.pattern && !match.path) {
+    throw new Error("delivery.whenMatches requires a pattern or a path");
+  }
+  if (match.path !== undefined && !parseJsonPath(match.path)) {
+    throw new Error(`invalid delivery.whenMatches path: ${match.path}`);
+  }
+  if (match.pattern !== undefined) {
+    try {
+      new RegExp(match.pattern, match.flags);
+    } catch (err) {
+      throw new Error(`invalid delivery.whenMatches pattern: ${String(err)}`, { cause: err });
+    }
+  }
+}
+
+/**
+ * Test a result against `whenMatches`. With a `path`, the result is parsed as
+ * JSON (or a fenced json block) and the value there must match `pattern`, or
+ * be present and truthy when no pattern is set.
+ */
+export function matchesCronDeliveryPredicate(match: CronDeliveryMatch, text: string): boolean {
+  let subject = text;
+  if (match.path) {
+    const segments = parseJsonPath(match.path);
+    const value = segments ? resolveJsonPathValue(parseResultJson(text), segments) : undefined;
+    if (value === undefined || value === null || value === false || value === "") {
+      return false;
+    }
+    if (!match.pattern) {
+      return true;
+    }
+    subject = typeof value === "string" ? value : JSON.stringify(value);
+  }
+  try {
+    return new RegExp(match.pattern ?? "", match.flags).test(subject);
+  } catch {
+    return false;
+  }
+}
+
+function clipSnippet(text: string | undefined): string | undefined {
+  const snippet = text?.replace(/\s+/g, " ").trim();
+  if (!snippet) {
+    return undefined;
+  }
+  return snippet.length > QUIET_SUMMARY_SNIPPET_CHARS
+    ? `${snippet.slice(0, QUIET_SUMMARY_SNIPPET_CHARS - 1)}…`
+    : snippet;
+}
+
+function resolveDeliveryTimeZone(job: CronJob) {
+  return job.schedule.kind === "cron" ? job.schedule.tz : undefined;
+}
+
+function formatRunTime(atMs: number, timeZone: string | undefined, today: string) {
+  const format = (tz?: string) =>
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: tz,
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).format(new Date(atMs));
+  let time: string;
+  try {
+    time = format(timeZone?.trim() || undefined);
+  } catch {
+    time = format();
+  }
+  const day = resolveCalendarDay(atMs, timeZone);
+  return day === today ? time : `${day} ${time}`;
+}
+
+// The quiet summary goes out with the last run of the day, or with the first
+// run after a day that ended with suppressed runs (event-driven schedules).
+function isQuietSummaryDue(job: CronJob, pending: CronSuppressedDelivery[], nowMs: number) {
+  const timeZone = resolveDeliveryTimeZone(job);
+  const today = resolveCalendarDay(nowMs, timeZone);
+  if (pending.some((entry) => resolveCalendarDay(entry.runAtMs, timeZone) !== today)) {
+    return true;
+  }
+  if (job.schedule.kind === "after" || job.schedule.kind === "trigger") {
+    return false;
+  }
+  let nextRunAtMs: number | undefined;
+  try {
+    nextRunAtMs = computeNextRunAtMs(job.schedule, nowMs + 1);
+  } catch {
+    nextRunAtMs = undefined;
+  }
+  return nextRunAtMs === undefined || resolveCalendarDay(nextRunAtMs, timeZone) !== today;
+}
+
+function formatQuietSummary(job: CronJob, pending: CronSuppressedDelivery[], nowMs: number) {
+  const timeZone = resolveDeliveryTimeZone(job);
+  const today = resolveCalendarDay(nowMs, timeZone);
+  const lines = pending.map((entry) => {
+    const when = formatRunTime(entry.runAtMs, timeZone, today);
+    return `- ${when} ${entry.reason}${entry.summary ? `: ${entry.summary}` : ""}`;
+  });
+  const name = job.name?.trim() || job.id;
+  return [`Quiet summary for "${name}": ${pending.length} run(s) not announced.`, ...lines].join(
+    "\n",
+  );
+}
+
+/**
+ * Decide whether an isolated run's result is announced, based on
+ * `delivery.onChange`, `delivery.whenMatches` and `delivery.quietSummary`.
+ */
+export function resolveCronDeliveryGate(params: {
+  job: CronJob;
+  text: string;
+  nowMs: number;
+}): CronDeliveryGate {
+  const { job, nowMs } = params;
+  const delivery = job.delivery;
+  const text = params.text.trim();
+  let suppressedReason: string | undefined;
+  if (delivery?.onChange && job.state.lastResultHash === hashCronResult(text)) {
+    suppressedReason = "unchanged";
+  } else if (delivery?.whenMatches && !matchesCronDeliveryPredicate(delivery.whenMatches, text)) {
+    suppressedReason = "no match";
+  }
+  if (!delivery?.quietSummary) {
+    return { deliver: !suppressedReason, suppressedReason };
+  }
+
+  const pending = [...(job.state.suppressedDeliveries ?? [])];
+  if (suppressedReason) {
+    pending.push({ runAtMs: nowMs, reason: suppressedReason, summary: clipSnippet(text) });
+  }
+  if (pending.length === 0 || !isQuietSummaryDue(job, pending, nowMs)) {
+    return { deliver: !suppressedReason, suppressedReason };
+  }
+  return {
+    deliver: !suppressedReason,
+    suppressedReason,
+    quietSummary: formatQuietSummary(job, pending, nowMs),
+  };
+}
+
+/**
+ * Record the delivery outcome of a finished run: the result hash for
+ * `onChange`, and the suppressed runs pending for the quiet summary.
+ */
+export function applyCronDeliveryOutcome(
+  job: CronJob,
+  outcome: {
+    runAtMs: number;
+    resultText?: string;
+    suppressedReason?: string;
+    quietSummaryDelivered?: boolean;
+  },
+) {
+  if (!hasCronDeliveryConditions(job.delivery)) {
+    // Conditions were removed; drop their bookkeeping.
+    if (job.state.lastResultHash || job.state.suppressedDeliveries) {
+      job.state.lastResultHash = undefined;
+      job.state.suppressedDeliveries = undefined;
+    }
+    return;
+  }
+  const text = outcome.resultText?.trim();
+  if (text) {
+    job.state.lastResultHash = hashCronResult(text);
+  }
+  if (outcome.quietSummaryDelivered) {
+    job.state.suppressedDeliveries = undefined;
+    return;
+  }
+  if (!outcome.suppressedReason || !job.delivery?.quietSummary) {
+    return;
+  }
+  const pending = [
+    ...(job.state.suppressedDeliveries ?? []),
+    { runAtMs: outcome.runAtMs, reason: outcome.suppressedReason, summary: clipSnippet(text) },
+  ];
+  job.state.suppressedDeliveries = pending.slice(-MAX_SUPPRESSED_DELIVERIES);
+}
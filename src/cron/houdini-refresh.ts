@@ -0,0 +1,111 @@
+import { createOutboundSendDeps, type CliDeps } from "../cli/outbound-send-deps.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { deliverOutboundPayloads } from "../infra/outbound/deliver.js";
+import { resolveAgentOutboundIdentity } from "../infra/outbound/identity.js";
+import { logWarn } from "../logger.js";
+import { resolveCronDeliveryPlan } from "./delivery.js";
+import { resolveDeliveryTarget } from "./isolated-agent/delivery-target.js";
+import type { Logger } from "./service/state.js";
+import type { CronJob, CronRunOutcome, CronRunTelemetry } from "./types.js";
+
+export type RunCronHoudiniRefreshResult = {
+  summary?: string;
+  /** `true` when the coverage summary reached the delivery target. */
+  delivered?: boolean;
+} & CronRunOutcome &
+  CronRunTelemetry;
+
+/**
+ * Run a `houdiniRefresh` job: one budgeted crawl → annotate → ingest pass over
+ * the Houdini knowledge base, then announce the coverage delta to the job's
+ * delivery target. Token usage and the annotation model end up in the run log
+ * through the returned telemetry.
+ */
+export async function runCronHoudiniRefresh(params: {
+  cfg: OpenClawConfig;
+  deps: CliDeps;
+  job: CronJob;
+  agentId: string;
+  /** Cron logger for pipeline progress and failures (default: the console) */
+  log?: Logger;
+}): Promise<RunCronHoudiniRefreshResult> {
+  const { cfg, job, agentId, log } = params;
+  if (job.payload.kind !== "houdiniRefresh") {
+    return { status: "skipped", error: 'houdini refresh requires payload.kind="houdiniRefresh"' };
+  }
+  const payload = job.payload;
+
+  // Loaded lazily: the knowledge base pulls in SQLite, which most gateways never need.
+  const { formatRefreshSummary, refreshKnowledgeBase } = await import("../houdini-claw/refresh.js");
+  let summary: string;
+  let telemetry: CronRunTelemetry;
+  try {
+    const result = await refreshKnowledgeBase({
+      mode: payload.mode,
+      systems: payload.systems,
+      maxNodes: payload.maxNodes,
+      maxTokens: payload.maxTokens,
+      model: payload.model,
+      cfg,
+      agentId,
+      log: log ? (message, level = "info") => log[level]({ jobId: job.id }, message) : undefined,
+    });
+    summary = formatRefreshSummary(result);
+    const [provider, ...model] = result.annotate.model?.split("/") ?? [];
+    const { usage } = result.annotate;
+    telemetry = {
+      provider: provider || undefined,
+      model: model.length > 0 ? model.join("/") : undefined,
+      usage:
+        usage.total > 0
+          ? {
+              input_tokens: usage.input,
+              output_tokens: usage.output,
+              total_tokens: usage.total,
+            }
+          : undefined,
+    };
+  } catch (err) {
+    return { status: "error", error: `Houdini KB refresh failed: ${String(err)}` };
+  }
+
+  const plan = resolveCronDeliveryPlan(job);
+  if (!plan.requested) {
+    return { status: "ok", summary, ...telemetry };
+  }
+  const bestEffort = job.delivery?.bestEffort === true;
+  const target = await resolveDeliveryTarget(cfg, agentId, {
+    channel: plan.channel ?? "last",
+    to: plan.to,
+  });
+  if (target.error || !target.to) {
+    const message = target.error?.message ?? "cron delivery target is missing";
+    if (!bestEffort) {
+      return { status: "error", error: message, summary, ...telemetry };
+    }
+    logWarn(`[cron:${job.id}] ${message}`);
+    return { status: "ok", summary, ...telemetry };
+  }
+
+  try {
+    const results = await deliverOutboundPayloads({
+      cfg,
+      channel: target.channel,
+      to: target.to,
+      accountId: target.accountId,
+      threadId: target.threadId,
+      payloads: [{ text: summary }],
+      agentId,
+      identity: resolveAgentOutboundIdentity(cfg, agentId),
+      bestEffort,
+      deps: createOutboundSendDeps(params.deps),
+    });
+    return { status: "ok", summary, delivered: results.length > 0, ...telemetry };
+  } catch (err) {
+    if (!bestEffort) {
+      return { status: "error", error: String(err), summary, ...telemetry };
+    }
+    logWarn(`[cron:${job.id}] ${String(err)}`);
+    return { status: "ok", summary, ...telemetry };
+  }
+}
@@ -53,7 +53,12 @@ import {
   getHookType,
   isExternalHookSession,
 } from "../../security/external-content.js";
-import { resolveCronDeliveryPlan } from "../delivery.js";
+import {
+  hasCronDeliveryConditions,
+  resolveCronDeliveryGate,
+  resolveCronDeliveryPlan,
+  type CronDeliveryGate,
+} from "../delivery.js";
 import type { CronJob, CronRunOutcome, CronRunTelemetry } from "../types.js";
 import { resolveDeliveryTarget } from "./delivery-target.js";
 import {
@@ -146,6 +151,10 @@ export type RunCronAgentTurnResult = {
    * messages.  See: https://github.com/openclaw/openclaw/issues/15692
    */
   delivered?: boolean;
+  /** Why the result was not announced (`delivery.onChange` / `delivery.whenMatches`). */
+  deliverySuppressed?: string;
+  /** `true` when the end-of-day quiet summary was announced with this run. */
+  quietSummaryDelivered?: boolean;
 } & CronRunOutcome &
   CronRunTelemetry;
 
@@ -590,6 +599,13 @@ export async function runCronIsolatedAgentTurn(params: {
   // `true` means we confirmed at least one outbound send reached the target.
   // Keep this strict so timer fallback can safely decide whether to wake main.
   let delivered = skipMessagingToolDelivery;
+  let deliverySuppressed: string | undefined;
+  let quietSummaryDelivered = false;
+  // Delivery conditions see the final text, right before it is announced.
+  const resolveGate = (text: string): CronDeliveryGate =>
+    hasCronDeliveryConditions(params.job.delivery)
+      ? resolveCronDeliveryGate({ job: params.job, text, nowMs: runStartedAt })
+      : { deliver: true };
   if (deliveryRequested && !skipHeartbeatDelivery && !skipMessagingToolDelivery) {
     if (resolvedDelivery.error) {
       if (!deliveryBestEffort) {
@@ -625,13 +641,28 @@ export async function runCronIsolatedAgentTurn(params: {
     // Keep direct outbound delivery only for structured payloads (media/channel
     // data), which cannot be represented by the shared announce flow.
     if (deliveryPayloadHasStructuredContent) {
+      const gate = resolveGate(synthesizedText ?? "");
+      if (!gate.deliver && !gate.quietSummary) {
+        return withRunSession({
+          status: "ok",
+          summary,
+          outputText,
+          deliverySuppressed: gate.suppressedReason,
+          ...telemetry,
+        });
+      }
+      deliverySuppressed = gate.suppressedReason;
       try {
-        const payloadsForDelivery =
-          deliveryPayloads.length > 0
-            ? deliveryPayloads
+        const payloadsForDelivery = !gate.deliver
+          ? []
+          : deliveryPayloads.length > 0
+            ? [...deliveryPayloads]
             : synthesizedText
               ? [{ text: synthesizedText }]
               : [];
+        if (gate.quietSummary) {
+          payloadsForDelivery.push({ text: gate.quietSummary });
+        }
         if (payloadsForDelivery.length > 0) {
           const deliveryResults = await deliverOutboundPayloads({
             cfg: cfgWithAgentDefaults,
@@ -646,6 +677,7 @@ export async function runCronIsolatedAgentTurn(params: {
             deps: createOutboundSendDeps(params.deps),
           });
           delivered = deliveryResults.length > 0;
+          quietSummaryDelivered = delivered && Boolean(gate.quietSummary);
         }
       } catch (err) {
         if (!deliveryBestEffort) {
@@ -725,6 +757,22 @@ export async function runCronIsolatedAgentTurn(params: {
       if (synthesizedText.toUpperCase() === SILENT_REPLY_TOKEN.toUpperCase()) {
         return withRunSession({ status: "ok", summary, outputText, ...telemetry });
       }
+      const gate = resolveGate(synthesizedText);
+      if (!gate.deliver && !gate.quietSummary) {
+        return withRunSession({
+          status: "ok",
+          summary,
+          outputText,
+          deliverySuppressed: gate.suppressedReason,
+          ...telemetry,
+        });
+      }
+      deliverySuppressed = gate.suppressedReason;
+      const announceText = !gate.quietSummary
+        ? synthesizedText
+        : gate.deliver
+          ? `${synthesizedText}\n\n${gate.quietSummary}`
+          : gate.quietSummary;
       try {
         const didAnnounce = await runSubagentAnnounceFlow({
           childSessionKey: agentSessionKey,
@@ -740,7 +788,7 @@ export async function runCronIsolatedAgentTurn(params: {
           task: taskLabel,
           timeoutMs,
           cleanup: params.job.deleteAfterRun ? "delete" : "keep",
-          roundOneReply: synthesizedText,
+          roundOneReply: announceText,
           waitForCompletion: false,
           startedAt: runStartedAt,
           endedAt: runEndedAt,
@@ -749,6 +797,7 @@ export async function runCronIsolatedAgentTurn(params: {
         });
         if (didAnnounce) {
           delivered = true;
+          quietSummaryDelivered = Boolean(gate.quietSummary);
         } else {
           const message = "cron announce delivery failed";
           if (!deliveryBestEffort) {
@@ -777,5 +826,13 @@ export async function runCronIsolatedAgentTurn(params: {
     }
   }
 
-  return withRunSession({ status: "ok", summary, outputText, delivered, ...telemetry });
+  return withRunSession({
+    status: "ok",
+    summary,
+    outputText,
+    delivered,
+    deliverySuppressed,
+    quietSummaryDelivered,
+    ...telemetry,
+  });
 }
@@ -172,6 +172,59 @@ describe("normalizeCronJobCreate", () => {
     expect(schedule.staggerMs).toBe(0);
   });
 
+  it("infers chained schedules and defaults the trigger status to ok", () => {
+    const normalized = normalizeCronJobCreate({
+      name: "report",
+      enabled: true,
+      schedule: { jobId: " fetch-job ", on: "bogus" },
+      sessionTarget: "isolated",
+      wakeMode: "now",
+      payload: {
+        kind: "agentTurn",
+        message: "write the report",
+      },
+    }) as unknown as Record<string, unknown>;
+
+    expect(normalized.schedule).toEqual({ kind: "after", jobId: "fetch-job", on: "ok" });
+  });
+
+  it("infers trigger schedules and trims trigger fields", () => {
+    const normalized = normalizeCronJobCreate({
+      name: "inbox",
+      enabled: true,
+      schedule: { trigger: { path: " ~/inbox ", glob: " *.pdf ", debounceMs: "1500" } },
+      sessionTarget: "isolated",
+      wakeMode: "now",
+      payload: {
+        kind: "agentTurn",
+        message: "triage the inbox",
+      },
+    }) as unknown as Record<string, unknown>;
+
+    expect(normalized.schedule).toEqual({
+      kind: "trigger",
+      trigger: { kind: "file", path: "~/inbox", glob: "*.pdf", debounceMs: 1500 },
+    });
+  });
+
+  it("expands whenMatches shorthand on delivery", () => {
+    const normalized = normalizeCronJobCreate({
+      name: "status page",
+      enabled: true,
+      schedule: { kind: "every", everyMs: 3_600_000 },
+      sessionTarget: "isolated",
+      wakeMode: "now",
+      payload: { kind: "agentTurn", message: "check the status page" },
+      delivery: { mode: "announce", onChange: true, whenMatches: " /outage/i " },
+    }) as unknown as Record<string, unknown>;
+
+    expect(normalized.delivery).toEqual({
+      mode: "announce",
+      onChange: true,
+      whenMatches: { pattern: "outage", flags: "i" },
+    });
+  });
+
   it("defaults deleteAfterRun for one-shot schedules", () => {
     const normalized = normalizeCronJobCreate({
       name: "default delete",
@@ -246,6 +299,29 @@ describe("normalizeCronJobCreate", () => {
     expect(delivery.mode).toBe("announce");
   });
 
+  it("normalizes houdiniRefresh payloads as isolated announce jobs", () => {
+    const normalized = normalizeCronJobCreate({
+      name: "houdini-kb",
+      schedule: { kind: "cron", expr: "0 4 * * *" },
+      payload: {
+        kind: "HoudiniRefresh",
+        mode: "FULL",
+        systems: "pyro, FLIP,",
+        maxNodes: 12.7,
+        maxTokens: -5,
+      },
+    }) as unknown as Record<string, unknown>;
+
+    expect(normalized.sessionTarget).toBe("isolated");
+    expect(normalized.payload).toEqual({
+      kind: "houdiniRefresh",
+      mode: "full",
+      systems: ["pyro", "flip"],
+      maxNodes: 12,
+    });
+    expect(normalized.delivery).toEqual({ mode: "announce" });
+  });
+
   it("migrates legacy delivery fields to delivery", () => {
     const normalized = normalizeCronJobCreate({
       name: "legacy deliver",
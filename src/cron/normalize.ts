@@ -1,5 +1,6 @@
 import { sanitizeAgentId } from "../routing/session-key.js";
 import { isRecord } from "../utils.js";
+import { parseCronDeliveryMatch } from "./delivery.js";
 import {
   buildDeliveryFromLegacyPayload,
   hasLegacyDeliveryHints,
@@ -21,10 +22,46 @@ const DEFAULT_OPTIONS: NormalizeOptions = {
   applyDefaults: false,
 };
 
+function coerceTrigger(trigger: UnknownRecord) {
+  const next: UnknownRecord = { ...trigger };
+  const rawKind = typeof trigger.kind === "string" ? trigger.kind.trim().toLowerCase() : "";
+  if (rawKind === "file" || rawKind === "webhook") {
+    next.kind = rawKind;
+  } else if (typeof trigger.path === "string") {
+    next.kind = "file";
+  } else if (typeof trigger.name === "string") {
+    next.kind = "webhook";
+  }
+  for (const key of ["path", "glob", "name", "template"] as const) {
+    if (typeof trigger[key] === "string") {
+      const trimmed = trigger[key].trim();
+      if (trimmed) {
+        next[key] = trimmed;
+      } else {
+        delete next[key];
+      }
+    }
+  }
+  if (typeof trigger.debounceMs === "string" && trigger.debounceMs.trim()) {
+    const parsed = Number(trigger.debounceMs);
+    if (Number.isFinite(parsed)) {
+      next.debounceMs = Math.floor(parsed);
+    }
+  }
+  return next;
+}
+
 function coerceSchedule(schedule: UnknownRecord) {
   const next: UnknownRecord = { ...schedule };
   const rawKind = typeof schedule.kind === "string" ? schedule.kind.trim().toLowerCase() : "";
-  const kind = rawKind === "at" || rawKind === "every" || rawKind === "cron" ? rawKind : undefined;
+  const kind =
+    rawKind === "at" ||
+    rawKind === "every" ||
+    rawKind === "cron" ||
+    rawKind === "after" ||
+    rawKind === "trigger"
+      ? rawKind
+      : undefined;
   const atMsRaw = schedule.atMs;
   const atRaw = schedule.at;
   const atString = typeof atRaw === "string" ? atRaw.trim() : "";
@@ -50,9 +87,25 @@ function coerceSchedule(schedule: UnknownRecord) {
       next.kind = "every";
     } else if (typeof schedule.expr === "string") {
       next.kind = "cron";
+    } else if (typeof schedule.jobId === "string") {
+      next.kind = "after";
+    } else if (isRecord(schedule.trigger)) {
+      next.kind = "trigger";
     }
   }
 
+  if (next.kind === "after") {
+    if (typeof schedule.jobId === "string") {
+      next.jobId = schedule.jobId.trim();
+    }
+    const on = typeof schedule.on === "string" ? schedule.on.trim().toLowerCase() : "";
+    next.on = on === "error" || on === "any" ? on : "ok";
+  }
+
+  if (next.kind === "trigger" && isRecord(schedule.trigger)) {
+    next.trigger = coerceTrigger(schedule.trigger);
+  }
+
   if (atString) {
     next.at = parsedAtMs !== null ? new Date(parsedAtMs).toISOString() : atString;
   } else if (parsedAtMs !== null) {
@@ -81,6 +134,8 @@ function coercePayload(payload: UnknownRecord) {
     next.kind = "agentTurn";
   } else if (kindRaw === "systemevent") {
     next.kind = "systemEvent";
+  } else if (kindRaw === "houdinirefresh") {
+    next.kind = "houdiniRefresh";
   } else if (kindRaw) {
     next.kind = kindRaw;
   }
@@ -150,9 +205,48 @@ function coercePayload(payload: UnknownRecord) {
   ) {
     delete next.allowUnsafeExternalContent;
   }
+  if (next.kind === "houdiniRefresh") {
+    coerceHoudiniRefreshFields(next);
+  }
   return next;
 }
 
+function coerceHoudiniRefreshFields(next: UnknownRecord) {
+  if ("mode" in next) {
+    const mode = typeof next.mode === "string" ? next.mode.trim().toLowerCase() : "";
+    if (mode === "full" || mode === "incremental") {
+      next.mode = mode;
+    } else {
+      delete next.mode;
+    }
+  }
+  if ("systems" in next) {
+    const raw = typeof next.systems === "string" ? next.systems.split(",") : next.systems;
+    const systems = Array.isArray(raw)
+      ? raw
+          .filter((value): value is string => typeof value === "string")
+          .map((value) => value.trim().toLowerCase())
+          .filter(Boolean)
+      : [];
+    if (systems.length > 0) {
+      next.systems = systems;
+    } else {
+      delete next.systems;
+    }
+  }
+  for (const field of ["maxNodes", "maxTokens"] as const) {
+    if (!(field in next)) {
+      continue;
+    }
+    const value = next[field];
+    if (typeof value === "number" && Number.isFinite(value) && value > 0) {
+      next[field] = Math.floor(value);
+    } else {
+      delete next[field];
+    }
+  }
+}
+
 function coerceDelivery(delivery: UnknownRecord) {
   const next: UnknownRecord = { ...delivery };
   if (typeof delivery.mode === "string") {
@@ -183,9 +277,62 @@ function coerceDelivery(delivery: UnknownRecord) {
       delete next.to;
     }
   }
+  if ("whenMatches" in delivery) {
+    const match = coerceDeliveryMatch(delivery.whenMatches);
+    if (match === undefined) {
+      delete next.whenMatches;
+    } else {
+      next.whenMatches = match;
+    }
+  }
   return next;
 }
 
+function coerceDeliveryMatch(raw: unknown): UnknownRecord | null | undefined {
+  if (raw === null) {
+    return null;
+  }
+  if (typeof raw === "string") {
+    return parseCronDeliveryMatch(raw);
+  }
+  if (!isRecord(raw)) {
+    return undefined;
+  }
+  const next: UnknownRecord = {};
+  for (const key of ["pattern", "flags", "path"] as const) {
+    const value = typeof raw[key] === "string" ? raw[key].trim() : "";
+    if (value) {
+      next[key] = value;
+    }
+  }
+  return next;
+}
+
+function coerceExclusions(exclusions: unknown[]) {
+  return exclusions.filter(isRecord).map((exclusion) => {
+    const next: UnknownRecord = { ...exclusion };
+    for (const field of ["kind", "from", "to", "label", "path", "set"]) {
+      const value = next[field];
+      if (typeof value === "string") {
+        next[field] = value.trim();
+      }
+    }
+    if (typeof next.kind === "string") {
+      next.kind = next.kind.toLowerCase();
+    } else if (typeof next.from === "string") {
+      next.kind = "dates";
+    } else if (typeof next.path === "string") {
+      next.kind = "ics";
+    } else if (typeof next.set === "string") {
+      next.kind = "holidays";
+    }
+    if (typeof next.set === "string") {
+      next.set = next.set.toLowerCase();
+    }
+    return next;
+  });
+}
+
 function unwrapJob(raw: UnknownRecord) {
   if (isRecord(raw.data)) {
     return raw.data;
@@ -378,6 +525,10 @@ export function normalizeCronJobInput(
     next.delivery = coerceDelivery(base.delivery);
   }
 
+  if (Array.isArray(base.exclusions)) {
+    next.exclusions = coerceExclusions(base.exclusions);
+  }
+
   if ("isolation" in next) {
     delete next.isolation;
   }
@@ -416,7 +567,7 @@ export function normalizeCronJobInput(
       if (kind === "systemEvent") {
         next.sessionTarget = "main";
       }
-      if (kind === "agentTurn") {
+      if (kind === "agentTurn" || kind === "houdiniRefresh") {
         next.sessionTarget = "isolated";
       }
     }
@@ -456,6 +607,9 @@ export function normalizeCronJobInput(
         next.delivery = { mode: "announce" };
       }
     }
+    if (!hasDelivery && sessionTarget !== "main" && payloadKind === "houdiniRefresh") {
+      next.delivery = { mode: "announce" };
+    }
   }
 
   return next;
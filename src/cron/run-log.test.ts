@@ -2,7 +2,12 @@ import fs from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
 import { describe, expect, it } from "vitest";
-import { appendCronRunLog, readCronRunLogEntries, resolveCronRunLogPath } from "./run-log.js";
+import {
+  appendCronRunLog,
+  queryCronRunLog,
+  readCronRunLogEntries,
+  resolveCronRunLogPath,
+} from "./run-log.js";
 
 describe("cron run log", () => {
   it("resolves store path to per-job runs/<jobId>.jsonl", () => {
@@ -148,4 +153,59 @@ describe("cron run log", () => {
 
     await fs.rm(dir, { recursive: true, force: true });
   });
+
+  it("queries runs across jobs with filters, pagination and stats", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-cron-log-query-"));
+    const storePath = path.join(dir, "jobs.json");
+    try {
+      const durations = [100, 200, 300, 400, 1_000];
+      for (const [i, durationMs] of durations.entries()) {
+        await appendCronRunLog(resolveCronRunLogPath({ storePath, jobId: "a" }), {
+          ts: 1_000 + i,
+          jobId: "a",
+          action: "finished",
+          status: i === 1 ? "error" : i === 4 ? "skipped" : "ok",
+          durationMs,
+          usage: { input_tokens: 10, output_tokens: 5, total_tokens: 15 },
+        });
+      }
+      await appendCronRunLog(resolveCronRunLogPath({ storePath, jobId: "b" }), {
+        ts: 1_002,
+        jobId: "b",
+        action: "finished",
+        status: "error",
+      });
+
+      const all = await queryCronRunLog({ storePath, query: { limit: 2 } });
+      expect(all.total).toBe(6);
+      expect(all.entries.map((e) => `${e.jobId}@${e.ts}`)).toEqual(["a@1003", "a@1004"]);
+      expect(all).toMatchObject({ hasMore: true, nextOffset: 2 });
+      const older = await queryCronRunLog({ storePath, query: { limit: 2, offset: 2 } });
+      expect(older.entries.map((e) => `${e.jobId}@${e.ts}`)).toEqual(["a@1002", "b@1002"]);
+
+      const [a, b] = all.stats;
+      expect(a).toMatchObject({
+        jobId: "a",
+        runs: 5,
+        ok: 3,
+        error: 1,
+        skipped: 1,
+        successRate: 0.75,
+        durationMs: { p50: 300, p95: 1_000, max: 1_000 },
+        usage: { input_tokens: 50, output_tokens: 25, total_tokens: 75 },
+        firstRunAtMs: 1_000,
+        lastRunAtMs: 1_004,
+      });
+      expect(b).toMatchObject({ jobId: "b", runs: 1, error: 1, successRate: 0 });
+
+      const errors = await queryCronRunLog({
+        storePath,
+        query: { jobId: "a", status: "error", since: 1_001, until: 1_003 },
+      });
+      expect(errors.entries.map((e) => e.ts)).toEqual([1_001]);
+      expect(errors.stats.map((s) => s.jobId)).toEqual(["a"]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
 });
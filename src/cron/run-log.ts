@@ -1,6 +1,6 @@
 import fs from "node:fs/promises";
 import path from "node:path";
-import type { CronRunStatus, CronRunTelemetry } from "./types.js";
+import type { CronRunStatus, CronRunTelemetry, CronUsageSummary } from "./types.js";
 
 export type CronRunLogEntry = {
   ts: number;
@@ -69,9 +69,17 @@ export async function readCronRunLogEntries(
   const limit = Math.max(1, Math.min(5000, Math.floor(opts?.limit ?? 200)));
   const jobId = opts?.jobId?.trim() || undefined;
   const raw = await fs.readFile(path.resolve(filePath), "utf-8").catch(() => "");
+  return parseCronRunLogEntries(raw, { limit, jobId });
+}
+
+function parseCronRunLogEntries(
+  raw: string,
+  opts: { limit: number; jobId?: string },
+): CronRunLogEntry[] {
   if (!raw.trim()) {
     return [];
   }
+  const { limit, jobId } = opts;
   const parsed: CronRunLogEntry[] = [];
   const lines = raw.split("\n");
   for (let i = lines.length - 1; i >= 0 && parsed.length < limit; i--) {
@@ -139,3 +147,157 @@ export async function readCronRunLogEntries(
   }
   return parsed.toReversed();
 }
+
+export type CronRunLogQuery = {
+  /** Restrict to one job; all jobs under `runs/` when omitted. */
+  jobId?: string;
+  status?: CronRunStatus;
+  /** Inclusive lower bound on the entry timestamp (ms). */
+  since?: number;
+  /** Exclusive upper bound on the entry timestamp (ms). */
+  until?: number;
+  /** Number of newest matching entries to skip. */
+  offset?: number;
+  limit?: number;
+};
+
+export type CronRunStats = {
+  jobId: string;
+  runs: number;
+  ok: number;
+  error: number;
+  skipped: number;
+  /** ok / (ok + error); skipped runs do not count. Undefined when nothing ran. */
+  successRate?: number;
+  durationMs?: { p50: number; p95: number; max: number };
+  usage: Required<CronUsageSummary>;
+  firstRunAtMs: number;
+  lastRunAtMs: number;
+};
+
+export type CronRunLogPage = {
+  /** Oldest first, like `readCronRunLogEntries`. */
+  entries: CronRunLogEntry[];
+  /** Matching entries across all pages. */
+  total: number;
+  offset: number;
+  limit: number;
+  hasMore: boolean;
+  nextOffset?: number;
+  /** Per-job stats over every matching entry, not just this page. */
+  stats: CronRunStats[];
+};
+
+async function listCronRunLogPaths(storePath: string, jobId?: string): Promise<string[]> {
+  if (jobId) {
+    return [resolveCronRunLogPath({ storePath, jobId })];
+  }
+  const dir = path.join(path.dirname(path.resolve(storePath)), "runs");
+  const names = await fs.readdir(dir).catch(() => [] as string[]);
+  return names
+    .filter((name) => name.endsWith(".jsonl"))
+    .toSorted()
+    .map((name) => path.join(dir, name));
+}
+
+function percentile(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1] ?? 0;
+}
+
+export function computeCronRunStats(entries: CronRunLogEntry[]): CronRunStats[] {
+  const byJob = new Map<string, CronRunLogEntry[]>();
+  for (const entry of entries) {
+    const list = byJob.get(entry.jobId) ?? [];
+    list.push(entry);
+    byJob.set(entry.jobId, list);
+  }
+  return [...byJob.keys()].toSorted().map((jobId) => {
+    const runs = byJob.get(jobId) ?? [];
+    const count = (status: CronRunStatus) => runs.filter((run) => run.status === status).length;
+    const ok = count("ok");
+    const error = count("error");
+    const durations = runs
+      .map((run) => run.durationMs)
+      .filter((ms): ms is number => typeof ms === "number" && Number.isFinite(ms))
+      .toSorted((a, b) => a - b);
+    const usage: Required<CronUsageSummary> = {
+      input_tokens: 0,
+      output_tokens: 0,
+      total_tokens: 0,
+      cache_read_tokens: 0,
+      cache_write_tokens: 0,
+    };
+    for (const run of runs) {
+      for (const key of Object.keys(usage) as Array<keyof CronUsageSummary>) {
+        usage[key] += run.usage?.[key] ?? 0;
+      }
+    }
+    const timestamps = runs.map((run) => run.ts);
+    return {
+      jobId,
+      runs: runs.length,
+      ok,
+      error,
+      skipped: count("skipped"),
+      successRate: ok + error > 0 ? ok / (ok + error) : undefined,
+      durationMs:
+        durations.length > 0
+          ? {
+              p50: percentile(durations, 50),
+              p95: percentile(durations, 95),
+              max: durations[durations.length - 1] ?? 0,
+            }
+          : undefined,
+      usage,
+      firstRunAtMs: Math.min(...timestamps),
+      lastRunAtMs: Math.max(...timestamps),
+    };
+  });
+}
+
+export async function queryCronRunLog(params: {
+  storePath: string;
+  query?: CronRunLogQuery;
+}): Promise<CronRunLogPage> {
+  const query = params.query ?? {};
+  const jobId = query.jobId?.trim() || undefined;
+  const limit = Math.max(1, Math.min(5000, Math.floor(query.limit ?? 200)));
+  const offset = Math.max(0, Math.floor(query.offset ?? 0));
+
+  const matched: CronRunLogEntry[] = [];
+  for (const filePath of await listCronRunLogPaths(params.storePath, jobId)) {
+    const raw = await fs.readFile(filePath, "utf-8").catch(() => "");
+    for (const entry of parseCronRunLogEntries(raw, {
+      limit: Number.POSITIVE_INFINITY,
+      jobId,
+    })) {
+      if (query.status && entry.status !== query.status) {
+        continue;
+      }
+      if (query.since !== undefined && entry.ts < query.since) {
+        continue;
+      }
+      if (query.until !== undefined && entry.ts >= query.until) {
+        continue;
+      }
+      matched.push(entry);
+    }
+  }
+  const sorted = matched.toSorted((a, b) => a.ts - b.ts);
+
+  // Pages count back from the newest entry so offset 0 is always the latest runs.
+  const end = Math.max(0, sorted.length - offset);
+  const start = Math.max(0, end - limit);
+  const entries = sorted.slice(start, end);
+  const hasMore = start > 0;
+  return {
+    entries,
+    total: sorted.length,
+    offset,
+    limit,
+    hasMore,
+    nextOffset: hasMore ? offset + entries.length : undefined,
+    stats: computeCronRunStats(sorted),
+  };
+}
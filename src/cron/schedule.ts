@@ -41,6 +41,11 @@ export function computeNextRunAtMs(schedule: CronSchedule, nowMs: number): numbe
     return anchor + steps * everyMs;
   }
 
+  if (schedule.kind === "after" || schedule.kind === "trigger") {
+    // Chained and triggered jobs have no clock; an upstream run or external event makes them due.
+    return undefined;
+  }
+
   const expr = schedule.expr.trim();
   if (!expr) {
     return undefined;
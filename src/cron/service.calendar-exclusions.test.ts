@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from "vitest";
+import type { CronConfig } from "../config/types.cron.js";
+import { CronService, type CronEvent } from "./service.js";
+import {
+  createCronStoreHarness,
+  createNoopLogger,
+  installCronTestHooks,
+} from "./service.test-harness.js";
+import type { CronExclusion } from "./types.js";
+
+const noopLogger = createNoopLogger();
+const { makeStorePath } = createCronStoreHarness({ prefix: "openclaw-cron-calendar-" });
+installCronTestHooks({ logger: noopLogger });
+
+async function runOnceWithCalendar(params: {
+  exclusions?: CronExclusion[];
+  cronConfig?: CronConfig;
+}) {
+  const store = await makeStorePath();
+  const runIsolatedAgentJob = vi.fn(async () => ({ status: "ok" as const }));
+  let resolveFinished: (evt: CronEvent) => void = () => {};
+  const finished = new Promise<CronEvent>((resolve) => {
+    resolveFinished = resolve;
+  });
+  const cron = new CronService({
+    storePath: store.storePath,
+    cronEnabled: true,
+    cronConfig: params.cronConfig,
+    log: noopLogger,
+    enqueueSystemEvent: vi.fn(),
+    requestHeartbeatNow: vi.fn(),
+    runIsolatedAgentJob,
+    onEvent: (evt) => {
+      if (evt.action === "finished") {
+        resolveFinished(evt);
+      }
+    },
+  });
+  await cron.start();
+  const job = await cron.add({
+    name: "standup",
+    enabled: true,
+    schedule: { kind: "every", everyMs: 60_000 },
+    sessionTarget: "isolated",
+    wakeMode: "now",
+    payload: { kind: "agentTurn", message: "standup notes" },
+    delivery: { mode: "none" },
+    exclusions: params.exclusions,
+  });
+
+  const dueAtMs = job.state.nextRunAtMs!;
+  vi.setSystemTime(new Date(dueAtMs));
+  await vi.runOnlyPendingTimersAsync();
+  const evt = await finished;
+  const [updated] = await cron.list({ includeDisabled: true });
+  cron.stop();
+  return { evt, updated, dueAtMs, runIsolatedAgentJob };
+}
+
+describe("CronService calendar exclusions", () => {
+  it("skips due runs on excluded days and keeps the schedule", async () => {
+    const { evt, updated, dueAtMs, runIsolatedAgentJob } = await runOnceWithCalendar({
+      exclusions: [{ kind: "dates", from: "2025-12-12", to: "2025-12-14", label: "offsite" }],
+    });
+
+    expect(runIsolatedAgentJob).not.toHaveBeenCalled();
+    expect(evt).toMatchObject({
+      status: "skipped",
+      error: "excluded by calendar: offsite (2025-12-12..2025-12-14)",
+    });
+    expect(updated?.enabled).toBe(true);
+    expect(updated?.state.lastStatus).toBe("skipped");
+    expect(updated?.state.nextRunAtMs).toBeGreaterThan(dueAtMs);
+  });
+
+  it("skips every job while the global pause window is active", async () => {
+    const { evt, runIsolatedAgentJob } = await runOnceWithCalendar({
+      cronConfig: { pause: { until: "2025-12-20T00:00:00Z", reason: "vacation" } },
+    });
+
+    expect(runIsolatedAgentJob).not.toHaveBeenCalled();
+    expect(evt).toMatchObject({
+      status: "skipped",
+      error: "excluded by calendar: paused until 2025-12-20T00:00:00Z (vacation)",
+    });
+  });
+
+  it("runs normally outside the excluded days", async () => {
+    const { evt, runIsolatedAgentJob } = await runOnceWithCalendar({
+      exclusions: [{ kind: "dates", from: "2026-01-01" }],
+    });
+
+    expect(runIsolatedAgentJob).toHaveBeenCalledTimes(1);
+    expect(evt.status).toBe("ok");
+  });
+});
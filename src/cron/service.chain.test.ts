@@ -0,0 +1,169 @@
+import { describe, expect, it, vi } from "vitest";
+import { CronService } from "./service.js";
+import {
+  createCronStoreHarness,
+  createFinishedBarrier,
+  createNoopLogger,
+  installCronTestHooks,
+} from "./service.test-harness.js";
+import type { CronJob } from "./types.js";
+
+const noopLogger = createNoopLogger();
+const { makeStorePath } = createCronStoreHarness({ prefix: "openclaw-cron-chain-" });
+installCronTestHooks({ logger: noopLogger });
+
+async function createChainService(
+  runIsolatedAgentJob: (params: { job: CronJob; message: string }) => Promise<{
+    status: "ok" | "error";
+    summary?: string;
+    error?: string;
+  }>,
+) {
+  const store = await makeStorePath();
+  const finished = createFinishedBarrier();
+  const cron = new CronService({
+    storePath: store.storePath,
+    cronEnabled: true,
+    log: noopLogger,
+    enqueueSystemEvent: vi.fn(),
+    requestHeartbeatNow: vi.fn(),
+    runIsolatedAgentJob: vi.fn(runIsolatedAgentJob),
+    onEvent: finished.onEvent,
+  });
+  await cron.start();
+  return { cron, finished };
+}
+
+function agentJob(name: string, schedule: CronJob["schedule"], message = name) {
+  return {
+    name,
+    enabled: true,
+    schedule,
+    sessionTarget: "isolated" as const,
+    wakeMode: "now" as const,
+    payload: { kind: "agentTurn" as const, message },
+    delivery: { mode: "none" as const },
+  };
+}
+
+describe("CronService chained jobs", () => {
+  it("runs the downstream job with the upstream summary once the upstream succeeds", async () => {
+    const messages = new Map<string, string>();
+    const { cron, finished } = await createChainService(async ({ job, message }) => {
+      messages.set(job.name, message);
+      return { status: "ok", summary: `${job.name} done: 3 new items` };
+    });
+
+    const fetch = await cron.add(agentJob("fetch", { kind: "every", everyMs: 3_600_000 }));
+    const report = await cron.add(
+      agentJob("report", { kind: "after", jobId: fetch.id }, "Write the report"),
+    );
+    expect(report.state.nextRunAtMs).toBeUndefined();
+
+    const fetchFinished = finished.waitForOk(fetch.id);
+    const reportFinished = finished.waitForOk(report.id);
+    vi.setSystemTime(new Date(fetch.state.nextRunAtMs!));
+    await vi.runOnlyPendingTimersAsync();
+    await fetchFinished;
+    // The finished tick re-arms the timer for the now-due downstream job.
+    await vi.waitFor(() => expect(messages.has("report")).toBe(true));
+    await reportFinished;
+
+    expect(messages.get("report")).toBe(
+      [
+        "Write the report",
+        "",
+        `Upstream cron job "fetch" (${fetch.id}) finished with status ok.`,
+        "Upstream summary:\nfetch done: 3 new items",
+      ].join("\n"),
+    );
+    const jobs = await cron.list({ includeDisabled: true });
+    const updated = jobs.find((job) => job.id === report.id);
+    expect(updated?.state.lastStatus).toBe("ok");
+    expect(updated?.state.chainTrigger).toBeUndefined();
+    expect(updated?.state.nextRunAtMs).toBeUndefined();
+
+    cron.stop();
+  });
+
+  it("only queues downstream jobs whose condition matches the upstream status", async () => {
+    const { cron } = await createChainService(async ({ job }) =>
+      job.name === "fetch"
+        ? { status: "error", error: "timeout", summary: "fetch failed" }
+        : { status: "ok" },
+    );
+
+    const fetch = await cron.add(agentJob("fetch", { kind: "every", everyMs: 60_000 }));
+    const onOk = await cron.add(agentJob("on ok", { kind: "after", jobId: fetch.id }));
+    const onError = await cron.add(
+      agentJob("on error", { kind: "after", jobId: fetch.id, on: "error" }),
+    );
+    const onAny = await cron.add(agentJob("on any", { kind: "after", jobId: fetch.id, on: "any" }));
+
+    await cron.run(fetch.id, "force");
+
+    const jobs = await cron.list({ includeDisabled: true });
+    const byId = new Map(jobs.map((job) => [job.id, job]));
+    expect(byId.get(onOk.id)?.state.chainTrigger).toBeUndefined();
+    expect(byId.get(onOk.id)?.state.nextRunAtMs).toBeUndefined();
+    for (const id of [onError.id, onAny.id]) {
+      expect(byId.get(id)?.state.chainTrigger).toMatchObject({
+        jobId: fetch.id,
+        status: "error",
+        summary: "fetch failed",
+      });
+      expect(byId.get(id)?.state.nextRunAtMs).toBe(Date.now());
+    }
+
+    cron.stop();
+  });
+
+  it("keeps jobs with chained dependents and drops queued runs from a replaced upstream", async () => {
+    const { cron } = await createChainService(async () => ({ status: "ok" }));
+
+    const fetch = await cron.add(agentJob("fetch", { kind: "every", everyMs: 60_000 }));
+    const other = await cron.add(agentJob("other", { kind: "every", everyMs: 60_000 }));
+    const report = await cron.add(agentJob("report", { kind: "after", jobId: fetch.id }));
+
+    await expect(cron.remove(fetch.id)).rejects.toThrow(
+      `cron job ${fetch.id} has chained jobs: ${report.id}`,
+    );
+    expect((await cron.list({ includeDisabled: true })).map((job) => job.id)).toContain(fetch.id);
+
+    await cron.run(fetch.id, "force");
+    let updated = (await cron.list({ includeDisabled: true })).find((job) => job.id === report.id);
+    expect(updated?.state.chainTrigger?.jobId).toBe(fetch.id);
+
+    await cron.update(report.id, { schedule: { kind: "after", jobId: other.id } });
+    updated = (await cron.list({ includeDisabled: true })).find((job) => job.id === report.id);
+    expect(updated?.state.chainTrigger).toBeUndefined();
+    expect(updated?.state.nextRunAtMs).toBeUndefined();
+
+    await expect(cron.remove(fetch.id)).resolves.toEqual({ ok: true, removed: true });
+
+    cron.stop();
+  });
+
+  it("rejects unknown upstream jobs and chain cycles", async () => {
+    const { cron } = await createChainService(async () => ({ status: "ok" }));
+
+    const a = await cron.add(agentJob("a", { kind: "every", everyMs: 60_000 }));
+    const b = await cron.add(agentJob("b", { kind: "after", jobId: a.id }));
+    const c = await cron.add(agentJob("c", { kind: "after", jobId: b.id }));
+
+    await expect(cron.add(agentJob("d", { kind: "after", jobId: "missing" }))).rejects.toThrow(
+      "unknown upstream cron job id: missing",
+    );
+    await expect(cron.update(a.id, { schedule: { kind: "after", jobId: c.id } })).rejects.toThrow(
+      `cron job chain would create a cycle: ${a.id} -> ${c.id} -> ${b.id} -> ${a.id}`,
+    );
+    await expect(cron.update(b.id, { schedule: { kind: "after", jobId: b.id } })).rejects.toThrow(
+      "cron job chain would create a cycle",
+    );
+
+    const jobs = await cron.list({ includeDisabled: true });
+    expect(jobs.find((job) => job.id === a.id)?.schedule.kind).toBe("every");
+
+    cron.stop();
+  });
+});
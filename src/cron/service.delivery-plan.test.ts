@@ -3,6 +3,7 @@ import os from "node:os";
 import path from "node:path";
 import { describe, expect, it, vi } from "vitest";
 import type { ChannelId } from "../channels/plugins/types.js";
+import { hashCronResult } from "./delivery.js";
 import { CronService, type CronServiceDeps } from "./service.js";
 
 const noopLogger = {
@@ -28,6 +29,8 @@ type DeliveryOverride = {
   mode: DeliveryMode;
   channel?: ChannelId | "last";
   to?: string;
+  onChange?: boolean;
+  quietSummary?: boolean;
 };
 
 async function withCronService(
@@ -150,4 +153,44 @@ describe("CronService delivery plan consistency", () => {
       },
     );
   });
+
+  it("records suppressed announces for the quiet summary without relaying them to main", async () => {
+    const runIsolatedAgentJob = vi
+      .fn()
+      .mockResolvedValueOnce({ status: "ok", summary: "all good", delivered: true })
+      .mockResolvedValueOnce({
+        status: "ok",
+        summary: "all good",
+        deliverySuppressed: "unchanged",
+      });
+    await withCronService(
+      { runIsolatedAgentJob: runIsolatedAgentJob as never },
+      async ({ cron, enqueueSystemEvent }) => {
+        const job = await addIsolatedAgentTurnJob(cron, {
+          name: "status-page",
+          wakeMode: "next-heartbeat",
+          delivery: {
+            mode: "announce",
+            channel: "telegram",
+            to: "123",
+            onChange: true,
+            quietSummary: true,
+          },
+        });
+
+        await cron.run(job.id, "force");
+        await cron.run(job.id, "force");
+
+        expect(enqueueSystemEvent).not.toHaveBeenCalled();
+        // The second run sees the first run's result hash to compare against.
+        expect(runIsolatedAgentJob.mock.calls[1]?.[0].job.state.lastResultHash).toBe(
+          hashCronResult("all good"),
+        );
+        const [updated] = await cron.list({ includeDisabled: true });
+        expect(updated?.state.suppressedDeliveries).toEqual([
+          { runAtMs: expect.any(Number), reason: "unchanged", summary: "all good" },
+        ]);
+      },
+    );
+  });
 });
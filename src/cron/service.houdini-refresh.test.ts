@@ -0,0 +1,124 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import { CronService, type CronServiceDeps } from "./service.js";
+
+const noopLogger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+};
+
+async function withCronService(
+  params: { runHoudiniRefreshJob?: CronServiceDeps["runHoudiniRefreshJob"] },
+  run: (context: {
+    cron: CronService;
+    runIsolatedAgentJob: ReturnType<typeof vi.fn>;
+    enqueueSystemEvent: ReturnType<typeof vi.fn>;
+    onEvent: ReturnType<typeof vi.fn>;
+  }) => Promise<void>,
+) {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-cron-houdini-"));
+  const enqueueSystemEvent = vi.fn();
+  const runIsolatedAgentJob = vi.fn(async () => ({ status: "ok" as const, summary: "agent" }));
+  const onEvent = vi.fn();
+  const cron = new CronService({
+    cronEnabled: true,
+    storePath: path.join(dir, "cron", "jobs.json"),
+    log: noopLogger,
+    enqueueSystemEvent,
+    requestHeartbeatNow: vi.fn(),
+    runIsolatedAgentJob,
+    runHoudiniRefreshJob: params.runHoudiniRefreshJob,
+    onEvent,
+  });
+
+  await cron.start();
+  try {
+    await run({ cron, runIsolatedAgentJob, enqueueSystemEvent, onEvent });
+  } finally {
+    cron.stop();
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+function addRefreshJob(cron: CronService) {
+  return cron.add({
+    name: "houdini-kb",
+    enabled: true,
+    schedule: { kind: "every", everyMs: 86_400_000, anchorMs: Date.now() },
+    sessionTarget: "isolated",
+    wakeMode: "next-heartbeat",
+    payload: { kind: "houdiniRefresh", maxNodes: 10, maxTokens: 200_000 },
+    delivery: { mode: "announce", channel: "telegram", to: "123" },
+  });
+}
+
+describe("CronService houdiniRefresh jobs", () => {
+  it("runs the refresh dependency and records its telemetry", async () => {
+    const runHoudiniRefreshJob = vi.fn(async () => ({
+      status: "ok" as const,
+      summary: "Coverage: pyro 12 → 14 (+2)",
+      delivered: true,
+      provider: "anthropic",
+      model: "claude-opus-4-6",
+      usage: { input_tokens: 9000, output_tokens: 3000, total_tokens: 12000 },
+    }));
+    await withCronService(
+      { runHoudiniRefreshJob },
+      async ({ cron, runIsolatedAgentJob, enqueueSystemEvent, onEvent }) => {
+        const job = await addRefreshJob(cron);
+        const result = await cron.run(job.id, "force");
+
+        expect(result).toEqual({ ok: true, ran: true });
+        expect(runHoudiniRefreshJob).toHaveBeenCalledWith({
+          job: expect.objectContaining({
+            payload: { kind: "houdiniRefresh", maxNodes: 10, maxTokens: 200_000 },
+          }),
+        });
+        expect(runIsolatedAgentJob).not.toHaveBeenCalled();
+        expect(enqueueSystemEvent).not.toHaveBeenCalled();
+        expect(onEvent).toHaveBeenCalledWith(
+          expect.objectContaining({
+            jobId: job.id,
+            action: "finished",
+            status: "ok",
+            summary: "Coverage: pyro 12 → 14 (+2)",
+            provider: "anthropic",
+            model: "claude-opus-4-6",
+            usage: { input_tokens: 9000, output_tokens: 3000, total_tokens: 12000 },
+          }),
+        );
+      },
+    );
+  });
+
+  it("posts the summary to the main session when the announce was not delivered", async () => {
+    const runHoudiniRefreshJob = vi.fn(async () => ({
+      status: "ok" as const,
+      summary: "Coverage unchanged.",
+    }));
+    await withCronService({ runHoudiniRefreshJob }, async ({ cron, enqueueSystemEvent }) => {
+      const job = await addRefreshJob(cron);
+      await cron.run(job.id, "force");
+      expect(enqueueSystemEvent).toHaveBeenCalledWith(
+        "Cron: Coverage unchanged.",
+        expect.objectContaining({ contextKey: `cron:${job.id}` }),
+      );
+    });
+  });
+
+  it("skips refresh jobs when the service has no refresh runner", async () => {
+    await withCronService({}, async ({ cron, runIsolatedAgentJob }) => {
+      const job = await addRefreshJob(cron);
+      await cron.run(job.id, "force");
+      expect(runIsolatedAgentJob).not.toHaveBeenCalled();
+      expect(cron.getJob(job.id)?.state).toMatchObject({
+        lastStatus: "skipped",
+        lastError: "houdiniRefresh jobs are not supported here",
+      });
+    });
+  });
+});
@@ -13,6 +13,7 @@ describe("issue #13992 regression - cron jobs skip execution", () => {
       storeFileMtimeMs: null,
       op: Promise.resolve(),
       warnedDisabled: false,
+      fileTriggers: new Map(),
       deps: {
         storePath: "/mock/path",
         cronEnabled: true,
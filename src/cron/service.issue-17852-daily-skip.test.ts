@@ -28,6 +28,7 @@ describe("issue #17852 - daily cron jobs should not skip days", () => {
       storeFileMtimeMs: null,
       op: Promise.resolve(),
       warnedDisabled: false,
+      fileTriggers: new Map(),
       deps: {
         storePath: "/mock/path",
         cronEnabled: true,
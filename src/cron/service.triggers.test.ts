@@ -0,0 +1,199 @@
+import path from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import { CronService } from "./service.js";
+import {
+  createCronStoreHarness,
+  createFinishedBarrier,
+  createNoopLogger,
+  installCronTestHooks,
+} from "./service.test-harness.js";
+import type { CronJob } from "./types.js";
+
+type WatchHandler = (changedPath: string) => void;
+
+const watchers = vi.hoisted(
+  () =>
+    [] as Array<{
+      root: string;
+      handlers: Map<string, WatchHandler>;
+      close: ReturnType<typeof vi.fn>;
+    }>,
+);
+
+vi.mock("chokidar", () => ({
+  default: {
+    watch: (root: string) => {
+      const watcher = {
+        root,
+        handlers: new Map<string, WatchHandler>(),
+        close: vi.fn(async () => undefined),
+      };
+      watchers.push(watcher);
+      const api = {
+        on: (event: string, handler: WatchHandler) => {
+          watcher.handlers.set(event, handler);
+          return api;
+        },
+        close: watcher.close,
+      };
+      return api;
+    },
+  },
+}));
+
+const noopLogger = createNoopLogger();
+const { makeStorePath } = createCronStoreHarness({ prefix: "openclaw-cron-triggers-" });
+installCronTestHooks({ logger: noopLogger });
+
+async function createTriggerService() {
+  watchers.length = 0;
+  const store = await makeStorePath();
+  const finished = createFinishedBarrier();
+  const messages: string[] = [];
+  const cron = new CronService({
+    storePath: store.storePath,
+    cronEnabled: true,
+    log: noopLogger,
+    enqueueSystemEvent: vi.fn(),
+    requestHeartbeatNow: vi.fn(),
+    runIsolatedAgentJob: vi.fn(async ({ message }: { message: string }) => {
+      messages.push(message);
+      return { status: "ok" as const };
+    }),
+    onEvent: finished.onEvent,
+  });
+  await cron.start();
+  return { cron, finished, messages };
+}
+
+function triggerJob(name: string, schedule: CronJob["schedule"], allowUnsafe?: boolean) {
+  return {
+    name,
+    enabled: true,
+    schedule,
+    sessionTarget: "isolated" as const,
+    wakeMode: "now" as const,
+    payload: {
+      kind: "agentTurn" as const,
+      message: "Handle the event",
+      allowUnsafeExternalContent: allowUnsafe,
+    },
+    delivery: { mode: "none" as const },
+  };
+}
+
+describe("CronService trigger schedules", () => {
+  it("runs webhook jobs with the rendered payload wrapped as external content", async () => {
+    const { cron, finished, messages } = await createTriggerService();
+    const job = await cron.add(
+      triggerJob("deploys", {
+        kind: "trigger",
+        trigger: { kind: "webhook", name: "deploys", template: "deploy {{service}}" },
+      }),
+    );
+    await cron.add(
+      triggerJob("other", { kind: "trigger", trigger: { kind: "webhook", name: "other" } }),
+    );
+    expect(job.state.nextRunAtMs).toBeUndefined();
+
+    const done = finished.waitForOk(job.id);
+    const jobIds = await cron.triggerWebhook("deploys", (template) =>
+      (template ?? "").replace("{{service}}", "api"),
+    );
+    expect(jobIds).toEqual([job.id]);
+    await vi.runOnlyPendingTimersAsync();
+    await done;
+
+    expect(messages).toHaveLength(1);
+    const [message] = messages;
+    expect(message).toContain("Handle the event\n\nTriggered by: Webhook deploys.");
+    expect(message).toContain("<<<EXTERNAL_UNTRUSTED_CONTENT>>>");
+    expect(message).toContain("deploy api");
+    const updated = (await cron.list({ includeDisabled: true })).find((j) => j.id === job.id);
+    expect(updated?.state.triggerEvent).toBeUndefined();
+    expect(updated?.state.nextRunAtMs).toBeUndefined();
+    await expect(cron.triggerWebhook("missing", () => "")).resolves.toEqual([]);
+
+    cron.stop();
+  });
+
+  it("debounces file changes into one run and stops watching when the job is removed", async () => {
+    const { cron, finished, messages } = await createTriggerService();
+    const root = path.resolve("/tmp/openclaw-inbox");
+    const job = await cron.add(
+      triggerJob(
+        "inbox",
+        {
+          kind: "trigger",
+          trigger: { kind: "file", path: root, glob: "**/*.pdf", debounceMs: 500 },
+        },
+        true,
+      ),
+    );
+    expect(watchers).toHaveLength(1);
+    const [watcher] = watchers;
+    expect(watcher.root).toBe(root);
+
+    const done = finished.waitForOk(job.id);
+    watcher.handlers.get("add")?.(path.join(root, "a.pdf"));
+    await vi.advanceTimersByTimeAsync(300);
+    watcher.handlers.get("change")?.(path.join(root, "sub", "b.pdf"));
+    watcher.handlers.get("add")?.(path.join(root, "notes.txt"));
+    await vi.advanceTimersByTimeAsync(300);
+    expect(messages).toHaveLength(0);
+    // The debounce flush persists the event, then re-arms the timer for the now-due job.
+    await vi.waitFor(() => expect(messages).toHaveLength(1));
+    await done;
+
+    expect(messages).toEqual([
+      [
+        "Handle the event",
+        "",
+        `Triggered by: File change under ${root}.`,
+        `2 path(s) changed under ${root}:`,
+        "added: a.pdf",
+        "changed: sub/b.pdf",
+      ].join("\n"),
+    ]);
+
+    await cron.remove(job.id);
+    expect(watcher.close).toHaveBeenCalledTimes(1);
+
+    cron.stop();
+  });
+
+  it("logs a warning when a file watcher fails to close", async () => {
+    const { cron } = await createTriggerService();
+    const job = await cron.add(
+      triggerJob("inbox", {
+        kind: "trigger",
+        trigger: { kind: "file", path: path.resolve("/tmp/openclaw-inbox") },
+      }),
+    );
+    const [watcher] = watchers;
+    watcher.close.mockRejectedValueOnce(new Error("EBUSY"));
+
+    await cron.remove(job.id);
+    await vi.waitFor(() =>
+      expect(noopLogger.warn).toHaveBeenCalledWith(
+        { jobId: job.id, err: "Error: EBUSY" },
+        "cron: file trigger close failed",
+      ),
+    );
+
+    cron.stop();
+  });
+
+  it("rejects invalid trigger definitions", async () => {
+    const { cron } = await createTriggerService();
+
+    await expect(
+      cron.add(triggerJob("bad", { kind: "trigger", trigger: { kind: "webhook", name: "a b" } })),
+    ).rejects.toThrow();
+    await expect(
+      cron.add(triggerJob("bad", { kind: "trigger", trigger: { kind: "file", path: " " } })),
+    ).rejects.toThrow();
+
+    cron.stop();
+  });
+});
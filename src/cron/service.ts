@@ -1,5 +1,6 @@
 import * as ops from "./service/ops.js";
 import { type CronServiceDeps, createCronServiceState } from "./service/state.js";
+import { fireWebhookTrigger } from "./service/triggers.js";
 import type { CronJob, CronJobCreate, CronJobPatch } from "./types.js";
 
 export type { CronEvent, CronServiceDeps } from "./service/state.js";
@@ -49,4 +50,9 @@ export class CronService {
   wake(opts: { mode: "now" | "next-heartbeat"; text: string }) {
     return ops.wakeNow(this.state, opts);
   }
+
+  /** Queue the jobs listening on webhook trigger `name`; returns their ids. */
+  async triggerWebhook(name: string, render: (template: string | undefined) => string) {
+    return await fireWebhookTrigger(this.state, name, render);
+  }
 }
@@ -1,4 +1,6 @@
 import crypto from "node:crypto";
+import { assertValidCronExclusions } from "../calendar.js";
+import { assertValidCronDeliveryMatch } from "../delivery.js";
 import { parseAbsoluteTimeMs } from "../parse.js";
 import { computeNextRunAtMs } from "../schedule.js";
 import {
@@ -14,6 +16,8 @@ import type {
   CronJobPatch,
   CronPayload,
   CronPayloadPatch,
+  CronRunStatus,
+  CronSchedule,
 } from "../types.js";
 import { normalizeHttpWebhookUrl } from "../webhook-url.js";
 import {
@@ -78,8 +82,12 @@ export function assertSupportedJobSpec(job: Pick<CronJob, "sessionTarget" | "pay
   if (job.sessionTarget === "main" && job.payload.kind !== "systemEvent") {
     throw new Error('main cron jobs require payload.kind="systemEvent"');
   }
-  if (job.sessionTarget === "isolated" && job.payload.kind !== "agentTurn") {
-    throw new Error('isolated cron jobs require payload.kind="agentTurn"');
+  if (
+    job.sessionTarget === "isolated" &&
+    job.payload.kind !== "agentTurn" &&
+    job.payload.kind !== "houdiniRefresh"
+  ) {
+    throw new Error('isolated cron jobs require payload.kind="agentTurn" or "houdiniRefresh"');
   }
 }
 
@@ -87,6 +95,7 @@ function assertDeliverySupport(job: Pick<CronJob, "sessionTarget" | "delivery">)
   if (!job.delivery) {
     return;
   }
+  assertValidCronDeliveryMatch(job.delivery.whenMatches);
   if (job.delivery.mode === "webhook") {
     const target = normalizeHttpWebhookUrl(job.delivery.to);
     if (!target) {
@@ -100,6 +109,78 @@ function assertDeliverySupport(job: Pick<CronJob, "sessionTarget" | "delivery">)
   }
 }
 
+/**
+ * Chained (`after`) jobs must name an existing upstream job, and following
+ * the chain upstream must never lead back to the job itself.
+ */
+export function assertValidJobChain(jobs: CronJob[], job: Pick<CronJob, "id" | "schedule">): void {
+  if (job.schedule.kind !== "after") {
+    return;
+  }
+  const scheduleOf = (id: string) =>
+    id === job.id ? job.schedule : jobs.find((j) => j.id === id)?.schedule;
+  if (!scheduleOf(job.schedule.jobId)) {
+    throw new Error(`unknown upstream cron job id: ${job.schedule.jobId}`);
+  }
+  const path = [job.id];
+  let upstreamId: string | undefined = job.schedule.jobId;
+  while (upstreamId) {
+    if (path.includes(upstreamId)) {
+      throw new Error(`cron job chain would create a cycle: ${[...path, upstreamId].join(" -> ")}`);
+    }
+    path.push(upstreamId);
+    const upstream = scheduleOf(upstreamId);
+    upstreamId = upstream?.kind === "after" ? upstream.jobId : undefined;
+  }
+}
+
+const CRON_WEBHOOK_TRIGGER_NAME = /^[a-z0-9][a-z0-9_-]*$/i;
+
+function assertValidCronTrigger(schedule: CronSchedule) {
+  if (schedule.kind !== "trigger") {
+    return;
+  }
+  const trigger = schedule.trigger;
+  if (trigger?.kind === "file") {
+    if (typeof trigger.path !== "string" || !trigger.path.trim()) {
+      throw new Error("cron file trigger requires a path");
+    }
+    const debounceMs = trigger.debounceMs;
+    if (debounceMs !== undefined && !(Number.isFinite(debounceMs) && debounceMs >= 0)) {
+      throw new Error("cron file trigger debounceMs must be a non-negative number");
+    }
+    return;
+  }
+  if (trigger?.kind === "webhook") {
+    if (!CRON_WEBHOOK_TRIGGER_NAME.test(trigger.name ?? "")) {
+      throw new Error(
+        `invalid cron webhook trigger name: ${trigger.name}; use letters, digits, "-" and "_"`,
+      );
+    }
+    return;
+  }
+  throw new Error('cron trigger kind must be "file" or "webhook"');
+}
+
+/** Jobs can't be removed while `after` jobs still chain off them. */
+export function assertNoChainedJobs(jobs: CronJob[], id: string): void {
+  const chained = jobs.filter((j) => j.schedule.kind === "after" && j.schedule.jobId === id);
+  if (chained.length > 0) {
+    throw new Error(
+      `cron job ${id} has chained jobs: ${chained.map((j) => j.id).join(", ")}; remove them or change their schedule first`,
+    );
+  }
+}
+
+/** Whether a finished upstream run with `status` triggers an `after` schedule. */
+export function matchesChainCondition(
+  schedule: Extract<CronSchedule, { kind: "after" }>,
+  status: CronRunStatus,
+): boolean {
+  const on = schedule.on ?? "ok";
+  return on === "any" || on === status;
+}
+
 export function findJobOrThrow(state: CronServiceState, id: string) {
   const job = state.store?.jobs.find((j) => j.id === id);
   if (!job) {
@@ -138,6 +219,13 @@ export function computeJobNextRunAtMs(job: CronJob, nowMs: number): number | und
             : null;
     return atMs !== null ? atMs : undefined;
   }
+  if (job.schedule.kind === "after") {
+    // Chained jobs are due as soon as a matching upstream run has finished.
+    return job.state.chainTrigger?.finishedAtMs;
+  }
+  if (job.schedule.kind === "trigger") {
+    return job.state.triggerEvent?.firedAtMs;
+  }
   const next = computeStaggeredCronNextRunAtMs(job, nowMs);
   if (next === undefined && job.schedule.kind === "cron") {
     const nextSecondMs = Math.floor(nowMs / 1000) * 1000 + 1000;
@@ -357,12 +445,16 @@ export function createJob(state: CronServiceState, input: CronJobCreate): CronJo
     wakeMode: input.wakeMode,
     payload: input.payload,
     delivery: input.delivery,
+    exclusions: input.exclusions?.length ? input.exclusions : undefined,
     state: {
       ...input.state,
     },
   };
   assertSupportedJobSpec(job);
   assertDeliverySupport(job);
+  assertValidJobChain(state.store?.jobs ?? [], job);
+  assertValidCronTrigger(job.schedule);
+  assertValidCronExclusions(job.exclusions);
   job.state.nextRunAtMs = computeJobNextRunAtMs(job, now);
   return job;
 }
@@ -424,6 +516,9 @@ export function applyJobPatch(job: CronJob, patch: CronJobPatch) {
   if (job.sessionTarget === "main" && job.delivery?.mode !== "webhook") {
     job.delivery = undefined;
   }
+  if ("exclusions" in patch) {
+    job.exclusions = patch.exclusions?.length ? patch.exclusions : undefined;
+  }
   if (patch.state) {
     job.state = { ...job.state, ...patch.state };
   }
@@ -435,9 +530,27 @@ export function applyJobPatch(job: CronJob, patch: CronJobPatch) {
   }
   assertSupportedJobSpec(job);
   assertDeliverySupport(job);
+  assertValidCronTrigger(job.schedule);
+  assertValidCronExclusions(job.exclusions);
 }
 
 function mergeCronPayload(existing: CronPayload, patch: CronPayloadPatch): CronPayload {
+  if (
+    existing.kind === "houdiniRefresh" &&
+    patch.kind === "agentTurn" &&
+    typeof patch.message !== "string"
+  ) {
+    // Delivery-only CLI edits arrive as agentTurn patches without a message.
+    const next = { ...existing };
+    if (typeof patch.model === "string") {
+      next.model = patch.model;
+    }
+    if (typeof patch.timeoutSeconds === "number") {
+      next.timeoutSeconds = patch.timeoutSeconds;
+    }
+    return next;
+  }
+
   if (patch.kind !== existing.kind) {
     return buildPayloadFromPatch(patch);
   }
@@ -450,6 +563,13 @@ function mergeCronPayload(existing: CronPayload, patch: CronPayloadPatch): CronP
     return { kind: "systemEvent", text };
   }
 
+  if (patch.kind === "houdiniRefresh") {
+    if (existing.kind !== "houdiniRefresh") {
+      return buildPayloadFromPatch(patch);
+    }
+    return { ...existing, ...patch };
+  }
+
   if (existing.kind !== "agentTurn") {
     return buildPayloadFromPatch(patch);
   }
@@ -534,6 +654,10 @@ function buildPayloadFromPatch(patch: CronPayloadPatch): CronPayload {
     return { kind: "systemEvent", text: patch.text };
   }
 
+  if (patch.kind === "houdiniRefresh") {
+    return { ...patch };
+  }
+
   if (typeof patch.message !== "string" || patch.message.length === 0) {
     throw new Error('cron.update payload.kind="agentTurn" requires message');
   }
@@ -561,6 +685,9 @@ function mergeCronDelivery(
     channel: existing?.channel,
     to: existing?.to,
     bestEffort: existing?.bestEffort,
+    onChange: existing?.onChange,
+    whenMatches: existing?.whenMatches,
+    quietSummary: existing?.quietSummary,
   };
 
   if (typeof patch.mode === "string") {
@@ -577,6 +704,15 @@ function mergeCronDelivery(
   if (typeof patch.bestEffort === "boolean") {
     next.bestEffort = patch.bestEffort;
   }
+  if (typeof patch.onChange === "boolean") {
+    next.onChange = patch.onChange || undefined;
+  }
+  if (patch.whenMatches !== undefined) {
+    next.whenMatches = patch.whenMatches ?? undefined;
+  }
+  if (typeof patch.quietSummary === "boolean") {
+    next.quietSummary = patch.quietSummary || undefined;
+  }
 
   return next;
 }
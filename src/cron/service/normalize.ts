@@ -76,6 +76,12 @@ export function inferLegacyName(job: {
   if (kind === "at") {
     return "One-shot";
   }
+  if (kind === "after") {
+    return "Chained job";
+  }
+  if (kind === "trigger") {
+    return "Triggered job";
+  }
   return "Cron job";
 }
 
@@ -83,5 +89,8 @@ export function normalizePayloadToSystemText(payload: CronPayload) {
   if (payload.kind === "systemEvent") {
     return payload.text.trim();
   }
+  if (payload.kind === "houdiniRefresh") {
+    return "Houdini knowledge base refresh";
+  }
   return payload.message.trim();
 }
@@ -1,10 +1,13 @@
 import type { CronJobCreate, CronJobPatch } from "../types.js";
 import {
   applyJobPatch,
+  assertNoChainedJobs,
+  assertValidJobChain,
   computeJobNextRunAtMs,
   createJob,
   findJobOrThrow,
   isJobDue,
+  matchesChainCondition,
   nextWakeAtMs,
   recomputeNextRuns,
   recomputeNextRunsForMaintenance,
@@ -13,6 +16,7 @@ import { locked } from "./locked.js";
 import type { CronServiceState } from "./state.js";
 import { ensureLoaded, persist, warnIfDisabled } from "./store.js";
 import { armTimer, emit, executeJob, runMissedJobs, stopTimer, wake } from "./timer.js";
+import { closeFileTriggers, syncFileTriggers } from "./triggers.js";
 
 async function ensureLoadedForRead(state: CronServiceState) {
   await ensureLoaded(state, { skipRecompute: true });
@@ -50,6 +54,7 @@ export async function start(state: CronServiceState) {
     recomputeNextRuns(state);
     await persist(state);
     armTimer(state);
+    syncFileTriggers(state);
     state.deps.log.info(
       {
         enabled: true,
@@ -63,6 +68,7 @@ export async function start(state: CronServiceState) {
 
 export function stop(state: CronServiceState) {
   stopTimer(state);
+  closeFileTriggers(state);
 }
 
 export async function status(state: CronServiceState) {
@@ -98,6 +104,7 @@ export async function add(state: CronServiceState, input: CronJobCreate) {
 
     await persist(state);
     armTimer(state);
+    syncFileTriggers(state);
 
     state.deps.log.info(
       {
@@ -126,7 +133,20 @@ export async function update(state: CronServiceState, id: string, patch: CronJob
     await ensureLoaded(state, { skipRecompute: true });
     const job = findJobOrThrow(state, id);
     const now = state.deps.nowMs();
+    if (patch.schedule) {
+      assertValidJobChain(state.store?.jobs ?? [], { id: job.id, schedule: patch.schedule });
+    }
     applyJobPatch(job, patch);
+    const chainTrigger = job.state.chainTrigger;
+    if (
+      chainTrigger &&
+      (job.schedule.kind !== "after" ||
+        job.schedule.jobId !== chainTrigger.jobId ||
+        !matchesChainCondition(job.schedule, chainTrigger.status))
+    ) {
+      // The queued upstream run no longer belongs to this job's chain.
+      job.state.chainTrigger = undefined;
+    }
     if (job.schedule.kind === "every") {
       const anchor = job.schedule.anchorMs;
       if (typeof anchor !== "number" || !Number.isFinite(anchor)) {
@@ -165,6 +185,7 @@ export async function update(state: CronServiceState, id: string, patch: CronJob
 
     await persist(state);
     armTimer(state);
+    syncFileTriggers(state);
     emit(state, {
       jobId: id,
       action: "updated",
@@ -182,10 +203,12 @@ export async function remove(state: CronServiceState, id: string) {
     if (!state.store) {
       return { ok: false, removed: false } as const;
     }
+    assertNoChainedJobs(state.store.jobs, id);
     state.store.jobs = state.store.jobs.filter((j) => j.id !== id);
     const removed = (state.store.jobs.length ?? 0) !== before;
     await persist(state);
     armTimer(state);
+    syncFileTriggers(state);
     if (removed) {
       emit(state, { jobId: id, action: "removed" });
     }
@@ -72,9 +72,17 @@ export type CronServiceDeps = {
        * https://github.com/openclaw/openclaw/issues/15692
        */
       delivered?: boolean;
+      /** Why the result was not announced (`delivery.onChange` / `delivery.whenMatches`). */
+      deliverySuppressed?: string;
+      /** `true` when the end-of-day quiet summary was announced with this run. */
+      quietSummaryDelivered?: boolean;
     } & CronRunOutcome &
       CronRunTelemetry
   >;
+  /** Runs `houdiniRefresh` payloads; jobs are skipped when not provided. */
+  runHoudiniRefreshJob?: (params: {
+    job: CronJob;
+  }) => Promise<{ summary?: string; delivered?: boolean } & CronRunOutcome & CronRunTelemetry>;
   onEvent?: (evt: CronEvent) => void;
 };
 
@@ -82,10 +90,18 @@ export type CronServiceDepsInternal = Omit<CronServiceDeps, "nowMs"> & {
   nowMs: () => number;
 };
 
+/** Live watcher for a `trigger` job with a file trigger. */
+export type CronFileTriggerWatch = {
+  /** Serialized trigger config; the watcher restarts when it changes. */
+  key: string;
+  close: () => Promise<void>;
+};
+
 export type CronServiceState = {
   deps: CronServiceDepsInternal;
   store: CronStoreFile | null;
   timer: NodeJS.Timeout | null;
+  fileTriggers: Map<string, CronFileTriggerWatch>;
   running: boolean;
   op: Promise<unknown>;
   warnedDisabled: boolean;
@@ -98,6 +114,7 @@ export function createCronServiceState(deps: CronServiceDeps): CronServiceState
     deps: { ...deps, nowMs: deps.nowMs ?? (() => Date.now()) },
     store: null,
     timer: null,
+    fileTriggers: new Map(),
     running: false,
     op: Promise.resolve(),
     warnedDisabled: false,
@@ -86,6 +86,10 @@ function normalizePayloadKind(payload: Record<string, unknown>) {
     payload.kind = "systemEvent";
     return true;
   }
+  if (raw === "houdinirefresh") {
+    payload.kind = "houdiniRefresh";
+    return true;
+  }
   return false;
 }
 
@@ -1,16 +1,19 @@
 import type { HeartbeatRunResult } from "../../infra/heartbeat-wake.js";
 import { DEFAULT_AGENT_ID } from "../../routing/session-key.js";
-import { resolveCronDeliveryPlan } from "../delivery.js";
+import { detectSuspiciousPatterns, wrapExternalContent } from "../../security/external-content.js";
+import { findCronExclusion, resolveCronPauseReason } from "../calendar.js";
+import { applyCronDeliveryOutcome, resolveCronDeliveryPlan } from "../delivery.js";
 import { sweepCronRunSessions } from "../session-reaper.js";
 import type { CronJob, CronRunOutcome, CronRunStatus, CronRunTelemetry } from "../types.js";
 import {
   computeJobNextRunAtMs,
+  matchesChainCondition,
   nextWakeAtMs,
   recomputeNextRunsForMaintenance,
   resolveJobPayloadTextForMain,
 } from "./jobs.js";
 import { locked } from "./locked.js";
-import type { CronEvent, CronServiceState } from "./state.js";
+import type { CronEvent, CronServiceDeps, CronServiceState } from "./state.js";
 import { ensureLoaded, persist } from "./store.js";
 
 const MAX_TIMER_DELAY_MS = 60_000;
@@ -31,13 +34,24 @@ const MIN_REFIRE_GAP_MS = 2_000;
  */
 const DEFAULT_JOB_TIMEOUT_MS = 10 * 60_000; // 10 minutes
 
-type TimedCronRunOutcome = CronRunOutcome &
+/** What an isolated run reported about announcing its result. */
+type CronDeliveryOutcome = {
+  resultText?: string;
+  suppressedReason?: string;
+  quietSummaryDelivered?: boolean;
+};
+
+type CronCoreRunOutcome = CronRunOutcome &
   CronRunTelemetry & {
-    jobId: string;
-    startedAt: number;
-    endedAt: number;
+    deliveryOutcome?: CronDeliveryOutcome;
   };
 
+type TimedCronRunOutcome = CronCoreRunOutcome & {
+  jobId: string;
+  startedAt: number;
+  endedAt: number;
+};
+
 /**
  * Exponential backoff delays (in ms) indexed by consecutive error count.
  * After the last entry the delay stays constant.
@@ -68,6 +82,7 @@ function applyJobResult(
     error?: string;
     startedAt: number;
     endedAt: number;
+    deliveryOutcome?: CronDeliveryOutcome;
   },
 ): boolean {
   job.state.runningAtMs = undefined;
@@ -76,6 +91,14 @@ function applyJobResult(
   job.state.lastDurationMs = Math.max(0, result.endedAt - result.startedAt);
   job.state.lastError = result.error;
   job.updatedAtMs = result.endedAt;
+  // This run consumed the pending upstream run; later ones stay queued.
+  if (job.state.chainTrigger && job.state.chainTrigger.finishedAtMs <= result.startedAt) {
+    job.state.chainTrigger = undefined;
+  }
+  if (job.state.triggerEvent && job.state.triggerEvent.firedAtMs <= result.startedAt) {
+    job.state.triggerEvent = undefined;
+  }
+  applyCronDeliveryOutcome(job, { runAtMs: result.startedAt, ...result.deliveryOutcome });
 
   // Track consecutive errors for backoff / auto-disable.
   if (result.status === "error") {
@@ -105,6 +128,9 @@ function applyJobResult(
           "cron: disabling one-shot job after error",
         );
       }
+    } else if (job.schedule.kind === "after" || job.schedule.kind === "trigger") {
+      // Chained and triggered jobs never retry on their own; they wait for the next event.
+      job.state.nextRunAtMs = job.enabled ? computeJobNextRunAtMs(job, result.endedAt) : undefined;
     } else if (result.status === "error" && job.enabled) {
       // Apply exponential backoff for errored jobs to prevent retry storms.
       const backoff = errorBackoffMs(job.state.consecutiveErrors ?? 1);
@@ -143,6 +169,112 @@ function applyJobResult(
   return shouldDelete;
 }
 
+/**
+ * Queue the jobs chained after `upstream` whose `on` condition matches the
+ * finished run. They become due right away and receive the run's summary.
+ */
+function triggerChainedJobs(
+  state: CronServiceState,
+  upstream: CronJob,
+  result: { status: CronRunStatus; summary?: string; endedAt: number },
+) {
+  if (result.status === "skipped") {
+    return;
+  }
+  for (const job of state.store?.jobs ?? []) {
+    if (!job.enabled || job.schedule.kind !== "after" || job.schedule.jobId !== upstream.id) {
+      continue;
+    }
+    if (!matchesChainCondition(job.schedule, result.status)) {
+      continue;
+    }
+    job.state.chainTrigger = {
+      jobId: upstream.id,
+      status: result.status,
+      summary: result.summary,
+      finishedAtMs: result.endedAt,
+    };
+    job.state.nextRunAtMs = result.endedAt;
+    state.deps.log.info(
+      { jobId: job.id, upstreamJobId: upstream.id, status: result.status },
+      "cron: triggering chained job",
+    );
+  }
+}
+
+/**
+ * Append what made a chained or triggered job due to its agent message.
+ * Trigger data comes from outside the Gateway and is wrapped as untrusted
+ * content unless the payload opts out via `allowUnsafeExternalContent`.
+ */
+function resolveAgentTurnMessage(state: CronServiceState, job: CronJob, message: string) {
+  const trigger = job.state.chainTrigger;
+  if (job.schedule.kind === "after" && trigger) {
+    const upstreamName = state.store?.jobs.find((j) => j.id === trigger.jobId)?.name;
+    const label = upstreamName ? `"${upstreamName}" (${trigger.jobId})` : trigger.jobId;
+    const summary = trigger.summary?.trim();
+    return [
+      message,
+      "",
+      `Upstream cron job ${label} finished with status ${trigger.status}.`,
+      summary ? `Upstream summary:\n${summary}` : "The upstream run returned no summary.",
+    ].join("\n");
+  }
+
+  const event = job.state.triggerEvent;
+  if (job.schedule.kind !== "trigger" || !event) {
+    return message;
+  }
+  const label =
+    event.kind === "file" ? `File change under ${event.source}` : `Webhook ${event.source}`;
+  const suspicious = detectSuspiciousPatterns(event.content);
+  if (suspicious.length > 0) {
+    state.deps.log.warn(
+      { jobId: job.id, trigger: event.kind, patterns: suspicious.slice(0, 3) },
+      "cron: suspicious patterns in trigger content",
+    );
+  }
+  const allowUnsafe =
+    job.payload.kind === "agentTurn" && job.payload.allowUnsafeExternalContent === true;
+  const content = allowUnsafe
+    ? event.content
+    : wrapExternalContent(event.content, {
+        source: event.kind === "file" ? "file_watch" : "webhook",
+        subject: label,
+      });
+  return [message, "", `Triggered by: ${label}.`, content].join("\n");
+}
+
+/**
+ * Reason a due run is skipped by the global `cron.pause` window or the job's
+ * calendar exclusions; undefined when the job should run.
+ */
+async function resolveCalendarSkip(
+  state: CronServiceState,
+  job: CronJob,
+  atMs: number,
+): Promise<string | undefined> {
+  const paused = resolveCronPauseReason(state.deps.cronConfig?.pause, atMs);
+  if (paused) {
+    return `excluded by calendar: ${paused}`;
+  }
+  if (!job.exclusions?.length) {
+    return undefined;
+  }
+  const excluded = await findCronExclusion({
+    exclusions: job.exclusions,
+    atMs,
+    timeZone: job.schedule.kind === "cron" ? job.schedule.tz : undefined,
+    onError: (rule, err) => {
+      state.deps.log.warn(
+        { jobId: job.id, exclusion: rule, err: String(err) },
+        "cron: failed to evaluate calendar exclusion",
+      );
+    },
+  });
+  return excluded ? `excluded by calendar: ${excluded}` : undefined;
+}
+
 export function armTimer(state: CronServiceState) {
   if (state.timer) {
     clearTimeout(state.timer);
@@ -243,8 +375,25 @@ export async function onTimer(state: CronServiceState) {
       job.state.runningAtMs = startedAt;
       emit(state, { jobId: job.id, action: "started", runAtMs: startedAt });
 
+      // Only await when there is something to evaluate so plain jobs start in the same tick.
+      const calendarSkip =
+        state.deps.cronConfig?.pause || job.exclusions?.length
+          ? await resolveCalendarSkip(state, job, startedAt)
+          : undefined;
+      if (calendarSkip) {
+        results.push({
+          jobId: id,
+          status: "skipped",
+          error: calendarSkip,
+          startedAt,
+          endedAt: state.deps.nowMs(),
+        });
+        continue;
+      }
+
       const configuredTimeoutMs =
-        job.payload.kind === "agentTurn" && typeof job.payload.timeoutSeconds === "number"
+        (job.payload.kind === "agentTurn" || job.payload.kind === "houdiniRefresh") &&
+        typeof job.payload.timeoutSeconds === "number"
           ? Math.floor(job.payload.timeoutSeconds * 1_000)
           : undefined;
       const jobTimeoutMs =
@@ -307,7 +456,9 @@ export async function onTimer(state: CronServiceState) {
             error: result.error,
             startedAt: result.startedAt,
             endedAt: result.endedAt,
+            deliveryOutcome: result.deliveryOutcome,
           });
+          triggerChainedJobs(state, job, result);
 
           emitJobFinished(state, job, result, result.startedAt);
 
@@ -452,10 +603,7 @@ export async function runDueJobs(state: CronServiceState) {
   }
 }
 
-async function executeJobCore(
-  state: CronServiceState,
-  job: CronJob,
-): Promise<CronRunOutcome & CronRunTelemetry> {
+async function executeJobCore(state: CronServiceState, job: CronJob): Promise<CronCoreRunOutcome> {
   if (job.sessionTarget === "main") {
     const text = resolveJobPayloadTextForMain(job);
     if (!text) {
@@ -521,15 +669,21 @@ async function executeJobCore(
     }
   }
 
-  if (job.payload.kind !== "agentTurn") {
+  let res: Awaited<ReturnType<CronServiceDeps["runIsolatedAgentJob"]>>;
+  if (job.payload.kind === "houdiniRefresh") {
+    if (!state.deps.runHoudiniRefreshJob) {
+      return { status: "skipped", error: "houdiniRefresh jobs are not supported here" };
+    }
+    res = await state.deps.runHoudiniRefreshJob({ job });
+  } else if (job.payload.kind === "agentTurn") {
+    res = await state.deps.runIsolatedAgentJob({
+      job,
+      message: resolveAgentTurnMessage(state, job, job.payload.message),
+    });
+  } else {
     return { status: "skipped", error: "isolated job requires payload.kind=agentTurn" };
   }
 
-  const res = await state.deps.runIsolatedAgentJob({
-    job,
-    message: job.payload.message,
-  });
-
   // Post a short summary back to the main session — but only when the
   // isolated run did NOT already deliver its output to the target channel.
   // When `res.delivered` is true the announce flow (or direct outbound
@@ -538,7 +692,7 @@ async function executeJobCore(
   // See: https://github.com/openclaw/openclaw/issues/15692
   const summaryText = res.summary?.trim();
   const deliveryPlan = resolveCronDeliveryPlan(job);
-  if (summaryText && deliveryPlan.requested && !res.delivered) {
+  if (summaryText && deliveryPlan.requested && !res.delivered && !res.deliverySuppressed) {
     const prefix = "Cron";
     const label =
       res.status === "error" ? `${prefix} (error): ${summaryText}` : `${prefix}: ${summaryText}`;
@@ -565,6 +719,11 @@ async function executeJobCore(
     model: res.model,
     provider: res.provider,
     usage: res.usage,
+    deliveryOutcome: {
+      resultText: res.status === "ok" ? res.outputText?.trim() || summaryText : undefined,
+      suppressedReason: res.deliverySuppressed,
+      quietSummaryDelivered: res.quietSummaryDelivered,
+    },
   };
 }
 
@@ -576,7 +735,7 @@ export async function executeJob(
   state: CronServiceState,
   job: CronJob,
   _nowMs: number,
-  _opts: { forced: boolean },
+  opts: { forced: boolean },
 ) {
   if (!job.state) {
     job.state = {};
@@ -586,12 +745,13 @@ export async function executeJob(
   job.state.lastError = undefined;
   emit(state, { jobId: job.id, action: "started", runAtMs: startedAt });
 
-  let coreResult: {
-    status: CronRunStatus;
-  } & CronRunOutcome &
-    CronRunTelemetry;
+  let coreResult: CronCoreRunOutcome;
   try {
-    coreResult = await executeJobCore(state, job);
+    // Forced runs (`cron run --force`) ignore the pause window and exclusions.
+    const calendarSkip = opts.forced ? undefined : await resolveCalendarSkip(state, job, startedAt);
+    coreResult = calendarSkip
+      ? { status: "skipped", error: calendarSkip }
+      : await executeJobCore(state, job);
   } catch (err) {
     coreResult = { status: "error", error: String(err) };
   }
@@ -602,6 +762,12 @@ export async function executeJob(
     error: coreResult.error,
     startedAt,
     endedAt,
+    deliveryOutcome: coreResult.deliveryOutcome,
+  });
+  triggerChainedJobs(state, job, {
+    status: coreResult.status,
+    summary: coreResult.summary,
+    endedAt,
   });
 
   emitJobFinished(state, job, coreResult, startedAt);
@@ -0,0 +1,201 @@
+import path from "node:path";
+import chokidar from "chokidar";
+import { resolveUserPath } from "../../utils.js";
+import type { CronJob, CronTrigger, CronTriggerEvent } from "../types.js";
+import { locked } from "./locked.js";
+import type { CronFileTriggerWatch, CronServiceState } from "./state.js";
+import { ensureLoaded, persist } from "./store.js";
+import { armTimer } from "./timer.js";
+
+const DEFAULT_FILE_TRIGGER_DEBOUNCE_MS = 2_000;
+/** Changed paths listed in one file trigger event; the rest are only counted. */
+const MAX_FILE_TRIGGER_PATHS = 50;
+
+const FILE_TRIGGER_IGNORED = [/(^|[\\/])\.git([\\/]|$)/, /(^|[\\/])node_modules([\\/]|$)/];
+
+type FileTrigger = Extract<CronTrigger, { kind: "file" }>;
+
+function globToRegExp(glob: string): RegExp {
+  let regex = "^";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === "*" && glob[i + 1] === "*") {
+      // `**/` also matches zero directories.
+      const slash = glob[i + 2] === "/";
+      regex += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (ch === "*") {
+      regex += "[^/]*";
+    } else if (ch === "?") {
+      regex += "[^/]";
+    } else {
+      regex += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`${regex}$`);
+}
+
+type TriggerJob = CronJob & { schedule: { kind: "trigger"; trigger: CronTrigger } };
+
+function listTriggerJobs(state: CronServiceState): TriggerJob[] {
+  return (state.store?.jobs ?? []).filter(
+    (job): job is TriggerJob => job.enabled && job.schedule.kind === "trigger",
+  );
+}
+
+/**
+ * Make matching trigger jobs due now with the given event. A newer event
+ * replaces one that has not run yet. Returns the ids of the queued jobs.
+ */
+async function queueTriggerEvent(
+  state: CronServiceState,
+  match: (trigger: CronTrigger, jobId: string) => boolean,
+  buildEvent: (trigger: CronTrigger, firedAtMs: number) => CronTriggerEvent,
+): Promise<string[]> {
+  return await locked(state, async () => {
+    await ensureLoaded(state, { skipRecompute: true });
+    const firedAtMs = state.deps.nowMs();
+    const queued: string[] = [];
+    for (const job of listTriggerJobs(state)) {
+      if (!match(job.schedule.trigger, job.id)) {
+        continue;
+      }
+      job.state.triggerEvent = buildEvent(job.schedule.trigger, firedAtMs);
+      job.state.nextRunAtMs = firedAtMs;
+      queued.push(job.id);
+      state.deps.log.info(
+        { jobId: job.id, trigger: job.schedule.trigger.kind },
+        "cron: trigger fired",
+      );
+    }
+    if (queued.length > 0) {
+      await persist(state);
+      armTimer(state);
+    }
+    return queued;
+  });
+}
+
+/**
+ * Fire every enabled job listening on webhook `name`. `render` turns the
+ * job's template (if any) into the message content.
+ */
+export async function fireWebhookTrigger(
+  state: CronServiceState,
+  name: string,
+  render: (template: string | undefined) => string,
+): Promise<string[]> {
+  return await queueTriggerEvent(
+    state,
+    (trigger) => trigger.kind === "webhook" && trigger.name === name,
+    (trigger, firedAtMs) => ({
+      kind: "webhook",
+      source: name,
+      content: render(trigger.kind === "webhook" ? trigger.template : undefined),
+      firedAtMs,
+    }),
+  );
+}
+
+function formatFileChanges(root: string, changes: Map<string, string>) {
+  const entries = [...changes.entries()].toSorted(([a], [b]) => a.localeCompare(b));
+  const lines = entries
+    .slice(0, MAX_FILE_TRIGGER_PATHS)
+    .map(([rel, change]) => `${change}: ${rel}`);
+  if (entries.length > MAX_FILE_TRIGGER_PATHS) {
+    lines.push(`(${entries.length - MAX_FILE_TRIGGER_PATHS} more)`);
+  }
+  return [`${entries.length} path(s) changed under ${root}:`, ...lines].join("\n");
+}
+
+function watchFileTrigger(state: CronServiceState, jobId: string, trigger: FileTrigger) {
+  const root = resolveUserPath(trigger.path);
+  const matcher = trigger.glob?.trim() ? globToRegExp(trigger.glob.trim()) : undefined;
+  const debounceMs = trigger.debounceMs ?? DEFAULT_FILE_TRIGGER_DEBOUNCE_MS;
+  const changes = new Map<string, string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const flush = () => {
+    timer = undefined;
+    if (changes.size === 0) {
+      return;
+    }
+    const content = formatFileChanges(root, changes);
+    changes.clear();
+    void queueTriggerEvent(
+      state,
+      (current, id) => id === jobId && current.kind === "file",
+      (_trigger, firedAtMs) => ({ kind: "file", source: root, content, firedAtMs }),
+    ).catch((err) => {
+      state.deps.log.warn({ jobId, err: String(err) }, "cron: file trigger failed");
+    });
+  };
+  const onChange = (change: string) => (changedPath: string) => {
+    const rel = path.relative(root, changedPath).split(path.sep).join("/") || path.basename(root);
+    if (matcher && !matcher.test(rel)) {
+      return;
+    }
+    changes.set(rel, change);
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(flush, debounceMs);
+  };
+
+  const watcher = chokidar.watch(root, { ignoreInitial: true, ignored: FILE_TRIGGER_IGNORED });
+  watcher.on("add", onChange("added"));
+  watcher.on("change", onChange("changed"));
+  watcher.on("unlink", onChange("removed"));
+  watcher.on("error", (err) => {
+    state.deps.log.warn({ jobId, path: root, err: String(err) }, "cron: file trigger watch error");
+  });
+  return async () => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    await watcher.close();
+  };
+}
+
+function closeFileTrigger(state: CronServiceState, jobId: string, watch: CronFileTriggerWatch) {
+  watch.close().catch((err) => {
+    state.deps.log.warn({ jobId, err: String(err) }, "cron: file trigger close failed");
+  });
+}
+
+/**
+ * Start, restart or stop file watchers so they match the enabled file
+ * trigger jobs in the loaded store.
+ */
+export function syncFileTriggers(state: CronServiceState) {
+  const wanted = new Map<string, FileTrigger>();
+  if (state.deps.cronEnabled) {
+    for (const job of listTriggerJobs(state)) {
+      if (job.schedule.trigger.kind === "file") {
+        wanted.set(job.id, job.schedule.trigger);
+      }
+    }
+  }
+  for (const [jobId, watch] of state.fileTriggers) {
+    const trigger = wanted.get(jobId);
+    if (!trigger || JSON.stringify(trigger) !== watch.key) {
+      state.fileTriggers.delete(jobId);
+      closeFileTrigger(state, jobId, watch);
+    }
+  }
+  for (const [jobId, trigger] of wanted) {
+    if (!state.fileTriggers.has(jobId)) {
+      state.fileTriggers.set(jobId, {
+        key: JSON.stringify(trigger),
+        close: watchFileTrigger(state, jobId, trigger),
+      });
+    }
+  }
+}
+
+export function closeFileTriggers(state: CronServiceState) {
+  for (const [jobId, watch] of state.fileTriggers) {
+    closeFileTrigger(state, jobId, watch);
+  }
+  state.fileTriggers.clear();
+}
@@ -9,8 +9,55 @@ export type CronSchedule =
       tz?: string;
       /** Optional deterministic stagger window in milliseconds (0 keeps exact schedule). */
       staggerMs?: number;
+    }
+  | {
+      kind: "after";
+      /** Upstream job whose finished runs trigger this one. */
+      jobId: string;
+      /** Upstream run status that triggers this job (default ok). */
+      on?: CronChainCondition;
+    }
+  | { kind: "trigger"; trigger: CronTrigger };
+
+export type CronChainCondition = "ok" | "error" | "any";
+
+/** External event source for `trigger` schedules. */
+export type CronTrigger =
+  | {
+      kind: "file";
+      /** File or directory to watch (`~` expands to the home directory). */
+      path: string;
+      /** Only changes whose path relative to `path` matches fire the job (`*`, `**`, `?`). */
+      glob?: string;
+      /** Quiet period that batches a burst of changes into one run (default 2s). */
+      debounceMs?: number;
+    }
+  | {
+      kind: "webhook";
+      /** Fires on POST `<hooks.path>/cron/<name>`. */
+      name: string;
+      /** Hook-style template (`{{payload.title}}`); defaults to the JSON body. */
+      template?: string;
     };
 
+/**
+ * Calendar rule that keeps a job from running. Days are calendar days in the
+ * job's timezone (cron `tz`, otherwise the Gateway host timezone).
+ */
+export type CronExclusion =
+  | {
+      kind: "dates";
+      /** First excluded day (YYYY-MM-DD) or instant (ISO timestamp). */
+      from: string;
+      /** Last excluded day or end instant (default: same as `from`). */
+      to?: string;
+      label?: string;
+    }
+  /** Local ICS calendar file; every day an event touches is excluded. */
+  | { kind: "ics"; path: string }
+  /** Built-in public holiday set (see `CRON_HOLIDAY_SETS`). */
+  | { kind: "holidays"; set: string };
+
 export type CronSessionTarget = "main" | "isolated";
 export type CronWakeMode = "next-heartbeat" | "now";
 
@@ -18,14 +65,40 @@ export type CronMessageChannel = ChannelId | "last";
 
 export type CronDeliveryMode = "none" | "announce" | "webhook";
 
+/** Predicate a result must satisfy to be announced (`delivery.whenMatches`). */
+export type CronDeliveryMatch = {
+  /** Regular expression tested against the result text, or against the value at `path`. */
+  pattern?: string;
+  /** Regular expression flags, e.g. `i`. */
+  flags?: string;
+  /** JSON path (`$.status`, `checks[0].state`) into the result parsed as JSON. */
+  path?: string;
+};
+
 export type CronDelivery = {
   mode: CronDeliveryMode;
   channel?: CronMessageChannel;
   to?: string;
   bestEffort?: boolean;
+  /** Only announce when the result differs from the previous run's result. */
+  onChange?: boolean;
+  /** Only announce results that satisfy this predicate. */
+  whenMatches?: CronDeliveryMatch;
+  /** Announce one end-of-day summary listing the runs that were not announced. */
+  quietSummary?: boolean;
 };
 
-export type CronDeliveryPatch = Partial<CronDelivery>;
+export type CronDeliveryPatch = Omit<Partial<CronDelivery>, "whenMatches"> & {
+  /** `null` removes the predicate. */
+  whenMatches?: CronDeliveryMatch | null;
+};
+
+/** A run whose announce was suppressed by the delivery conditions. */
+export type CronSuppressedDelivery = {
+  runAtMs: number;
+  reason: string;
+  summary?: string;
+};
 
 export type CronRunStatus = "ok" | "error" | "skipped";
 
@@ -65,7 +138,23 @@ export type CronPayload =
       channel?: CronMessageChannel;
       to?: string;
       bestEffortDeliver?: boolean;
-    };
+    }
+  | CronHoudiniRefreshPayload;
+
+/** Built-in Houdini knowledge base refresh: crawl → annotate → ingest. */
+export type CronHoudiniRefreshPayload = {
+  kind: "houdiniRefresh";
+  /** Crawl mode (default incremental). */
+  mode?: "full" | "incremental";
+  systems?: string[];
+  /** Max nodes sent to the annotation model per run. */
+  maxNodes?: number;
+  /** Max annotation tokens per run. */
+  maxTokens?: number;
+  /** Annotation model override (provider/model or alias). */
+  model?: string;
+  timeoutSeconds?: number;
+};
 
 export type CronPayloadPatch =
   | { kind: "systemEvent"; text?: string }
@@ -80,7 +169,25 @@ export type CronPayloadPatch =
       channel?: CronMessageChannel;
       to?: string;
       bestEffortDeliver?: boolean;
-    };
+    }
+  | CronHoudiniRefreshPayload;
+
+/** Finished upstream run waiting to trigger an `after` job. */
+export type CronChainTrigger = {
+  jobId: string;
+  status: CronRunStatus;
+  summary?: string;
+  finishedAtMs: number;
+};
+
+export type CronTriggerEvent = {
+  kind: CronTrigger["kind"];
+  /** Watched path or webhook name. */
+  source: string;
+  /** Changed paths or rendered webhook payload. Untrusted. */
+  content: string;
+  firedAtMs: number;
+};
 
 export type CronJobState = {
   nextRunAtMs?: number;
@@ -93,6 +200,14 @@ export type CronJobState = {
   consecutiveErrors?: number;
   /** Number of consecutive schedule computation errors. Auto-disables job after threshold. */
   scheduleErrorCount?: number;
+  /** Pending upstream run for `after` schedules; cleared once this job runs. */
+  chainTrigger?: CronChainTrigger;
+  /** Pending external event for `trigger` schedules; cleared once this job runs. */
+  triggerEvent?: CronTriggerEvent;
+  /** Hash of the previous run's result text, compared by `delivery.onChange`. */
+  lastResultHash?: string;
+  /** Runs not announced since the last quiet summary (`delivery.quietSummary`). */
+  suppressedDeliveries?: CronSuppressedDelivery[];
 };
 
 export type CronJob = {
@@ -111,6 +226,8 @@ export type CronJob = {
   wakeMode: CronWakeMode;
   payload: CronPayload;
   delivery?: CronDelivery;
+  /** Days on which due runs are skipped instead of executed. */
+  exclusions?: CronExclusion[];
   state: CronJobState;
 };
 
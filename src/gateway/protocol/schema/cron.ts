@@ -19,6 +19,39 @@ function cronAgentTurnPayloadSchema(params: { message: TSchema }) {
   );
 }
 
+const CronHoudiniRefreshPayloadSchema = Type.Object(
+  {
+    kind: Type.Literal("houdiniRefresh"),
+    mode: Type.Optional(Type.Union([Type.Literal("full"), Type.Literal("incremental")])),
+    systems: Type.Optional(Type.Array(NonEmptyString)),
+    maxNodes: Type.Optional(Type.Integer({ minimum: 1 })),
+    maxTokens: Type.Optional(Type.Integer({ minimum: 1 })),
+    model: Type.Optional(Type.String()),
+    timeoutSeconds: Type.Optional(Type.Integer({ minimum: 0 })),
+  },
+  { additionalProperties: false },
+);
+
+export const CronTriggerSchema = Type.Union([
+  Type.Object(
+    {
+      kind: Type.Literal("file"),
+      path: NonEmptyString,
+      glob: Type.Optional(Type.String()),
+      debounceMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    },
+    { additionalProperties: false },
+  ),
+  Type.Object(
+    {
+      kind: Type.Literal("webhook"),
+      name: Type.String({ pattern: "^[A-Za-z0-9][A-Za-z0-9_-]*$" }),
+      template: Type.Optional(Type.String()),
+    },
+    { additionalProperties: false },
+  ),
+]);
+
 export const CronScheduleSchema = Type.Union([
   Type.Object(
     {
@@ -44,6 +77,49 @@ export const CronScheduleSchema = Type.Union([
     },
     { additionalProperties: false },
   ),
+  Type.Object(
+    {
+      kind: Type.Literal("after"),
+      jobId: NonEmptyString,
+      on: Type.Optional(
+        Type.Union([Type.Literal("ok"), Type.Literal("error"), Type.Literal("any")]),
+      ),
+    },
+    { additionalProperties: false },
+  ),
+  Type.Object(
+    {
+      kind: Type.Literal("trigger"),
+      trigger: CronTriggerSchema,
+    },
+    { additionalProperties: false },
+  ),
+]);
+
+export const CronExclusionSchema = Type.Union([
+  Type.Object(
+    {
+      kind: Type.Literal("dates"),
+      from: NonEmptyString,
+      to: Type.Optional(NonEmptyString),
+      label: Type.Optional(Type.String()),
+    },
+    { additionalProperties: false },
+  ),
+  Type.Object(
+    {
+      kind: Type.Literal("ics"),
+      path: NonEmptyString,
+    },
+    { additionalProperties: false },
+  ),
+  Type.Object(
+    {
+      kind: Type.Literal("holidays"),
+      set: NonEmptyString,
+    },
+    { additionalProperties: false },
+  ),
 ]);
 
 export const CronPayloadSchema = Type.Union([
@@ -55,6 +131,7 @@ export const CronPayloadSchema = Type.Union([
     { additionalProperties: false },
   ),
   cronAgentTurnPayloadSchema({ message: NonEmptyString }),
+  CronHoudiniRefreshPayloadSchema,
 ]);
 
 export const CronPayloadPatchSchema = Type.Union([
@@ -66,6 +143,7 @@ export const CronPayloadPatchSchema = Type.Union([
     { additionalProperties: false },
   ),
   cronAgentTurnPayloadSchema({ message: Type.Optional(NonEmptyString) }),
+  CronHoudiniRefreshPayloadSchema,
 ]);
 
 const CronDeliverySharedProperties = {
@@ -73,6 +151,21 @@ const CronDeliverySharedProperties = {
   bestEffort: Type.Optional(Type.Boolean()),
 };
 
+const CronDeliveryMatchSchema = Type.Object(
+  {
+    pattern: Type.Optional(NonEmptyString),
+    flags: Type.Optional(Type.String({ pattern: "^[dgimsuvy]*$" })),
+    path: Type.Optional(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
+
+const CronDeliveryConditionProperties = {
+  onChange: Type.Optional(Type.Boolean()),
+  whenMatches: Type.Optional(CronDeliveryMatchSchema),
+  quietSummary: Type.Optional(Type.Boolean()),
+};
+
 const CronDeliveryNoopSchema = Type.Object(
   {
     mode: Type.Literal("none"),
@@ -86,6 +179,7 @@ const CronDeliveryAnnounceSchema = Type.Object(
   {
     mode: Type.Literal("announce"),
     ...CronDeliverySharedProperties,
+    ...CronDeliveryConditionProperties,
     to: Type.Optional(Type.String()),
   },
   { additionalProperties: false },
@@ -112,6 +206,8 @@ export const CronDeliveryPatchSchema = Type.Object(
       Type.Union([Type.Literal("none"), Type.Literal("announce"), Type.Literal("webhook")]),
     ),
     ...CronDeliverySharedProperties,
+    ...CronDeliveryConditionProperties,
+    whenMatches: Type.Optional(Type.Union([CronDeliveryMatchSchema, Type.Null()])),
     to: Type.Optional(Type.String()),
   },
   { additionalProperties: false },
@@ -148,6 +244,7 @@ export const CronJobSchema = Type.Object(
     wakeMode: Type.Union([Type.Literal("next-heartbeat"), Type.Literal("now")]),
     payload: CronPayloadSchema,
     delivery: Type.Optional(CronDeliverySchema),
+    exclusions: Type.Optional(Type.Array(CronExclusionSchema)),
     state: CronJobStateSchema,
   },
   { additionalProperties: false },
@@ -175,6 +272,7 @@ export const CronAddParamsSchema = Type.Object(
     wakeMode: Type.Union([Type.Literal("next-heartbeat"), Type.Literal("now")]),
     payload: CronPayloadSchema,
     delivery: Type.Optional(CronDeliverySchema),
+    exclusions: Type.Optional(Type.Array(CronExclusionSchema)),
   },
   { additionalProperties: false },
 );
@@ -192,6 +290,7 @@ export const CronJobPatchSchema = Type.Object(
     wakeMode: Type.Optional(Type.Union([Type.Literal("next-heartbeat"), Type.Literal("now")])),
     payload: Type.Optional(CronPayloadPatchSchema),
     delivery: Type.Optional(CronDeliveryPatchSchema),
+    exclusions: Type.Optional(Type.Array(CronExclusionSchema)),
     state: Type.Optional(Type.Partial(CronJobStateSchema)),
   },
   { additionalProperties: false },
@@ -246,22 +345,20 @@ export const CronRunParamsSchema = Type.Union([
   ),
 ]);
 
-export const CronRunsParamsSchema = Type.Union([
-  Type.Object(
-    {
-      id: NonEmptyString,
-      limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 5000 })),
-    },
-    { additionalProperties: false },
-  ),
-  Type.Object(
-    {
-      jobId: NonEmptyString,
-      limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 5000 })),
-    },
-    { additionalProperties: false },
-  ),
-]);
+export const CronRunsParamsSchema = Type.Object(
+  {
+    id: Type.Optional(NonEmptyString),
+    jobId: Type.Optional(NonEmptyString),
+    status: Type.Optional(
+      Type.Union([Type.Literal("ok"), Type.Literal("error"), Type.Literal("skipped")]),
+    ),
+    since: Type.Optional(Type.Integer({ minimum: 0 })),
+    until: Type.Optional(Type.Integer({ minimum: 0 })),
+    offset: Type.Optional(Type.Integer({ minimum: 0 })),
+    limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 5000 })),
+  },
+  { additionalProperties: false },
+);
 
 export const CronRunLogEntrySchema = Type.Object(
   {
@@ -7,6 +7,7 @@ import {
   resolveAgentMainSessionKey,
 } from "../config/sessions.js";
 import { resolveStorePath } from "../config/sessions/paths.js";
+import { runCronHoudiniRefresh } from "../cron/houdini-refresh.js";
 import { runCronIsolatedAgentTurn } from "../cron/isolated-agent.js";
 import { appendCronRunLog, resolveCronRunLogPath } from "../cron/run-log.js";
 import { CronService } from "../cron/service.js";
@@ -197,6 +198,16 @@ export function buildGatewayCronService(params: {
         lane: "cron",
       });
     },
+    runHoudiniRefreshJob: async ({ job }) => {
+      const { agentId, cfg: runtimeConfig } = resolveCronAgent(job.agentId);
+      return await runCronHoudiniRefresh({
+        cfg: runtimeConfig,
+        deps: params.deps,
+        job,
+        agentId,
+        log: cronLogger,
+      });
+    },
     log: getChildLogger({ module: "cron", storePath }),
     onEvent: (evt) => {
       params.broadcast("cron", evt, { dropIfSlow: true });
@@ -31,7 +31,7 @@ import {
   handleControlUiHttpRequest,
   type ControlUiRootState,
 } from "./control-ui.js";
-import { applyHookMappings } from "./hooks-mapping.js";
+import { applyHookMappings, type HookMappingContext } from "./hooks-mapping.js";
 import {
   extractHookToken,
   getHookAgentPolicyError,
@@ -79,6 +79,8 @@ type HookDispatchers = {
     timeoutSeconds?: number;
     allowUnsafeExternalContent?: boolean;
   }) => string;
+  /** Fires cron jobs listening on webhook trigger `name`; returns the queued job ids. */
+  dispatchCronTrigger?: (value: { name: string; context: HookMappingContext }) => Promise<string[]>;
 };
 
 function sendJson(res: ServerResponse, status: number, body: unknown) {
@@ -195,7 +197,15 @@ export function createHooksRequestHandler(
     logHooks: SubsystemLogger;
   } & HookDispatchers,
 ): HooksRequestHandler {
-  const { getHooksConfig, bindHost, port, logHooks, dispatchAgentHook, dispatchWakeHook } = opts;
+  const {
+    getHooksConfig,
+    bindHost,
+    port,
+    logHooks,
+    dispatchAgentHook,
+    dispatchWakeHook,
+    dispatchCronTrigger,
+  } = opts;
   const hookAuthFailures = new Map<string, HookAuthFailure>();
 
   const resolveHookClientKey = (req: IncomingMessage): string => {
@@ -360,6 +370,25 @@ export function createHooksRequestHandler(
       return true;
     }
 
+    // `cron/<name>` fires webhook-triggered cron jobs; unknown names fall
+    // through so existing mappings on that path keep working.
+    if (dispatchCronTrigger && subPath.startsWith("cron/")) {
+      try {
+        const jobIds = await dispatchCronTrigger({
+          name: subPath.slice("cron/".length),
+          context: { payload: payload as Record<string, unknown>, headers, url, path: subPath },
+        });
+        if (jobIds.length > 0) {
+          sendJson(res, 202, { ok: true, jobIds });
+          return true;
+        }
+      } catch (err) {
+        logHooks.warn(`cron webhook trigger failed: ${String(err)}`);
+        sendJson(res, 500, { ok: false, error: "cron trigger failed" });
+        return true;
+      }
+    }
+
     if (hooksConfig.mappings.length > 0) {
       try {
         const mapped = await applyHookMappings(hooksConfig.mappings, {
@@ -1,5 +1,5 @@
 import { normalizeCronJobCreate, normalizeCronJobPatch } from "../../cron/normalize.js";
-import { readCronRunLogEntries, resolveCronRunLogPath } from "../../cron/run-log.js";
+import { queryCronRunLog } from "../../cron/run-log.js";
 import type { CronJobCreate, CronJobPatch } from "../../cron/types.js";
 import { validateScheduleTimestamp } from "../../cron/validate-timestamp.js";
 import {
@@ -204,24 +204,31 @@ export const cronHandlers: GatewayRequestHandlers = {
       );
       return;
     }
-    const p = params as { id?: string; jobId?: string; limit?: number };
-    const jobId = p.id ?? p.jobId;
-    if (!jobId) {
+    const p = params;
+    if (p.since !== undefined && p.until !== undefined && p.since >= p.until) {
       respond(
         false,
         undefined,
-        errorShape(ErrorCodes.INVALID_REQUEST, "invalid cron.runs params: missing id"),
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          "invalid cron.runs params: since must be before until",
+        ),
       );
       return;
     }
-    const logPath = resolveCronRunLogPath({
+    // The page keeps `entries` (newest `limit` runs, oldest first) as the
+    // pre-filter response did; an omitted id now lists runs of every job.
+    const page = await queryCronRunLog({
       storePath: context.cronStorePath,
-      jobId,
-    });
-    const entries = await readCronRunLogEntries(logPath, {
-      limit: p.limit,
-      jobId,
+      query: {
+        jobId: p.id ?? p.jobId,
+        status: p.status,
+        since: p.since,
+        until: p.until,
+        offset: p.offset,
+        limit: p.limit,
+      },
     });
-    respond(true, { entries }, undefined);
+    respond(true, page, undefined);
   },
 };
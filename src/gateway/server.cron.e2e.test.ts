@@ -429,6 +429,63 @@ describe("gateway server cron", () => {
       expect(Array.isArray(autoEntries?.entries)).toBe(true);
       const runs = autoEntries?.entries ?? [];
       expect(runs.at(-1)?.jobId).toBe(autoJobId);
+
+      // Filters and pagination return a page; `entries` keeps the pre-filter meaning
+      const pageRes = await rpcReq(ws, "cron.runs", { id: jobId, limit: 50 });
+      expect(pageRes.ok).toBe(true);
+      const jobPage = pageRes.payload as {
+        entries: Array<{ jobId?: unknown }>;
+        total: number;
+        nextOffset?: number;
+      };
+      expect(jobPage.total).toBe(jobPage.entries.length);
+      expect(jobPage).toMatchObject({
+        offset: 0,
+        limit: 50,
+        hasMore: false,
+        stats: [{ jobId, runs: jobPage.total, error: 0 }],
+      });
+      expect(jobPage.nextOffset).toBeUndefined();
+
+      const errorRuns = await rpcReq(ws, "cron.runs", { jobId, status: "error" });
+      expect(errorRuns.ok).toBe(true);
+      expect(errorRuns.payload).toMatchObject({ entries: [], total: 0, stats: [] });
+
+      const allTotal = jobPage.total + runs.length;
+      const allJobs = await rpcReq(ws, "cron.runs", { since: atMs - 60_000, limit: 1 });
+      expect(allJobs.ok).toBe(true);
+      const allPage = allJobs.payload as {
+        entries?: Array<{ jobId?: unknown }>;
+        total?: number;
+        hasMore?: boolean;
+        nextOffset?: number;
+        stats?: Array<{ jobId?: unknown }>;
+      };
+      expect(allPage.total).toBe(allTotal);
+      expect(allPage.hasMore).toBe(true);
+      expect(allPage.nextOffset).toBe(1);
+      expect(allPage.entries?.map((entry) => entry.jobId)).toEqual([autoJobId]);
+      expect(allPage.stats?.map((stat) => stat.jobId).toSorted()).toEqual(
+        [jobId, autoJobId].toSorted(),
+      );
+      const secondPage = await rpcReq(ws, "cron.runs", {
+        since: atMs - 60_000,
+        limit: 1,
+        offset: allPage.nextOffset,
+      });
+      expect(secondPage.payload).toMatchObject({
+        total: allTotal,
+        offset: 1,
+        hasMore: allTotal > 2,
+      });
+      expect((secondPage.payload as { entries?: unknown[] }).entries).toHaveLength(1);
+
+      const now = Date.now();
+      const emptyRange = await rpcReq(ws, "cron.runs", { since: now, until: now });
+      expect(emptyRange.ok).toBe(false);
+      expect(emptyRange.error?.message ?? "").toContain("since must be before until");
+      const badStatus = await rpcReq(ws, "cron.runs", { status: "failed" });
+      expect(badStatus.ok).toBe(false);
     } finally {
       ws.close();
       await server.close();
@@ -1,9 +1,15 @@
-import { describe, expect, test } from "vitest";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, test, vi } from "vitest";
 import { resolveMainSessionKeyFromConfig } from "../config/sessions.js";
 import { drainSystemEvents, peekSystemEvents } from "../infra/system-events.js";
 import {
+  connectOk,
   cronIsolatedRun,
   installGatewayTestHooks,
+  rpcReq,
+  startServerWithClient,
   testState,
   withGatewayServer,
   waitForSystemEvent,
@@ -461,4 +467,113 @@ describe("gateway server hooks", () => {
       expect(failAfterSuccess.status).toBe(401);
     });
   });
+
+  test("fires webhook-triggered cron jobs on cron/<name>", async () => {
+    const prevSkipCron = process.env.OPENCLAW_SKIP_CRON;
+    process.env.OPENCLAW_SKIP_CRON = "0";
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-gw-cron-hook-"));
+    testState.cronStorePath = path.join(dir, "cron", "jobs.json");
+    await fs.mkdir(path.dirname(testState.cronStorePath), { recursive: true });
+    await fs.writeFile(testState.cronStorePath, JSON.stringify({ version: 1, jobs: [] }));
+    testState.hooksConfig = {
+      enabled: true,
+      token: "hook-secret",
+      mappings: [
+        {
+          match: { path: "cron/legacy" },
+          action: "wake",
+          textTemplate: "Legacy: {{payload.subject}}",
+        },
+      ],
+    };
+
+    const { server, ws, port } = await startServerWithClient();
+    await connectOk(ws);
+
+    try {
+      const addRes = await rpcReq(ws, "cron.add", {
+        name: "deploys",
+        enabled: true,
+        schedule: {
+          kind: "trigger",
+          trigger: { kind: "webhook", name: "deploys", template: "deploy {{payload.service}}" },
+        },
+        sessionTarget: "isolated",
+        wakeMode: "now",
+        payload: { kind: "agentTurn", message: "Handle the deploy" },
+        delivery: { mode: "none" },
+      });
+      expect(addRes.ok).toBe(true);
+      const jobId = (addRes.payload as { id?: string } | null)?.id ?? "";
+      expect(jobId.length > 0).toBe(true);
+
+      cronIsolatedRun.mockReset();
+      cronIsolatedRun.mockResolvedValue({ status: "ok", summary: "done" });
+      const resNoAuth = await fetch(`http://127.0.0.1:${port}/hooks/cron/deploys`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ service: "api" }),
+      });
+      expect(resNoAuth.status).toBe(401);
+      expect(cronIsolatedRun).not.toHaveBeenCalled();
+
+      const resFired = await fetch(`http://127.0.0.1:${port}/hooks/cron/deploys`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: "Bearer hook-secret",
+        },
+        body: JSON.stringify({ service: "api" }),
+      });
+      expect(resFired.status).toBe(202);
+      expect(await resFired.json()).toEqual({ ok: true, jobIds: [jobId] });
+
+      await vi.waitFor(() => expect(cronIsolatedRun).toHaveBeenCalledTimes(1), {
+        timeout: 5000,
+      });
+      const call = (cronIsolatedRun.mock.calls[0] as unknown[] | undefined)?.[0] as {
+        job?: { id?: string };
+        message?: string;
+      };
+      expect(call?.job?.id).toBe(jobId);
+      expect(call?.message).toContain("Handle the deploy");
+      expect(call?.message).toContain("<<<EXTERNAL_UNTRUSTED_CONTENT>>>");
+      expect(call?.message).toContain("deploy api");
+
+      // Names without a trigger job fall through to mappings, then 404
+      const resMapped = await fetch(`http://127.0.0.1:${port}/hooks/cron/legacy`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: "Bearer hook-secret",
+        },
+        body: JSON.stringify({ subject: "still mapped" }),
+      });
+      expect(resMapped.status).toBe(200);
+      const mappedEvents = await waitForSystemEvent();
+      expect(mappedEvents.some((e) => e.includes("Legacy: still mapped"))).toBe(true);
+      drainSystemEvents(resolveMainKey());
+
+      const resUnknown = await fetch(`http://127.0.0.1:${port}/hooks/cron/missing`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: "Bearer hook-secret",
+        },
+        body: JSON.stringify({ service: "api" }),
+      });
+      expect(resUnknown.status).toBe(404);
+      expect(cronIsolatedRun).toHaveBeenCalledTimes(1);
+    } finally {
+      ws.close();
+      await server.close();
+      await fs.rm(dir, { recursive: true, force: true });
+      testState.cronStorePath = undefined;
+      if (prevSkipCron === undefined) {
+        delete process.env.OPENCLAW_SKIP_CRON;
+      } else {
+        process.env.OPENCLAW_SKIP_CRON = prevSkipCron;
+      }
+    }
+  }, 45_000);
 });
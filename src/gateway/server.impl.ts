@@ -17,6 +17,7 @@ import {
   writeConfigFile,
 } from "../config/config.js";
 import { applyPluginAutoEnable } from "../config/plugin-auto-enable.js";
+import type { CronService } from "../cron/service.js";
 import { clearAgentRunContext, onAgentEvent } from "../infra/agent-events.js";
 import {
   ensureControlUiAssetsBuilt,
@@ -283,6 +284,8 @@ export async function startGatewayServer(
     tailscaleMode,
   } = runtimeConfig;
   let hooksConfig = runtimeConfig.hooksConfig;
+  // The HTTP server starts before cron; webhook triggers see the service once it exists.
+  let hooksCron: CronService | undefined;
   const canvasHostEnabled = runtimeConfig.canvasHostEnabled;
 
   // Create auth rate limiter only when explicitly configured.
@@ -364,6 +367,7 @@ export async function startGatewayServer(
     rateLimiter: authRateLimiter,
     gatewayTls,
     hooksConfig: () => hooksConfig,
+    getCron: () => hooksCron,
     pluginRegistry,
     deps,
     canvasRuntime,
@@ -401,6 +405,7 @@ export async function startGatewayServer(
     broadcast,
   });
   let { cron, storePath: cronStorePath } = cronState;
+  hooksCron = cron;
 
   const channelManager = createChannelManager({
     loadConfig,
@@ -662,6 +667,7 @@ export async function startGatewayServer(
             heartbeatRunner = nextState.heartbeatRunner;
             cronState = nextState.cronState;
             cron = cronState.cron;
+            hooksCron = cron;
             cronStorePath = cronState.storePath;
             browserControl = nextState.browserControl;
           },
@@ -3,10 +3,12 @@ import type { CliDeps } from "../../cli/deps.js";
 import { loadConfig } from "../../config/config.js";
 import { resolveMainSessionKeyFromConfig } from "../../config/sessions.js";
 import { runCronIsolatedAgentTurn } from "../../cron/isolated-agent.js";
+import type { CronService } from "../../cron/service.js";
 import type { CronJob } from "../../cron/types.js";
 import { requestHeartbeatNow } from "../../infra/heartbeat-wake.js";
 import { enqueueSystemEvent } from "../../infra/system-events.js";
 import type { createSubsystemLogger } from "../../logging/subsystem.js";
+import { type HookMappingContext, renderHookTemplate } from "../hooks-mapping.js";
 import type { HookMessageChannel, HooksConfigResolved } from "../hooks.js";
 import { createHooksRequestHandler } from "../server-http.js";
 
@@ -15,11 +17,13 @@ type SubsystemLogger = ReturnType<typeof createSubsystemLogger>;
 export function createGatewayHooksRequestHandler(params: {
   deps: CliDeps;
   getHooksConfig: () => HooksConfigResolved | null;
+  /** Current cron service; replaced when the cron config reloads. */
+  getCron?: () => CronService | undefined;
   bindHost: string;
   port: number;
   logHooks: SubsystemLogger;
 }) {
-  const { deps, getHooksConfig, bindHost, port, logHooks } = params;
+  const { deps, getHooksConfig, getCron, bindHost, port, logHooks } = params;
 
   const dispatchWakeHook = (value: { text: string; mode: "now" | "next-heartbeat" }) => {
     const sessionKey = resolveMainSessionKeyFromConfig();
@@ -106,6 +110,18 @@ export function createGatewayHooksRequestHandler(params: {
     return runId;
   };
 
+  const dispatchCronTrigger = async (value: { name: string; context: HookMappingContext }) => {
+    const cron = getCron?.();
+    if (!cron) {
+      return [];
+    }
+    return await cron.triggerWebhook(value.name, (template) =>
+      template
+        ? renderHookTemplate(template, value.context)
+        : JSON.stringify(value.context.payload, null, 2),
+    );
+  };
+
   return createHooksRequestHandler({
     getHooksConfig,
     bindHost,
@@ -113,5 +129,6 @@ export function createGatewayHooksRequestHandler(params: {
     logHooks,
     dispatchAgentHook,
     dispatchWakeHook,
+    dispatchCronTrigger,
   });
 }
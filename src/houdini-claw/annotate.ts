@@ -2,15 +2,43 @@
  * Houdini Claw - Annotation Generator
  *
  * Takes raw crawled documentation and generates structured annotations
- * using a high-reasoning AI model (GPT-5.2 xhigh or equivalent).
+ * using a high-reasoning AI model. The model is a `provider/model` ref routed
+ * through OpenClaw's providers and auth profiles (see annotation-model.ts), so
+ * any configured provider works and fallbacks apply on rate limits.
+ *
+ * Model output is validated against the annotation schema; invalid output is
+ * sent back to the model with the per-field errors for a bounded number of
+ * repair attempts.
+ *
+ * Existing annotations are skipped unless forced; `--stale` re-annotates only
+ * nodes whose crawled source changed since they were annotated.
  *
  * Usage:
  *   bun src/houdini-claw/annotate.ts --input /tmp/houdini-raw/ --output /tmp/houdini-annotated/
  *   bun src/houdini-claw/annotate.ts --node pyro_solver --force
+ *   bun src/houdini-claw/annotate.ts --model anthropic/claude-opus-4-6 --fallback openai/gpt-5.2
+ *   bun src/houdini-claw/annotate.ts --stale --db ~/.openclaw/houdini-claw/houdini_kb.db
+ *   bun src/houdini-claw/annotate.ts --max-nodes 20 --max-tokens 400000
  */
 
 import fs from "node:fs";
 import path from "node:path";
+import { loadConfig, type OpenClawConfig } from "../config/config.js";
+import {
+  createAnnotationModel,
+  type AnnotationChatMessage,
+  type AnnotationModel,
+  type AnnotationUsage,
+} from "./annotation-model.js";
+import {
+  AnnotationValidationError,
+  formatAnnotationIssues,
+  validateNodeAnnotation,
+  type AnnotationValidationIssue,
+  type NodeAnnotation,
+} from "./annotation-schema.js";
+import { initDatabase } from "./db.js";
+import { consolePipelineLog, type PipelineLog } from "./pipeline-log.js";
 
 // ── Types ──────────────────────────────────────────────────
 
@@ -19,6 +47,7 @@ interface AnnotationRequest {
   system: string;
   rawDoc: string;
   sourceUrl: string;
+  sourceHash?: string;
 }
 
 interface AnnotationResult {
@@ -28,62 +57,7 @@ interface AnnotationResult {
   sourceUrls: string[];
   annotatedAt: string;
   model: string;
-}
-
-interface NodeAnnotation {
-  semantic_name_zh: string;
-  semantic_name_en: string;
-  one_line: string;
-  analogy: string;
-  prerequisite_nodes: string[];
-  required_context: string;
-  typical_network: string;
-  parameters: ParameterAnnotationData[];
-  recipes: RecipeData[];
-  error_patterns: ErrorPatternData[];
-}
-
-interface ParameterAnnotationData {
-  name: string;
-  path: string;
-  semantic_name_zh: string;
-  semantic_name_en: string;
-  one_line: string;
-  intent_mapping: Record<string, string>;
-  default_value: number;
-  safe_range: [number, number];
-  expert_range: [number, number];
-  danger_zone: { below: number; above: number; description: string };
-  visual_effect: Record<string, string>;
-  interactions: Array<{
-    param: string;
-    relationship: string;
-    warning?: string;
-    tip?: string;
-  }>;
-  context_adjustments: Record<string, string>;
-}
-
-interface RecipeData {
-  name: string;
-  tags: string[];
-  description: string;
-  parameters: Record<string, Record<string, unknown>>;
-  prerequisites: string[];
-  warnings: string[];
-  variations: Record<string, Record<string, unknown>>;
-}
-
-interface ErrorPatternData {
-  pattern_id: string;
-  symptoms: string[];
-  root_causes: Array<{
-    cause: string;
-    probability: string;
-    explanation: string;
-    fix: string[];
-    verify: string;
-  }>;
+  sourceHash?: string;
 }
 
 // ── Annotation Prompt ──────────────────────────────────────
@@ -190,112 +164,220 @@ Only include parameters that are important and commonly adjusted. Skip trivial o
 
 // ── Annotation Generation ──────────────────────────────────
 
+/** Re-prompts allowed when the model's JSON fails schema validation */
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+function buildRepairPrompt(issues: AnnotationValidationIssue[]): string {
+  return `The JSON you returned does not match the required annotation structure:
+
+${formatAnnotationIssues(issues)}
+
+Return the complete corrected JSON object. Keep every valid field unchanged and fix only the listed problems. Ranges are [min, max] arrays of numbers, safe_range must lie inside expert_range, and default_value must lie inside expert_range.`;
+}
+
+const ANNOTATION_SYSTEM_PROMPT =
+  "You are a Houdini Technical Director expert. Output valid JSON only, no markdown fences.";
+
+/** Not every provider has a JSON response mode; drop a stray ```json fence */
+function stripJsonFences(text: string): string {
+  const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return fenced ? fenced[1] : text;
+}
+
+/**
+ * Parse and validate raw model output, reporting JSON syntax errors as issues.
+ */
+function parseAnnotationOutput(
+  content: string,
+): { ok: true; data: NodeAnnotation } | { ok: false; issues: AnnotationValidationIssue[] } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (err) {
+    return {
+      ok: false,
+      issues: [{ path: "(root)", message: `Invalid JSON: ${(err as Error).message}` }],
+    };
+  }
+  return validateNodeAnnotation(raw);
+}
+
 /**
  * Generate a structured annotation for a Houdini node using the AI model.
  */
 export async function annotateNode(
   request: AnnotationRequest,
-  options?: {
-    model?: string;
-    apiKey?: string;
-    baseUrl?: string;
-    thinking?: string;
+  options: {
+    /** Completion client from createAnnotationModel() */
+    model: AnnotationModel;
+    /** Re-prompts with validation errors before giving up (default 2) */
+    maxRepairAttempts?: number;
+    /** Repair attempts (default: the console) */
+    log?: PipelineLog;
   },
 ): Promise<AnnotationResult> {
-  const model = options?.model ?? process.env.HOUDINI_CLAW_ANNOTATION_MODEL ?? "gpt-4o";
-  const apiKey = options?.apiKey ?? process.env.OPENAI_API_KEY;
-  const baseUrl = options?.baseUrl ?? "https://api.openai.com/v1";
-
-  if (!apiKey) {
-    throw new Error("No API key for annotation. Set OPENAI_API_KEY.");
-  }
-
-  const prompt = buildAnnotationPrompt(request);
+  const log = options.log ?? consolePipelineLog;
+  const messages: AnnotationChatMessage[] = [
+    { role: "user", content: buildAnnotationPrompt(request) },
+  ];
+  const maxRepairAttempts = options.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
+
+  for (let attempt = 0; ; attempt++) {
+    const completion = await options.model.complete({
+      systemPrompt: ANNOTATION_SYSTEM_PROMPT,
+      messages,
+      label: `[houdini-claw] annotate ${request.nodeName}${attempt > 0 ? ` (repair ${attempt})` : ""}`,
+    });
 
-  const response = await fetch(`${baseUrl}/chat/completions`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model,
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are a Houdini Technical Director expert. Output valid JSON only, no markdown fences.",
-        },
-        { role: "user", content: prompt },
-      ],
-      temperature: 0.3, // Low temperature for consistency
-      max_tokens: 8000,
-      response_format: { type: "json_object" },
-    }),
-  });
+    const annotationJson = stripJsonFences(completion.text);
+    const parsed = parseAnnotationOutput(annotationJson);
+    if (parsed.ok) {
+      return {
+        nodeName: request.nodeName,
+        system: request.system,
+        annotation: parsed.data,
+        sourceUrls: [request.sourceUrl],
+        annotatedAt: new Date().toISOString(),
+        model: completion.model,
+        sourceHash: request.sourceHash,
+      };
+    }
+    if (attempt >= maxRepairAttempts) {
+      throw new AnnotationValidationError(`Annotation for ${request.nodeName}`, parsed.issues);
+    }
 
-  if (!response.ok) {
-    const body = await response.text();
-    throw new Error(`Annotation API error ${response.status}: ${body}`);
+    log(
+      `[annotate] ${request.nodeName}: ${parsed.issues.length} validation issue(s), requesting repair (${attempt + 1}/${maxRepairAttempts})`,
+      "warn",
+    );
+    messages.push(
+      { role: "assistant", content: annotationJson },
+      { role: "user", content: buildRepairPrompt(parsed.issues) },
+    );
   }
+}
 
-  const result = (await response.json()) as {
-    choices: Array<{ message: { content: string } }>;
-  };
-
-  const annotationJson = result.choices[0].message.content;
-  const annotation = JSON.parse(annotationJson) as NodeAnnotation;
-
-  return {
-    nodeName: request.nodeName,
-    system: request.system,
-    annotation,
-    sourceUrls: [request.sourceUrl],
-    annotatedAt: new Date().toISOString(),
-    model,
-  };
+/** Compare crawled page names ("pyrosolver") with annotation names ("pyro_solver") */
+function normalizeNodeKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
 }
 
 /**
  * Process all crawled pages in a directory and generate annotations.
+ *
+ * With `maxNodes` / `maxTokens`, annotation stops once either budget is spent;
+ * the remaining pages are counted as deferred and picked up by the next run.
+ * Nodes queued for re-annotation go first so stale annotations are refreshed
+ * before new pages use up the budget.
  */
 export async function annotateAll(options: {
   inputDir: string;
   outputDir: string;
+  /** "provider/model" ref or alias; defaults as in createAnnotationModel() */
   model?: string;
-  apiKey?: string;
+  /** Fallback refs replacing agents.defaults.model.fallbacks */
+  fallbacks?: string[];
+  /** OpenClaw config for model and auth resolution (default: loadConfig()) */
+  cfg?: OpenClawConfig;
+  /** Agent whose default model and usage transcript are used */
+  agentId?: string;
   force?: boolean;
+  /** Nodes to re-annotate even when an annotation exists, e.g. stale ones */
+  reannotate?: string[];
+  /** Stop after this many nodes were sent to the model */
+  maxNodes?: number;
+  /** Stop once completions used this many tokens */
+  maxTokens?: number;
   onProgress?: (done: number, total: number, nodeName: string) => void;
-}): Promise<{ annotated: number; errors: number; skipped: number }> {
+  /** Repair attempts and failures (default: the console) */
+  log?: PipelineLog;
+}): Promise<{
+  annotated: number;
+  errors: number;
+  skipped: number;
+  /** Pages left for a later run because a budget was spent */
+  deferred: number;
+  /** Annotation files written by this run */
+  files: string[];
+  usage: AnnotationUsage;
+  /** Model of the last completion as "provider/model" */
+  model?: string;
+}> {
   const { inputDir, outputDir } = options;
+  const log = options.log ?? consolePipelineLog;
 
   if (!fs.existsSync(outputDir)) {
     fs.mkdirSync(outputDir, { recursive: true });
   }
 
-  const files = fs.readdirSync(inputDir).filter((f) => f.endsWith(".json"));
+  const reannotate = new Set((options.reannotate ?? []).map(normalizeNodeKey));
+  const nodeKeyOf = (file: string) =>
+    normalizeNodeKey(
+      file
+        .replace(/\.json$/, "")
+        .split("--")
+        .pop() ?? file,
+    );
+  const files = fs
+    .readdirSync(inputDir)
+    .filter((f) => f.endsWith(".json"))
+    .toSorted(
+      (a, b) =>
+        Number(reannotate.has(nodeKeyOf(b))) - Number(reannotate.has(nodeKeyOf(a))) ||
+        a.localeCompare(b),
+    );
+  const client = await createAnnotationModel({
+    cfg: options.cfg ?? loadConfig(),
+    model: options.model,
+    fallbacks: options.fallbacks,
+    agentId: options.agentId,
+  });
+  const usage: AnnotationUsage = { input: 0, output: 0, total: 0 };
+  let lastModel: string | undefined;
+  const model: AnnotationModel = {
+    ref: client.ref,
+    complete: async (params) => {
+      const completion = await client.complete(params);
+      usage.input += completion.usage.input;
+      usage.output += completion.usage.output;
+      usage.total += completion.usage.total;
+      lastModel = completion.model;
+      return completion;
+    },
+  };
+  const budgetSpent = (attempted: number) =>
+    (options.maxNodes !== undefined && attempted >= options.maxNodes) ||
+    (options.maxTokens !== undefined && usage.total >= options.maxTokens);
+
   let annotated = 0;
   let errors = 0;
   let skipped = 0;
+  let deferred = 0;
+  const written: string[] = [];
 
   for (let i = 0; i < files.length; i++) {
     const file = files[i];
     const outputFile = path.join(outputDir, file);
 
-    // Skip if already annotated (unless force)
-    if (!options.force && fs.existsSync(outputFile)) {
+    // Skip if already annotated (unless forced or queued for re-annotation)
+    if (!options.force && !reannotate.has(nodeKeyOf(file)) && fs.existsSync(outputFile)) {
       skipped++;
-      options.onProgress?.(annotated + errors + skipped, files.length, file);
+      options.onProgress?.(annotated + errors + skipped + deferred, files.length, file);
+      continue;
+    }
+
+    if (budgetSpent(annotated + errors)) {
+      deferred++;
+      options.onProgress?.(annotated + errors + skipped + deferred, files.length, file);
       continue;
     }
 
     try {
-      const rawData = JSON.parse(
-        fs.readFileSync(path.join(inputDir, file), "utf-8"),
-      ) as {
+      const rawData = JSON.parse(fs.readFileSync(path.join(inputDir, file), "utf-8")) as {
         nodeName: string;
         url: string;
         content: string;
+        contentHash?: string;
       };
 
       // Extract system from filename (format: system--nodename.json)
@@ -307,27 +389,26 @@ export async function annotateAll(options: {
           system,
           rawDoc: rawData.content,
           sourceUrl: rawData.url,
+          sourceHash: rawData.contentHash,
         },
-        {
-          model: options.model,
-          apiKey: options.apiKey,
-        },
+        { model, log },
       );
 
       fs.writeFileSync(outputFile, JSON.stringify(result, null, 2));
+      written.push(file);
       annotated++;
     } catch (err) {
-      console.error(`[annotate] Failed for ${file}:`, (err as Error).message);
+      log(`[annotate] Failed for ${file}: ${(err as Error).message}`, "error");
       errors++;
     }
 
-    options.onProgress?.(annotated + errors + skipped, files.length, file);
+    options.onProgress?.(annotated + errors + skipped + deferred, files.length, file);
 
     // Rate limit
     await new Promise((resolve) => setTimeout(resolve, 1000));
   }
 
-  return { annotated, errors, skipped };
+  return { annotated, errors, skipped, deferred, files: written, usage, model: lastModel };
 }
 
 // ── CLI Entry Point ────────────────────────────────────────
@@ -337,8 +418,13 @@ if (import.meta.url === `file://${process.argv[1]}`) {
   const inputIdx = args.indexOf("--input");
   const outputIdx = args.indexOf("--output");
   const modelIdx = args.indexOf("--model");
+  const fallbackIdx = args.indexOf("--fallback");
   const force = args.includes("--force");
   const nodeIdx = args.indexOf("--node");
+  const stale = args.includes("--stale");
+  const dbIdx = args.indexOf("--db");
+  const maxNodesIdx = args.indexOf("--max-nodes");
+  const maxTokensIdx = args.indexOf("--max-tokens");
 
   if (nodeIdx !== -1) {
     // Single node annotation
@@ -349,21 +435,40 @@ if (import.meta.url === `file://${process.argv[1]}`) {
     const inputDir = inputIdx !== -1 ? args[inputIdx + 1] : "/tmp/houdini-raw";
     const outputDir = outputIdx !== -1 ? args[outputIdx + 1] : "/tmp/houdini-annotated";
     const model = modelIdx !== -1 ? args[modelIdx + 1] : undefined;
+    const fallbacks = fallbackIdx !== -1 ? args[fallbackIdx + 1].split(",") : undefined;
+
+    (async () => {
+      let reannotate: string[] | undefined;
+      if (stale) {
+        const kb = await initDatabase(dbIdx !== -1 ? args[dbIdx + 1] : undefined);
+        try {
+          reannotate = [...new Set(kb.listStaleAnnotations().map((row) => row.node_name))];
+        } finally {
+          kb.close();
+        }
+        console.log(
+          `[annotate] ${reannotate.length} stale node(s): ${reannotate.join(", ") || "none"}`,
+        );
+      }
 
-    console.log(`[annotate] Processing ${inputDir} → ${outputDir}`);
-
-    annotateAll({
-      inputDir,
-      outputDir,
-      model,
-      force,
-      onProgress: (done, total, name) => {
-        console.log(`[annotate] ${done}/${total}: ${name}`);
-      },
-    }).then((result) => {
+      console.log(`[annotate] Processing ${inputDir} → ${outputDir}`);
+
+      const result = await annotateAll({
+        inputDir,
+        outputDir,
+        model,
+        fallbacks,
+        force,
+        reannotate,
+        maxNodes: maxNodesIdx !== -1 ? Number(args[maxNodesIdx + 1]) : undefined,
+        maxTokens: maxTokensIdx !== -1 ? Number(args[maxTokensIdx + 1]) : undefined,
+        onProgress: (done, total, name) => {
+          console.log(`[annotate] ${done}/${total}: ${name}`);
+        },
+      });
       console.log(
-        `[annotate] Done. Annotated: ${result.annotated}, Errors: ${result.errors}, Skipped: ${result.skipped}`,
+        `[annotate] Done. Annotated: ${result.annotated}, Errors: ${result.errors}, Skipped: ${result.skipped}, Deferred: ${result.deferred}, Tokens: ${result.usage.total}`,
       );
-    });
+    })();
   }
 }
@@ -0,0 +1,201 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { completeSimple, type AssistantMessage } from "@mariozechner/pi-ai";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { markAuthProfileFailure, resolveAuthProfileOrder } from "../agents/auth-profiles.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { loadCostUsageSummary } from "../infra/session-cost-usage.js";
+import { createAnnotationModel, resolveAnnotationModelRef } from "./annotation-model.js";
+
+vi.mock("@mariozechner/pi-ai", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@mariozechner/pi-ai")>()),
+  completeSimple: vi.fn(),
+}));
+
+vi.mock("../agents/pi-embedded-runner/model.js", () => ({
+  resolveModel: vi.fn((provider: string, modelId: string) => ({
+    model: {
+      provider,
+      id: modelId,
+      name: modelId,
+      api: "openai-completions",
+      reasoning: false,
+      input: ["text"],
+      cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
+      contextWindow: 128000,
+      maxTokens: 8192,
+    },
+  })),
+}));
+
+vi.mock("../agents/models-config.js", () => ({
+  ensureOpenClawModelsJson: vi.fn(async () => ({ agentDir: "/tmp/agent", wrote: false })),
+}));
+
+vi.mock("../agents/model-auth.js", () => ({
+  getApiKeyForModel: vi.fn(async (params: { profileId?: string }) => ({
+    apiKey: `key-${params.profileId ?? "env"}`,
+    profileId: params.profileId,
+    source: params.profileId ? `profile:${params.profileId}` : "env",
+    mode: "api-key",
+  })),
+  requireApiKey: vi.fn((auth: { apiKey?: string }) => auth.apiKey ?? ""),
+}));
+
+vi.mock("../agents/auth-profiles.js", () => ({
+  ensureAuthProfileStore: vi.fn(() => ({ version: 1, profiles: {}, usageStats: {} })),
+  getSoonestCooldownExpiry: vi.fn(() => null),
+  isProfileInCooldown: vi.fn(() => false),
+  markAuthProfileFailure: vi.fn(async () => {}),
+  markAuthProfileGood: vi.fn(async () => {}),
+  markAuthProfileUsed: vi.fn(async () => {}),
+  resolveAuthProfileOrder: vi.fn(() => []),
+}));
+
+function assistantMessage(
+  provider: string,
+  model: string,
+  overrides: Partial<AssistantMessage> = {},
+): AssistantMessage {
+  return {
+    role: "assistant",
+    content: [{ type: "text", text: '{"one_line":"ok"}' }],
+    api: "openai-completions",
+    provider,
+    model,
+    usage: {
+      input: 1200,
+      output: 300,
+      cacheRead: 0,
+      cacheWrite: 0,
+      totalTokens: 1500,
+      cost: { input: 0.01, output: 0.02, cacheRead: 0, cacheWrite: 0, total: 0.03 },
+    },
+    stopReason: "stop",
+    timestamp: Date.now(),
+    ...overrides,
+  };
+}
+
+const cfg = {
+  agents: {
+    defaults: {
+      model: { primary: "openai/gpt-5.2" },
+      models: { "anthropic/claude-opus-4-6": { alias: "opus" } },
+    },
+  },
+} as OpenClawConfig;
+
+describe("resolveAnnotationModelRef", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("uses the agent default model unless a ref or alias is given", () => {
+    vi.stubEnv("HOUDINI_CLAW_ANNOTATION_MODEL", "");
+    expect(resolveAnnotationModelRef(cfg)).toEqual({ provider: "openai", model: "gpt-5.2" });
+    expect(resolveAnnotationModelRef(cfg, "opus")).toEqual({
+      provider: "anthropic",
+      model: "claude-opus-4-6",
+    });
+    expect(resolveAnnotationModelRef(cfg, "ollama/qwen3:32b")).toEqual({
+      provider: "ollama",
+      model: "qwen3:32b",
+    });
+  });
+
+  it("reads HOUDINI_CLAW_ANNOTATION_MODEL", () => {
+    vi.stubEnv("HOUDINI_CLAW_ANNOTATION_MODEL", "anthropic/claude-sonnet-4-5");
+    expect(resolveAnnotationModelRef(cfg)).toEqual({
+      provider: "anthropic",
+      model: "claude-sonnet-4-5",
+    });
+  });
+});
+
+describe("createAnnotationModel", () => {
+  let stateDir = "";
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    stateDir = await fs.mkdtemp(path.join(os.tmpdir(), "houdini-annotation-model-"));
+    vi.stubEnv("OPENCLAW_STATE_DIR", stateDir);
+    vi.stubEnv("HOUDINI_CLAW_ANNOTATION_MODEL", "");
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await fs.rm(stateDir, { recursive: true, force: true });
+  });
+
+  const request = {
+    systemPrompt: "Output JSON",
+    messages: [{ role: "user" as const, content: "Annotate pyro_solver" }],
+    label: "[houdini-claw] annotate pyro_solver",
+  };
+
+  it("rotates auth profiles and cools down the one that hit a rate limit", async () => {
+    vi.mocked(resolveAuthProfileOrder).mockReturnValue(["openai:work", "openai:personal"]);
+    vi.mocked(completeSimple)
+      .mockResolvedValueOnce(
+        assistantMessage("openai", "gpt-5.2", {
+          content: [],
+          stopReason: "error",
+          errorMessage: "429 Rate limit exceeded",
+        }),
+      )
+      .mockResolvedValueOnce(assistantMessage("openai", "gpt-5.2"));
+
+    const model = await createAnnotationModel({ cfg, trackUsage: false });
+    const result = await model.complete(request);
+
+    expect(result).toEqual({
+      text: '{"one_line":"ok"}',
+      model: "openai/gpt-5.2",
+      attempts: [],
+      usage: { input: 1200, output: 300, total: 1500 },
+    });
+    expect(markAuthProfileFailure).toHaveBeenCalledWith(
+      expect.objectContaining({ profileId: "openai:work", reason: "rate_limit" }),
+    );
+    expect(vi.mocked(completeSimple).mock.calls[1][2]).toMatchObject({
+      apiKey: "key-openai:personal",
+    });
+  });
+
+  it("fails over to the fallback model when the primary provider is unavailable", async () => {
+    vi.mocked(completeSimple).mockImplementation(async (model) =>
+      model.provider === "openai"
+        ? assistantMessage("openai", "gpt-5.2", {
+            content: [],
+            stopReason: "error",
+            errorMessage: "429 Rate limit exceeded",
+          })
+        : assistantMessage("anthropic", "claude-opus-4-6"),
+    );
+
+    const model = await createAnnotationModel({ cfg, fallbacks: ["opus"], trackUsage: false });
+    const result = await model.complete(request);
+
+    expect(model.ref).toBe("openai/gpt-5.2");
+    expect(result.model).toBe("anthropic/claude-opus-4-6");
+    expect(result.attempts).toHaveLength(1);
+    expect(result.attempts[0].model).toBe("openai/gpt-5.2");
+  });
+
+  it("records completions in a session transcript counted by cost usage", async () => {
+    vi.mocked(completeSimple).mockResolvedValue(assistantMessage("openai", "gpt-5.2"));
+
+    const startMs = Date.now() - 1000;
+    const model = await createAnnotationModel({ cfg });
+    await model.complete(request);
+    await model.complete(request);
+
+    const summary = await loadCostUsageSummary({ startMs, endMs: Date.now() + 1000, config: cfg });
+    expect(summary.totals.totalTokens).toBe(3000);
+    expect(summary.totals.totalCost).toBeCloseTo(0.06);
+  });
+});
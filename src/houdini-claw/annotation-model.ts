@@ -0,0 +1,271 @@
+/**
+ * Houdini Claw - Annotation Model Routing
+ *
+ * Runs annotation prompts through OpenClaw's model stack instead of a
+ * hard-wired OpenAI endpoint: the model is a `provider/model` ref (or alias)
+ * resolved through the normal model config, credentials come from the auth
+ * profiles with rotation and cooldown on rate limits, configured fallback
+ * models are tried when a provider fails, and every completion is appended to
+ * a session transcript so annotation spend shows up in session cost usage.
+ */
+
+import { completeSimple, type AssistantMessage, type Message } from "@mariozechner/pi-ai";
+import { SessionManager } from "@mariozechner/pi-coding-agent";
+import {
+  ensureAuthProfileStore,
+  isProfileInCooldown,
+  markAuthProfileFailure,
+  markAuthProfileGood,
+  markAuthProfileUsed,
+  resolveAuthProfileOrder,
+} from "../agents/auth-profiles.js";
+import { describeFailoverError } from "../agents/failover-error.js";
+import { getApiKeyForModel, requireApiKey } from "../agents/model-auth.js";
+import { runWithModelFallback } from "../agents/model-fallback.js";
+import {
+  buildModelAliasIndex,
+  modelKey,
+  resolveDefaultModelForAgent,
+  resolveModelRefFromString,
+  type ModelRef,
+} from "../agents/model-selection.js";
+import { ensureOpenClawModelsJson } from "../agents/models-config.js";
+import { resolveModel } from "../agents/pi-embedded-runner/model.js";
+import { extractAssistantText } from "../agents/pi-embedded-utils.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveSessionTranscriptsDirForAgent } from "../config/sessions/paths.js";
+
+// ── Types ──────────────────────────────────────────────────
+
+export type AnnotationChatMessage = { role: "user" | "assistant"; content: string };
+
+export interface AnnotationCompletion {
+  text: string;
+  /** Model that produced the text, as "provider/model" (may be a fallback) */
+  model: string;
+  /** Models that failed before this one answered */
+  attempts: Array<{ model: string; error: string }>;
+  /** Token usage reported by the provider for this completion */
+  usage: AnnotationUsage;
+}
+
+export interface AnnotationUsage {
+  input: number;
+  output: number;
+  total: number;
+}
+
+export interface AnnotationModelOptions {
+  cfg: OpenClawConfig;
+  /** "provider/model" ref or alias (default: HOUDINI_CLAW_ANNOTATION_MODEL, then the agent default) */
+  model?: string;
+  /** Explicit fallback refs; replaces agents.defaults.model.fallbacks when set */
+  fallbacks?: string[];
+  agentId?: string;
+  agentDir?: string;
+  maxTokens?: number;
+  temperature?: number;
+  /** Append completions to a session transcript for cost usage (default true) */
+  trackUsage?: boolean;
+}
+
+export interface AnnotationModel {
+  /** Primary model as "provider/model" */
+  ref: string;
+  complete(params: {
+    systemPrompt: string;
+    messages: AnnotationChatMessage[];
+    /** Short label recorded as the user turn in the usage transcript */
+    label: string;
+  }): Promise<AnnotationCompletion>;
+}
+
+const DEFAULT_MAX_TOKENS = 8000;
+const DEFAULT_TEMPERATURE = 0.3; // Low temperature for consistency
+
+// ── Model Resolution ───────────────────────────────────────
+
+/**
+ * Resolve the annotation model ref from an explicit value, the
+ * HOUDINI_CLAW_ANNOTATION_MODEL env var, or the agent's default model.
+ */
+export function resolveAnnotationModelRef(
+  cfg: OpenClawConfig,
+  raw?: string,
+  agentId?: string,
+): ModelRef {
+  const defaultRef = resolveDefaultModelForAgent({ cfg, agentId });
+  const value = (raw ?? process.env.HOUDINI_CLAW_ANNOTATION_MODEL)?.trim();
+  if (!value) {
+    return defaultRef;
+  }
+  const resolved = resolveModelRefFromString({
+    raw: value,
+    defaultProvider: defaultRef.provider,
+    aliasIndex: buildModelAliasIndex({ cfg, defaultProvider: defaultRef.provider }),
+  });
+  if (!resolved) {
+    throw new Error(`Invalid annotation model: ${value}`);
+  }
+  return resolved.ref;
+}
+
+function assistantTextOrThrow(message: AssistantMessage, ref: string): string {
+  const errorMessage = message.errorMessage?.trim();
+  if (message.stopReason === "error" || message.stopReason === "aborted" || errorMessage) {
+    throw new Error(
+      errorMessage
+        ? `Annotation model failed (${ref}): ${errorMessage}`
+        : `Annotation model failed (${ref})`,
+    );
+  }
+  const text = extractAssistantText(message).trim();
+  if (!text) {
+    throw new Error(`Annotation model returned no text (${ref}).`);
+  }
+  return text;
+}
+
+/** Earlier turns (e.g. output sent back for repair) replayed as plain text */
+function toContextMessage(message: AnnotationChatMessage): Message {
+  const timestamp = Date.now();
+  if (message.role === "user") {
+    return { role: "user", content: message.content, timestamp };
+  }
+  return {
+    role: "assistant",
+    content: [{ type: "text", text: message.content }],
+    api: "openai-completions",
+    provider: "openclaw",
+    model: "annotation-history",
+    usage: {
+      input: 0,
+      output: 0,
+      cacheRead: 0,
+      cacheWrite: 0,
+      totalTokens: 0,
+      cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+    },
+    stopReason: "stop",
+    timestamp,
+  };
+}
+
+// ── Annotation Model ───────────────────────────────────────
+
+/**
+ * Create a completion client for annotation prompts. Each completion walks the
+ * fallback chain; within a provider, auth profiles are tried in order and a
+ * failing profile is put in cooldown before the next one is used.
+ */
+export async function createAnnotationModel(
+  options: AnnotationModelOptions,
+): Promise<AnnotationModel> {
+  const { cfg, agentDir } = options;
+  const primary = resolveAnnotationModelRef(cfg, options.model, options.agentId);
+  await ensureOpenClawModelsJson(cfg, agentDir);
+
+  let transcript: SessionManager | undefined;
+  const recordUsage = (label: string, message: AssistantMessage) => {
+    if (options.trackUsage === false) {
+      return;
+    }
+    transcript ??= SessionManager.create(
+      process.cwd(),
+      resolveSessionTranscriptsDirForAgent(options.agentId),
+    );
+    transcript.appendMessage({ role: "user", content: label, timestamp: Date.now() });
+    transcript.appendMessage(message);
+  };
+
+  const completeWithProfiles = async (
+    provider: string,
+    modelId: string,
+    context: { systemPrompt: string; messages: Message[] },
+  ): Promise<{ message: AssistantMessage; text: string }> => {
+    const ref = modelKey(provider, modelId);
+    const resolved = resolveModel(provider, modelId, agentDir, cfg);
+    if (!resolved.model) {
+      throw new Error(resolved.error ?? `Unknown model: ${ref}`);
+    }
+
+    const store = ensureAuthProfileStore(agentDir, { allowKeychainPrompt: false });
+    const profileIds = resolveAuthProfileOrder({ cfg, store, provider }).filter(
+      (id) => !isProfileInCooldown(store, id),
+    );
+    // No usable profile: let model-auth fall back to env keys / provider config.
+    const candidates = profileIds.length > 0 ? profileIds : [undefined];
+
+    let lastError: unknown;
+    for (const profileId of candidates) {
+      const auth = await getApiKeyForModel({
+        model: resolved.model,
+        cfg,
+        profileId,
+        store,
+        agentDir,
+      });
+      try {
+        const message = await completeSimple(resolved.model, context, {
+          apiKey: requireApiKey(auth, provider),
+          maxTokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+          temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+        });
+        const text = assistantTextOrThrow(message, ref);
+        if (auth.profileId) {
+          await markAuthProfileGood({ store, provider, profileId: auth.profileId, agentDir });
+          await markAuthProfileUsed({ store, profileId: auth.profileId, agentDir });
+        }
+        return { message, text };
+      } catch (err) {
+        lastError = err;
+        const { reason } = describeFailoverError(err);
+        if (!auth.profileId || !reason) {
+          throw err;
+        }
+        await markAuthProfileFailure({ store, profileId: auth.profileId, reason, cfg, agentDir });
+        console.warn(
+          `[annotate] Profile ${auth.profileId} failed (${reason}), trying next auth profile`,
+        );
+      }
+    }
+    throw lastError;
+  };
+
+  return {
+    ref: modelKey(primary.provider, primary.model),
+    complete: async ({ systemPrompt, messages, label }) => {
+      const context = { systemPrompt, messages: messages.map(toContextMessage) };
+
+      const run = await runWithModelFallback({
+        cfg,
+        provider: primary.provider,
+        model: primary.model,
+        agentDir,
+        fallbacksOverride: options.fallbacks,
+        run: (provider, modelId) => completeWithProfiles(provider, modelId, context),
+        onError: ({ provider, model, error }) => {
+          console.warn(
+            `[annotate] ${modelKey(provider, model)} failed: ${describeFailoverError(error).message}`,
+          );
+        },
+      });
+
+      recordUsage(label, run.result.message);
+      const { usage } = run.result.message;
+      return {
+        text: run.result.text,
+        model: modelKey(run.provider, run.model),
+        attempts: run.attempts.map((attempt) => ({
+          model: modelKey(attempt.provider, attempt.model),
+          error: attempt.error,
+        })),
+        usage: {
+          input: usage.input,
+          output: usage.output,
+          total: usage.totalTokens || usage.input + usage.output,
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  AnnotationValidationError,
+  validateAnnotatedFile,
+  validateNodeAnnotation,
+} from "./annotation-schema.js";
+
+const validParam = {
+  name: "dissipation",
+  path: "pyrosolver1/flameSolver/dissipation",
+  default_value: 0.1,
+  safe_range: [0.01, 0.5],
+  expert_range: [0.001, 1.0],
+  danger_zone: { below: 0.001, above: 1.0, description: "Smoke never fades" },
+};
+
+describe("houdini-claw annotation schema", () => {
+  it("accepts a well-formed annotation and keeps extra fields", () => {
+    const result = validateNodeAnnotation({
+      one_line: "Solves smoke and fire",
+      parameters: [validParam],
+      notes: "extra model output",
+    });
+
+    expect(result.ok).toBe(true);
+    expect(result.ok && (result.data as Record<string, unknown>).notes).toBe("extra model output");
+  });
+
+  it("reports per-field type errors", () => {
+    const result = validateNodeAnnotation({
+      one_line: "Solves smoke and fire",
+      parameters: [{ ...validParam, default_value: "0.1", safe_range: [0.01] }],
+    });
+
+    expect(result.ok).toBe(false);
+    const paths = result.ok ? [] : result.issues.map((issue) => issue.path);
+    expect(paths).toContain("parameters.0.default_value");
+    expect(paths.some((p) => p.startsWith("parameters.0.safe_range"))).toBe(true);
+  });
+
+  it("enforces range sanity", () => {
+    const result = validateNodeAnnotation({
+      one_line: "Solves smoke and fire",
+      parameters: [
+        {
+          ...validParam,
+          default_value: 2,
+          safe_range: [0.0001, 0.5],
+          danger_zone: { below: 0.05 },
+        },
+      ],
+    });
+
+    expect(result.ok).toBe(false);
+    const messages = result.ok
+      ? []
+      : result.issues.map((issue) => `${issue.path}: ${issue.message}`);
+    expect(messages).toEqual(
+      expect.arrayContaining([
+        expect.stringMatching(/^parameters\.0\.safe_range: .*inside expert_range/),
+        expect.stringMatching(/^parameters\.0\.default_value: .*inside expert_range/),
+        expect.stringMatching(/^parameters\.0\.danger_zone\.below: .*overlaps safe_range/),
+      ]),
+    );
+  });
+
+  it("requires annotated file metadata", () => {
+    const result = validateAnnotatedFile({
+      system: "pyro",
+      sourceUrls: [],
+      annotatedAt: "2026-01-01T00:00:00Z",
+      model: "test",
+      annotation: { one_line: "x" },
+    });
+
+    expect(result.ok).toBe(false);
+    expect(result.ok ? [] : result.issues.map((issue) => issue.path)).toEqual(["nodeName"]);
+  });
+
+  it("formats issues into the error message", () => {
+    const error = new AnnotationValidationError("Annotation for pyro_solver", [
+      { path: "one_line", message: "Required" },
+    ]);
+    expect(error.message).toContain("- one_line: Required");
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Houdini Claw - Annotation Schema
+ *
+ * Zod schemas for model-generated node annotations and the annotated files
+ * written by annotate.ts and read by ingest.ts. Besides shape checks, the
+ * parameter schema enforces range sanity: ranges are ordered, the safe range
+ * lies inside the expert range, the default lies inside the expert range, and
+ * danger thresholds sit outside the safe range.
+ */
+
+import { z } from "zod";
+
+export interface AnnotationValidationIssue {
+  /** Dotted path into the annotation, e.g. "parameters.3.safe_range" */
+  path: string;
+  message: string;
+}
+
+export type AnnotationValidationResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; issues: AnnotationValidationIssue[] };
+
+export class AnnotationValidationError extends Error {
+  readonly issues: AnnotationValidationIssue[];
+
+  constructor(label: string, issues: AnnotationValidationIssue[]) {
+    super(`${label} failed validation:\n${formatAnnotationIssues(issues)}`);
+    this.name = "AnnotationValidationError";
+    this.issues = issues;
+  }
+}
+
+const finiteNumber = z.number().refine(Number.isFinite, "Expected a finite number");
+
+const RangeSchema = z
+  .tuple([finiteNumber, finiteNumber])
+  .refine(([min, max]) => min <= max, "Range minimum must not exceed maximum");
+
+export const ParameterAnnotationSchema = z
+  .object({
+    name: z.string().min(1),
+    path: z.string().min(1),
+    semantic_name_zh: z.string().optional(),
+    semantic_name_en: z.string().optional(),
+    one_line: z.string().optional(),
+    intent_mapping: z.record(z.string(), z.string()).optional(),
+    default_value: finiteNumber.optional(),
+    safe_range: RangeSchema.optional(),
+    expert_range: RangeSchema.optional(),
+    danger_zone: z
+      .object({
+        below: finiteNumber.optional(),
+        above: finiteNumber.optional(),
+        description: z.string().optional(),
+      })
+      .optional(),
+    visual_effect: z.record(z.string(), z.string()).optional(),
+    interactions: z
+      .array(
+        z.object({
+          param: z.string().min(1),
+          relationship: z.string(),
+          warning: z.string().optional(),
+          tip: z.string().optional(),
+        }),
+      )
+      .optional(),
+    context_adjustments: z.record(z.string(), z.string()).optional(),
+  })
+  .superRefine((param, ctx) => {
+    const { safe_range: safe, expert_range: expert, default_value: def } = param;
+    if (safe && expert && (safe[0] < expert[0] || safe[1] > expert[1])) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["safe_range"],
+        message: `safe_range [${safe.join(", ")}] must lie inside expert_range [${expert.join(", ")}]`,
+      });
+    }
+    if (def !== undefined && expert && (def < expert[0] || def > expert[1])) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["default_value"],
+        message: `default_value ${def} must lie inside expert_range [${expert.join(", ")}]`,
+      });
+    }
+    const below = param.danger_zone?.below;
+    const above = param.danger_zone?.above;
+    if (below !== undefined && safe && below > safe[0]) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["danger_zone", "below"],
+        message: `danger_zone.below ${below} overlaps safe_range [${safe.join(", ")}]`,
+      });
+    }
+    if (above !== undefined && safe && above < safe[1]) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["danger_zone", "above"],
+        message: `danger_zone.above ${above} overlaps safe_range [${safe.join(", ")}]`,
+      });
+    }
+  });
+
+export const RecipeAnnotationSchema = z.object({
+  name: z.string().min(1),
+  tags: z.array(z.string()),
+  description: z.string(),
+  parameters: z.record(z.string(), z.record(z.string(), z.unknown())),
+  prerequisites: z.array(z.string()).optional(),
+  warnings: z.array(z.string()).optional(),
+  variations: z.record(z.string(), z.record(z.string(), z.unknown())).optional(),
+});
+
+export const ErrorPatternAnnotationSchema = z.object({
+  pattern_id: z.string().min(1),
+  symptoms: z.array(z.string()).min(1),
+  root_causes: z.array(
+    z.object({
+      cause: z.string(),
+      probability: z.string(),
+      explanation: z.string(),
+      fix: z.array(z.string()),
+      verify: z.string().optional(),
+    }),
+  ),
+});
+
+/** The annotation body the model produces for one node */
+export const NodeAnnotationSchema = z
+  .object({
+    semantic_name_zh: z.string().optional(),
+    semantic_name_en: z.string().optional(),
+    one_line: z.string().min(1),
+    analogy: z.string().optional(),
+    prerequisite_nodes: z.array(z.string()).optional(),
+    required_context: z.string().optional(),
+    typical_network: z.string().optional(),
+    parameters: z.array(ParameterAnnotationSchema).optional(),
+    recipes: z.array(RecipeAnnotationSchema).optional(),
+    error_patterns: z.array(ErrorPatternAnnotationSchema).optional(),
+  })
+  // Keep extra fields the model adds; they are preserved in annotation_yaml
+  .passthrough();
+
+/** An annotated file as written by annotate.ts and read by ingest.ts */
+export const AnnotatedFileSchema = z.object({
+  nodeName: z.string().min(1),
+  system: z.string().min(1),
+  sourceUrls: z.array(z.string()),
+  annotatedAt: z.string(),
+  model: z.string(),
+  houdiniVersion: z.string().optional(),
+  /** Content hash of the crawled page, used to detect stale annotations */
+  sourceHash: z.string().optional(),
+  annotation: NodeAnnotationSchema,
+});
+
+export type ParameterAnnotationData = z.infer<typeof ParameterAnnotationSchema>;
+export type RecipeData = z.infer<typeof RecipeAnnotationSchema>;
+export type ErrorPatternData = z.infer<typeof ErrorPatternAnnotationSchema>;
+export type NodeAnnotation = z.infer<typeof NodeAnnotationSchema>;
+export type AnnotatedFile = z.infer<typeof AnnotatedFileSchema>;
+
+function validateWith<T>(schema: z.ZodType<T>, raw: unknown): AnnotationValidationResult<T> {
+  const result = schema.safeParse(raw);
+  if (result.success) {
+    return { ok: true, data: result.data };
+  }
+  return {
+    ok: false,
+    issues: result.error.issues.map((issue) => ({
+      path: issue.path.length > 0 ? issue.path.map(String).join(".") : "(root)",
+      message: issue.message,
+    })),
+  };
+}
+
+/**
+ * Validate a model-produced node annotation.
+ */
+export function validateNodeAnnotation(raw: unknown): AnnotationValidationResult<NodeAnnotation> {
+  return validateWith(NodeAnnotationSchema, raw);
+}
+
+/**
+ * Validate an annotated file read from disk.
+ */
+export function validateAnnotatedFile(raw: unknown): AnnotationValidationResult<AnnotatedFile> {
+  return validateWith(AnnotatedFileSchema, raw);
+}
+
+/**
+ * One "- path: message" line per issue, for logs and repair prompts.
+ */
+export function formatAnnotationIssues(issues: AnnotationValidationIssue[]): string {
+  return issues.map((issue) => `- ${issue.path}: ${issue.message}`).join("\n");
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectQueryLanguage,
+  expandQueryTerms,
+  localizedName,
+  resolveAliases,
+  resolveNodeAlias,
+  resolveParamAlias,
+  segmentQuery,
+} from "./bilingual.js";
+import type { KnowledgeBase } from "./db.js";
+
+const semanticNames = [
+  {
+    node_name: "pyro_solver",
+    param_name: null,
+    semantic_name_zh: "烟火解算器",
+    semantic_name_en: "Pyro Solver",
+  },
+  {
+    node_name: "pyro_solver",
+    param_name: "dissipation",
+    semantic_name_zh: "烟雾消散速度",
+    semantic_name_en: "Smoke Fade Rate",
+  },
+  {
+    node_name: "pyro_solver",
+    param_name: "cooling_rate",
+    semantic_name_zh: "冷却速率",
+    semantic_name_en: "Flame Cool-down Speed",
+  },
+  {
+    node_name: "flip_solver",
+    param_name: null,
+    semantic_name_zh: "流体解算器",
+    semantic_name_en: "FLIP Solver",
+  },
+];
+
+const kb = { listSemanticNames: () => semanticNames } as unknown as KnowledgeBase;
+
+describe("houdini-claw bilingual queries", () => {
+  it("segments CJK and English queries into words", () => {
+    expect(detectQueryLanguage("烟雾消散更快")).toBe("zh");
+    expect(detectQueryLanguage("smoke fades too slowly")).toBe("en");
+    expect(segmentQuery("烟雾消散更快")).toEqual(["烟雾", "消散", "更", "快"]);
+    expect(segmentQuery("How do I make the Pyro solver dissipation higher?")).toEqual([
+      "pyro",
+      "solver",
+      "dissipation",
+      "higher",
+    ]);
+  });
+
+  it("resolves Chinese phrasing to node and parameter identifiers", () => {
+    const aliases = resolveAliases(kb, "烟雾消散更快");
+    expect(aliases[0]).toMatchObject({
+      type: "parameter",
+      node_name: "pyro_solver",
+      param_name: "dissipation",
+    });
+    expect(expandQueryTerms("烟雾消散更快", aliases)).toEqual(
+      expect.arrayContaining(["烟雾", "消散", "dissipation", "pyro_solver"]),
+    );
+    expect(resolveAliases(kb, "水花溅起")).toEqual([]);
+  });
+
+  it("maps semantic names in either language to node_name and param_name", () => {
+    expect(resolveNodeAlias(kb, "烟火解算器")).toBe("pyro_solver");
+    expect(resolveNodeAlias(kb, "FLIP solver")).toBe("flip_solver");
+    expect(resolveParamAlias(kb, "pyro_solver", "冷却速率")).toBe("cooling_rate");
+    expect(resolveParamAlias(kb, "pyro_solver", "cooling rate")).toBe("cooling_rate");
+    expect(resolveParamAlias(kb, "flip_solver", "冷却速率")).toBeUndefined();
+  });
+
+  it("localizes semantic names with a fallback to the other language", () => {
+    expect(localizedName(semanticNames[0], "zh")).toBe("烟火解算器");
+    expect(localizedName(semanticNames[0], "en")).toBe("Pyro Solver");
+    expect(localizedName({ semantic_name_en: "Gas Resize" }, "zh")).toBe("Gas Resize");
+    expect(localizedName(undefined, "en")).toBeUndefined();
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Houdini Claw - Bilingual Query Support
+ *
+ * Chinese queries such as "烟雾消散更快" share no substrings with English node
+ * and parameter identifiers, so keyword search and the substring fallbacks
+ * find nothing without embeddings. This module:
+ *
+ * - segments queries into words, CJK included (Intl.Segmenter, with a
+ *   character-bigram fallback where the runtime has no segmenter),
+ * - maps semantic names from the annotations (semantic_name_zh and
+ *   semantic_name_en) back to node_name / param_name, and
+ * - detects the query language so responses can be localized.
+ */
+
+import type { KnowledgeBase } from "./db.js";
+
+// ── Types ──────────────────────────────────────────────────
+
+/** Languages the annotations carry semantic names for */
+export type QueryLanguage = "zh" | "en";
+
+export interface AliasMatch {
+  type: "node" | "parameter";
+  node_name: string;
+  param_name?: string;
+  /** The semantic name or identifier that matched */
+  alias: string;
+  /** 1 when the whole alias appears in the query, otherwise the share of its words matched */
+  score: number;
+}
+
+// ── Constants ──────────────────────────────────────────────
+
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+/** Aliases matching less than this share of their words are ignored */
+const MIN_ALIAS_SCORE = 0.5;
+
+const DEFAULT_ALIAS_LIMIT = 5;
+
+const STOP_WORDS = new Set([
+  // English
+  "a",
+  "an",
+  "the",
+  "and",
+  "or",
+  "of",
+  "to",
+  "in",
+  "on",
+  "for",
+  "with",
+  "is",
+  "are",
+  "my",
+  "it",
+  "how",
+  "do",
+  "does",
+  "can",
+  "make",
+  "what",
+  "why",
+  "when",
+  "i",
+  // Chinese
+  "的",
+  "了",
+  "是",
+  "在",
+  "和",
+  "与",
+  "让",
+  "把",
+  "吗",
+  "呢",
+  "啊",
+  "我",
+  "我的",
+  "你",
+  "请",
+  "怎么",
+  "怎样",
+  "如何",
+  "为什么",
+  "什么",
+  "可以",
+  "能",
+  "要",
+]);
+
+// ── Language and Segmentation ──────────────────────────────
+
+/** "zh" when the text contains CJK characters, otherwise "en" */
+export function detectQueryLanguage(text: string): QueryLanguage {
+  return CJK_CHAR.test(text) ? "zh" : "en";
+}
+
+/** Pick the text for the query language */
+export function localize(language: QueryLanguage, text: { en: string; zh: string }): string {
+  return text[language];
+}
+
+/**
+ * The semantic name of an annotation row in the query language, falling
+ * back to the other language.
+ */
+export function localizedName(
+  row: Record<string, unknown> | undefined,
+  language: QueryLanguage,
+): string | undefined {
+  const zh = typeof row?.semantic_name_zh === "string" ? row.semantic_name_zh : undefined;
+  const en = typeof row?.semantic_name_en === "string" ? row.semantic_name_en : undefined;
+  return language === "zh" ? (zh ?? en) : (en ?? zh);
+}
+
+function segmentWords(text: string): string[] {
+  if (typeof Intl.Segmenter === "function") {
+    const segmenter = new Intl.Segmenter(detectQueryLanguage(text), { granularity: "word" });
+    return Array.from(segmenter.segment(text))
+      .filter((s) => s.isWordLike)
+      .map((s) => s.segment);
+  }
+  // No ICU segmenter: whitespace/punctuation split, CJK runs as character bigrams
+  return text
+    .split(/[\s\p{P}\p{S}]+/u)
+    .filter(Boolean)
+    .flatMap((segment) => {
+      if (!CJK_CHAR.test(segment)) {
+        return [segment];
+      }
+      const chars = Array.from(segment);
+      return chars.length === 1 ? chars : chars.slice(1).map((c, i) => chars[i] + c);
+    });
+}
+
+/**
+ * Lowercased, de-duplicated query words without stop words.
+ * "烟雾消散更快" → ["烟雾", "消散", "更", "快"]; "Pyro solver dissipation" →
+ * ["pyro", "solver", "dissipation"].
+ */
+export function segmentQuery(text: string): string[] {
+  const words = segmentWords(text.toLowerCase()).filter(
+    (word) => !STOP_WORDS.has(word) && !/^\d+$/.test(word),
+  );
+  return [...new Set(words)];
+}
+
+// ── Alias Lookup ───────────────────────────────────────────
+
+/** Identifier as words: "cooling_rate" → "cooling rate" */
+function identifierWords(name: string): string {
+  return name.replace(/[_-]+/g, " ");
+}
+
+function scoreAlias(alias: string, query: string, queryWords: Set<string>): number {
+  const normalized = alias.toLowerCase().trim();
+  if (!normalized) {
+    return 0;
+  }
+  // Whole alias in the query; CJK text has no spaces, so compare without them
+  if (query.replace(/\s+/g, "").includes(normalized.replace(/\s+/g, ""))) {
+    return 1;
+  }
+  const aliasWords = segmentQuery(normalized);
+  if (aliasWords.length === 0) {
+    return 0;
+  }
+  // Weight by length so two-character CJK words count more than single characters
+  const total = aliasWords.reduce((sum, word) => sum + word.length, 0);
+  const matched = aliasWords
+    .filter((word) => queryWords.has(word))
+    .reduce((sum, word) => sum + word.length, 0);
+  return matched / total;
+}
+
+/**
+ * Nodes and parameters whose semantic names (either language) or identifiers
+ * match the query, best first. Parameters rank above their node on ties, so
+ * "烟雾消散速度" resolves to pyro_solver/dissipation rather than pyro_solver.
+ */
+export function resolveAliases(
+  kb: KnowledgeBase,
+  query: string,
+  options?: { limit?: number; nodeName?: string },
+): AliasMatch[] {
+  const normalizedQuery = query.toLowerCase();
+  const queryWords = new Set(segmentQuery(query));
+  if (queryWords.size === 0) {
+    return [];
+  }
+
+  const best = new Map<string, AliasMatch>();
+  for (const row of kb.listSemanticNames()) {
+    if (options?.nodeName && row.node_name !== options.nodeName) {
+      continue;
+    }
+    const aliases = [
+      row.semantic_name_zh,
+      row.semantic_name_en,
+      identifierWords(row.param_name ?? row.node_name),
+    ].filter((alias): alias is string => Boolean(alias));
+    for (const alias of aliases) {
+      const score = scoreAlias(alias, normalizedQuery, queryWords);
+      if (score < MIN_ALIAS_SCORE) {
+        continue;
+      }
+      const key = `${row.node_name}/${row.param_name ?? ""}`;
+      const existing = best.get(key);
+      if (!existing || score > existing.score) {
+        best.set(key, {
+          type: row.param_name ? "parameter" : "node",
+          node_name: row.node_name,
+          ...(row.param_name ? { param_name: row.param_name } : {}),
+          alias,
+          score,
+        });
+      }
+    }
+  }
+
+  return [...best.values()]
+    .toSorted(
+      (a, b) =>
+        b.score - a.score ||
+        Number(b.type === "parameter") - Number(a.type === "parameter") ||
+        a.node_name.localeCompare(b.node_name),
+    )
+    .slice(0, options?.limit ?? DEFAULT_ALIAS_LIMIT);
+}
+
+/**
+ * Resolve a node name given as a semantic name ("烟火解算器", "Pyro Solver")
+ * to its node_name. Returns undefined when nothing matches well enough.
+ */
+export function resolveNodeAlias(kb: KnowledgeBase, name: string): string | undefined {
+  return resolveAliases(kb, name, { limit: 20 }).find((m) => m.type === "node")?.node_name;
+}
+
+/**
+ * Resolve a parameter given as a semantic name ("冷却速率") on one node.
+ */
+export function resolveParamAlias(
+  kb: KnowledgeBase,
+  nodeName: string,
+  name: string,
+): string | undefined {
+  return resolveAliases(kb, name, { nodeName, limit: 20 }).find((m) => m.type === "parameter")
+    ?.param_name;
+}
+
+/**
+ * Search terms for keyword matching: the query words plus the identifiers of
+ * matched aliases, so "烟雾消散更快" also searches for "dissipation".
+ */
+export function expandQueryTerms(query: string, aliases: AliasMatch[]): string[] {
+  const terms = segmentQuery(query);
+  for (const alias of aliases) {
+    for (const identifier of [alias.param_name, alias.node_name]) {
+      if (identifier && !terms.includes(identifier)) {
+        terms.push(identifier);
+      }
+    }
+  }
+  return terms;
+}
@@ -0,0 +1,217 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { loadOrCreateDeviceIdentity } from "../infra/device-identity.js";
+import {
+  BundleVerificationError,
+  canonicalJson,
+  exportBundle,
+  importBundle,
+  readBundle,
+  resolveMergeAction,
+} from "./bundle.js";
+import { initDatabase, type KnowledgeBase } from "./db.js";
+
+const tables: Record<string, Array<Record<string, unknown>>> = {
+  node_annotations: [
+    {
+      node_name: "pyro_solver",
+      houdini_version: "20.5",
+      one_line: "Solves smoke and fire",
+      human_verified: 1,
+      updated_at: "2026-03-01 10:00:00",
+    },
+    { node_name: "pyro_solver", houdini_version: "19.5", one_line: "Old", human_verified: 0 },
+  ],
+  parameter_annotations: [
+    { node_name: "pyro_solver", param_name: "dissipation", houdini_version: "20.5" },
+  ],
+  recipes: [],
+  error_patterns: [{ pattern_id: "PYRO-001", symptoms: '["smoke vanishes"]' }],
+  review_log: [],
+  embedding_chunks: [{ chunk_text: "Pyro Solver", chunk_type: "node", node_name: "pyro_solver" }],
+};
+
+const kb = {
+  listTableRows: (table: string) => tables[table] ?? [],
+  getMeta: (key: string) =>
+    ({ embedding_provider: "ollama", embedding_model: "nomic-embed-text", embedding_dim: "2" })[
+      key
+    ],
+  hasTable: () => true,
+  listCachedEmbeddings: () => new Map([["abc", new Float32Array([0.5, -1])]]),
+} as unknown as KnowledgeBase;
+
+describe("houdini-claw bundles", () => {
+  let tempDir = "";
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "houdini-claw-bundle-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("prefers human-verified rows, then the newer row", () => {
+    const verified = { human_verified: 1, updated_at: "2026-01-01 00:00:00" };
+    const machine = { human_verified: 0, updated_at: "2026-06-01 00:00:00" };
+
+    expect(resolveMergeAction(undefined, machine)).toBe("insert");
+    expect(resolveMergeAction(verified, machine)).toBe("keep");
+    expect(resolveMergeAction(machine, verified)).toBe("replace");
+    expect(resolveMergeAction({ ...machine, updated_at: "2025-01-01" }, machine)).toBe("replace");
+    expect(resolveMergeAction(machine, { ...machine, updated_at: "2025-01-01" })).toBe("keep");
+    expect(
+      resolveMergeAction({ ...machine, review_status: "rejected", updated_at: "" }, machine),
+    ).toBe("keep");
+  });
+
+  it("signs the manifest independently of key order", () => {
+    expect(canonicalJson({ b: [1, { d: 2, c: null }], a: "x", skip: undefined })).toBe(
+      '{"a":"x","b":[1,{"c":null,"d":2}]}',
+    );
+  });
+
+  it("exports a signed bundle that reads back and rejects tampering", () => {
+    const identity = loadOrCreateDeviceIdentity(path.join(tempDir, "device.json"));
+    const bundleDir = path.join(tempDir, "bundle");
+    const manifest = exportBundle(kb, bundleDir, { identity });
+
+    expect(manifest.houdini_versions).toEqual(["19.5", "20.5"]);
+    expect(manifest.embedding).toEqual({
+      provider: "ollama",
+      model: "nomic-embed-text",
+      dimensions: 2,
+    });
+    expect(manifest.tables.node_annotations?.rows).toBe(2);
+    expect(manifest.signature?.device_id).toBe(identity.deviceId);
+
+    const read = readBundle(bundleDir, { trustedSigners: [identity.deviceId] });
+    expect(read.signer).toBe(identity.deviceId);
+    expect(read.rows.error_patterns).toEqual(tables.error_patterns);
+    expect(read.rows.embedding_cache?.[0]).toMatchObject({
+      hash: "abc",
+      model: "nomic-embed-text",
+    });
+
+    expect(() => readBundle(bundleDir)).toThrow(/untrusted device/);
+    expect(() => readBundle(bundleDir, { trustedSigners: ["someone-else"] })).toThrow(/untrusted/);
+    expect(readBundle(bundleDir, { allowUntrusted: true })).toMatchObject({
+      signer: identity.deviceId,
+      trusted: false,
+    });
+    const trust = { trustedSigners: [identity.deviceId] };
+
+    fs.appendFileSync(
+      path.join(bundleDir, "recipes.jsonl"),
+      `${JSON.stringify({ name: "Injected" })}\n`,
+    );
+    expect(() => readBundle(bundleDir, trust)).toThrow(/does not match its manifest hash/);
+
+    const manifestPath = path.join(bundleDir, "manifest.json");
+    const edited = JSON.parse(fs.readFileSync(manifestPath, "utf-8"));
+    edited.tables.recipes.rows = 1;
+    fs.writeFileSync(manifestPath, JSON.stringify(edited));
+    expect(() => readBundle(bundleDir, trust)).toThrow(BundleVerificationError);
+    expect(() => readBundle(bundleDir, trust)).toThrow(/signature is invalid/);
+  });
+
+  it("rejects manifests without a table list", () => {
+    const bundleDir = path.join(tempDir, "malformed");
+    fs.mkdirSync(bundleDir);
+    fs.writeFileSync(
+      path.join(bundleDir, "manifest.json"),
+      JSON.stringify({ format: "houdini-claw-bundle", bundle_version: 1 }),
+    );
+    expect(() => readBundle(bundleDir, { allowUnsigned: true })).toThrow(BundleVerificationError);
+    fs.writeFileSync(path.join(bundleDir, "manifest.json"), "{");
+    expect(() => readBundle(bundleDir, { allowUnsigned: true })).toThrow(/not valid JSON/);
+  });
+
+  it("refuses unsigned bundles unless allowed", () => {
+    const bundleDir = path.join(tempDir, "unsigned");
+    exportBundle(kb, bundleDir, { unsigned: true, includeEmbeddings: false });
+
+    expect(() => readBundle(bundleDir)).toThrow(/not signed/);
+    const read = readBundle(bundleDir, { allowUnsigned: true });
+    expect(read.signer).toBeUndefined();
+    expect(read.trusted).toBe(false);
+    expect(read.manifest.embedding).toBeNull();
+    expect(read.rows.embedding_cache).toBeUndefined();
+  });
+  it("imports untrusted bundles as unverified rows that never replace verified ones", async () => {
+    const identity = loadOrCreateDeviceIdentity(path.join(tempDir, "device.json"));
+    const annotate = (db: KnowledgeBase, oneLine: string) => {
+      db.upsertNodeAnnotation({
+        node_name: "pyro_solver",
+        node_category: "DOP",
+        one_line: oneLine,
+        annotation_yaml: "",
+        annotated_at: "2026-01-01T00:00:00Z",
+        annotation_model: "test",
+        human_verified: true,
+      });
+    };
+
+    const source = await initDatabase(path.join(tempDir, "source.db"));
+    const local = await initDatabase(path.join(tempDir, "local.db"));
+    try {
+      annotate(source, "Claimed by the bundle");
+      source.upsertParameterAnnotation({
+        node_name: "pyro_solver",
+        param_name: "dissipation",
+        param_path: "dissipation",
+        human_verified: true,
+      });
+      source.insertReviewLog({
+        target_type: "node",
+        node_name: "pyro_solver",
+        houdini_version: "20.5",
+        action: "approve",
+        reviewer: "forged",
+      });
+      source.insertDiagnosisFeedback({ pattern_id: "PYRO-001", cause: "forged", fixed: true });
+      source.setMeta("embedding_provider", "hash");
+      source.setMeta("embedding_model", "hash-8");
+      source.setMeta("embedding_dim", "2");
+      source.putCachedEmbeddings("hash", "hash-8", [
+        { hash: "abc", embedding: new Float32Array([1, 0]) },
+      ]);
+      const bundleDir = path.join(tempDir, "bundle");
+      exportBundle(source, bundleDir, { identity });
+      annotate(local, "Reviewed locally");
+
+      expect(() => importBundle(local, bundleDir)).toThrow(/untrusted device/);
+      const report = importBundle(local, bundleDir, { allowUntrusted: true });
+      expect(report).toMatchObject({ signer: identity.deviceId, trusted: false });
+      expect(report.tables.node_annotations).toMatchObject({ kept: 1, replaced: 0 });
+      expect(report.warnings[0]).toContain("is not trusted");
+      expect(report.skipped).toEqual(["review_log", "diagnosis_feedback", "embedding_cache"]);
+      expect(report.tables.review_log).toBeUndefined();
+      expect(local.getReviewHistory("pyro_solver")).toEqual([]);
+      expect(local.listTableRows("diagnosis_feedback")).toEqual([]);
+      expect(local.getCachedEmbeddings("hash", "hash-8", ["abc"]).size).toBe(0);
+      expect(local.getNodeAnnotation("pyro_solver")).toMatchObject({
+        one_line: "Reviewed locally",
+        human_verified: 1,
+      });
+      expect(local.getParameterAnnotation("pyro_solver", "dissipation")).toMatchObject({
+        human_verified: 0,
+        review_status: null,
+      });
+
+      const trusted = importBundle(local, bundleDir, { trustedSigners: [identity.deviceId] });
+      expect(trusted.trusted).toBe(true);
+      expect(trusted.warnings).toEqual([]);
+      expect(trusted.skipped).toEqual([]);
+      expect(trusted.tables.review_log).toMatchObject({ inserted: 1 });
+      expect(local.getCachedEmbeddings("hash", "hash-8", ["abc"]).size).toBe(1);
+      expect(local.getParameterAnnotation("pyro_solver", "dissipation")?.human_verified).toBe(1);
+    } finally {
+      source.close();
+      local.close();
+    }
+  });
+});
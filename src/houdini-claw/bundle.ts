@@ -0,0 +1,728 @@
+/**
+ * Houdini Claw - Knowledge Base Bundles
+ *
+ * Shares a knowledge base between machines without copying the SQLite file.
+ * `export` writes a bundle directory with one JSONL file per table and a
+ * manifest.json recording the bundle version, the Houdini versions annotated,
+ * the embedding model of the cached vectors, and the row count and SHA-256 of
+ * every file. The manifest is signed with this machine's Ed25519 device
+ * identity (the key used for gateway pairing), so an import can tell whether
+ * any file was altered and which device produced the bundle.
+ *
+ * `import` verifies the bundle, then merges it row by row:
+ * - rows missing locally are inserted,
+ * - a human-verified row wins over an unverified one, in either direction,
+ * - a locally rejected row is only replaced by a human-verified one,
+ * - otherwise the more recently updated row wins.
+ * Signed bundles are refused unless their signer is trusted (`--trust`).
+ * Bundles accepted without a trusted signer (`--allow-untrusted`,
+ * `--allow-unsigned`) are imported as unverified rows, so they never replace
+ * local human-verified rows.
+ * Review and diagnosis-feedback logs are appended without duplicates, so fix
+ * rates learned on one machine rank error patterns on the others. Embedding
+ * chunks follow their node annotation, and cached embeddings are added so the
+ * next ingest rebuilds kb_vec without calling the embedding API. The logs and
+ * cached embeddings are only taken from trusted signers: they can't be marked
+ * unverified, and a forged vector would steer search for its chunk text.
+ *
+ * Usage:
+ *   bun src/houdini-claw/bundle.ts export --output ./houdini-kb-bundle
+ *   bun src/houdini-claw/bundle.ts export --output ./houdini-kb-20.5 --houdini-version 20.5 --no-embeddings
+ *   bun src/houdini-claw/bundle.ts import --input ./houdini-kb-bundle --trust <device-id> --dry-run
+ *   bun src/houdini-claw/bundle.ts import --input ./houdini-kb-bundle --trust <device-id>,<device-id>
+ *   bun src/houdini-claw/bundle.ts import --input ./houdini-kb-bundle --allow-untrusted
+ */
+
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import {
+  deriveDeviceIdFromPublicKey,
+  loadOrCreateDeviceIdentity,
+  publicKeyRawBase64UrlFromPem,
+  signDevicePayload,
+  verifyDeviceSignature,
+  type DeviceIdentity,
+} from "../infra/device-identity.js";
+import { initDatabase, type KnowledgeBase } from "./db.js";
+import { syncNodeEdges } from "./graph.js";
+import { getStoredEmbeddingIdentity, type EmbeddingIdentity } from "./vector-search.js";
+import { compareHoudiniVersions } from "./versions.js";
+
+// ── Types ──────────────────────────────────────────────────
+
+export const BUNDLE_FORMAT = "houdini-claw-bundle";
+
+/** Bumped when the file layout changes; newer bundles are refused */
+export const BUNDLE_VERSION = 1;
+
+export type BundleTable =
+  | "node_annotations"
+  | "parameter_annotations"
+  | "recipes"
+  | "error_patterns"
+  | "review_log"
+  | "diagnosis_feedback"
+  | "embedding_chunks"
+  | "embedding_cache";
+
+export interface BundleFile {
+  file: string;
+  rows: number;
+  sha256: string;
+}
+
+export interface BundleSignature {
+  algorithm: "ed25519";
+  /** Device ID (public key fingerprint) of the exporting machine */
+  device_id: string;
+  /** Raw public key, base64url */
+  public_key: string;
+  /** Signature over the canonical JSON of the manifest without this field */
+  value: string;
+}
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  bundle_version: number;
+  created_at: string;
+  /** Houdini versions of the node annotations in the bundle, oldest first */
+  houdini_versions: string[];
+  /** Model that produced the cached embeddings; null when none are included */
+  embedding: EmbeddingIdentity | null;
+  tables: Partial<Record<BundleTable, BundleFile>>;
+  signature?: BundleSignature;
+}
+
+export interface BundleExportOptions {
+  /** Only export annotations (and their reviews) for this Houdini version */
+  houdiniVersion?: string;
+  /** Include cached embeddings for the stored embedding model (default: true) */
+  includeEmbeddings?: boolean;
+  /** Signing identity (default: this machine's device identity) */
+  identity?: DeviceIdentity;
+  /** Write the manifest without a signature */
+  unsigned?: boolean;
+}
+
+export interface BundleImportOptions {
+  /** Verify and report what would change without writing */
+  dryRun?: boolean;
+  /** Device IDs whose bundles are imported as-is */
+  trustedSigners?: string[];
+  /** Accept bundles from other signers, importing their rows as unverified */
+  allowUntrusted?: boolean;
+  /** Accept bundles without a signature, importing their rows as unverified */
+  allowUnsigned?: boolean;
+}
+
+export type MergeAction = "insert" | "replace" | "keep";
+
+export interface BundleTableReport {
+  inserted: number;
+  replaced: number;
+  kept: number;
+  failed: number;
+}
+
+export interface BundleImportReport {
+  dryRun: boolean;
+  /** Device ID of the verified signer; undefined for unsigned bundles */
+  signer?: string;
+  /** Whether the signer is trusted; rows of untrusted bundles import as unverified */
+  trusted: boolean;
+  created_at: string;
+  houdini_versions: string[];
+  tables: Partial<Record<BundleTable, BundleTableReport>>;
+  /** Tables in the bundle that were not imported because the signer is not trusted */
+  skipped: BundleTable[];
+  warnings: string[];
+}
+
+/** Raised when a bundle is malformed, altered, unsigned or from an untrusted signer. */
+export class BundleVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BundleVerificationError";
+  }
+}
+
+// ── Constants ──────────────────────────────────────────────
+
+const MANIFEST_FILE = "manifest.json";
+
+/** Table order matters on import: parameters reference their node row */
+const BUNDLE_TABLES: readonly BundleTable[] = [
+  "node_annotations",
+  "parameter_annotations",
+  "recipes",
+  "error_patterns",
+  "review_log",
+  "diagnosis_feedback",
+  "embedding_chunks",
+  "embedding_cache",
+];
+
+/** Tables merged by their UNIQUE key under the human-verified rules */
+const KEYED_TABLES: ReadonlyArray<{ table: BundleTable; key: string[] }> = [
+  { table: "node_annotations", key: ["node_name", "houdini_version"] },
+  { table: "parameter_annotations", key: ["node_name", "param_name", "houdini_version"] },
+  { table: "recipes", key: ["name"] },
+  { table: "error_patterns", key: ["pattern_id"] },
+];
+
+/** Tables only imported from trusted signers */
+const TRUSTED_ONLY_TABLES: readonly BundleTable[] = [
+  "review_log",
+  "diagnosis_feedback",
+  "embedding_cache",
+];
+
+/** Append-only logs: an entry is already present when all of these columns match */
+const LOG_TABLES: ReadonlyArray<{ table: BundleTable; key: string[] }> = [
+  {
+    table: "review_log",
+    key: [
+      "target_type",
+      "node_name",
+      "param_name",
+      "houdini_version",
+      "action",
+      "reviewer",
+      "created_at",
+    ],
+  },
+  { table: "diagnosis_feedback", key: ["pattern_id", "cause", "fixed", "symptoms", "created_at"] },
+];
+
+// ── Manifest Signing ───────────────────────────────────────
+
+/** JSON with object keys sorted at every level, so signatures don't depend on key order */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item)).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .toSorted(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function signBundleManifest(
+  manifest: BundleManifest,
+  identity: DeviceIdentity,
+): BundleManifest {
+  const { signature: _previous, ...unsigned } = manifest;
+  return {
+    ...unsigned,
+    signature: {
+      algorithm: "ed25519",
+      device_id: identity.deviceId,
+      public_key: publicKeyRawBase64UrlFromPem(identity.publicKeyPem),
+      value: signDevicePayload(identity.privateKeyPem, canonicalJson(unsigned)),
+    },
+  };
+}
+
+/**
+ * Check the manifest signature and signer. Returns the signer's device ID,
+ * or undefined for an unsigned bundle when those are allowed. A valid
+ * signature from a device outside `trustedSigners` is refused unless
+ * `allowUntrusted` is set.
+ */
+export function verifyBundleManifest(
+  manifest: BundleManifest,
+  options: Pick<BundleImportOptions, "trustedSigners" | "allowUntrusted" | "allowUnsigned"> = {},
+): string | undefined {
+  const { signature, ...unsigned } = manifest;
+  if (!signature) {
+    if (options.allowUnsigned) {
+      return undefined;
+    }
+    throw new BundleVerificationError("Bundle is not signed");
+  }
+  if (
+    signature.algorithm !== "ed25519" ||
+    deriveDeviceIdFromPublicKey(signature.public_key) !== signature.device_id ||
+    !verifyDeviceSignature(signature.public_key, canonicalJson(unsigned), signature.value)
+  ) {
+    throw new BundleVerificationError(
+      "Bundle signature is invalid: the manifest was modified or not signed by the device it names",
+    );
+  }
+  if (!options.trustedSigners?.includes(signature.device_id) && !options.allowUntrusted) {
+    throw new BundleVerificationError(
+      `Bundle signed by untrusted device ${signature.device_id}; pass --trust ${signature.device_id} ` +
+        "if you trust it, or --allow-untrusted to import its rows as unverified",
+    );
+  }
+  return signature.device_id;
+}
+
+// ── Merge Rules ────────────────────────────────────────────
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function isBundleFile(value: unknown): value is BundleFile {
+  return (
+    isRecord(value) &&
+    typeof value.file === "string" &&
+    typeof value.rows === "number" &&
+    typeof value.sha256 === "string"
+  );
+}
+
+/** A scalar column value as text; null and anything else read as "" */
+function columnText(value: unknown): string {
+  return typeof value === "string" || typeof value === "number" ? String(value) : "";
+}
+
+function isVerified(row: Record<string, unknown>): boolean {
+  return Number(row.human_verified) === 1;
+}
+
+/**
+ * A row from a bundle without a trusted signer: its verification claims are
+ * dropped, so it is merged (and stored) like a machine annotation.
+ */
+function asUnverified(row: Record<string, unknown>): Record<string, unknown> {
+  if (!("human_verified" in row)) {
+    return row;
+  }
+  return {
+    ...row,
+    human_verified: 0,
+    review_status: row.review_status === "approved" ? null : row.review_status,
+  };
+}
+
+/**
+ * What to do with a bundle row given the local row with the same key.
+ * Human verification beats recency; a local rejection is only overturned by
+ * a verified row.
+ */
+export function resolveMergeAction(
+  existing: Record<string, unknown> | undefined,
+  incoming: Record<string, unknown>,
+): MergeAction {
+  if (!existing) {
+    return "insert";
+  }
+  if (isVerified(existing) !== isVerified(incoming)) {
+    return isVerified(incoming) ? "replace" : "keep";
+  }
+  if (existing.review_status === "rejected" && !isVerified(incoming)) {
+    return "keep";
+  }
+  return columnText(incoming.updated_at) > columnText(existing.updated_at) ? "replace" : "keep";
+}
+
+// ── Export ─────────────────────────────────────────────────
+
+function sha256(content: string): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+function encodeEmbedding(vector: Float32Array): string {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString("base64");
+}
+
+function decodeEmbedding(encoded: string): Float32Array {
+  const bytes = Uint8Array.from(Buffer.from(encoded, "base64"));
+  return new Float32Array(bytes.buffer, 0, bytes.byteLength / 4);
+}
+
+/**
+ * Write the knowledge base to `outputDir` as a bundle and return its manifest.
+ */
+export function exportBundle(
+  kb: KnowledgeBase,
+  outputDir: string,
+  options: BundleExportOptions = {},
+): BundleManifest {
+  const version = options.houdiniVersion;
+  const rows: Partial<Record<BundleTable, Array<Record<string, unknown>>>> = {};
+  for (const { table } of KEYED_TABLES) {
+    rows[table] = kb.listTableRows(table, version);
+  }
+  rows.review_log = kb.listTableRows("review_log", version);
+  rows.diagnosis_feedback = kb.listTableRows("diagnosis_feedback");
+
+  const nodes = new Set(rows.node_annotations?.map((r) => r.node_name));
+  rows.embedding_chunks = kb
+    .listTableRows("embedding_chunks")
+    .filter((r) => !version || r.node_name === null || nodes.has(r.node_name));
+
+  const embedding =
+    options.includeEmbeddings === false ? undefined : getStoredEmbeddingIdentity(kb);
+  if (embedding) {
+    rows.embedding_cache = [...kb.listCachedEmbeddings(embedding.provider, embedding.model)].map(
+      ([hash, vector]) => ({
+        provider: embedding.provider,
+        model: embedding.model,
+        hash,
+        embedding: encodeEmbedding(vector),
+      }),
+    );
+  }
+
+  fs.mkdirSync(outputDir, { recursive: true });
+  const tables: BundleManifest["tables"] = {};
+  for (const table of BUNDLE_TABLES) {
+    const tableRows = rows[table];
+    if (!tableRows) {
+      continue;
+    }
+    const content = tableRows.map((row) => `${JSON.stringify(row)}\n`).join("");
+    const file = `${table}.jsonl`;
+    fs.writeFileSync(path.join(outputDir, file), content);
+    tables[table] = { file, rows: tableRows.length, sha256: sha256(content) };
+  }
+
+  let manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    bundle_version: BUNDLE_VERSION,
+    created_at: new Date().toISOString(),
+    houdini_versions: [
+      ...new Set((rows.node_annotations ?? []).map((r) => String(r.houdini_version))),
+    ].toSorted(compareHoudiniVersions),
+    embedding: embedding && rows.embedding_cache?.length ? embedding : null,
+    tables,
+  };
+  if (!options.unsigned) {
+    manifest = signBundleManifest(manifest, options.identity ?? loadOrCreateDeviceIdentity());
+  }
+  fs.writeFileSync(path.join(outputDir, MANIFEST_FILE), `${JSON.stringify(manifest, null, 2)}\n`);
+  return manifest;
+}
+
+// ── Import ─────────────────────────────────────────────────
+
+/**
+ * Read and verify a bundle: manifest format and version, signature, and the
+ * hash and row count of every file. Throws BundleVerificationError.
+ */
+export function readBundle(
+  inputDir: string,
+  options: Pick<BundleImportOptions, "trustedSigners" | "allowUntrusted" | "allowUnsigned"> = {},
+): {
+  manifest: BundleManifest;
+  signer?: string;
+  trusted: boolean;
+  rows: Partial<Record<BundleTable, Array<Record<string, unknown>>>>;
+} {
+  const manifestPath = path.join(inputDir, MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) {
+    throw new BundleVerificationError(`No ${MANIFEST_FILE} in ${inputDir}`);
+  }
+  let parsedManifest: unknown;
+  try {
+    parsedManifest = JSON.parse(fs.readFileSync(manifestPath, "utf-8"));
+  } catch (err) {
+    throw new BundleVerificationError(
+      `${manifestPath} is not valid JSON: ${(err as Error).message}`,
+    );
+  }
+  // Check the parsed file before trusting its declared type
+  if (!isRecord(parsedManifest) || parsedManifest.format !== BUNDLE_FORMAT) {
+    throw new BundleVerificationError(`${manifestPath} is not a ${BUNDLE_FORMAT} manifest`);
+  }
+  if (
+    typeof parsedManifest.bundle_version !== "number" ||
+    typeof parsedManifest.created_at !== "string" ||
+    !Array.isArray(parsedManifest.houdini_versions) ||
+    !isRecord(parsedManifest.tables) ||
+    !Object.values(parsedManifest.tables).every(isBundleFile)
+  ) {
+    throw new BundleVerificationError(`${manifestPath} is missing or has malformed fields`);
+  }
+  const manifest = parsedManifest as unknown as BundleManifest;
+  if (!(manifest.bundle_version <= BUNDLE_VERSION)) {
+    throw new BundleVerificationError(
+      `Bundle version ${manifest.bundle_version} is newer than supported (${BUNDLE_VERSION})`,
+    );
+  }
+  const signer = verifyBundleManifest(manifest, options);
+
+  const rows: Partial<Record<BundleTable, Array<Record<string, unknown>>>> = {};
+  for (const [table, entry] of Object.entries(manifest.tables) as Array<
+    [BundleTable, BundleFile]
+  >) {
+    if (!BUNDLE_TABLES.includes(table) || path.basename(entry.file) !== entry.file) {
+      throw new BundleVerificationError(`Unexpected bundle file ${table}: ${entry.file}`);
+    }
+    const content = fs.readFileSync(path.join(inputDir, entry.file), "utf-8");
+    if (sha256(content) !== entry.sha256) {
+      throw new BundleVerificationError(`${entry.file} does not match its manifest hash`);
+    }
+    const parsed = content
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as Record<string, unknown>);
+    if (parsed.length !== entry.rows) {
+      throw new BundleVerificationError(
+        `${entry.file} has ${parsed.length} rows, manifest says ${entry.rows}`,
+      );
+    }
+    rows[table] = parsed;
+  }
+  const trusted = signer !== undefined && (options.trustedSigners ?? []).includes(signer);
+  return { manifest, signer, trusted, rows };
+}
+
+function emptyReport(): BundleTableReport {
+  return { inserted: 0, replaced: 0, kept: 0, failed: 0 };
+}
+
+function pick(row: Record<string, unknown>, columns: string[]): Record<string, unknown> {
+  return Object.fromEntries(columns.map((c) => [c, row[c] ?? null]));
+}
+
+/**
+ * Verify a bundle and merge it into the knowledge base. Node graph edges and
+ * the keyword index are refreshed for what changed; kb_vec is rebuilt by the
+ * next ingest, from the imported embedding cache where the models match.
+ */
+export function importBundle(
+  kb: KnowledgeBase,
+  inputDir: string,
+  options: BundleImportOptions = {},
+): BundleImportReport {
+  const { manifest, signer, trusted, rows } = readBundle(inputDir, options);
+  const dryRun = options.dryRun === true;
+  const tables: BundleImportReport["tables"] = {};
+  const warnings: string[] = [];
+  const skipped = trusted ? [] : TRUSTED_ONLY_TABLES.filter((table) => rows[table]);
+  if (!trusted) {
+    warnings.push(
+      `${signer ? `Signer ${signer} is not trusted` : "Bundle is unsigned"}; ` +
+        "its rows are imported as unverified and never replace human-verified rows",
+    );
+  }
+  if (skipped.length > 0) {
+    warnings.push(`Skipped ${skipped.join(", ")}: only imported from trusted signers (--trust)`);
+  }
+  // Node versions whose annotation row came from the bundle; their chunks follow
+  const changedNodes = new Map<string, Set<string>>();
+  const annotatedNodes = new Set<string>();
+
+  const write = (
+    report: BundleTableReport,
+    action: MergeAction,
+    label: string,
+    apply: () => void,
+  ): boolean => {
+    try {
+      if (!dryRun) {
+        apply();
+      }
+      report[action === "insert" ? "inserted" : "replaced"]++;
+      return true;
+    } catch (err) {
+      report.failed++;
+      warnings.push(`${label}: ${(err as Error).message}`);
+      return false;
+    }
+  };
+
+  kb.db.exec("BEGIN");
+  try {
+    for (const { table, key } of KEYED_TABLES) {
+      const report = emptyReport();
+      for (const bundleRow of rows[table] ?? []) {
+        const row = trusted ? bundleRow : asUnverified(bundleRow);
+        const action = resolveMergeAction(kb.findRowByKey(table, pick(row, key)), row);
+        if (action === "keep") {
+          report.kept++;
+          continue;
+        }
+        const label = `${table} ${key.map((k) => row[k]).join("/")}`;
+        const written = write(report, action, label, () => kb.writeBundleRow(table, row, key));
+        if (written && typeof row.node_name === "string") {
+          annotatedNodes.add(row.node_name);
+          if (table === "node_annotations") {
+            const versions = changedNodes.get(row.node_name) ?? new Set<string>();
+            versions.add(columnText(row.houdini_version));
+            changedNodes.set(row.node_name, versions);
+          }
+        }
+      }
+      tables[table] = report;
+    }
+
+    for (const { table, key } of LOG_TABLES) {
+      const tableRows = rows[table];
+      if (!tableRows || !trusted) {
+        continue;
+      }
+      const report = emptyReport();
+      for (const row of tableRows) {
+        if (kb.findRowByKey(table, pick(row, key))) {
+          report.kept++;
+          continue;
+        }
+        write(report, "insert", `${table} ${columnText(row.node_name ?? row.pattern_id)}`, () =>
+          kb.writeBundleRow(table, row, []),
+        );
+      }
+      tables[table] = report;
+    }
+
+    if (rows.embedding_chunks) {
+      const report = emptyReport();
+      const cleared = new Set<string>();
+      for (const row of rows.embedding_chunks) {
+        const nodeName = typeof row.node_name === "string" ? row.node_name : undefined;
+        // Bundles from before chunks were versioned follow any changed version
+        const version = typeof row.houdini_version === "string" ? row.houdini_version : undefined;
+        const unchanged =
+          nodeName !== undefined
+            ? version !== undefined
+              ? !changedNodes.get(nodeName)?.has(version)
+              : !changedNodes.has(nodeName)
+            : kb.findRowByKey("embedding_chunks", pick(row, ["chunk_type", "chunk_text"]));
+        if (unchanged) {
+          report.kept++;
+          continue;
+        }
+        write(
+          report,
+          "insert",
+          `embedding_chunks ${nodeName ?? columnText(row.chunk_type)}`,
+          () => {
+            const owner = `${nodeName}@${version ?? ""}`;
+            if (nodeName && !cleared.has(owner)) {
+              kb.clearChunksForNode(nodeName, version);
+              cleared.add(owner);
+            }
+            kb.writeBundleRow("embedding_chunks", row, []);
+          },
+        );
+      }
+      tables.embedding_chunks = report;
+    }
+
+    if (rows.embedding_cache && manifest.embedding && trusted) {
+      const { provider, model } = manifest.embedding;
+      const local = getStoredEmbeddingIdentity(kb);
+      if (local && (local.provider !== provider || local.model !== model)) {
+        warnings.push(
+          `Bundle embeddings are ${provider}/${model} but this knowledge base uses ${local.provider}/${local.model}; ` +
+            "they are cached but not used until ingest switches models",
+        );
+      }
+      const report = emptyReport();
+      const existing = kb.getCachedEmbeddings(
+        provider,
+        model,
+        rows.embedding_cache.map((r) => String(r.hash)),
+      );
+      const entries = rows.embedding_cache
+        .filter((r) => !existing.has(String(r.hash)))
+        .map((r) => ({ hash: String(r.hash), embedding: decodeEmbedding(String(r.embedding)) }));
+      if (!dryRun && entries.length > 0) {
+        kb.putCachedEmbeddings(provider, model, entries);
+      }
+      report.inserted = entries.length;
+      report.kept = rows.embedding_cache.length - entries.length;
+      tables.embedding_cache = report;
+    }
+
+    kb.db.exec(dryRun ? "ROLLBACK" : "COMMIT");
+  } catch (err) {
+    kb.db.exec("ROLLBACK");
+    throw err;
+  }
+
+  if (!dryRun) {
+    for (const nodeName of annotatedNodes) {
+      syncNodeEdges(kb, nodeName);
+    }
+    kb.rebuildKeywordIndex();
+  }
+
+  return {
+    dryRun,
+    signer,
+    trusted,
+    created_at: manifest.created_at,
+    houdini_versions: manifest.houdini_versions,
+    tables,
+    skipped,
+    warnings,
+  };
+}
+
+// ── CLI Entry Point ────────────────────────────────────────
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const valueOf = (flag: string): string | undefined => {
+    const idx = args.indexOf(flag);
+    return idx !== -1 ? args[idx + 1] : undefined;
+  };
+  const command = args[0];
+
+  if (command !== "export" && command !== "import") {
+    console.log(
+      JSON.stringify({ error: "Usage: bundle.ts export --output <dir> | import --input <dir>" }),
+    );
+    return;
+  }
+  const dir = command === "export" ? valueOf("--output") : valueOf("--input");
+  if (!dir) {
+    console.log(
+      JSON.stringify({
+        error: `Specify the bundle directory with ${command === "export" ? "--output" : "--input"}`,
+      }),
+    );
+    return;
+  }
+
+  const kb = await initDatabase(valueOf("--db"));
+  try {
+    if (command === "export") {
+      const manifest = exportBundle(kb, dir, {
+        houdiniVersion: valueOf("--houdini-version"),
+        includeEmbeddings: !args.includes("--no-embeddings"),
+        unsigned: args.includes("--unsigned"),
+      });
+      console.log(
+        JSON.stringify({
+          output: dir,
+          signer: manifest.signature?.device_id,
+          houdini_versions: manifest.houdini_versions,
+          embedding: manifest.embedding,
+          rows: Object.fromEntries(
+            Object.entries(manifest.tables).map(([table, entry]) => [table, entry.rows]),
+          ),
+        }),
+      );
+    } else {
+      const report = importBundle(kb, dir, {
+        dryRun: args.includes("--dry-run"),
+        allowUntrusted: args.includes("--allow-untrusted"),
+        allowUnsigned: args.includes("--allow-unsigned"),
+        trustedSigners: valueOf("--trust")
+          ?.split(",")
+          .map((id) => id.trim())
+          .filter(Boolean),
+      });
+      console.log(JSON.stringify(report));
+    }
+  } finally {
+    kb.close();
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((err) => {
+    console.error("[bundle] Fatal:", (err as Error).message);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,222 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { runCrawl } from "./crawl.js";
+import { initDatabase, type KnowledgeBase } from "./db.js";
+
+type Page = { body: string; etag: string };
+
+function stubDocsSite(pages: Record<string, Page>) {
+  const requests: Array<{ url: string; ifNoneMatch?: string }> = [];
+  const fetchMock = vi.fn(async (url: string, init?: { headers?: Record<string, string> }) => {
+    const ifNoneMatch = init?.headers?.["If-None-Match"];
+    requests.push({ url, ifNoneMatch });
+    const name = url
+      .split("/")
+      .pop()!
+      .replace(/\.html$/, "");
+    const page = pages[name];
+    if (!page) {
+      return new Response("missing", { status: 404 });
+    }
+    if (ifNoneMatch === page.etag) {
+      return new Response(null, { status: 304 });
+    }
+    return new Response(`<title>${name}</title>${page.body}`, {
+      status: 200,
+      headers: { ETag: page.etag },
+    });
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return requests;
+}
+
+const VELLUM_PAGES: Record<string, Page> = Object.fromEntries(
+  [
+    "vellumsolver",
+    "vellumobject",
+    "vellumconstraints",
+    "vellumdrape",
+    "vellumpostprocess",
+    "vellumrestblend",
+    "vellumsolver-sop",
+    "vellumpack",
+  ].map((name) => [name, { body: `${name} docs`, etag: `"${name}-1"` }]),
+);
+
+describe("houdini-claw incremental crawl", () => {
+  let tempDir: string | undefined;
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    if (tempDir) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      tempDir = undefined;
+    }
+  });
+
+  it("reports added, changed and unchanged pages using stored validators and hashes", async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "houdini-claw-crawl-"));
+    stubDocsSite(VELLUM_PAGES);
+    const first = await runCrawl({
+      mode: "incremental",
+      outputDir: tempDir,
+      systems: ["vellum"],
+      delayMs: 0,
+    });
+    expect(first.report.added).toHaveLength(8);
+    expect(first.pages).toHaveLength(8);
+
+    // Second run: two pages edited, one re-served with a new ETag but the same content
+    const requests = stubDocsSite({
+      ...VELLUM_PAGES,
+      vellumsolver: { body: "vellumsolver docs, now with substeps", etag: '"vellumsolver-2"' },
+      vellumpack: { body: "vellumpack docs", etag: '"vellumpack-2"' },
+      vellumdrape: { body: "vellumdrape docs (revised)", etag: '"vellumdrape-2"' },
+    });
+    const second = await runCrawl({
+      mode: "incremental",
+      outputDir: tempDir,
+      systems: ["vellum"],
+      delayMs: 0,
+    });
+
+    expect(requests.find((r) => r.url.endsWith("vellumobject.html"))?.ifNoneMatch).toBe(
+      '"vellumobject-1"',
+    );
+    expect(second.report.changed).toEqual(["vellumsolver", "vellumdrape"]);
+    expect(second.report.unchanged).toContain("vellumpack");
+    expect(second.report.unchanged).toContain("vellumobject");
+    expect(second.report.added).toEqual([]);
+    expect(second.pages.map((p) => p.nodeName)).toEqual(["vellumsolver", "vellumdrape"]);
+  });
+
+  it("logs every fetch and marks annotations of changed pages stale", async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "houdini-claw-crawl-"));
+    const log: Array<Record<string, unknown>> = [];
+    const kb = {
+      getLastSuccessfulCrawl: (url: string) =>
+        url.endsWith("vellumsolver.html")
+          ? { content_hash: "old-hash", etag: null, last_modified: null }
+          : undefined,
+      logCrawl: (entry: Record<string, unknown>) => log.push(entry),
+      markAnnotationsStale: vi.fn(() => 1),
+    };
+    stubDocsSite({ ...VELLUM_PAGES, vellumpack: undefined as unknown as Page });
+
+    const { report } = await runCrawl({
+      mode: "full",
+      outputDir: tempDir,
+      systems: ["vellum"],
+      kb: kb as unknown as KnowledgeBase,
+      delayMs: 0,
+    });
+
+    expect(report.changed).toEqual(["vellumsolver"]);
+    expect(report.staleNodes).toEqual(["vellumsolver"]);
+    expect(report.failed).toEqual(["vellumpack"]);
+    expect(kb.markAnnotationsStale).toHaveBeenCalledTimes(1);
+    expect(log).toHaveLength(8);
+    expect(log.find((e) => e.node_name === "vellumpack")).toMatchObject({
+      status: "error",
+      error_message: "HTTP 404",
+    });
+    expect(log.find((e) => e.node_name === "vellumobject")).toMatchObject({
+      etag: '"vellumobject-1"',
+    });
+  });
+
+  it("keeps validators and stale flags in a real knowledge base across crawls", async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "houdini-claw-crawl-"));
+    const kb = await initDatabase(path.join(tempDir, "kb.db"));
+    const outputDir = path.join(tempDir, "raw");
+    const crawl = () =>
+      runCrawl({ mode: "incremental", outputDir, systems: ["vellum"], kb, delayMs: 0 });
+    const annotate = (nodeName: string) =>
+      kb.upsertNodeAnnotation({
+        node_name: nodeName,
+        node_category: "DOP",
+        one_line: nodeName,
+        annotation_yaml: "",
+        source_hash: "hash-at-annotation-time",
+        annotated_at: "2026-01-01T00:00:00Z",
+        annotation_model: "test",
+      });
+
+    try {
+      const firstRequests = stubDocsSite(VELLUM_PAGES);
+      await crawl();
+      const packUrl = firstRequests.find((r) => r.url.endsWith("vellumpack.html"))?.url ?? "";
+      annotate("vellum_solver");
+      annotate("vellum_drape");
+
+      stubDocsSite({
+        ...VELLUM_PAGES,
+        vellumsolver: { body: "vellumsolver docs, now with substeps", etag: '"vellumsolver-2"' },
+        vellumpack: undefined as unknown as Page,
+      });
+      const { report } = await crawl();
+      expect(report.staleNodes).toEqual(["vellumsolver"]);
+      expect(report.failed).toEqual(["vellumpack"]);
+      expect(kb.listStaleAnnotations()).toMatchObject([
+        { node_name: "vellum_solver", houdini_version: "20.5", human_verified: 0 },
+      ]);
+      // Already stale rows are not flagged again
+      expect(kb.markAnnotationsStale("vellumsolver", "newer-hash")).toBe(0);
+
+      // The failed fetch does not erase the validators of the last good one
+      expect(kb.getLastCrawl(packUrl)).toMatchObject({
+        status: "error",
+      });
+      expect(kb.getLastSuccessfulCrawl(packUrl)).toMatchObject({
+        etag: '"vellumpack-1"',
+      });
+      const requests = stubDocsSite({
+        ...VELLUM_PAGES,
+        vellumsolver: { body: "vellumsolver docs, now with substeps", etag: '"vellumsolver-2"' },
+      });
+      const third = await crawl();
+      expect(requests.find((r) => r.url.endsWith("vellumpack.html"))?.ifNoneMatch).toBe(
+        '"vellumpack-1"',
+      );
+      expect(third.report.changed).toEqual([]);
+
+      // Re-annotating clears the flag
+      annotate("vellum_solver");
+      expect(kb.listStaleAnnotations()).toEqual([]);
+    } finally {
+      kb.close();
+    }
+  });
+
+  it("reads pages from offline docs without touching the network", async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "houdini-claw-crawl-"));
+    const docsDir = path.join(tempDir, "help");
+    fs.mkdirSync(path.join(docsDir, "dop"), { recursive: true });
+    fs.writeFileSync(
+      path.join(docsDir, "dop", "vellumsolver.txt"),
+      "= Vellum Solver =\n\n@parameters\n\nSubsteps:\n    #id: substep\n    #default: 5\n    Number of substeps.\n",
+    );
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+
+    const { pages, report } = await runCrawl({
+      mode: "full",
+      outputDir: path.join(tempDir, "raw"),
+      systems: ["vellum"],
+      offlineDocs: docsDir,
+    });
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(report.added).toEqual(["vellumsolver"]);
+    expect(report.failed).toHaveLength(7);
+    expect(pages[0]).toMatchObject({
+      url: "https://www.sidefx.com/docs/houdini/nodes/dop/vellumsolver.html",
+      sourceType: "offline_docs",
+      title: "Vellum Solver",
+      parameters: [{ name: "substep", label: "Substeps", default: "5" }],
+    });
+    expect(pages[0].content).toContain("- Substeps (substep), default 5: Number of substeps.");
+  });
+});
@@ -4,25 +4,48 @@
  * Crawls SideFX official documentation and community sources to build
  * the raw material for the annotation pipeline.
  *
+ * Incremental crawls send conditional requests (ETag / Last-Modified) and
+ * compare content hashes with the previous crawl. Pages whose content changed
+ * mark their annotations stale so only those nodes are re-annotated.
+ *
+ * With an offline docs location (a local help directory or Houdini's help
+ * archive, see offline-docs.ts) pages are read from disk instead of sidefx.com.
+ *
  * Usage:
  *   bun src/houdini-claw/crawl.ts --mode full|incremental --output /tmp/houdini-raw/
+ *   bun src/houdini-claw/crawl.ts --mode incremental --db ~/.openclaw/houdini-claw/houdini_kb.db
+ *   bun src/houdini-claw/crawl.ts --mode full --discover site --system cop,lop,kinefx
+ *   bun src/houdini-claw/crawl.ts --mode full --use-discovered
+ *   bun src/houdini-claw/crawl.ts --mode full --offline-docs $HFS/houdini/help/nodes.zip
  */
 
+import crypto from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
-import crypto from "node:crypto";
+import { initDatabase, type KnowledgeBase } from "./db.js";
+import { discoverNodePaths, groupNodePathsBySystem, parseDiscoverySource } from "./discover.js";
+import {
+  formatWikiDocPage,
+  openOfflineDocs,
+  parseWikiDocPage,
+  type OfflineDocs,
+  type WikiDocParameter,
+} from "./offline-docs.js";
+import { consolePipelineLog, type PipelineLog } from "./pipeline-log.js";
 
 // ── Types ──────────────────────────────────────────────────
 
 interface CrawlSource {
   id: string;
-  type: "sidefx_docs" | "sidefx_forum" | "odforce" | "tutorial" | "hip_file";
+  type: "sidefx_docs" | "offline_docs" | "sidefx_forum" | "odforce" | "tutorial" | "hip_file";
   baseUrl: string;
+  /** Local help directory or archive, for offline_docs */
+  path?: string;
   priority: number; // 0 = highest
   enabled: boolean;
 }
 
-interface CrawledPage {
+export interface CrawledPage {
   url: string;
   sourceType: string;
   nodeName?: string;
@@ -30,6 +53,40 @@ interface CrawledPage {
   content: string;
   contentHash: string;
   crawledAt: string;
+  etag?: string;
+  lastModified?: string;
+  /** Structured parameters parsed from offline wiki-markup pages */
+  parameters?: WikiDocParameter[];
+}
+
+/** HTTP validators from a previous fetch of the same page */
+export interface CrawlValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export type DocFetchResult =
+  | { status: "fetched"; page: CrawledPage }
+  | { status: "not_modified" }
+  | { status: "error"; message: string };
+
+/** What changed since the previous crawl, by crawled node name */
+export interface CrawlChangeReport {
+  mode: "full" | "incremental";
+  startedAt: string;
+  finishedAt: string;
+  added: string[];
+  changed: string[];
+  unchanged: string[];
+  failed: string[];
+  /** Annotated nodes whose source changed; re-annotate these */
+  staleNodes: string[];
+}
+
+export interface CrawlRunResult {
+  /** Pages fetched with new or changed content */
+  pages: CrawledPage[];
+  report: CrawlChangeReport;
 }
 
 // ── Source Configuration ───────────────────────────────────
@@ -42,6 +99,15 @@ const CRAWL_SOURCES: CrawlSource[] = [
     priority: 0,
     enabled: true,
   },
+  {
+    // Replaces sidefx-docs in sandboxed environments without web access
+    id: "offline-docs",
+    type: "offline_docs",
+    baseUrl: "https://www.sidefx.com/docs/houdini/",
+    path: process.env.HOUDINI_CLAW_OFFLINE_DOCS,
+    priority: 0,
+    enabled: Boolean(process.env.HOUDINI_CLAW_OFFLINE_DOCS),
+  },
   {
     id: "sidefx-forum",
     type: "sidefx_forum",
@@ -60,6 +126,7 @@ const CRAWL_SOURCES: CrawlSource[] = [
 
 // ── Known Houdini Node Paths ───────────────────────────────
 // These are the documentation URL paths for key nodes on the SideFX docs site.
+// They are the fallback when no discovered node list is available (see discover.ts).
 
 const PYRO_NODES = [
   "nodes/dop/pyrosolver",
@@ -157,27 +224,38 @@ export const ALL_NODE_PATHS: Record<string, string[]> = {
 
 // ── Crawler Functions ──────────────────────────────────────
 
+const DEFAULT_DOCS_BASE_URL = "https://www.sidefx.com/docs/houdini/";
+
 /**
- * Crawl a single SideFX documentation page and extract content.
+ * Fetch a SideFX documentation page, sending conditional request headers
+ * when validators from a previous crawl are given.
  */
-export async function crawlSideFxDoc(
+export async function fetchSideFxDoc(
   nodePath: string,
-  baseUrl: string = "https://www.sidefx.com/docs/houdini/",
-): Promise<CrawledPage | null> {
-  const url = `${baseUrl}${nodePath}.html`;
+  options?: { baseUrl?: string; validators?: CrawlValidators },
+): Promise<DocFetchResult> {
+  const url = `${options?.baseUrl ?? DEFAULT_DOCS_BASE_URL}${nodePath}.html`;
   const nodeName = nodePath.split("/").pop() ?? nodePath;
 
+  const headers: Record<string, string> = {
+    "User-Agent": "HoudiniClaw/1.0 (knowledge-base-builder)",
+    Accept: "text/html",
+  };
+  if (options?.validators?.etag) {
+    headers["If-None-Match"] = options.validators.etag;
+  }
+  if (options?.validators?.lastModified) {
+    headers["If-Modified-Since"] = options.validators.lastModified;
+  }
+
   try {
-    const response = await fetch(url, {
-      headers: {
-        "User-Agent": "HoudiniClaw/1.0 (knowledge-base-builder)",
-        Accept: "text/html",
-      },
-    });
+    const response = await fetch(url, { headers });
 
+    if (response.status === 304) {
+      return { status: "not_modified" };
+    }
     if (!response.ok) {
-      console.warn(`[crawl] HTTP ${response.status} for ${url}`);
-      return null;
+      return { status: "error", message: `HTTP ${response.status}` };
     }
 
     const html = await response.text();
@@ -185,18 +263,98 @@ export async function crawlSideFxDoc(
     const contentHash = crypto.createHash("sha256").update(content).digest("hex");
 
     return {
-      url,
-      sourceType: "sidefx_docs",
+      status: "fetched",
+      page: {
+        url,
+        sourceType: "sidefx_docs",
+        nodeName,
+        title: extractTitle(html) ?? nodeName,
+        content,
+        contentHash,
+        crawledAt: new Date().toISOString(),
+        etag: response.headers.get("etag") ?? undefined,
+        lastModified: response.headers.get("last-modified") ?? undefined,
+      },
+    };
+  } catch (err) {
+    return { status: "error", message: (err as Error).message };
+  }
+}
+
+/**
+ * Read a node page from offline docs. Wiki-markup pages are parsed so the
+ * content lists each parameter's name, label, folder and default; HTML pages
+ * from a docs mirror go through the same extraction as fetched pages.
+ */
+export async function fetchOfflineDoc(
+  docs: OfflineDocs,
+  nodePath: string,
+  baseUrl: string = DEFAULT_DOCS_BASE_URL,
+): Promise<DocFetchResult> {
+  const nodeName = nodePath.split("/").pop() ?? nodePath;
+  let raw: Awaited<ReturnType<OfflineDocs["readPage"]>>;
+  try {
+    raw = await docs.readPage(nodePath);
+  } catch (err) {
+    return { status: "error", message: (err as Error).message };
+  }
+  if (!raw) {
+    return { status: "error", message: `Not found in offline docs ${docs.location}` };
+  }
+
+  let title: string;
+  let content: string;
+  let parameters: WikiDocParameter[] | undefined;
+  if (raw.format === "wiki") {
+    const parsed = parseWikiDocPage(raw.text);
+    title = parsed.title || nodeName;
+    content = formatWikiDocPage(parsed);
+    parameters = parsed.parameters;
+  } else {
+    title = extractTitle(raw.text) ?? nodeName;
+    content = extractDocContent(raw.text);
+  }
+
+  return {
+    status: "fetched",
+    page: {
+      // Keep the public docs URL so crawl_log history is shared with online crawls
+      url: `${baseUrl}${nodePath}.html`,
+      sourceType: "offline_docs",
       nodeName,
-      title: extractTitle(html) ?? nodeName,
+      title,
       content,
-      contentHash,
+      contentHash: crypto.createHash("sha256").update(content).digest("hex"),
       crawledAt: new Date().toISOString(),
-    };
-  } catch (err) {
-    console.error(`[crawl] Failed to fetch ${url}:`, (err as Error).message);
+      parameters,
+    },
+  };
+}
+
+/**
+ * Location of the offline docs from the enabled offline_docs crawl source.
+ */
+export function resolveOfflineDocsPath(): string | undefined {
+  return CRAWL_SOURCES.find((source) => source.type === "offline_docs" && source.enabled)?.path;
+}
+
+/**
+ * Crawl a single SideFX documentation page and extract content.
+ */
+export async function crawlSideFxDoc(
+  nodePath: string,
+  baseUrl: string = DEFAULT_DOCS_BASE_URL,
+  log: PipelineLog = consolePipelineLog,
+): Promise<CrawledPage | null> {
+  const result = await fetchSideFxDoc(nodePath, { baseUrl });
+  if (result.status !== "fetched") {
+    log(
+      `[crawl] Failed to fetch ${nodePath}: ${result.status === "error" ? result.message : result.status}`,
+      "warn",
+    );
     return null;
   }
+  return result.page;
 }
 
 /**
@@ -240,16 +398,64 @@ function extractTitle(html: string): string | undefined {
   return match?.[1]?.trim();
 }
 
+/**
+ * Previous content hash and validators for a page: from the crawl log when a
+ * knowledge base is given, otherwise from the raw file of the last run.
+ */
+function loadPreviousCrawl(
+  kb: KnowledgeBase | undefined,
+  url: string,
+  outputFile: string,
+): (CrawlValidators & { contentHash: string }) | undefined {
+  const logged = kb?.getLastSuccessfulCrawl(url);
+  if (logged) {
+    return {
+      contentHash: logged.content_hash,
+      etag: logged.etag ?? undefined,
+      lastModified: logged.last_modified ?? undefined,
+    };
+  }
+  if (!fs.existsSync(outputFile)) {
+    return undefined;
+  }
+  try {
+    const page = JSON.parse(fs.readFileSync(outputFile, "utf-8")) as CrawledPage;
+    return { contentHash: page.contentHash, etag: page.etag, lastModified: page.lastModified };
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Run a full or incremental crawl of all configured sources.
+ *
+ * Both modes compare fetched content with the previous crawl and report
+ * added / changed / unchanged pages. Incremental mode additionally sends
+ * conditional requests so unchanged pages are not downloaded again. With a
+ * knowledge base, every fetch is recorded in crawl_log and annotations of
+ * changed pages are marked stale.
  */
 export async function runCrawl(options: {
   mode: "full" | "incremental";
   outputDir: string;
   systems?: string[];
+  /** Docs paths per system, e.g. from discover.ts (default ALL_NODE_PATHS) */
+  nodePaths?: Record<string, string[]>;
+  kb?: KnowledgeBase;
+  /** Local help directory or archive to read instead of sidefx.com */
+  offlineDocs?: string;
+  /** Pause between requests (default 500ms; offline reads never wait) */
+  delayMs?: number;
   onProgress?: (fetched: number, total: number, nodeName: string) => void;
-}): Promise<CrawledPage[]> {
-  const { mode, outputDir, systems } = options;
+  /** Fetch failures (default: the console) */
+  log?: PipelineLog;
+}): Promise<CrawlRunResult> {
+  const { mode, outputDir, systems, kb } = options;
+  const log = options.log ?? consolePipelineLog;
+  const offlineLocation = options.offlineDocs ?? resolveOfflineDocsPath();
+  const offline = offlineLocation ? await openOfflineDocs(offlineLocation) : undefined;
+  const delayMs = offline ? 0 : (options.delayMs ?? 500);
+  const sourceType = offline ? "offline_docs" : "sidefx_docs";
 
   // Ensure output directory exists
   if (!fs.existsSync(outputDir)) {
@@ -257,11 +463,12 @@ export async function runCrawl(options: {
   }
 
   // Determine which nodes to crawl
-  const targetSystems = systems ?? Object.keys(ALL_NODE_PATHS);
+  const nodePaths = options.nodePaths ?? ALL_NODE_PATHS;
+  const targetSystems = systems ?? Object.keys(nodePaths);
   const allPaths: Array<{ system: string; path: string }> = [];
 
   for (const system of targetSystems) {
-    const paths = ALL_NODE_PATHS[system];
+    const paths = nodePaths[system];
     if (paths) {
       for (const p of paths) {
         allPaths.push({ system, path: p });
@@ -270,38 +477,91 @@ export async function runCrawl(options: {
   }
 
   const results: CrawledPage[] = [];
+  const report: CrawlChangeReport = {
+    mode,
+    startedAt: new Date().toISOString(),
+    finishedAt: "",
+    added: [],
+    changed: [],
+    unchanged: [],
+    failed: [],
+    staleNodes: [],
+  };
   const total = allPaths.length;
   let fetched = 0;
 
   for (const { system, path: nodePath } of allPaths) {
     const nodeName = nodePath.split("/").pop() ?? nodePath;
-
-    // In incremental mode, skip if we already have this page and it hasn't changed
-    if (mode === "incremental") {
-      const outputFile = path.join(outputDir, `${system}--${nodeName}.json`);
-      if (fs.existsSync(outputFile)) {
-        fetched++;
-        options.onProgress?.(fetched, total, nodeName);
-        continue;
-      }
-    }
-
-    const page = await crawlSideFxDoc(nodePath);
-    if (page) {
-      // Save to output directory
-      const outputFile = path.join(outputDir, `${system}--${nodeName}.json`);
+    const url = `${DEFAULT_DOCS_BASE_URL}${nodePath}.html`;
+    const outputFile = path.join(outputDir, `${system}--${nodeName}.json`);
+    const previous = loadPreviousCrawl(kb, url, outputFile);
+
+    // A 304 is only usable when the raw page from the last run is still on disk
+    const validators =
+      mode === "incremental" && !offline && fs.existsSync(outputFile) ? previous : undefined;
+    const result = offline
+      ? await fetchOfflineDoc(offline, nodePath)
+      : await fetchSideFxDoc(nodePath, { validators });
+
+    if (result.status === "error") {
+      log(`[crawl] ${url}: ${result.message}`, "warn");
+      report.failed.push(nodeName);
+      kb?.logCrawl({
+        source_url: url,
+        source_type: sourceType,
+        content_hash: previous?.contentHash ?? "",
+        node_name: nodeName,
+        status: "error",
+        error_message: result.message,
+      });
+    } else if (result.status === "not_modified") {
+      report.unchanged.push(nodeName);
+      kb?.logCrawl({
+        source_url: url,
+        source_type: sourceType,
+        content_hash: previous!.contentHash,
+        node_name: nodeName,
+        etag: previous!.etag,
+        last_modified: previous!.lastModified,
+        status: "not_modified",
+      });
+    } else {
+      const page = result.page;
       fs.writeFileSync(outputFile, JSON.stringify(page, null, 2));
-      results.push(page);
+      kb?.logCrawl({
+        source_url: url,
+        source_type: sourceType,
+        content_hash: page.contentHash,
+        node_name: nodeName,
+        etag: page.etag,
+        last_modified: page.lastModified,
+      });
+
+      if (!previous) {
+        report.added.push(nodeName);
+        results.push(page);
+      } else if (previous.contentHash !== page.contentHash) {
+        report.changed.push(nodeName);
+        results.push(page);
+        if (kb && kb.markAnnotationsStale(nodeName, page.contentHash) > 0) {
+          report.staleNodes.push(nodeName);
+        }
+      } else {
+        report.unchanged.push(nodeName);
+      }
     }
 
     fetched++;
     options.onProgress?.(fetched, total, nodeName);
 
-    // Rate limit: wait 500ms between requests
-    await new Promise((resolve) => setTimeout(resolve, 500));
+    // Rate limit between requests
+    if (delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
   }
 
-  return results;
+  report.finishedAt = new Date().toISOString();
+  return { pages: results, report };
 }
 
 // ── CLI Entry Point ────────────────────────────────────────
@@ -311,6 +571,11 @@ if (import.meta.url === `file://${process.argv[1]}`) {
   const modeIdx = args.indexOf("--mode");
   const outputIdx = args.indexOf("--output");
   const systemIdx = args.indexOf("--system");
+  const dbIdx = args.indexOf("--db");
+  const noDb = args.includes("--no-db");
+  const discoverIdx = args.indexOf("--discover");
+  const useDiscovered = args.includes("--use-discovered");
+  const offlineIdx = args.indexOf("--offline-docs");
 
   const mode = (modeIdx !== -1 ? args[modeIdx + 1] : "full") as "full" | "incremental";
   const outputDir = outputIdx !== -1 ? args[outputIdx + 1] : "/tmp/houdini-raw";
@@ -321,14 +586,35 @@ if (import.meta.url === `file://${process.argv[1]}`) {
     console.log(`[crawl] Systems: ${systems.join(", ")}`);
   }
 
-  runCrawl({
-    mode,
-    outputDir,
-    systems,
-    onProgress: (fetched, total, nodeName) => {
-      console.log(`[crawl] ${fetched}/${total}: ${nodeName}`);
-    },
-  }).then((results) => {
-    console.log(`[crawl] Done. ${results.length} pages crawled.`);
-  });
+  (async () => {
+    const kb = noDb ? undefined : await initDatabase(dbIdx !== -1 ? args[dbIdx + 1] : undefined);
+    try {
+      let nodePaths: Record<string, string[]> | undefined;
+      if (discoverIdx !== -1) {
+        const discovered = await discoverNodePaths(parseDiscoverySource(args[discoverIdx + 1]));
+        console.log(`[crawl] Discovered ${discovered.length} node pages`);
+        nodePaths = groupNodePathsBySystem(discovered);
+      } else if (useDiscovered && kb) {
+        nodePaths = kb.getDiscoveredNodePaths();
+      }
+
+      const { pages, report } = await runCrawl({
+        mode,
+        outputDir,
+        systems,
+        nodePaths,
+        kb,
+        offlineDocs: offlineIdx !== -1 ? args[offlineIdx + 1] : undefined,
+        onProgress: (fetched, total, nodeName) => {
+          console.log(`[crawl] ${fetched}/${total}: ${nodeName}`);
+        },
+      });
+      console.log(
+        `[crawl] Done. ${pages.length} new or changed pages (added ${report.added.length}, changed ${report.changed.length}, unchanged ${report.unchanged.length}, failed ${report.failed.length}).`,
+      );
+      console.log(JSON.stringify(report, null, 2));
+    } finally {
+      kb?.close();
+    }
+  })();
 }
@@ -6,25 +6,52 @@
  */
 
 import fs from "node:fs";
+import os from "node:os";
 import path from "node:path";
-import { SCHEMA_SQL, VECTOR_TABLE_SQL } from "./schema.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveStateDir } from "../config/paths.js";
+import { requireNodeSqlite } from "../memory/sqlite.js";
+import { resolveUserPath } from "../utils.js";
+import type { NodeEdge } from "./graph.js";
+import {
+  ADDED_COLUMNS,
+  DEFAULT_HOUDINI_VERSION,
+  FTS_TABLE_SQL,
+  MIGRATE_VERSIONED_ANNOTATIONS_SQL,
+  SCHEMA_SQL,
+} from "./schema.js";
+import { compareHoudiniVersions, resolveNearestVersion } from "./versions.js";
 
-const DEFAULT_DB_DIR = path.join(
-  process.env.HOME ?? process.env.USERPROFILE ?? ".",
-  ".openclaw",
-  "houdini-claw",
-);
-const DEFAULT_DB_PATH = path.join(DEFAULT_DB_DIR, "houdini_kb.db");
+/**
+ * SQL for the lowercase alphanumeric key of a node name, so crawled page names
+ * ("pyrosolver") match annotation names ("pyro_solver").
+ */
+function nodeKeySql(column: string): string {
+  return `REPLACE(REPLACE(LOWER(${column}), '_', ''), '-', '')`;
+}
+
+function toNodeKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
 
-export function resolveDbPath(): string {
-  return process.env.HOUDINI_CLAW_DB_PATH ?? DEFAULT_DB_PATH;
+/**
+ * Knowledge base file: HOUDINI_CLAW_DB_PATH, then `houdini.dbPath` from the
+ * OpenClaw config, then houdini-claw/houdini_kb.db in the state dir.
+ */
+export function resolveDbPath(cfg?: OpenClawConfig): string {
+  const override = process.env.HOUDINI_CLAW_DB_PATH?.trim() || cfg?.houdini?.dbPath?.trim();
+  if (override) {
+    return resolveUserPath(override);
+  }
+  return path.join(resolveStateDir(process.env, os.homedir), "houdini-claw", "houdini_kb.db");
 }
 
 /**
  * Initialize the database: create the directory, open the connection,
  * run schema migrations, and load the sqlite-vec extension.
  *
- * Returns a better-sqlite3 compatible database handle.
+ * Returns a better-sqlite3 compatible database handle (bun:sqlite,
+ * better-sqlite3 or node:sqlite, whichever loads first).
  * Caller is responsible for closing the connection.
  */
 export async function initDatabase(dbPath?: string): Promise<KnowledgeBase> {
@@ -36,29 +63,54 @@ export async function initDatabase(dbPath?: string): Promise<KnowledgeBase> {
     fs.mkdirSync(dir, { recursive: true });
   }
 
-  // Dynamic import for better-sqlite3 or bun:sqlite
+  // Dynamic import for bun:sqlite, better-sqlite3 or node:sqlite
   let db: DatabaseHandle;
   try {
     // Try bun:sqlite first (faster, built-in)
     const bunSqlite = await import("bun:sqlite");
     db = new bunSqlite.Database(resolvedPath) as unknown as DatabaseHandle;
   } catch {
-    // Fall back to better-sqlite3
-    const betterSqlite = await import("better-sqlite3");
-    db = new betterSqlite.default(resolvedPath) as unknown as DatabaseHandle;
+    try {
+      // Fall back to better-sqlite3
+      const betterSqlite = await import("better-sqlite3");
+      db = new betterSqlite.default(resolvedPath) as unknown as DatabaseHandle;
+    } catch {
+      // Inside the gateway (plain Node) use the built-in module, like src/memory
+      const { DatabaseSync } = requireNodeSqlite();
+      db = new DatabaseSync(resolvedPath, { allowExtension: true }) as unknown as DatabaseHandle;
+    }
   }
 
   // Enable WAL mode for concurrent reads
   db.exec("PRAGMA journal_mode = WAL;");
   db.exec("PRAGMA foreign_keys = ON;");
 
+  // Upgrade pre-versioning databases before creating indexes on the new columns
+  migrateVersionedAnnotations(db);
+
   // Run schema creation
   db.exec(SCHEMA_SQL);
+  addMissingColumns(db);
 
-  // Try to load sqlite-vec extension and create vector table
+  // FTS5 is compiled into most SQLite builds, but keep keyword search optional
+  let ftsAvailable = false;
+  try {
+    dropOutdatedKeywordIndex(db);
+    db.exec(FTS_TABLE_SQL);
+    ftsAvailable = true;
+  } catch (err) {
+    console.warn(
+      "[houdini-claw] FTS5 not available, keyword search disabled:",
+      (err as Error).message,
+    );
+  }
+
+  // Try to load sqlite-vec extension. The kb_vec table itself is created on
+  // first index, once the embedding dimension is known (see vector-search.ts).
+  let vecAvailable = false;
   try {
     await loadVecExtension(db);
-    db.exec(VECTOR_TABLE_SQL);
+    vecAvailable = true;
   } catch (err) {
     console.warn(
       "[houdini-claw] sqlite-vec extension not available, vector search disabled:",
@@ -66,7 +118,64 @@ export async function initDatabase(dbPath?: string): Promise<KnowledgeBase> {
     );
   }
 
-  return new KnowledgeBase(db, resolvedPath);
+  return new KnowledgeBase(db, resolvedPath, { fts: ftsAvailable, vec: vecAvailable });
+}
+
+/**
+ * Rebuild node/parameter annotation tables that still use the single-version
+ * layout (no houdini_version on parameter_annotations).
+ */
+function migrateVersionedAnnotations(db: DatabaseHandle): void {
+  const columns = db.prepare("PRAGMA table_info(parameter_annotations)").all() as Array<{
+    name: string;
+  }>;
+  if (columns.length === 0 || columns.some((c) => c.name === "houdini_version")) {
+    return;
+  }
+
+  db.exec("PRAGMA foreign_keys = OFF;");
+  db.exec("BEGIN");
+  try {
+    db.exec(MIGRATE_VERSIONED_ANNOTATIONS_SQL);
+    db.exec("COMMIT");
+  } catch (err) {
+    db.exec("ROLLBACK");
+    throw err;
+  } finally {
+    db.exec("PRAGMA foreign_keys = ON;");
+  }
+}
+
+/**
+ * Add columns introduced after a table's first release (see ADDED_COLUMNS).
+ */
+function addMissingColumns(db: DatabaseHandle): void {
+  for (const { table, column, definition } of ADDED_COLUMNS) {
+    const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    if (!columns.some((c) => c.name === column)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+}
+
+/**
+ * SQL condition that keeps unversioned rows (recipes, error patterns, legacy
+ * chunks) and rows of the version resolved for their node. Bind it to
+ * `JSON.stringify(kb.resolveNodeVersions(houdiniVersion))`.
+ */
+export function nodeVersionFilterSql(prefix = ""): string {
+  return `(${prefix}houdini_version IS NULL OR EXISTS (SELECT 1 FROM json_each(?) j WHERE j.key = ${prefix}node_name AND j.value = ${prefix}houdini_version))`;
+}
+
+/**
+ * Drop a kb_fts index created before it carried houdini_version. The index is
+ * derived data, so ensureKeywordIndex rebuilds it on first search.
+ */
+function dropOutdatedKeywordIndex(db: DatabaseHandle): void {
+  const columns = db.prepare("PRAGMA table_info(kb_fts)").all() as Array<{ name: string }>;
+  if (columns.length > 0 && !columns.some((c) => c.name === "houdini_version")) {
+    db.exec("DROP TABLE kb_fts");
+  }
 }
 
 async function loadVecExtension(db: DatabaseHandle): Promise<void> {
@@ -125,15 +234,105 @@ interface RunResult {
  * High-level knowledge base wrapper providing typed access to all tables.
  */
 export class KnowledgeBase {
+  /** Whether the kb_fts keyword index could be created */
+  readonly ftsAvailable: boolean;
+  /** Whether the sqlite-vec extension is loaded on this connection */
+  readonly vecAvailable: boolean;
+
   constructor(
     public readonly db: DatabaseHandle,
     public readonly dbPath: string,
-  ) {}
+    features: { fts?: boolean; vec?: boolean } = {},
+  ) {
+    this.ftsAvailable = features.fts ?? false;
+    this.vecAvailable = features.vec ?? false;
+  }
 
   close(): void {
     this.db.close();
   }
 
+  // ── Metadata ─────────────────────────────────────────────
+
+  getMeta(key: string): string | undefined {
+    const row = this.db.prepare("SELECT value FROM kb_meta WHERE key = ?").get(key) as
+      | { value: string }
+      | undefined;
+    return row?.value;
+  }
+
+  setMeta(key: string, value: string): void {
+    this.db
+      .prepare(
+        `INSERT INTO kb_meta (key, value, updated_at) VALUES (?, ?, datetime('now'))
+         ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = datetime('now')`,
+      )
+      .run(key, value);
+  }
+
+  deleteMeta(key: string): void {
+    this.db.prepare("DELETE FROM kb_meta WHERE key = ?").run(key);
+  }
+
+  // ── Embedding Cache ──────────────────────────────────────
+
+  /**
+   * Cached embeddings for the given content hashes, keyed by hash.
+   */
+  getCachedEmbeddings(
+    provider: string,
+    model: string,
+    hashes: string[],
+  ): Map<string, Float32Array> {
+    const out = new Map<string, Float32Array>();
+    const unique = [...new Set(hashes)];
+    // Stay well below SQLite's bound-parameter limit
+    const step = 400;
+    for (let i = 0; i < unique.length; i += step) {
+      const batch = unique.slice(i, i + step);
+      const rows = this.db
+        .prepare(
+          `SELECT hash, embedding FROM embedding_cache
+           WHERE provider = ? AND model = ? AND hash IN (${batch.map(() => "?").join(", ")})`,
+        )
+        .all(provider, model, ...batch) as Array<{ hash: string; embedding: Uint8Array }>;
+      for (const row of rows) {
+        const bytes = Uint8Array.from(row.embedding);
+        out.set(row.hash, new Float32Array(bytes.buffer, 0, bytes.byteLength / 4));
+      }
+    }
+    return out;
+  }
+
+  putCachedEmbeddings(
+    provider: string,
+    model: string,
+    entries: Array<{ hash: string; embedding: Float32Array }>,
+  ): void {
+    const stmt = this.db.prepare(
+      `INSERT INTO embedding_cache (provider, model, hash, embedding, dims, updated_at)
+       VALUES (?, ?, ?, ?, ?, datetime('now'))
+       ON CONFLICT(provider, model, hash) DO UPDATE SET
+         embedding = excluded.embedding, dims = excluded.dims, updated_at = datetime('now')`,
+    );
+    for (const entry of entries) {
+      stmt.run(
+        provider,
+        model,
+        entry.hash,
+        Buffer.from(entry.embedding.buffer, entry.embedding.byteOffset, entry.embedding.byteLength),
+        entry.embedding.length,
+      );
+    }
+  }
+
+  hasTable(name: string): boolean {
+    const row = this.db
+      .prepare("SELECT 1 FROM sqlite_master WHERE type IN ('table', 'view') AND name = ?")
+      .get(name);
+    return row !== undefined && row !== null;
+  }
+
   // ── Node Annotations ─────────────────────────────────────
 
   upsertNodeAnnotation(data: {
@@ -149,6 +348,7 @@ export class KnowledgeBase {
     typical_network?: string;
     annotation_yaml: string;
     source_urls?: string[];
+    source_hash?: string;
     crawled_at?: string;
     annotated_at: string;
     annotation_model: string;
@@ -160,18 +360,19 @@ export class KnowledgeBase {
         node_name, node_category, houdini_version,
         semantic_name_zh, semantic_name_en, one_line, analogy,
         prerequisite_nodes, required_context, typical_network,
-        annotation_yaml, source_urls, crawled_at, annotated_at,
-        annotation_model, human_verified, confidence_score, updated_at
+        annotation_yaml, source_urls, source_hash, crawled_at, annotated_at,
+        annotation_model, human_verified, confidence_score, review_status,
+        stale_since, updated_at
       ) VALUES (
         ?, ?, ?,
         ?, ?, ?, ?,
         ?, ?, ?,
+        ?, ?, ?, ?, ?,
         ?, ?, ?, ?,
-        ?, ?, ?, datetime('now')
+        NULL, datetime('now')
       )
-      ON CONFLICT(node_name) DO UPDATE SET
+      ON CONFLICT(node_name, houdini_version) DO UPDATE SET
         node_category = excluded.node_category,
-        houdini_version = excluded.houdini_version,
         semantic_name_zh = excluded.semantic_name_zh,
         semantic_name_en = excluded.semantic_name_en,
         one_line = excluded.one_line,
@@ -181,18 +382,23 @@ export class KnowledgeBase {
         typical_network = excluded.typical_network,
         annotation_yaml = excluded.annotation_yaml,
         source_urls = excluded.source_urls,
+        source_hash = excluded.source_hash,
         crawled_at = excluded.crawled_at,
         annotated_at = excluded.annotated_at,
         annotation_model = excluded.annotation_model,
         human_verified = excluded.human_verified,
         confidence_score = excluded.confidence_score,
+        review_status = excluded.review_status,
+        stale_since = NULL,
         updated_at = datetime('now')
+      -- Machine re-annotation never overwrites a human-verified row
+      WHERE node_annotations.human_verified = 0 OR excluded.human_verified = 1
     `);
 
     stmt.run(
       data.node_name,
       data.node_category,
-      data.houdini_version ?? "20.5",
+      data.houdini_version ?? DEFAULT_HOUDINI_VERSION,
       data.semantic_name_zh ?? null,
       data.semantic_name_en ?? null,
       data.one_line,
@@ -202,32 +408,174 @@ export class KnowledgeBase {
       data.typical_network ?? null,
       data.annotation_yaml,
       data.source_urls ? JSON.stringify(data.source_urls) : null,
+      data.source_hash ?? null,
       data.crawled_at ?? null,
       data.annotated_at,
       data.annotation_model,
       data.human_verified ? 1 : 0,
       data.confidence_score ?? 0.0,
+      data.human_verified ? "approved" : null,
     );
   }
 
-  getNodeAnnotation(nodeName: string): Record<string, unknown> | undefined {
+  /** Houdini versions annotated for a node, oldest first. */
+  listNodeVersions(nodeName: string): string[] {
+    const rows = this.db
+      .prepare("SELECT houdini_version FROM node_annotations WHERE node_name = ?")
+      .all(nodeName) as Array<{ houdini_version: string }>;
+    return rows.map((r) => r.houdini_version).toSorted(compareHoudiniVersions);
+  }
+
+  /**
+   * Get a node annotation for a Houdini version, falling back to the nearest
+   * older annotated version. Without a version, the newest annotation is returned.
+   */
+  getNodeAnnotation(
+    nodeName: string,
+    houdiniVersion?: string,
+  ): Record<string, unknown> | undefined {
+    const version = resolveNearestVersion(this.listNodeVersions(nodeName), houdiniVersion);
+    if (!version) {
+      return undefined;
+    }
     const stmt = this.db.prepare(
-      "SELECT * FROM node_annotations WHERE node_name = ?",
+      "SELECT * FROM node_annotations WHERE node_name = ? AND houdini_version = ?",
     );
-    return stmt.get(nodeName) as Record<string, unknown> | undefined;
+    return stmt.get(nodeName, version) as Record<string, unknown> | undefined;
   }
 
+  /** List nodes (newest annotated version of each). */
   listNodes(category?: string): Array<Record<string, unknown>> {
-    if (category) {
-      const stmt = this.db.prepare(
-        "SELECT node_name, node_category, one_line, human_verified FROM node_annotations WHERE node_category = ? ORDER BY node_name",
+    const rows = (
+      category
+        ? this.db
+            .prepare(
+              "SELECT node_name, node_category, houdini_version, one_line, semantic_name_zh, semantic_name_en, human_verified FROM node_annotations WHERE node_category = ? ORDER BY node_name",
+            )
+            .all(category)
+        : this.db
+            .prepare(
+              "SELECT node_name, node_category, houdini_version, one_line, semantic_name_zh, semantic_name_en, human_verified FROM node_annotations ORDER BY node_category, node_name",
+            )
+            .all()
+    ) as Array<Record<string, unknown>>;
+
+    const latest = new Map<string, Record<string, unknown>>();
+    for (const row of rows) {
+      const existing = latest.get(row.node_name as string);
+      if (
+        !existing ||
+        compareHoudiniVersions(row.houdini_version as string, existing.houdini_version as string) >
+          0
+      ) {
+        latest.set(row.node_name as string, row);
+      }
+    }
+    return Array.from(latest.values());
+  }
+
+  // ── Node Graph ───────────────────────────────────────────
+
+  /** Network-context columns of node annotations, the input for node_edges */
+  getNodeNetworkRows(nodeName?: string): Array<{
+    node_name: string;
+    houdini_version: string;
+    node_category: string | null;
+    prerequisite_nodes: string | null;
+    typical_network: string | null;
+  }> {
+    const sql = `SELECT node_name, houdini_version, node_category, prerequisite_nodes, typical_network
+       FROM node_annotations`;
+    const stmt = nodeName ? this.db.prepare(`${sql} WHERE node_name = ?`) : this.db.prepare(sql);
+    return (nodeName ? stmt.all(nodeName) : stmt.all()) as ReturnType<
+      KnowledgeBase["getNodeNetworkRows"]
+    >;
+  }
+
+  /** Replace the edges derived from one node annotation version */
+  replaceNodeEdges(nodeName: string, houdiniVersion: string, edges: NodeEdge[]): void {
+    this.db
+      .prepare("DELETE FROM node_edges WHERE annotated_node = ? AND houdini_version = ?")
+      .run(nodeName, houdiniVersion);
+    const insert = this.db.prepare(
+      `INSERT OR REPLACE INTO node_edges (
+         annotated_node, houdini_version, upstream_node, downstream_node, relation, context
+       ) VALUES (?, ?, ?, ?, ?, ?)`,
+    );
+    for (const edge of edges) {
+      insert.run(
+        nodeName,
+        houdiniVersion,
+        edge.upstream,
+        edge.downstream,
+        edge.relation,
+        edge.context ?? null,
       );
-      return stmt.all(category) as Array<Record<string, unknown>>;
     }
-    const stmt = this.db.prepare(
-      "SELECT node_name, node_category, one_line, human_verified FROM node_annotations ORDER BY node_category, node_name",
+  }
+
+  countNodeEdges(): number {
+    const row = this.db.prepare("SELECT COUNT(*) as count FROM node_edges").get() as {
+      count: number;
+    };
+    return row.count;
+  }
+
+  /**
+   * Edges from each node's annotation nearest to `houdiniVersion` (the newest
+   * annotation without one), so older versions don't add stale relationships.
+   */
+  getNodeEdges(houdiniVersion?: string): NodeEdge[] {
+    const rows = this.db
+      .prepare(
+        `SELECT annotated_node, houdini_version, upstream_node, downstream_node, relation, context
+         FROM node_edges ORDER BY annotated_node, upstream_node, downstream_node`,
+      )
+      .all() as Array<{
+      annotated_node: string;
+      houdini_version: string;
+      upstream_node: string;
+      downstream_node: string;
+      relation: NodeEdge["relation"];
+      context: string | null;
+    }>;
+
+    const selected = new Map(
+      [...new Set(rows.map((row) => row.annotated_node))].map((node) => [
+        node,
+        resolveNearestVersion(this.listNodeVersions(node), houdiniVersion),
+      ]),
     );
-    return stmt.all() as Array<Record<string, unknown>>;
+
+    return rows
+      .filter((row) => selected.get(row.annotated_node) === row.houdini_version)
+      .map((row) => ({
+        upstream: row.upstream_node,
+        downstream: row.downstream_node,
+        relation: row.relation,
+        ...(row.context ? { context: row.context } : {}),
+      }));
+  }
+
+  /**
+   * Semantic names of every annotated node (param_name NULL) and parameter,
+   * for resolving Chinese or English names to identifiers.
+   */
+  listSemanticNames(): Array<{
+    node_name: string;
+    param_name: string | null;
+    semantic_name_zh: string | null;
+    semantic_name_en: string | null;
+  }> {
+    return this.db
+      .prepare(
+        `SELECT node_name, NULL AS param_name, semantic_name_zh, semantic_name_en
+         FROM node_annotations
+         UNION
+         SELECT node_name, param_name, semantic_name_zh, semantic_name_en
+         FROM parameter_annotations`,
+      )
+      .all() as ReturnType<KnowledgeBase["listSemanticNames"]>;
   }
 
   // ── Parameter Annotations ────────────────────────────────
@@ -236,6 +584,7 @@ export class KnowledgeBase {
     node_name: string;
     param_name: string;
     param_path: string;
+    houdini_version?: string;
     semantic_name_zh?: string;
     semantic_name_en?: string;
     one_line?: string;
@@ -256,25 +605,25 @@ export class KnowledgeBase {
   }): void {
     const stmt = this.db.prepare(`
       INSERT INTO parameter_annotations (
-        node_name, param_name, param_path,
+        node_name, param_name, param_path, houdini_version,
         semantic_name_zh, semantic_name_en, one_line,
         intent_mapping, default_value,
         safe_range_min, safe_range_max,
         expert_range_min, expert_range_max,
         danger_below, danger_above, danger_description,
         visual_effect, interactions, context_adjustments,
-        human_verified, confidence_score, updated_at
+        human_verified, confidence_score, review_status, updated_at
       ) VALUES (
-        ?, ?, ?,
+        ?, ?, ?, ?,
         ?, ?, ?,
         ?, ?,
         ?, ?,
         ?, ?,
         ?, ?, ?,
         ?, ?, ?,
-        ?, ?, datetime('now')
+        ?, ?, ?, datetime('now')
       )
-      ON CONFLICT(node_name, param_name) DO UPDATE SET
+      ON CONFLICT(node_name, param_name, houdini_version) DO UPDATE SET
         param_path = excluded.param_path,
         semantic_name_zh = excluded.semantic_name_zh,
         semantic_name_en = excluded.semantic_name_en,
@@ -293,13 +642,17 @@ export class KnowledgeBase {
         context_adjustments = excluded.context_adjustments,
         human_verified = excluded.human_verified,
         confidence_score = excluded.confidence_score,
+        review_status = excluded.review_status,
         updated_at = datetime('now')
+      -- Machine re-annotation never overwrites a human-verified row
+      WHERE parameter_annotations.human_verified = 0 OR excluded.human_verified = 1
     `);
 
     stmt.run(
       data.node_name,
       data.param_name,
       data.param_path,
+      data.houdini_version ?? DEFAULT_HOUDINI_VERSION,
       data.semantic_name_zh ?? null,
       data.semantic_name_en ?? null,
       data.one_line ?? null,
@@ -317,24 +670,46 @@ export class KnowledgeBase {
       data.context_adjustments ? JSON.stringify(data.context_adjustments) : null,
       data.human_verified ? 1 : 0,
       data.confidence_score ?? 0.0,
+      data.human_verified ? "approved" : null,
     );
   }
 
+  /**
+   * Get a parameter annotation for a Houdini version, falling back to the
+   * nearest older version in which the parameter was annotated.
+   */
   getParameterAnnotation(
     nodeName: string,
     paramName: string,
+    houdiniVersion?: string,
   ): Record<string, unknown> | undefined {
+    const versions = (
+      this.db
+        .prepare(
+          "SELECT houdini_version FROM parameter_annotations WHERE node_name = ? AND param_name = ?",
+        )
+        .all(nodeName, paramName) as Array<{ houdini_version: string }>
+    ).map((r) => r.houdini_version);
+    const version = resolveNearestVersion(versions, houdiniVersion);
+    if (!version) {
+      return undefined;
+    }
     const stmt = this.db.prepare(
-      "SELECT * FROM parameter_annotations WHERE node_name = ? AND param_name = ?",
+      "SELECT * FROM parameter_annotations WHERE node_name = ? AND param_name = ? AND houdini_version = ?",
     );
-    return stmt.get(nodeName, paramName) as Record<string, unknown> | undefined;
+    return stmt.get(nodeName, paramName, version) as Record<string, unknown> | undefined;
   }
 
-  getParametersForNode(nodeName: string): Array<Record<string, unknown>> {
+  /** Parameters annotated for the node version resolved from `houdiniVersion`. */
+  getParametersForNode(nodeName: string, houdiniVersion?: string): Array<Record<string, unknown>> {
+    const version = resolveNearestVersion(this.listNodeVersions(nodeName), houdiniVersion);
+    if (!version) {
+      return [];
+    }
     const stmt = this.db.prepare(
-      "SELECT * FROM parameter_annotations WHERE node_name = ? ORDER BY param_name",
+      "SELECT * FROM parameter_annotations WHERE node_name = ? AND houdini_version = ? ORDER BY param_name",
     );
-    return stmt.all(nodeName) as Array<Record<string, unknown>>;
+    return stmt.all(nodeName, version) as Array<Record<string, unknown>>;
   }
 
   // ── Recipes ──────────────────────────────────────────────
@@ -384,6 +759,17 @@ export class KnowledgeBase {
     );
   }
 
+  /** Look up a recipe by name; falls back to a case-insensitive match */
+  getRecipe(name: string): Record<string, unknown> | undefined {
+    const exact = this.db.prepare("SELECT * FROM recipes WHERE name = ?").get(name);
+    if (exact) {
+      return exact as Record<string, unknown>;
+    }
+    return this.db.prepare("SELECT * FROM recipes WHERE name = ? COLLATE NOCASE").get(name) as
+      | Record<string, unknown>
+      | undefined;
+  }
+
   searchRecipes(system?: string, tags?: string[]): Array<Record<string, unknown>> {
     if (system && tags && tags.length > 0) {
       // Search by system and tags (any tag match)
@@ -391,14 +777,10 @@ export class KnowledgeBase {
       const stmt = this.db.prepare(
         `SELECT * FROM recipes WHERE system = ? AND (${placeholders}) ORDER BY name`,
       );
-      return stmt.all(system, ...tags.map((t) => `%"${t}"%`)) as Array<
-        Record<string, unknown>
-      >;
+      return stmt.all(system, ...tags.map((t) => `%"${t}"%`)) as Array<Record<string, unknown>>;
     }
     if (system) {
-      const stmt = this.db.prepare(
-        "SELECT * FROM recipes WHERE system = ? ORDER BY name",
-      );
+      const stmt = this.db.prepare("SELECT * FROM recipes WHERE system = ? ORDER BY name");
       return stmt.all(system) as Array<Record<string, unknown>>;
     }
     const stmt = this.db.prepare("SELECT * FROM recipes ORDER BY system, name");
@@ -443,26 +825,128 @@ export class KnowledgeBase {
     );
   }
 
+  /**
+   * Error patterns, optionally limited to one system and to patterns whose
+   * symptoms or root causes mention any of the keywords (case-insensitive).
+   * With keywords, patterns matching more of them come first (match_score).
+   */
   searchErrorPatterns(
     system?: string,
-    keyword?: string,
+    keywords?: string | string[],
   ): Array<Record<string, unknown>> {
-    if (system && keyword) {
-      const stmt = this.db.prepare(
-        "SELECT * FROM error_patterns WHERE system = ? AND symptoms LIKE ? ORDER BY severity",
-      );
-      return stmt.all(system, `%${keyword}%`) as Array<Record<string, unknown>>;
+    const terms = (typeof keywords === "string" ? [keywords] : (keywords ?? []))
+      .map((term) => term.trim())
+      .filter(Boolean);
+    if (terms.length === 0) {
+      if (system) {
+        const stmt = this.db.prepare(
+          "SELECT * FROM error_patterns WHERE system = ? ORDER BY pattern_id",
+        );
+        return stmt.all(system) as Array<Record<string, unknown>>;
+      }
+      const stmt = this.db.prepare("SELECT * FROM error_patterns ORDER BY system, pattern_id");
+      return stmt.all() as Array<Record<string, unknown>>;
     }
+
+    const score = terms.map(() => "(symptoms LIKE ?) + (root_causes LIKE ?)").join(" + ");
+    const params: unknown[] = terms.flatMap((term) => [`%${term}%`, `%${term}%`]);
     if (system) {
-      const stmt = this.db.prepare(
-        "SELECT * FROM error_patterns WHERE system = ? ORDER BY pattern_id",
-      );
-      return stmt.all(system) as Array<Record<string, unknown>>;
+      params.push(system);
     }
     const stmt = this.db.prepare(
-      "SELECT * FROM error_patterns ORDER BY system, pattern_id",
+      `SELECT * FROM (
+         SELECT *, (${score}) AS match_score FROM error_patterns
+         ${system ? "WHERE system = ?" : ""}
+       )
+       WHERE match_score > 0
+       ORDER BY match_score DESC, pattern_id`,
     );
-    return stmt.all() as Array<Record<string, unknown>>;
+    return stmt.all(...params) as Array<Record<string, unknown>>;
+  }
+
+  getErrorPattern(patternId: string): Record<string, unknown> | undefined {
+    return this.db.prepare("SELECT * FROM error_patterns WHERE pattern_id = ?").get(patternId) as
+      | Record<string, unknown>
+      | undefined;
+  }
+
+  insertDiagnosisFeedback(data: {
+    pattern_id: string;
+    cause?: string;
+    fixed: boolean;
+    symptoms?: string;
+    system?: string;
+  }): void {
+    this.db
+      .prepare(
+        `INSERT INTO diagnosis_feedback (pattern_id, cause, fixed, symptoms, system)
+         VALUES (?, ?, ?, ?, ?)`,
+      )
+      .run(
+        data.pattern_id,
+        data.cause ?? null,
+        data.fixed ? 1 : 0,
+        data.symptoms ?? null,
+        data.system ?? null,
+      );
+  }
+
+  /**
+   * Recorded diagnosis outcomes per pattern and root cause (cause NULL for
+   * "none of the causes fixed it"), optionally limited to some patterns.
+   */
+  getDiagnosisFeedbackStats(
+    patternIds?: string[],
+  ): Array<{ pattern_id: string; cause: string | null; fixed: number; attempts: number }> {
+    const filter =
+      patternIds && patternIds.length > 0
+        ? `WHERE pattern_id IN (${patternIds.map(() => "?").join(", ")})`
+        : "";
+    return this.db
+      .prepare(
+        `SELECT pattern_id, cause, SUM(fixed) AS fixed, COUNT(*) AS attempts
+         FROM diagnosis_feedback ${filter}
+         GROUP BY pattern_id, cause
+         ORDER BY pattern_id, cause`,
+      )
+      .all(...(patternIds ?? [])) as Array<{
+      pattern_id: string;
+      cause: string | null;
+      fixed: number;
+      attempts: number;
+    }>;
+  }
+
+  /**
+   * Find error patterns whose symptoms or root causes mention any of the given
+   * terms (case-insensitive), optionally limited to one system.
+   */
+  findErrorPatternsMentioning(terms: string[], system?: string): Array<Record<string, unknown>> {
+    const needles = terms.filter((term) => term.trim().length > 0);
+    if (needles.length === 0) {
+      return [];
+    }
+    const conditions = needles.map(() => "(symptoms LIKE ? OR root_causes LIKE ?)");
+    const params: unknown[] = needles.flatMap((term) => [`%${term}%`, `%${term}%`]);
+    let sql = `SELECT pattern_id, system, severity, symptoms FROM error_patterns WHERE (${conditions.join(" OR ")})`;
+    if (system) {
+      sql += " AND system = ?";
+      params.push(system);
+    }
+    sql += " ORDER BY pattern_id";
+    return this.db.prepare(sql).all(...params) as Array<Record<string, unknown>>;
+  }
+
+  /**
+   * The simulation system a node was ingested under (from its embedding chunks).
+   */
+  getNodeSystem(nodeName: string): string | undefined {
+    const row = this.db
+      .prepare(
+        "SELECT system FROM embedding_chunks WHERE node_name = ? AND system IS NOT NULL LIMIT 1",
+      )
+      .get(nodeName) as { system: string } | undefined;
+    return row?.system;
   }
 
   // ── Embedding Chunks ─────────────────────────────────────
@@ -474,11 +958,12 @@ export class KnowledgeBase {
     source_table: string;
     node_name?: string;
     system?: string;
+    houdini_version?: string;
   }): number {
     const stmt = this.db.prepare(`
       INSERT INTO embedding_chunks (
-        chunk_text, chunk_type, source_id, source_table, node_name, system
-      ) VALUES (?, ?, ?, ?, ?, ?)
+        chunk_text, chunk_type, source_id, source_table, node_name, system, houdini_version
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
     `);
     const result = stmt.run(
       data.chunk_text,
@@ -487,12 +972,159 @@ export class KnowledgeBase {
       data.source_table,
       data.node_name ?? null,
       data.system ?? null,
+      data.houdini_version ?? null,
     );
     return Number(result.lastInsertRowid);
   }
 
-  clearChunksForNode(nodeName: string): void {
-    this.db.prepare("DELETE FROM embedding_chunks WHERE node_name = ?").run(nodeName);
+  /**
+   * Split a chunk into consecutive pieces: the row keeps the first piece and
+   * the others are inserted with the same metadata. Returns the piece ids in order.
+   */
+  splitChunk(chunkId: number, pieces: string[]): number[] {
+    const row = this.db
+      .prepare(
+        "SELECT chunk_type, source_id, source_table, node_name, system, houdini_version FROM embedding_chunks WHERE id = ?",
+      )
+      .get(chunkId) as
+      | {
+          chunk_type: string;
+          source_id: number;
+          source_table: string;
+          node_name: string | null;
+          system: string | null;
+          houdini_version: string | null;
+        }
+      | undefined;
+    if (!row) {
+      throw new Error(`Unknown embedding chunk: ${chunkId}`);
+    }
+
+    const [first, ...rest] = pieces;
+    this.db.prepare("UPDATE embedding_chunks SET chunk_text = ? WHERE id = ?").run(first, chunkId);
+    return [
+      chunkId,
+      ...rest.map((text) =>
+        this.insertChunk({
+          chunk_text: text,
+          chunk_type: row.chunk_type,
+          source_id: row.source_id,
+          source_table: row.source_table,
+          node_name: row.node_name ?? undefined,
+          system: row.system ?? undefined,
+          houdini_version: row.houdini_version ?? undefined,
+        }),
+      ),
+    ];
+  }
+
+  /**
+   * Delete a node's chunks. With a version, only chunks of that annotation
+   * version (and legacy unversioned chunks) are removed.
+   */
+  clearChunksForNode(nodeName: string, houdiniVersion?: string): void {
+    if (houdiniVersion === undefined) {
+      this.db.prepare("DELETE FROM embedding_chunks WHERE node_name = ?").run(nodeName);
+      return;
+    }
+    this.db
+      .prepare(
+        "DELETE FROM embedding_chunks WHERE node_name = ? AND (houdini_version = ? OR houdini_version IS NULL)",
+      )
+      .run(nodeName, houdiniVersion);
+  }
+
+  /**
+   * Map each annotated node to the version a search for `houdiniVersion`
+   * should use: the exact version, else the nearest older one, else (or with
+   * no version requested) the newest. Nodes only annotated for newer versions
+   * are left out when a version is requested.
+   */
+  resolveNodeVersions(houdiniVersion?: string): Record<string, string> {
+    const rows = this.db
+      .prepare("SELECT node_name, houdini_version FROM node_annotations")
+      .all() as Array<{ node_name: string; houdini_version: string }>;
+    const versions = new Map<string, string[]>();
+    for (const row of rows) {
+      versions.set(row.node_name, [...(versions.get(row.node_name) ?? []), row.houdini_version]);
+    }
+
+    const resolved: Record<string, string> = {};
+    for (const [nodeName, available] of versions) {
+      const version = resolveNearestVersion(available, houdiniVersion);
+      if (version) {
+        resolved[nodeName] = version;
+      }
+    }
+    return resolved;
+  }
+
+  // ── Keyword Index (FTS5) ─────────────────────────────────
+
+  /**
+   * Rebuild the kb_fts keyword index from embedding chunks, parameter
+   * annotations, recipes and error patterns. Returns the number of indexed rows.
+   */
+  rebuildKeywordIndex(): number {
+    if (!this.ftsAvailable) {
+      return 0;
+    }
+
+    this.db.exec("BEGIN");
+    try {
+      this.db.exec("DELETE FROM kb_fts");
+      this.db.exec(`
+        INSERT INTO kb_fts (names, body, source_table, source_id, chunk_type, node_name, system, houdini_version)
+        SELECT COALESCE(node_name, ''), chunk_text, 'embedding_chunks', id, chunk_type, node_name, system, houdini_version
+        FROM embedding_chunks
+      `);
+      this.db.exec(`
+        INSERT INTO kb_fts (names, body, source_table, source_id, chunk_type, node_name, system, houdini_version)
+        SELECT
+          pa.node_name || ' ' || pa.param_name || ' ' || pa.param_path,
+          IFNULL(pa.semantic_name_en, '') || ' ' || IFNULL(pa.semantic_name_zh, '') || ' ' ||
+            IFNULL(pa.one_line, '') || ' ' || IFNULL(pa.intent_mapping, '') || ' ' ||
+            IFNULL(pa.context_adjustments, '') || ' ' || IFNULL(pa.danger_description, '') || ' ' ||
+            IFNULL(pa.interactions, ''),
+          'parameter_annotations', pa.id, 'parameter', pa.node_name,
+          (SELECT ec.system FROM embedding_chunks ec WHERE ec.node_name = pa.node_name LIMIT 1),
+          pa.houdini_version
+        FROM parameter_annotations pa
+      `);
+      this.db.exec(`
+        INSERT INTO kb_fts (names, body, source_table, source_id, chunk_type, node_name, system)
+        SELECT name,
+          description || ' ' || tags || ' ' || IFNULL(prerequisites, '') || ' ' || IFNULL(warnings, ''),
+          'recipes', id, 'recipe', NULL, system
+        FROM recipes
+      `);
+      this.db.exec(`
+        INSERT INTO kb_fts (names, body, source_table, source_id, chunk_type, node_name, system)
+        SELECT pattern_id, symptoms || ' ' || root_causes,
+          'error_patterns', id, 'error_pattern', NULL, system
+        FROM error_patterns
+      `);
+      this.db.exec("COMMIT");
+    } catch (err) {
+      this.db.exec("ROLLBACK");
+      throw err;
+    }
+
+    const row = this.db.prepare("SELECT COUNT(*) as count FROM kb_fts").get() as { count: number };
+    return row.count;
+  }
+
+  /**
+   * Build the keyword index on first use for databases created before it existed.
+   */
+  ensureKeywordIndex(): void {
+    if (!this.ftsAvailable) {
+      return;
+    }
+    const row = this.db.prepare("SELECT COUNT(*) as count FROM kb_fts").get() as { count: number };
+    if (row.count === 0) {
+      this.rebuildKeywordIndex();
+    }
   }
 
   // ── Crawl Log ────────────────────────────────────────────
@@ -501,17 +1133,26 @@ export class KnowledgeBase {
     source_url: string;
     source_type: string;
     content_hash: string;
+    node_name?: string;
+    etag?: string;
+    last_modified?: string;
     status?: string;
     error_message?: string;
   }): void {
     const stmt = this.db.prepare(`
-      INSERT INTO crawl_log (source_url, source_type, content_hash, status, error_message)
-      VALUES (?, ?, ?, ?, ?)
+      INSERT INTO crawl_log (
+        source_url, source_type, content_hash, node_name, etag, last_modified,
+        status, error_message
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `);
     stmt.run(
       data.source_url,
       data.source_type,
       data.content_hash,
+      data.node_name ?? null,
+      data.etag ?? null,
+      data.last_modified ?? null,
       data.status ?? "success",
       data.error_message ?? null,
     );
@@ -519,19 +1160,322 @@ export class KnowledgeBase {
 
   getLastCrawl(sourceUrl: string): Record<string, unknown> | undefined {
     const stmt = this.db.prepare(
-      "SELECT * FROM crawl_log WHERE source_url = ? ORDER BY fetched_at DESC LIMIT 1",
+      "SELECT * FROM crawl_log WHERE source_url = ? ORDER BY fetched_at DESC, id DESC LIMIT 1",
     );
     return stmt.get(sourceUrl) as Record<string, unknown> | undefined;
   }
 
+  /** Latest crawl that produced content, i.e. skipping failed fetches. */
+  getLastSuccessfulCrawl(
+    sourceUrl: string,
+  ): { content_hash: string; etag: string | null; last_modified: string | null } | undefined {
+    const stmt = this.db.prepare(`
+      SELECT content_hash, etag, last_modified FROM crawl_log
+      WHERE source_url = ? AND status IN ('success', 'not_modified')
+      ORDER BY fetched_at DESC, id DESC LIMIT 1
+    `);
+    return stmt.get(sourceUrl) as
+      | { content_hash: string; etag: string | null; last_modified: string | null }
+      | undefined;
+  }
+
+  /**
+   * Flag machine annotations of a node as stale after its source page changed.
+   * Crawled page names ("pyrosolver") are matched against annotation names
+   * ("pyro_solver") ignoring case and punctuation. Human-verified rows are
+   * flagged too so reviewers can re-check them. Returns the rows flagged.
+   */
+  markAnnotationsStale(crawledNodeName: string, contentHash: string): number {
+    const result = this.db
+      .prepare(`
+        UPDATE node_annotations SET stale_since = datetime('now')
+        WHERE ${nodeKeySql("node_name")} = ?
+          AND stale_since IS NULL
+          AND (source_hash IS NULL OR source_hash != ?)
+      `)
+      .run(toNodeKey(crawledNodeName), contentHash);
+    return result.changes;
+  }
+
+  /** Annotations whose source documentation changed since they were generated. */
+  listStaleAnnotations(): Array<{
+    node_name: string;
+    houdini_version: string;
+    human_verified: number;
+    stale_since: string;
+  }> {
+    return this.db
+      .prepare(`
+        SELECT node_name, houdini_version, human_verified, stale_since
+        FROM node_annotations
+        WHERE stale_since IS NOT NULL
+        ORDER BY stale_since, node_name
+      `)
+      .all() as Array<{
+      node_name: string;
+      houdini_version: string;
+      human_verified: number;
+      stale_since: string;
+    }>;
+  }
+
+  // ── Review ───────────────────────────────────────────────
+
+  /**
+   * Unverified node and parameter annotations, least confident first and,
+   * among equals, most looked-up first. Rejected rows are left out unless
+   * `includeRejected` is set (they need re-annotation, not review).
+   */
+  getReviewQueue(options?: {
+    targetType?: "node" | "parameter";
+    category?: string;
+    includeRejected?: boolean;
+    limit?: number;
+  }): Array<Record<string, unknown>> {
+    const filters: string[] = [];
+    const params: unknown[] = [];
+    if (!options?.includeRejected) {
+      filters.push("review_status IS NULL");
+    }
+    if (options?.targetType) {
+      filters.push("target_type = ?");
+      params.push(options.targetType);
+    }
+    if (options?.category) {
+      filters.push("node_category = ?");
+      params.push(options.category);
+    }
+    params.push(options?.limit ?? 20);
+
+    return this.db
+      .prepare(
+        `SELECT * FROM (
+           SELECT 'node' AS target_type, na.node_name, NULL AS param_name, na.houdini_version,
+                  na.node_category, na.confidence_score, na.annotation_model, na.annotated_at,
+                  na.review_status, COALESCE(u.lookup_count, 0) AS lookups
+           FROM node_annotations na
+           LEFT JOIN annotation_usage u ON u.node_name = na.node_name AND u.param_name = ''
+           WHERE na.human_verified = 0
+           UNION ALL
+           SELECT 'parameter', pa.node_name, pa.param_name, pa.houdini_version,
+                  na.node_category, pa.confidence_score, na.annotation_model, na.annotated_at,
+                  pa.review_status, COALESCE(u.lookup_count, 0)
+           FROM parameter_annotations pa
+           JOIN node_annotations na
+             ON na.node_name = pa.node_name AND na.houdini_version = pa.houdini_version
+           LEFT JOIN annotation_usage u ON u.node_name = pa.node_name AND u.param_name = pa.param_name
+           WHERE pa.human_verified = 0
+         )
+         ${filters.length > 0 ? "WHERE " + filters.join(" AND ") : ""}
+         ORDER BY confidence_score ASC, lookups DESC, node_name, param_name
+         LIMIT ?`,
+      )
+      .all(...params) as Array<Record<string, unknown>>;
+  }
+
+  /**
+   * Update columns of one annotation row by id. Column names must come from a
+   * caller-side allowlist; they are interpolated into the statement.
+   */
+  updateAnnotationRow(
+    table: "node_annotations" | "parameter_annotations",
+    id: number,
+    values: Record<string, unknown>,
+  ): void {
+    const columns = Object.keys(values);
+    if (columns.length === 0) {
+      return;
+    }
+    for (const column of columns) {
+      if (!/^[a-z_]+$/.test(column)) {
+        throw new Error(`Invalid column name: ${column}`);
+      }
+    }
+    this.db
+      .prepare(
+        `UPDATE ${table} SET ${columns.map((c) => `${c} = ?`).join(", ")}, updated_at = datetime('now')
+         WHERE id = ?`,
+      )
+      .run(...columns.map((c) => values[c] ?? null), id);
+  }
+
+  insertReviewLog(entry: {
+    target_type: "node" | "parameter";
+    node_name: string;
+    param_name?: string;
+    houdini_version: string;
+    action: string;
+    reviewer: string;
+    notes?: string;
+    changes?: Record<string, { from: unknown; to: unknown }>;
+  }): void {
+    this.db
+      .prepare(
+        `INSERT INTO review_log (
+           target_type, node_name, param_name, houdini_version, action, reviewer, notes, changes
+         ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        entry.target_type,
+        entry.node_name,
+        entry.param_name ?? null,
+        entry.houdini_version,
+        entry.action,
+        entry.reviewer,
+        entry.notes ?? null,
+        entry.changes ? JSON.stringify(entry.changes) : null,
+      );
+  }
+
+  /** Review history for a node (all of its rows) or a single parameter, newest first. */
+  getReviewHistory(nodeName: string, paramName?: string): Array<Record<string, unknown>> {
+    if (paramName) {
+      return this.db
+        .prepare("SELECT * FROM review_log WHERE node_name = ? AND param_name = ? ORDER BY id DESC")
+        .all(nodeName, paramName) as Array<Record<string, unknown>>;
+    }
+    return this.db
+      .prepare("SELECT * FROM review_log WHERE node_name = ? ORDER BY id DESC")
+      .all(nodeName) as Array<Record<string, unknown>>;
+  }
+
+  /** Count a lookup of a node (or one of its parameters) for review prioritization. */
+  recordLookup(nodeName: string, paramName?: string): void {
+    this.db
+      .prepare(
+        `INSERT INTO annotation_usage (node_name, param_name, lookup_count, last_used_at)
+         VALUES (?, ?, 1, datetime('now'))
+         ON CONFLICT(node_name, param_name) DO UPDATE SET
+           lookup_count = lookup_count + 1,
+           last_used_at = datetime('now')`,
+      )
+      .run(nodeName, paramName ?? "");
+  }
+
+  // ── Discovered Nodes ─────────────────────────────────────
+
+  /**
+   * Replace the discovered pages for the contexts present in `nodes`, so a
+   * discovery limited to some contexts keeps the others.
+   */
+  replaceDiscoveredNodes(
+    nodes: Array<{
+      path: string;
+      nodeName: string;
+      context: string;
+      system: string;
+      title?: string;
+    }>,
+    source: string,
+  ): void {
+    const contexts = [...new Set(nodes.map((n) => n.context))];
+    const remove = this.db.prepare("DELETE FROM discovered_nodes WHERE context = ?");
+    const insert = this.db.prepare(`
+      INSERT OR REPLACE INTO discovered_nodes (
+        node_path, node_name, node_key, context, system, title, source
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.db.exec("BEGIN");
+    try {
+      for (const context of contexts) {
+        remove.run(context);
+      }
+      for (const node of nodes) {
+        insert.run(
+          node.path,
+          node.nodeName,
+          toNodeKey(node.nodeName),
+          node.context,
+          node.system,
+          node.title ?? null,
+          source,
+        );
+      }
+      this.db.exec("COMMIT");
+    } catch (err) {
+      this.db.exec("ROLLBACK");
+      throw err;
+    }
+  }
+
+  /** Discovered docs paths grouped by system, in the shape of ALL_NODE_PATHS. */
+  getDiscoveredNodePaths(): Record<string, string[]> {
+    const rows = this.db
+      .prepare("SELECT node_path, system FROM discovered_nodes ORDER BY system, node_path")
+      .all() as Array<{ node_path: string; system: string }>;
+    const groups: Record<string, string[]> = {};
+    for (const row of rows) {
+      (groups[row.system] ??= []).push(row.node_path);
+    }
+    return groups;
+  }
+
   // ── Coverage Report ──────────────────────────────────────
 
+  /**
+   * Write today's coverage_report row per system, measuring annotations
+   * against the discovered node pages. Returns the rows written.
+   */
+  writeCoverageSnapshot(): Array<Record<string, unknown>> {
+    const matches = (alias: string) =>
+      `SELECT 1 FROM node_annotations na WHERE ${nodeKeySql("na.node_name")} = ${alias}.node_key`;
+    const paramsOf = (verifiedOnly: boolean) => `
+      SELECT COUNT(*) FROM parameter_annotations pa
+      WHERE ${verifiedOnly ? "pa.human_verified = 1 AND " : ""}${nodeKeySql("pa.node_name")} IN (
+        SELECT node_key FROM discovered_nodes WHERE system = d.system
+      )`;
+
+    this.db
+      .prepare(`
+        INSERT INTO coverage_report (
+          system, total_nodes, annotated_nodes, verified_nodes,
+          annotated_params, verified_params, total_recipes, total_errors, report_date
+        )
+        SELECT
+          d.system,
+          COUNT(*),
+          SUM(CASE WHEN EXISTS (${matches("d")}) THEN 1 ELSE 0 END),
+          SUM(CASE WHEN EXISTS (${matches("d")} AND na.human_verified = 1) THEN 1 ELSE 0 END),
+          (${paramsOf(false)}),
+          (${paramsOf(true)}),
+          (SELECT COUNT(*) FROM recipes r WHERE r.system = d.system),
+          (SELECT COUNT(*) FROM error_patterns e WHERE e.system = d.system),
+          date('now')
+        FROM discovered_nodes d
+        GROUP BY d.system
+        ON CONFLICT(system, report_date) DO UPDATE SET
+          total_nodes = excluded.total_nodes,
+          annotated_nodes = excluded.annotated_nodes,
+          verified_nodes = excluded.verified_nodes,
+          annotated_params = excluded.annotated_params,
+          verified_params = excluded.verified_params,
+          total_recipes = excluded.total_recipes,
+          total_errors = excluded.total_errors
+      `)
+      .run();
+    return this.getCoverageSnapshot();
+  }
+
+  /** Most recent coverage_report row per system. */
+  getCoverageSnapshot(): Array<Record<string, unknown>> {
+    return this.db
+      .prepare(`
+        SELECT * FROM coverage_report c
+        WHERE report_date = (
+          SELECT MAX(report_date) FROM coverage_report WHERE system = c.system
+        )
+        ORDER BY system
+      `)
+      .all() as Array<Record<string, unknown>>;
+  }
+
   getCoverageReport(): Array<Record<string, unknown>> {
     const stmt = this.db.prepare(`
       SELECT
         na.node_category as system,
         COUNT(DISTINCT na.node_name) as annotated_nodes,
-        SUM(CASE WHEN na.human_verified = 1 THEN 1 ELSE 0 END) as verified_nodes,
+        COUNT(DISTINCT CASE WHEN na.human_verified = 1 THEN na.node_name END) as verified_nodes,
         (SELECT COUNT(*) FROM parameter_annotations pa WHERE pa.node_name IN
           (SELECT node_name FROM node_annotations WHERE node_category = na.node_category)
         ) as annotated_params,
@@ -544,4 +1488,74 @@ export class KnowledgeBase {
     `);
     return stmt.all() as Array<Record<string, unknown>>;
   }
+
+  // ── Bundles ──────────────────────────────────────────────
+
+  /** Column names of a table in schema order (empty when the table doesn't exist). */
+  getTableColumns(table: string): string[] {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{
+      name: string;
+    }>;
+    return columns.map((c) => c.name);
+  }
+
+  /**
+   * Rows of a table for bundle export, without the local `id`. Tables with a
+   * houdini_version column can be limited to one version.
+   */
+  listTableRows(table: string, houdiniVersion?: string): Array<Record<string, unknown>> {
+    const allColumns = this.getTableColumns(table);
+    const columns = allColumns.filter((c) => c !== "id");
+    const versioned = houdiniVersion !== undefined && columns.includes("houdini_version");
+    return this.db
+      .prepare(
+        `SELECT ${columns.join(", ")} FROM ${table}
+         ${versioned ? "WHERE houdini_version = ?" : ""}
+         ORDER BY ${allColumns.includes("id") ? "id" : columns[0]}`,
+      )
+      .all(...(versioned ? [houdiniVersion] : [])) as Array<Record<string, unknown>>;
+  }
+
+  /** The row whose key columns equal the given values (NULL-safe), if any. */
+  findRowByKey(table: string, key: Record<string, unknown>): Record<string, unknown> | undefined {
+    const columns = Object.keys(key);
+    return this.db
+      .prepare(`SELECT * FROM ${table} WHERE ${columns.map((c) => `${c} IS ?`).join(" AND ")}`)
+      .get(...columns.map((c) => key[c] ?? null)) as Record<string, unknown> | undefined;
+  }
+
+  /**
+   * Insert a bundle row, replacing the row with the same `conflictColumns`
+   * (a UNIQUE constraint of the table) when given. Columns the table doesn't
+   * have are ignored, as is `id`.
+   */
+  writeBundleRow(table: string, row: Record<string, unknown>, conflictColumns: string[]): void {
+    const known = new Set(this.getTableColumns(table));
+    const columns = Object.keys(row).filter((c) => c !== "id" && known.has(c));
+    const upsert =
+      conflictColumns.length > 0
+        ? `ON CONFLICT(${conflictColumns.join(", ")}) DO UPDATE SET ${columns
+            .filter((c) => !conflictColumns.includes(c))
+            .map((c) => `${c} = excluded.${c}`)
+            .join(", ")}`
+        : "";
+    this.db
+      .prepare(
+        `INSERT INTO ${table} (${columns.join(", ")})
+         VALUES (${columns.map(() => "?").join(", ")}) ${upsert}`,
+      )
+      .run(...columns.map((c) => row[c] ?? null));
+  }
+
+  /** Every cached embedding of one provider/model, keyed by content hash. */
+  listCachedEmbeddings(provider: string, model: string): Map<string, Float32Array> {
+    const hashes = this.db
+      .prepare("SELECT hash FROM embedding_cache WHERE provider = ? AND model = ? ORDER BY hash")
+      .all(provider, model) as Array<{ hash: string }>;
+    return this.getCachedEmbeddings(
+      provider,
+      model,
+      hashes.map((h) => h.hash),
+    );
+  }
 }
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { learnedRate, matchRootCause, rankErrorPatterns, symptomSimilarity } from "./diagnosis.js";
+
+const explodes = {
+  pattern_id: "PYRO-001",
+  system: "pyro",
+  severity: "common",
+  symptoms: JSON.stringify(["simulation explodes at a specific frame", "values become NaN"]),
+  root_causes: JSON.stringify([
+    { cause: "Insufficient substeps", probability: "high", fix: ["Increase substeps"] },
+    { cause: "Source emission too aggressive", probability: "medium", fix: ["Lower fuel"] },
+  ]),
+  related_patterns: null,
+  match_score: 2,
+};
+
+const nanCollision = {
+  pattern_id: "PYRO-007",
+  system: "pyro",
+  severity: "rare",
+  symptoms: JSON.stringify(["smoke explodes near collision geometry"]),
+  root_causes: JSON.stringify([{ cause: "Collision velocity spikes", probability: "high" }]),
+  related_patterns: JSON.stringify(["PYRO-001"]),
+  match_score: 1,
+};
+
+describe("houdini-claw error pattern ranking", () => {
+  it("scores symptom matches above root-cause-only matches", () => {
+    expect(
+      symptomSimilarity(["explodes", "substeps"], ["sim explodes"], [{ cause: "substeps" }]),
+    ).toBe(0.75);
+    expect(symptomSimilarity([], [], [])).toBe(1);
+  });
+
+  it("moves annotated priors towards recorded outcomes", () => {
+    expect(learnedRate(0, 0, 0.6)).toBeCloseTo(0.6);
+    expect(learnedRate(0, 5, 0.6)).toBeCloseTo(0.225);
+    expect(learnedRate(5, 5, 0.3)).toBeCloseTo(0.7375);
+  });
+
+  it("ranks by similarity and severity, then re-ranks with feedback", () => {
+    const terms = ["explodes", "frame"];
+    const unranked = rankErrorPatterns([nanCollision, explodes], terms, []);
+    expect(unranked.map((p) => p.pattern_id)).toEqual(["PYRO-001", "PYRO-007"]);
+    expect(unranked[0]).not.toHaveProperty("match_score");
+    expect(unranked[0].root_causes.map((c) => c.cause)).toEqual([
+      "Insufficient substeps",
+      "Source emission too aggressive",
+    ]);
+    expect(unranked[1].related_patterns).toEqual(["PYRO-001"]);
+
+    const stats = [
+      { pattern_id: "PYRO-001", cause: "Insufficient substeps", fixed: 0, attempts: 6 },
+      { pattern_id: "PYRO-001", cause: "Source emission too aggressive", fixed: 4, attempts: 4 },
+    ];
+    const [ranked] = rankErrorPatterns([explodes], terms, stats);
+    expect(ranked.feedback_count).toBe(10);
+    expect(ranked.fix_rate).toBeCloseTo(0.423, 3);
+    expect(ranked.root_causes[0]).toMatchObject({
+      cause: "Source emission too aggressive",
+      fixed: 4,
+      attempts: 4,
+    });
+    expect(ranked.rank_score).toBeLessThan(unranked[0].rank_score);
+  });
+
+  it("skips malformed root causes and non-string list entries", () => {
+    const [pattern] = rankErrorPatterns(
+      [
+        {
+          ...explodes,
+          symptoms: JSON.stringify(["simulation explodes", 42]),
+          root_causes: JSON.stringify([
+            { cause: { text: "nested" }, probability: "high" },
+            "Insufficient substeps",
+            { cause: "Source emission too aggressive", probability: 7 },
+          ]),
+          related_patterns: JSON.stringify(["PYRO-007", null]),
+        },
+      ],
+      ["explodes"],
+      [],
+    );
+    expect(pattern.symptoms).toEqual(["simulation explodes"]);
+    expect(pattern.related_patterns).toEqual(["PYRO-007"]);
+    expect(pattern.root_causes).toEqual([
+      {
+        cause: "Source emission too aggressive",
+        learned_probability: 0.3,
+        fixed: 0,
+        attempts: 0,
+      },
+    ]);
+  });
+
+  it("treats list columns that are not valid JSON as empty", () => {
+    const [pattern] = rankErrorPatterns(
+      [{ ...explodes, symptoms: "explodes, NaN", root_causes: "{", related_patterns: "[PYRO-7" }],
+      ["explodes"],
+      [],
+    );
+    expect(pattern.symptoms).toEqual([]);
+    expect(pattern.root_causes).toEqual([]);
+    expect(pattern.related_patterns).toEqual([]);
+  });
+
+  it("matches the root cause the user names", () => {
+    const causes = ["Insufficient substeps", "Source emission too aggressive"];
+    expect(matchRootCause(causes, "insufficient substeps")).toBe("Insufficient substeps");
+    expect(matchRootCause(causes, "2")).toBe("Source emission too aggressive");
+    expect(matchRootCause(causes, "emission")).toBe("Source emission too aggressive");
+    expect(matchRootCause(causes, "s")).toBeUndefined();
+    expect(matchRootCause(causes, "5")).toBeUndefined();
+  });
+});
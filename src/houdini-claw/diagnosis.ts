@@ -0,0 +1,258 @@
+/**
+ * Houdini Claw - Error Pattern Ranking
+ *
+ * Orders diagnose results by how likely each pattern is to be the user's
+ * problem, and each pattern's root causes by how likely they are to fix it.
+ * Three signals are combined:
+ *
+ * - symptom similarity: the share of query terms found in the pattern's
+ *   symptoms (terms only found in the root causes count half),
+ * - severity: common patterns rank above rare ones at equal similarity,
+ * - learned fix rates: after a diagnosis the agent asks which fix worked and
+ *   records the outcome in diagnosis_feedback. A cause's annotated probability
+ *   (high / medium / low) is the prior that recorded outcomes move away from.
+ */
+
+import type { KnowledgeBase } from "./db.js";
+
+// ── Types ──────────────────────────────────────────────────
+
+export interface DiagnosisFeedbackStat {
+  pattern_id: string;
+  /** NULL when none of the pattern's root causes fixed the problem */
+  cause: string | null;
+  fixed: number;
+  attempts: number;
+}
+
+export interface RankedRootCause extends Record<string, unknown> {
+  cause: string;
+  /** Annotated probability: high, medium or low */
+  probability?: string;
+  /** Fix rate estimated from the annotated prior and recorded outcomes */
+  learned_probability: number;
+  fixed: number;
+  attempts: number;
+}
+
+export interface RankedErrorPattern extends Record<string, unknown> {
+  pattern_id: string;
+  rank_score: number;
+  similarity: number;
+  /** Share of recorded diagnoses of this pattern that ended in a fix */
+  fix_rate: number;
+  feedback_count: number;
+  symptoms: string[];
+  root_causes: RankedRootCause[];
+  related_patterns: string[];
+}
+
+/** A root_causes entry as stored; other fields (explanation, fix, …) pass through */
+interface StoredRootCause extends Record<string, unknown> {
+  cause: string;
+  probability?: string;
+}
+
+export interface DiagnosisFeedbackRequest {
+  patternId: string;
+  /** The root cause whose fix worked (its text or 1-based position); omit when none did */
+  cause?: string;
+  fixed: boolean;
+  symptoms?: string;
+  system?: string;
+}
+
+// ── Constants ──────────────────────────────────────────────
+
+/** Prior fix rate for each annotated root-cause probability */
+const PROBABILITY_PRIOR: Record<string, number> = { high: 0.6, medium: 0.3, low: 0.1 };
+const DEFAULT_PRIOR = 0.3;
+
+/** How many recorded outcomes the prior is worth */
+const PRIOR_WEIGHT = 3;
+
+const SEVERITY_WEIGHT: Record<string, number> = { common: 1, moderate: 0.6, rare: 0.3 };
+const DEFAULT_SEVERITY_WEIGHT = 0.6;
+
+/** rank_score = similarity, severity and fix-rate weighted by these */
+const SCORE_WEIGHTS = { similarity: 0.6, severity: 0.15, fixRate: 0.25 };
+
+// ── Ranking ────────────────────────────────────────────────
+
+function parseJsonArray<T>(value: unknown): T[] {
+  if (typeof value !== "string" || !value) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed) ? (parsed as T[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function parseStringArray(value: unknown): string[] {
+  return parseJsonArray<unknown>(value).filter((item): item is string => typeof item === "string");
+}
+
+/**
+ * Root causes of an error_patterns row. Rows can come from hand-edited
+ * annotation files or bundles, so entries without a text cause are skipped.
+ */
+function parseRootCauses(value: unknown): StoredRootCause[] {
+  return parseJsonArray<unknown>(value).flatMap((entry): StoredRootCause[] => {
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      return [];
+    }
+    const { cause, probability, ...rest } = entry as Record<string, unknown>;
+    if (typeof cause !== "string") {
+      return [];
+    }
+    return [{ ...rest, cause, ...(typeof probability === "string" ? { probability } : {}) }];
+  });
+}
+
+/** Smoothed success rate: `prior` counts as PRIOR_WEIGHT observations */
+export function learnedRate(fixed: number, attempts: number, prior: number): number {
+  return (fixed + prior * PRIOR_WEIGHT) / (attempts + PRIOR_WEIGHT);
+}
+
+/**
+ * Share of the terms found in the symptoms; terms found only in the root
+ * causes count half. 1 when there are no terms (nothing to compare).
+ */
+export function symptomSimilarity(
+  terms: string[],
+  symptoms: string[],
+  rootCauses: Array<Record<string, unknown>>,
+): number {
+  if (terms.length === 0) {
+    return 1;
+  }
+  const symptomText = symptoms.join(" ").toLowerCase();
+  const causeText = JSON.stringify(rootCauses).toLowerCase();
+  let matched = 0;
+  for (const term of terms.map((t) => t.toLowerCase())) {
+    if (symptomText.includes(term)) {
+      matched += 1;
+    } else if (causeText.includes(term)) {
+      matched += 0.5;
+    }
+  }
+  return matched / terms.length;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Rank stored error_patterns rows for the given query terms, using recorded
+ * diagnosis outcomes. Root causes within each pattern are re-ordered by
+ * learned_probability.
+ */
+export function rankErrorPatterns(
+  patterns: Array<Record<string, unknown>>,
+  terms: string[],
+  stats: DiagnosisFeedbackStat[],
+): RankedErrorPattern[] {
+  return patterns
+    .map((row) => {
+      const patternId = String(row.pattern_id);
+      const symptoms = parseStringArray(row.symptoms);
+      const rootCauses = parseRootCauses(row.root_causes);
+      const patternStats = stats.filter((s) => s.pattern_id === patternId);
+
+      const causes: RankedRootCause[] = rootCauses
+        .map((rc) => {
+          const stat = patternStats.find((s) => s.cause === rc.cause);
+          const prior = PROBABILITY_PRIOR[rc.probability?.toLowerCase() ?? ""] ?? DEFAULT_PRIOR;
+          return {
+            ...rc,
+            learned_probability: round(learnedRate(stat?.fixed ?? 0, stat?.attempts ?? 0, prior)),
+            fixed: stat?.fixed ?? 0,
+            attempts: stat?.attempts ?? 0,
+          };
+        })
+        .toSorted((a, b) => b.learned_probability - a.learned_probability);
+
+      const fixed = patternStats.reduce((sum, s) => sum + s.fixed, 0);
+      const attempts = patternStats.reduce((sum, s) => sum + s.attempts, 0);
+      // Without feedback a pattern is assumed to fix half of the problems it matches
+      const fixRate = learnedRate(fixed, attempts, 0.5);
+      const similarity = symptomSimilarity(terms, symptoms, rootCauses);
+      const severity = SEVERITY_WEIGHT[String(row.severity)] ?? DEFAULT_SEVERITY_WEIGHT;
+      const { match_score: _matchScore, ...rest } = row;
+
+      return {
+        ...rest,
+        pattern_id: patternId,
+        rank_score: round(
+          SCORE_WEIGHTS.similarity * similarity +
+            SCORE_WEIGHTS.severity * severity +
+            SCORE_WEIGHTS.fixRate * fixRate,
+        ),
+        similarity: round(similarity),
+        fix_rate: round(fixRate),
+        feedback_count: attempts,
+        symptoms,
+        root_causes: causes,
+        related_patterns: parseStringArray(row.related_patterns),
+      };
+    })
+    .toSorted((a, b) => b.rank_score - a.rank_score || a.pattern_id.localeCompare(b.pattern_id));
+}
+
+// ── Feedback ───────────────────────────────────────────────
+
+/**
+ * Find the root cause the user named: exact text (case-insensitive), its
+ * 1-based position, or the only cause containing the text.
+ */
+export function matchRootCause(causes: string[], named: string): string | undefined {
+  const needle = named.trim().toLowerCase();
+  const exact = causes.find((c) => c.toLowerCase() === needle);
+  if (exact) {
+    return exact;
+  }
+  if (/^\d+$/.test(needle)) {
+    return causes[parseInt(needle, 10) - 1];
+  }
+  const partial = causes.filter((c) => c.toLowerCase().includes(needle));
+  return partial.length === 1 ? partial[0] : undefined;
+}
+
+/**
+ * Record the outcome of a diagnosis. Throws when the pattern or the named
+ * root cause is unknown, so typos don't dilute the learned rates.
+ */
+export function recordDiagnosisFeedback(
+  kb: KnowledgeBase,
+  request: DiagnosisFeedbackRequest,
+): { pattern_id: string; cause?: string; fixed: boolean } {
+  const pattern = kb.getErrorPattern(request.patternId);
+  if (!pattern) {
+    throw new Error(`Error pattern "${request.patternId}" not found`);
+  }
+  let cause: string | undefined;
+  if (request.cause) {
+    const causes = parseRootCauses(pattern.root_causes).map((rc) => rc.cause);
+    cause = matchRootCause(causes, request.cause);
+    if (!cause) {
+      throw new Error(
+        `"${request.cause}" is not a root cause of ${request.patternId}: ${causes.join("; ")}`,
+      );
+    }
+  } else if (request.fixed) {
+    throw new Error("Name the root cause whose fix worked");
+  }
+
+  kb.insertDiagnosisFeedback({
+    pattern_id: request.patternId,
+    cause,
+    fixed: request.fixed,
+    symptoms: request.symptoms,
+    system: request.system ?? (pattern.system as string | undefined),
+  });
+  return { pattern_id: request.patternId, cause, fixed: request.fixed };
+}
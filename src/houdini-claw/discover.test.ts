@@ -0,0 +1,110 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import JSZip from "jszip";
+import { afterEach, describe, expect, it } from "vitest";
+import { ALL_NODE_PATHS } from "./crawl.js";
+import {
+  classifyNodePath,
+  discoverNodePaths,
+  groupNodePathsBySystem,
+  nodePathFromFile,
+  parseDocsIndex,
+} from "./discover.js";
+
+const DOCS = "https://www.sidefx.com/docs/houdini/";
+
+describe("houdini-claw node discovery", () => {
+  let tempDir: string | undefined;
+
+  afterEach(() => {
+    if (tempDir) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      tempDir = undefined;
+    }
+  });
+
+  it("classifies the curated node lists into their systems", () => {
+    for (const [system, paths] of Object.entries(ALL_NODE_PATHS)) {
+      for (const nodePath of paths) {
+        expect(classifyNodePath(nodePath)?.system, nodePath).toBe(system);
+      }
+    }
+    expect(classifyNodePath("nodes/sop/kinefx--rigpose")?.system).toBe("kinefx");
+    expect(classifyNodePath("nodes/cop2/blur")).toMatchObject({ context: "cop2", system: "cop" });
+    expect(classifyNodePath("nodes/out/karma")?.system).toBe("rop");
+    expect(classifyNodePath("nodes/lop/volume")?.system).toBe("lop");
+    expect(classifyNodePath("nodes/foo/bar")).toBeUndefined();
+  });
+
+  it("maps mirror and archive files to docs paths", () => {
+    expect(nodePathFromFile("docs/houdini/nodes/sop/scatter.html")).toBe("nodes/sop/scatter");
+    expect(nodePathFromFile("sop/scatter.txt")).toBe("nodes/sop/scatter");
+    expect(nodePathFromFile("nodes/sop/index.html")).toBeUndefined();
+    expect(nodePathFromFile("nodes/sop/_sidebar.txt")).toBeUndefined();
+    expect(nodePathFromFile("images/sop/scatter.png")).toBeUndefined();
+  });
+
+  it("parses node links from a docs index page", () => {
+    const html = `
+      <a href="scatter.html">Scatter</a>
+      <a href="scatter.html#parameters">Scatter params</a>
+      <a href="/docs/houdini/nodes/sop/kinefx--rigpose.html"><b>Rig Pose</b></a>
+      <a href="../dop/pyrosolver.html">Pyro Solver</a>
+      <a href="index.html">Index</a>
+      <a href="https://example.com/nodes/sop/other.html">Elsewhere</a>`;
+
+    const nodes = parseDocsIndex(html, `${DOCS}nodes/sop/index.html`, DOCS);
+    expect(nodes).toEqual([
+      {
+        path: "nodes/sop/scatter",
+        nodeName: "scatter",
+        context: "sop",
+        system: "sop",
+        title: "Scatter",
+      },
+      {
+        path: "nodes/sop/kinefx--rigpose",
+        nodeName: "kinefx--rigpose",
+        context: "sop",
+        system: "kinefx",
+        title: "Rig Pose",
+      },
+      {
+        path: "nodes/dop/pyrosolver",
+        nodeName: "pyrosolver",
+        context: "dop",
+        system: "pyro",
+        title: "Pyro Solver",
+      },
+    ]);
+  });
+
+  it("discovers pages from a help archive and a mirror directory", async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "houdini-claw-discover-"));
+    const zip = new JSZip();
+    zip.file("sop/scatter.txt", "= Scatter =");
+    zip.file("sop/vellumdrape.txt", "= Vellum Drape =");
+    zip.file("cop2/blur.txt", "= Blur =");
+    zip.file("sop/_sidebar.txt", "");
+    const archive = path.join(tempDir, "nodes.zip");
+    fs.writeFileSync(archive, await zip.generateAsync({ type: "nodebuffer" }));
+
+    const fromArchive = await discoverNodePaths({ kind: "archive", file: archive });
+    expect(groupNodePathsBySystem(fromArchive)).toEqual({
+      cop: ["nodes/cop2/blur"],
+      sop: ["nodes/sop/scatter"],
+      vellum: ["nodes/sop/vellumdrape"],
+    });
+
+    const mirror = path.join(tempDir, "mirror");
+    fs.mkdirSync(path.join(mirror, "nodes", "dop"), { recursive: true });
+    fs.writeFileSync(path.join(mirror, "nodes", "dop", "flipsolver.html"), "");
+    fs.writeFileSync(path.join(mirror, "nodes", "dop", "index.html"), "");
+    const fromMirror = await discoverNodePaths(
+      { kind: "directory", dir: mirror },
+      { contexts: ["dop"] },
+    );
+    expect(fromMirror.map((n) => `${n.system}:${n.path}`)).toEqual(["flip:nodes/dop/flipsolver"]);
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * Houdini Claw - Node Page Discovery
+ *
+ * Finds documentation pages for every Houdini node instead of relying on the
+ * hand-written lists in crawl.ts. Pages are discovered from the SideFX docs
+ * index pages, a local offline docs mirror, or Houdini's bundled help archive
+ * ($HFS/houdini/help/nodes.zip), then classified by network context and
+ * simulation system. Discovered totals feed the coverage report.
+ *
+ * Usage:
+ *   bun src/houdini-claw/discover.ts --source site
+ *   bun src/houdini-claw/discover.ts --source /opt/hfs20.5/houdini/help/nodes.zip --context sop,dop
+ *   bun src/houdini-claw/discover.ts --source /mnt/houdini-docs/ --no-db
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import JSZip from "jszip";
+import { initDatabase, type KnowledgeBase } from "./db.js";
+
+// ── Types ──────────────────────────────────────────────────
+
+export interface DiscoveredNode {
+  /** Docs path relative to the docs root, e.g. "nodes/dop/pyrosolver" */
+  path: string;
+  nodeName: string;
+  /** Network context from the docs path: sop, dop, cop, lop, chop, ... */
+  context: string;
+  /** Simulation system (pyro, rbd, flip, vellum, kinefx) or the context */
+  system: string;
+  title?: string;
+}
+
+export type DiscoverySource =
+  | { kind: "site"; baseUrl?: string }
+  | { kind: "directory"; dir: string }
+  | { kind: "archive"; file: string };
+
+// ── Classification ─────────────────────────────────────────
+
+/** Node contexts documented under nodes/<context>/ */
+export const NODE_CONTEXTS = [
+  "obj",
+  "sop",
+  "dop",
+  "cop",
+  "cop2",
+  "lop",
+  "chop",
+  "vop",
+  "out",
+  "top",
+  "shop",
+] as const;
+
+const CONTEXT_SYSTEMS: Record<string, string> = {
+  cop2: "cop",
+  out: "rop",
+};
+
+/**
+ * Name rules for simulation systems, checked in order. Only SOP and DOP
+ * nodes belong to a simulation system; everything else is classified by
+ * its context.
+ */
+const SYSTEM_RULES: Array<{ system: string; contexts: string[]; pattern: RegExp }> = [
+  { system: "vellum", contexts: ["sop", "dop"], pattern: /vellum/ },
+  {
+    system: "flip",
+    contexts: ["sop", "dop"],
+    pattern: /flip|whitewater|particlefluid|ocean|flattenedtank|sand/,
+  },
+  {
+    system: "rbd",
+    contexts: ["sop", "dop"],
+    pattern: /rbd|bullet|fracture|conrel|constraintnetwork|^assemble|connectadjacent/,
+  },
+  {
+    system: "pyro",
+    contexts: ["sop", "dop"],
+    pattern: /pyro|smoke|^gas|^volume|sourcevolume|^sparse/,
+  },
+  {
+    system: "kinefx",
+    contexts: ["sop"],
+    pattern:
+      /^(kinefx|rig|skeleton|bone|joint|motionclip|ikchains|fullbodyik|mocap|ragdoll|agent|character)/,
+  },
+];
+
+/**
+ * Classify a docs path such as "nodes/sop/vellumdrape" by context and system.
+ */
+export function classifyNodePath(nodePath: string): DiscoveredNode | undefined {
+  const match = nodePath.match(/^nodes\/([a-z0-9]+)\/([^/]+)$/);
+  if (!match || !(NODE_CONTEXTS as readonly string[]).includes(match[1])) {
+    return undefined;
+  }
+  const [, context, nodeName] = match;
+  const key = nodeName.toLowerCase().replace(/[^a-z0-9]/g, "");
+  const rule = SYSTEM_RULES.find((r) => r.contexts.includes(context) && r.pattern.test(key));
+  return {
+    path: nodePath,
+    nodeName,
+    context,
+    system: rule?.system ?? CONTEXT_SYSTEMS[context] ?? context,
+  };
+}
+
+/**
+ * Map a file inside a docs mirror or help archive to its docs path.
+ * Accepts "nodes/sop/scatter.html" as well as "sop/scatter.txt" (the layout
+ * of Houdini's nodes.zip). Index and underscore-prefixed pages are skipped.
+ */
+export function nodePathFromFile(relativePath: string): string | undefined {
+  const normalized = relativePath.replace(/\\/g, "/");
+  const match = normalized.match(/(?:^|\/)(?:nodes\/)?([a-z0-9]+)\/([^/]+)\.(?:html?|txt)$/i);
+  if (!match) {
+    return undefined;
+  }
+  const context = match[1].toLowerCase();
+  const name = match[2];
+  if (
+    !(NODE_CONTEXTS as readonly string[]).includes(context) ||
+    name === "index" ||
+    name.startsWith("_")
+  ) {
+    return undefined;
+  }
+  return `nodes/${context}/${name}`;
+}
+
+// ── Index Page Parsing ─────────────────────────────────────
+
+/**
+ * Extract node pages linked from a SideFX docs index page
+ * (e.g. https://www.sidefx.com/docs/houdini/nodes/sop/index.html).
+ */
+export function parseDocsIndex(
+  html: string,
+  indexUrl: string,
+  docsBaseUrl: string,
+): DiscoveredNode[] {
+  const nodes: DiscoveredNode[] = [];
+  const seen = new Set<string>();
+  const linkPattern = /<a\b[^>]*href="([^"#?]+)[^"]*"[^>]*>([\s\S]*?)<\/a>/gi;
+
+  for (const [, href, inner] of html.matchAll(linkPattern)) {
+    let resolved: string;
+    try {
+      resolved = new URL(href, indexUrl).href;
+    } catch {
+      continue;
+    }
+    if (!resolved.startsWith(docsBaseUrl)) {
+      continue;
+    }
+    const nodePath = nodePathFromFile(resolved.slice(docsBaseUrl.length));
+    const node = nodePath ? classifyNodePath(nodePath) : undefined;
+    if (!node || seen.has(node.path)) {
+      continue;
+    }
+    seen.add(node.path);
+    const title = inner
+      .replace(/<[^>]+>/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+    nodes.push(title ? { ...node, title } : node);
+  }
+
+  return nodes;
+}
+
+// ── Discovery Sources ──────────────────────────────────────
+
+const DEFAULT_DOCS_BASE_URL = "https://www.sidefx.com/docs/houdini/";
+
+async function discoverFromSite(
+  baseUrl: string,
+  contexts: readonly string[],
+): Promise<DiscoveredNode[]> {
+  const nodes: DiscoveredNode[] = [];
+  for (const context of contexts) {
+    const indexUrl = `${baseUrl}nodes/${context}/index.html`;
+    try {
+      const response = await fetch(indexUrl, {
+        headers: {
+          "User-Agent": "HoudiniClaw/1.0 (knowledge-base-builder)",
+          Accept: "text/html",
+        },
+      });
+      if (!response.ok) {
+        console.warn(`[discover] HTTP ${response.status} for ${indexUrl}`);
+        continue;
+      }
+      nodes.push(...parseDocsIndex(await response.text(), indexUrl, baseUrl));
+    } catch (err) {
+      console.warn(`[discover] Failed to fetch ${indexUrl}:`, (err as Error).message);
+    }
+  }
+  return nodes;
+}
+
+function listFilesRecursive(dir: string, prefix = ""): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(path.join(dir, prefix), { withFileTypes: true })) {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...listFilesRecursive(dir, relative));
+    } else if (entry.isFile()) {
+      files.push(relative);
+    }
+  }
+  return files;
+}
+
+function nodesFromFiles(files: string[], contexts: readonly string[]): DiscoveredNode[] {
+  const nodes = new Map<string, DiscoveredNode>();
+  for (const file of files) {
+    const nodePath = nodePathFromFile(file);
+    const node = nodePath ? classifyNodePath(nodePath) : undefined;
+    if (node && contexts.includes(node.context) && !nodes.has(node.path)) {
+      nodes.set(node.path, node);
+    }
+  }
+  return [...nodes.values()];
+}
+
+/**
+ * Discover node documentation pages from the docs site, a local mirror
+ * directory, or a help archive, limited to the given contexts.
+ */
+export async function discoverNodePaths(
+  source: DiscoverySource,
+  options?: { contexts?: string[] },
+): Promise<DiscoveredNode[]> {
+  const contexts = options?.contexts ?? NODE_CONTEXTS;
+  let nodes: DiscoveredNode[];
+
+  if (source.kind === "site") {
+    nodes = await discoverFromSite(source.baseUrl ?? DEFAULT_DOCS_BASE_URL, contexts);
+  } else if (source.kind === "directory") {
+    nodes = nodesFromFiles(listFilesRecursive(source.dir), contexts);
+  } else {
+    const zip = await JSZip.loadAsync(fs.readFileSync(source.file));
+    const entries = Object.values(zip.files)
+      .filter((entry) => !entry.dir)
+      .map((entry) => entry.name);
+    nodes = nodesFromFiles(entries, contexts);
+  }
+
+  return nodes.toSorted((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Resolve a CLI source argument: "site", a directory, or a .zip archive.
+ */
+export function parseDiscoverySource(value: string): DiscoverySource {
+  if (value === "site") {
+    return { kind: "site" };
+  }
+  if (value.startsWith("http://") || value.startsWith("https://")) {
+    return { kind: "site", baseUrl: value.endsWith("/") ? value : `${value}/` };
+  }
+  if (!fs.existsSync(value)) {
+    throw new Error(`Discovery source not found: ${value}`);
+  }
+  return fs.statSync(value).isDirectory()
+    ? { kind: "directory", dir: value }
+    : { kind: "archive", file: value };
+}
+
+/**
+ * Group discovered pages by system, in the shape of crawl.ts ALL_NODE_PATHS.
+ */
+export function groupNodePathsBySystem(nodes: DiscoveredNode[]): Record<string, string[]> {
+  const groups: Record<string, string[]> = {};
+  for (const node of nodes) {
+    (groups[node.system] ??= []).push(node.path);
+  }
+  return groups;
+}
+
+/**
+ * Store discovered pages and snapshot coverage per system against them.
+ */
+export function recordDiscovery(
+  kb: KnowledgeBase,
+  nodes: DiscoveredNode[],
+  sourceLabel: string,
+): Array<Record<string, unknown>> {
+  kb.replaceDiscoveredNodes(nodes, sourceLabel);
+  return kb.writeCoverageSnapshot();
+}
+
+// ── CLI Entry Point ────────────────────────────────────────
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const args = process.argv.slice(2);
+  const sourceIdx = args.indexOf("--source");
+  const contextIdx = args.indexOf("--context");
+  const dbIdx = args.indexOf("--db");
+  const noDb = args.includes("--no-db");
+
+  const sourceArg = sourceIdx !== -1 ? args[sourceIdx + 1] : "site";
+  const contexts = contextIdx !== -1 ? args[contextIdx + 1].split(",") : undefined;
+
+  (async () => {
+    const nodes = await discoverNodePaths(parseDiscoverySource(sourceArg), { contexts });
+    const bySystem = Object.fromEntries(
+      Object.entries(groupNodePathsBySystem(nodes)).map(([system, paths]) => [
+        system,
+        paths.length,
+      ]),
+    );
+    console.log(`[discover] ${nodes.length} node pages from ${sourceArg}`);
+
+    if (noDb) {
+      console.log(JSON.stringify({ total: nodes.length, by_system: bySystem, nodes }, null, 2));
+      return;
+    }
+
+    const kb = await initDatabase(dbIdx !== -1 ? args[dbIdx + 1] : undefined);
+    try {
+      const coverage = recordDiscovery(kb, nodes, sourceArg);
+      console.log(JSON.stringify({ total: nodes.length, by_system: bySystem, coverage }, null, 2));
+    } finally {
+      kb.close();
+    }
+  })().catch((err) => {
+    console.error("[discover] Failed:", (err as Error).message);
+    process.exit(1);
+  });
+}
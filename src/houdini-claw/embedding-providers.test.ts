@@ -0,0 +1,145 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { runOpenAiEmbeddingBatches } from "../memory/batch-openai.js";
+import { createEmbeddingProvider as createMemoryEmbeddingProvider } from "../memory/embeddings.js";
+import {
+  createEmbeddingProvider,
+  createHashEmbeddingProvider,
+  resolveEmbeddingProviderOptions,
+} from "./embedding-providers.js";
+
+vi.mock("../memory/embeddings.js", () => ({ createEmbeddingProvider: vi.fn() }));
+vi.mock("../memory/batch-openai.js", () => ({
+  OPENAI_BATCH_ENDPOINT: "/v1/embeddings",
+  runOpenAiEmbeddingBatches: vi.fn(),
+}));
+
+describe("houdini-claw embedding providers", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("hash provider is deterministic and L2-normalized", async () => {
+    const provider = createHashEmbeddingProvider({ dimensions: 64 });
+    const [a, b, c] = await provider.embed([
+      "smoke dissipation",
+      "smoke dissipation",
+      "flip particle separation",
+    ]);
+
+    expect(a).toHaveLength(64);
+    expect(Array.from(a)).toEqual(Array.from(b));
+    expect(Array.from(a)).not.toEqual(Array.from(c));
+    const magnitude = Math.sqrt(a.reduce((sum, v) => sum + v * v, 0));
+    expect(magnitude).toBeCloseTo(1);
+  });
+
+  it("resolves provider, model and dimension from env", () => {
+    vi.stubEnv("HOUDINI_CLAW_EMBEDDING_PROVIDER", "ollama");
+    vi.stubEnv("HOUDINI_CLAW_EMBEDDING_MODEL", "bge-m3");
+    vi.stubEnv("HOUDINI_CLAW_EMBEDDING_DIM", "1024");
+
+    expect(resolveEmbeddingProviderOptions()).toMatchObject({
+      provider: "ollama",
+      model: "bge-m3",
+      dimensions: 1024,
+    });
+    expect(resolveEmbeddingProviderOptions({ provider: "hash" }).provider).toBe("hash");
+  });
+
+  it("falls back to the agent's memorySearch provider and model", () => {
+    const cfg = {
+      agents: { defaults: { memorySearch: { provider: "gemini", model: "text-embedding-004" } } },
+    } as OpenClawConfig;
+
+    expect(resolveEmbeddingProviderOptions({ cfg })).toMatchObject({
+      provider: "gemini",
+      model: "text-embedding-004",
+    });
+    // The memorySearch model is not reused for a different provider
+    expect(resolveEmbeddingProviderOptions({ cfg, provider: "ollama" }).model).toBeUndefined();
+  });
+
+  it("rejects unknown providers", async () => {
+    await expect(createEmbeddingProvider({ provider: "nope" as never })).rejects.toThrow(
+      /Unknown embedding provider/,
+    );
+  });
+
+  it("delegates hosted providers to the shared memory embedding stack", async () => {
+    vi.mocked(createMemoryEmbeddingProvider).mockResolvedValue({
+      requestedProvider: "openai",
+      provider: {
+        id: "openai",
+        model: "text-embedding-3-small",
+        maxInputTokens: 8192,
+        embedQuery: async () => [0.6, 0.8],
+        embedBatch: async (texts) => texts.map(() => [1, 0]),
+      },
+      openAi: {
+        baseUrl: "https://api.openai.com/v1",
+        headers: {},
+        model: "text-embedding-3-small",
+      },
+    });
+    vi.mocked(runOpenAiEmbeddingBatches).mockResolvedValue(new Map([["7", [0, 1]]]));
+
+    const provider = await createEmbeddingProvider({
+      provider: "openai",
+      cfg: {} as OpenClawConfig,
+      batch: true,
+    });
+
+    expect(provider).toMatchObject({ kind: "openai", model: "text-embedding-3-small" });
+    expect(provider.maxInputTokens).toBe(8192);
+    expect(Array.from(await provider.embedQuery("smoke"))).toEqual([
+      expect.closeTo(0.6),
+      expect.closeTo(0.8),
+    ]);
+    const batch = await provider.embedBatchJob?.([{ id: "7", text: "pyro solver" }]);
+    expect(Array.from(batch?.get("7") ?? [])).toEqual([0, 1]);
+    expect(runOpenAiEmbeddingBatches).toHaveBeenCalledWith(
+      expect.objectContaining({
+        requests: [
+          {
+            custom_id: "7",
+            method: "POST",
+            url: "/v1/embeddings",
+            body: { model: "text-embedding-3-small", input: "pyro solver" },
+          },
+        ],
+      }),
+    );
+  });
+
+  it("posts batched input to ollama /api/embed", async () => {
+    const fetchMock = vi.fn(async () => ({
+      ok: true,
+      json: async () => ({
+        embeddings: [
+          [1, 0],
+          [0, 1],
+        ],
+      }),
+    }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const provider = await createEmbeddingProvider({
+      provider: "ollama",
+      baseUrl: "http://gpu-box:11434/",
+    });
+    const vectors = await provider.embed(["a", "b"]);
+
+    expect(vectors.map((v) => Array.from(v))).toEqual([
+      [1, 0],
+      [0, 1],
+    ]);
+    expect(fetchMock).toHaveBeenCalledWith(
+      "http://gpu-box:11434/api/embed",
+      expect.objectContaining({
+        body: JSON.stringify({ model: "nomic-embed-text", input: ["a", "b"] }),
+      }),
+    );
+  });
+});
@@ -0,0 +1,393 @@
+/**
+ * Houdini Claw - Embedding Providers
+ *
+ * Pluggable embedding backends for the knowledge base vector index:
+ *   - openai, gemini, voyage, local: the shared memory embedding stack
+ *     (src/memory/embeddings.ts) with auth profiles, input-size limits and
+ *     provider batch jobs. An OpenAI-compatible server given by base URL and no
+ *     API key (llama.cpp server, vLLM) is called directly instead.
+ *   - ollama: Ollama's native `/api/embed` endpoint
+ *   - hash:   in-process deterministic feature hashing (offline, tests)
+ *
+ * Selection comes from explicit options first, then HOUDINI_CLAW_EMBEDDING_* env
+ * vars, then the agent's `memorySearch` settings when a config is given.
+ */
+
+import crypto from "node:crypto";
+import { resolveAgentDir, resolveDefaultAgentId } from "../agents/agent-scope.js";
+import { resolveMemorySearchConfig } from "../agents/memory-search.js";
+import { loadConfig, type OpenClawConfig } from "../config/config.js";
+import { type GeminiBatchRequest, runGeminiEmbeddingBatches } from "../memory/batch-gemini.js";
+import {
+  OPENAI_BATCH_ENDPOINT,
+  type OpenAiBatchRequest,
+  runOpenAiEmbeddingBatches,
+} from "../memory/batch-openai.js";
+import { type VoyageBatchRequest, runVoyageEmbeddingBatches } from "../memory/batch-voyage.js";
+import { resolveEmbeddingMaxInputTokens } from "../memory/embedding-model-limits.js";
+import {
+  createEmbeddingProvider as createMemoryEmbeddingProvider,
+  type EmbeddingProviderResult as MemoryEmbeddingProviderResult,
+} from "../memory/embeddings.js";
+
+export type EmbeddingProviderKind = "openai" | "gemini" | "voyage" | "local" | "ollama" | "hash";
+
+export interface EmbeddingProviderOptions {
+  provider?: EmbeddingProviderKind;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  /** Required for the hash provider; optional hint for remote providers */
+  dimensions?: number;
+  /** Config for auth profiles and `memorySearch` defaults (loaded when omitted) */
+  cfg?: OpenClawConfig;
+  agentId?: string;
+  /** Embed index rebuilds through provider batch jobs (openai, gemini, voyage) */
+  batch?: boolean;
+}
+
+export interface EmbeddingProvider {
+  kind: EmbeddingProviderKind;
+  model: string;
+  /** Known up front for the hash provider, otherwise discovered from the first response */
+  dimensions?: number;
+  /** Longest input (in estimated tokens) the model accepts */
+  maxInputTokens: number;
+  embed(texts: string[]): Promise<Float32Array[]>;
+  embedQuery(text: string): Promise<Float32Array>;
+  /** Asynchronous provider batch job keyed by request id; set when batching is enabled */
+  embedBatchJob?: (
+    requests: Array<{ id: string; text: string }>,
+  ) => Promise<Map<string, Float32Array>>;
+}
+
+const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_OPENAI_MODEL = "text-embedding-3-small";
+const DEFAULT_OLLAMA_MODEL = "nomic-embed-text";
+const DEFAULT_OLLAMA_BASE_URL = "http://127.0.0.1:11434";
+const DEFAULT_HASH_MODEL = "hash-v1";
+const DEFAULT_HASH_DIMENSIONS = 256;
+const DEFAULT_MAX_INPUT_TOKENS = 8192;
+
+const PROVIDER_KINDS: readonly EmbeddingProviderKind[] = [
+  "openai",
+  "gemini",
+  "voyage",
+  "local",
+  "ollama",
+  "hash",
+];
+
+/** Same defaults the memory manager applies to `memorySearch.remote.batch` */
+const BATCH_JOB_DEFAULTS = {
+  wait: true,
+  concurrency: 2,
+  pollIntervalMs: 2000,
+  timeoutMs: 60 * 60 * 1000,
+};
+
+/**
+ * Resolve provider options from explicit values, environment variables and
+ * the agent's `memorySearch` settings (only when `cfg` is given).
+ */
+export function resolveEmbeddingProviderOptions(
+  options?: EmbeddingProviderOptions,
+): Required<Pick<EmbeddingProviderOptions, "provider">> & EmbeddingProviderOptions {
+  const memorySearch = options?.cfg
+    ? resolveMemorySearchConfig(options.cfg, options.agentId ?? resolveDefaultAgentId(options.cfg))
+    : null;
+  const memoryProvider =
+    memorySearch && memorySearch.provider !== "auto" ? memorySearch.provider : undefined;
+
+  const envProvider = process.env.HOUDINI_CLAW_EMBEDDING_PROVIDER?.trim().toLowerCase();
+  const provider = options?.provider ?? (envProvider || memoryProvider || "openai");
+  if (!PROVIDER_KINDS.includes(provider as EmbeddingProviderKind)) {
+    throw new Error(
+      `Unknown embedding provider "${provider}". Expected one of: ${PROVIDER_KINDS.join(", ")}`,
+    );
+  }
+  // memorySearch model/remote settings only apply to the provider they were written for
+  const sharesMemoryProvider = provider === memoryProvider;
+
+  const envDims = process.env.HOUDINI_CLAW_EMBEDDING_DIM;
+  const dimensions = options?.dimensions ?? (envDims ? parseInt(envDims, 10) : undefined);
+
+  return {
+    ...options,
+    provider: provider as EmbeddingProviderKind,
+    model:
+      options?.model ??
+      process.env.HOUDINI_CLAW_EMBEDDING_MODEL ??
+      (sharesMemoryProvider ? memorySearch?.model : undefined),
+    apiKey: options?.apiKey ?? (sharesMemoryProvider ? memorySearch?.remote?.apiKey : undefined),
+    baseUrl:
+      options?.baseUrl ??
+      process.env.HOUDINI_CLAW_EMBEDDING_BASE_URL ??
+      (sharesMemoryProvider ? memorySearch?.remote?.baseUrl : undefined),
+    dimensions: dimensions !== undefined && Number.isFinite(dimensions) ? dimensions : undefined,
+    batch: options?.batch ?? (sharesMemoryProvider && memorySearch?.remote?.batch?.enabled),
+  };
+}
+
+/**
+ * Create an embedding provider from options / environment / config.
+ */
+export async function createEmbeddingProvider(
+  options?: EmbeddingProviderOptions,
+): Promise<EmbeddingProvider> {
+  const resolved = resolveEmbeddingProviderOptions(options);
+  switch (resolved.provider) {
+    case "hash":
+      return createHashEmbeddingProvider(resolved);
+    case "ollama":
+      return createOllamaEmbeddingProvider(resolved);
+    case "openai":
+      if (resolved.baseUrl && !resolved.apiKey && !isHostedOpenAi(resolved.baseUrl)) {
+        return createOpenAiCompatibleEmbeddingProvider(resolved);
+      }
+      return createSharedEmbeddingProvider(resolved);
+    case "gemini":
+    case "voyage":
+    case "local":
+      return createSharedEmbeddingProvider(resolved);
+  }
+}
+
+function isHostedOpenAi(baseUrl: string): boolean {
+  return baseUrl.replace(/\/+$/, "") === DEFAULT_OPENAI_BASE_URL;
+}
+
+/**
+ * Wrap a memory-stack provider (same auth, model limits and batch clients as
+ * memory search) in the Float32Array interface used by kb_vec.
+ */
+async function createSharedEmbeddingProvider(
+  options: EmbeddingProviderOptions & { provider: EmbeddingProviderKind },
+): Promise<EmbeddingProvider> {
+  const cfg = options.cfg ?? loadConfig();
+  const agentId = options.agentId ?? resolveDefaultAgentId(cfg);
+  const kind = options.provider as "openai" | "gemini" | "voyage" | "local";
+  const result = await createMemoryEmbeddingProvider({
+    config: cfg,
+    agentDir: resolveAgentDir(cfg, agentId),
+    provider: kind,
+    model: kind === "local" ? "" : (options.model ?? ""),
+    fallback: "none",
+    remote:
+      options.apiKey || options.baseUrl
+        ? { apiKey: options.apiKey, baseUrl: options.baseUrl }
+        : undefined,
+    local: kind === "local" ? { modelPath: options.model } : undefined,
+  });
+  const shared = result.provider;
+  if (!shared) {
+    throw new Error(result.providerUnavailableReason ?? `No ${kind} embedding provider available.`);
+  }
+
+  return {
+    kind,
+    model: shared.model,
+    dimensions: options.dimensions,
+    maxInputTokens: resolveEmbeddingMaxInputTokens(shared),
+    async embed(texts) {
+      const vectors = await shared.embedBatch(texts);
+      return vectors.map((vector) => new Float32Array(vector));
+    },
+    async embedQuery(text) {
+      return new Float32Array(await shared.embedQuery(text));
+    },
+    embedBatchJob: options.batch ? createBatchJobRunner(result, agentId) : undefined,
+  };
+}
+
+/**
+ * Route index rebuilds through the provider's asynchronous batch API, using
+ * the clients the memory stack resolved for the provider.
+ */
+function createBatchJobRunner(
+  result: MemoryEmbeddingProviderResult,
+  agentId: string,
+): EmbeddingProvider["embedBatchJob"] {
+  const toVectors = (byId: Map<string, number[]>) =>
+    new Map(Array.from(byId, ([id, vector]) => [id, new Float32Array(vector)]));
+  const { openAi, gemini, voyage } = result;
+
+  if (result.provider?.id === "openai" && openAi) {
+    return async (requests) =>
+      toVectors(
+        await runOpenAiEmbeddingBatches({
+          ...BATCH_JOB_DEFAULTS,
+          openAi,
+          agentId,
+          requests: requests.map(
+            (request): OpenAiBatchRequest => ({
+              custom_id: request.id,
+              method: "POST",
+              url: OPENAI_BATCH_ENDPOINT,
+              body: { model: openAi.model, input: request.text },
+            }),
+          ),
+        }),
+      );
+  }
+  if (result.provider?.id === "gemini" && gemini) {
+    return async (requests) =>
+      toVectors(
+        await runGeminiEmbeddingBatches({
+          ...BATCH_JOB_DEFAULTS,
+          gemini,
+          agentId,
+          requests: requests.map(
+            (request): GeminiBatchRequest => ({
+              custom_id: request.id,
+              content: { parts: [{ text: request.text }] },
+              taskType: "RETRIEVAL_DOCUMENT",
+            }),
+          ),
+        }),
+      );
+  }
+  if (result.provider?.id === "voyage" && voyage) {
+    return async (requests) =>
+      toVectors(
+        await runVoyageEmbeddingBatches({
+          ...BATCH_JOB_DEFAULTS,
+          client: voyage,
+          agentId,
+          requests: requests.map(
+            (request): VoyageBatchRequest => ({
+              custom_id: request.id,
+              body: { input: request.text },
+            }),
+          ),
+        }),
+      );
+  }
+  return undefined;
+}
+
+/**
+ * Keyless OpenAI-compatible `/embeddings` endpoint on a local server
+ * (llama.cpp, vLLM). Hosted OpenAI goes through the shared stack instead.
+ */
+function createOpenAiCompatibleEmbeddingProvider(
+  options: EmbeddingProviderOptions,
+): EmbeddingProvider {
+  const model = options.model ?? DEFAULT_OPENAI_MODEL;
+  const baseUrl = (options.baseUrl ?? DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, "");
+
+  const embed = async (texts: string[]) => {
+    const response = await fetch(`${baseUrl}/embeddings`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model, input: texts, encoding_format: "float" }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`Embedding API error ${response.status}: ${body}`);
+    }
+
+    const result = (await response.json()) as {
+      data: Array<{ embedding: number[]; index?: number }>;
+    };
+    const ordered = result.data.toSorted((a, b) => (a.index ?? 0) - (b.index ?? 0));
+    return ordered.map((item) => new Float32Array(item.embedding));
+  };
+
+  return {
+    kind: "openai",
+    model,
+    dimensions: options.dimensions,
+    maxInputTokens: DEFAULT_MAX_INPUT_TOKENS,
+    embed,
+    async embedQuery(text) {
+      const [vector] = await embed([text]);
+      return vector;
+    },
+  };
+}
+
+/**
+ * Ollama native embedding endpoint (`POST /api/embed`).
+ */
+function createOllamaEmbeddingProvider(options: EmbeddingProviderOptions): EmbeddingProvider {
+  const model = options.model ?? DEFAULT_OLLAMA_MODEL;
+  const baseUrl = (options.baseUrl ?? DEFAULT_OLLAMA_BASE_URL).replace(/\/+$/, "");
+
+  const embed = async (texts: string[]) => {
+    const response = await fetch(`${baseUrl}/api/embed`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model, input: texts }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`Ollama embedding error ${response.status}: ${body}`);
+    }
+
+    const result = (await response.json()) as { embeddings: number[][] };
+    return result.embeddings.map((embedding) => new Float32Array(embedding));
+  };
+
+  return {
+    kind: "ollama",
+    model,
+    dimensions: options.dimensions,
+    maxInputTokens: DEFAULT_MAX_INPUT_TOKENS,
+    embed,
+    async embedQuery(text) {
+      const [vector] = await embed([text]);
+      return vector;
+    },
+  };
+}
+
+/**
+ * Deterministic feature-hashing embedder. Each lowercase word token is hashed
+ * into a signed bucket and the vector is L2-normalized. No network, no model
+ * files, identical output across machines — suitable for air-gapped setups and tests.
+ */
+export function createHashEmbeddingProvider(options?: EmbeddingProviderOptions): EmbeddingProvider {
+  const dimensions = options?.dimensions ?? DEFAULT_HASH_DIMENSIONS;
+  if (!Number.isInteger(dimensions) || dimensions <= 0) {
+    throw new Error(`Invalid hash embedding dimensions: ${dimensions}`);
+  }
+
+  return {
+    kind: "hash",
+    model: options?.model ?? DEFAULT_HASH_MODEL,
+    dimensions,
+    maxInputTokens: DEFAULT_MAX_INPUT_TOKENS,
+    async embed(texts) {
+      return texts.map((text) => hashEmbed(text, dimensions));
+    },
+    async embedQuery(text) {
+      return hashEmbed(text, dimensions);
+    },
+  };
+}
+
+function hashEmbed(text: string, dimensions: number): Float32Array {
+  const vec = new Float32Array(dimensions);
+  const tokens = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+  for (const token of tokens) {
+    const digest = crypto.createHash("sha256").update(token).digest();
+    const bucket = digest.readUInt32BE(0) % dimensions;
+    const sign = (digest[4] & 1) === 0 ? 1 : -1;
+    vec[bucket] += sign;
+  }
+
+  let magnitude = 0;
+  for (const value of vec) {
+    magnitude += value * value;
+  }
+  magnitude = Math.sqrt(magnitude);
+  if (magnitude > 0) {
+    for (let i = 0; i < vec.length; i++) {
+      vec[i] /= magnitude;
+    }
+  }
+  return vec;
+}
@@ -0,0 +1,196 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { initDatabase, type KnowledgeBase } from "./db.js";
+import {
+  buildNodeGraph,
+  checkNetwork,
+  deriveNodeEdges,
+  findBuildPath,
+  loadNodeGraph,
+  parseNetworkDescription,
+  parseTypicalNetwork,
+  syncNodeEdges,
+  type NodeEdge,
+} from "./graph.js";
+
+function pyroEdges(): NodeEdge[] {
+  return [
+    ...deriveNodeEdges({
+      node_name: "pyro_solver",
+      node_category: "DOP",
+      prerequisite_nodes: ["smoke_object", "source_volume"],
+      typical_network:
+        "DOP Network → Smoke Object → Pyro Solver → (optional: Gas Resize, Gas Turbulence, source_volume merges)",
+    }),
+    ...deriveNodeEdges({
+      node_name: "source_volume",
+      node_category: "DOP",
+      prerequisite_nodes: ["volume_rasterize_attributes"],
+    }),
+  ];
+}
+
+describe("houdini-claw node graph", () => {
+  it("parses typical_network chains and optional groups", () => {
+    expect(
+      parseTypicalNetwork(
+        "Geometry → Scatter (fracture points) → Voronoi Fracture → (optional: Assemble)",
+      ),
+    ).toEqual({
+      chain: ["scatter", "voronoi_fracture"],
+      optional: [{ node: "assemble", attachTo: "voronoi_fracture" }],
+    });
+  });
+
+  it("keeps the strongest relation when a pair appears twice", () => {
+    const edges = pyroEdges().filter((e) => e.downstream === "pyro_solver");
+    expect(edges).toEqual([
+      { upstream: "smoke_object", downstream: "pyro_solver", relation: "required", context: "DOP" },
+      {
+        upstream: "source_volume",
+        downstream: "pyro_solver",
+        relation: "required",
+        context: "DOP",
+      },
+      { upstream: "gas_resize", downstream: "pyro_solver", relation: "optional", context: "DOP" },
+      {
+        upstream: "gas_turbulence",
+        downstream: "pyro_solver",
+        relation: "optional",
+        context: "DOP",
+      },
+    ]);
+  });
+
+  it("orders the build path prerequisites first", () => {
+    const graph = buildNodeGraph(pyroEdges());
+
+    const path = findBuildPath(graph, "Pyro Solver")!;
+    expect(path.steps.map((s) => s.node)).toEqual([
+      "smoke_object",
+      "volume_rasterize_attributes",
+      "source_volume",
+      "pyro_solver",
+    ]);
+    expect(path.steps.at(-1)?.inputs.map((i) => i.node)).toEqual(["smoke_object", "source_volume"]);
+
+    const withOptional = findBuildPath(graph, "pyro_solver", { includeOptional: true })!;
+    expect(withOptional.steps.map((s) => s.node)).toContain("gas_resize");
+
+    const fromSource = findBuildPath(graph, "pyrosolver", { from: "source_volume" })!;
+    expect(fromSource.steps.map((s) => s.node)).toEqual([
+      "smoke_object",
+      "volume_rasterize_attributes",
+      "source_volume",
+      "pyro_solver",
+    ]);
+    expect(findBuildPath(graph, "source_volume", { from: "smoke_object" })?.connected).toBe(false);
+    expect(findBuildPath(graph, "flip_solver")).toBeUndefined();
+  });
+
+  it("reports cycles in the graph instead of ordering them", () => {
+    const graph = buildNodeGraph([
+      { upstream: "a", downstream: "b", relation: "required" },
+      { upstream: "b", downstream: "a", relation: "typical" },
+      { upstream: "b", downstream: "c", relation: "required" },
+    ]);
+
+    const path = findBuildPath(graph, "c")!;
+    expect(path.cycles).toEqual([["a", "b"]]);
+    expect(path.steps.map((s) => s.node)).toEqual(["c"]);
+  });
+
+  it("checks a described network for missing, unwired and cyclic nodes", () => {
+    const graph = buildNodeGraph(pyroEdges());
+
+    const network = parseNetworkDescription(
+      "Source Volume -> Smoke Object -> Pyro Solver\nPyro Solver -> Smoke Object; Gas Wind",
+    );
+    expect(network.nodes).toEqual(["source_volume", "smoke_object", "pyro_solver", "gas_wind"]);
+
+    const check = checkNetwork(graph, network);
+    expect(check.ok).toBe(false);
+    expect(check.missing).toEqual([
+      { node: "source_volume", prerequisite: "volume_rasterize_attributes" },
+    ]);
+    expect(check.cycles).toEqual([["pyro_solver", "smoke_object"]]);
+    expect(check.unknown).toEqual(["gas_wind"]);
+
+    const unwired = checkNetwork(graph, {
+      nodes: ["smoke_object", "source_volume", "volume_rasterize_attributes", "pyro_solver"],
+      connections: [
+        { from: "smoke_object", to: "pyro_solver" },
+        { from: "volume_rasterize_attributes", to: "source_volume" },
+      ],
+    });
+    expect(unwired.unconnected).toEqual([{ node: "pyro_solver", prerequisite: "source_volume" }]);
+  });
+});
+
+describe("houdini-claw node graph against a real database", () => {
+  let tempDir: string | undefined;
+  let kb: KnowledgeBase | undefined;
+
+  afterEach(() => {
+    kb?.close();
+    kb = undefined;
+    if (tempDir) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      tempDir = undefined;
+    }
+  });
+
+  function annotatePyroSolver(db: KnowledgeBase, houdiniVersion: string, prerequisites: string[]) {
+    db.upsertNodeAnnotation({
+      node_name: "pyro_solver",
+      node_category: "DOP",
+      houdini_version: houdiniVersion,
+      one_line: "Sparse pyro solver",
+      prerequisite_nodes: prerequisites,
+      typical_network: "Smoke Object → Pyro Solver",
+      annotation_yaml: "",
+      annotated_at: "2026-01-01T00:00:00Z",
+      annotation_model: "test",
+    });
+  }
+
+  it("backfills edges on first load and picks each node's nearest version", async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "houdini-claw-graph-"));
+    const db = await initDatabase(path.join(tempDir, "kb.db"));
+    kb = db;
+    annotatePyroSolver(db, "20.0", ["smoke_object"]);
+    annotatePyroSolver(db, "20.5", ["smoke_object", "source_volume"]);
+    expect(db.countNodeEdges()).toBe(0);
+
+    const latest = loadNodeGraph(db);
+    expect(db.countNodeEdges()).toBe(3);
+    expect(findBuildPath(latest, "pyro_solver")?.steps.map((s) => s.node)).toEqual([
+      "smoke_object",
+      "source_volume",
+      "pyro_solver",
+    ]);
+
+    const older = loadNodeGraph(db, "20.0.600");
+    expect(findBuildPath(older, "pyro_solver")?.steps.map((s) => s.node)).toEqual([
+      "smoke_object",
+      "pyro_solver",
+    ]);
+    expect(db.getNodeEdges("19.5")).toEqual([]);
+  });
+
+  it("replaces a node's edges when its annotation is re-synced", async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "houdini-claw-graph-"));
+    const db = await initDatabase(path.join(tempDir, "kb.db"));
+    kb = db;
+    annotatePyroSolver(db, "20.5", ["smoke_object", "source_volume"]);
+    expect(syncNodeEdges(db)).toBe(2);
+
+    annotatePyroSolver(db, "20.5", ["smoke_object"]);
+    expect(syncNodeEdges(db, "pyro_solver")).toBe(1);
+    expect(db.getNodeEdges()).toMatchObject([
+      { upstream: "smoke_object", downstream: "pyro_solver", relation: "required" },
+    ]);
+  });
+});
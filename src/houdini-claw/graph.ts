@@ -0,0 +1,510 @@
+/**
+ * Houdini Claw - Node Relationship Graph
+ *
+ * Normalizes the network context stored on node annotations into upstream →
+ * downstream edges (the node_edges table). `prerequisite_nodes` become
+ * required edges; the arrow chain in `typical_network`, e.g.
+ * "DOP Network → Smoke Object → Pyro Solver → (optional: Gas Resize)",
+ * becomes typical edges between consecutive nodes and optional edges into the
+ * node before the "(optional: ...)" group.
+ *
+ * On top of the edges this answers "what do I need upstream of a FLIP solver"
+ * as an ordered build path, and checks a user-described network for cycles
+ * and missing prerequisites. Node names are compared with normalizeNodeType,
+ * so "Pyro Solver", "pyro_solver" and "pyrosolver" are the same node.
+ */
+
+import type { KnowledgeBase } from "./db.js";
+import { collectUpstream, normalizeNodeType } from "./lint.js";
+
+// ── Types ──────────────────────────────────────────────────
+
+/** required: from prerequisite_nodes; typical: typical_network chain; optional: "(optional: ...)" */
+export type EdgeRelation = "required" | "typical" | "optional";
+
+export interface NodeEdge {
+  upstream: string;
+  downstream: string;
+  relation: EdgeRelation;
+  /** Network context (DOP, SOP, ...) of the annotation the edge came from */
+  context?: string;
+}
+
+export interface NodeGraph {
+  /** Display name (as stored) for each normalized node key */
+  names: Map<string, string>;
+  /** Edges into each node, keyed by normalized downstream node */
+  upstream: Map<string, NodeEdge[]>;
+  /** Edges out of each node, keyed by normalized upstream node */
+  downstream: Map<string, NodeEdge[]>;
+}
+
+export interface BuildStep {
+  node: string;
+  context?: string;
+  /** Upstream nodes on the path, in the order they should be wired in */
+  inputs: Array<{ node: string; relation: EdgeRelation }>;
+}
+
+export interface BuildPath {
+  target: string;
+  from?: string;
+  /** False when `from` is not upstream of the target */
+  connected: boolean;
+  /** Nodes in build order: everything a step needs comes before it */
+  steps: BuildStep[];
+  /** Nodes that depend on each other in a loop; they are left out of `steps` */
+  cycles: string[][];
+}
+
+export interface NetworkDescription {
+  nodes: string[];
+  connections?: Array<{ from: string; to: string }>;
+}
+
+export interface NetworkCheck {
+  ok: boolean;
+  nodes: string[];
+  /** Required prerequisites that are not in the network at all */
+  missing: Array<{ node: string; prerequisite: string }>;
+  /** Required prerequisites that exist but are not wired upstream of the node */
+  unconnected: Array<{ node: string; prerequisite: string }>;
+  cycles: string[][];
+  /** Nodes with no recorded relationships (not annotated, or annotated without network context) */
+  unknown: string[];
+}
+
+// ── Constants ──────────────────────────────────────────────
+
+const RELATION_RANK: Record<EdgeRelation, number> = { required: 0, typical: 1, optional: 2 };
+
+/**
+ * Containers that head typical_network chains ("DOP Network → ..."). They hold
+ * the nodes rather than feed them, so they get no edges.
+ */
+const CONTAINER_NODES = new Set(["dopnetwork", "dopnet", "geometry", "geo", "obj"]);
+
+// ── Edge Derivation ────────────────────────────────────────
+
+/**
+ * Turn a node label from annotation text into a node key:
+ * "Scatter (fracture points)" → "scatter", "source_volume merges" → "source_volume".
+ */
+export function toNodeKey(label: string): string {
+  return label
+    .replace(/\([^)]*\)/g, " ")
+    .replace(/\s+merges?\s*$/i, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+function isContainer(key: string): boolean {
+  return CONTAINER_NODES.has(normalizeNodeType(key));
+}
+
+/**
+ * Split a typical_network description into its main chain and the optional
+ * nodes attached to the chain node that precedes each "(optional: ...)" group.
+ */
+export function parseTypicalNetwork(text: string): {
+  chain: string[];
+  optional: Array<{ node: string; attachTo: string }>;
+} {
+  const chain: string[] = [];
+  const optional: Array<{ node: string; attachTo: string }> = [];
+  for (const segment of text.split(/\s*(?:→|->|=>)\s*/)) {
+    const group = segment.trim().match(/^\(\s*optional\s*:\s*([^)]*)\)?$/i);
+    if (group) {
+      const attachTo = chain.at(-1);
+      for (const item of group[1].split(",")) {
+        const node = toNodeKey(item);
+        if (attachTo && node && !isContainer(node)) {
+          optional.push({ node, attachTo });
+        }
+      }
+      continue;
+    }
+    const key = toNodeKey(segment);
+    if (key && !isContainer(key)) {
+      chain.push(key);
+    }
+  }
+  return { chain, optional };
+}
+
+/**
+ * Edges implied by one node annotation. A pair listed both as a prerequisite
+ * and in typical_network keeps the stronger relation.
+ */
+export function deriveNodeEdges(annotation: {
+  node_name: string;
+  node_category?: string;
+  prerequisite_nodes?: string[];
+  typical_network?: string;
+}): NodeEdge[] {
+  const context = annotation.node_category || undefined;
+  const edges = new Map<string, NodeEdge>();
+  const add = (upstream: string, downstream: string, relation: EdgeRelation) => {
+    if (!upstream || !downstream || normalizeNodeType(upstream) === normalizeNodeType(downstream)) {
+      return;
+    }
+    const id = `${normalizeNodeType(upstream)}>${normalizeNodeType(downstream)}`;
+    const existing = edges.get(id);
+    if (!existing || RELATION_RANK[relation] < RELATION_RANK[existing.relation]) {
+      edges.set(id, { upstream, downstream, relation, ...(context ? { context } : {}) });
+    }
+  };
+
+  for (const prerequisite of annotation.prerequisite_nodes ?? []) {
+    add(toNodeKey(prerequisite), annotation.node_name, "required");
+  }
+  if (annotation.typical_network) {
+    const { chain, optional } = parseTypicalNetwork(annotation.typical_network);
+    for (let i = 1; i < chain.length; i++) {
+      add(chain[i - 1], chain[i], "typical");
+    }
+    for (const { node, attachTo } of optional) {
+      add(node, attachTo, "optional");
+    }
+  }
+  return [...edges.values()];
+}
+
+// ── Graph Queries ──────────────────────────────────────────
+
+/**
+ * Index edges by node. The same pair recorded by several annotations keeps
+ * the strongest relation.
+ */
+export function buildNodeGraph(edges: NodeEdge[]): NodeGraph {
+  const graph: NodeGraph = { names: new Map(), upstream: new Map(), downstream: new Map() };
+  const strongest = new Map<string, NodeEdge>();
+  for (const edge of edges) {
+    const id = `${normalizeNodeType(edge.upstream)}>${normalizeNodeType(edge.downstream)}`;
+    const existing = strongest.get(id);
+    if (!existing || RELATION_RANK[edge.relation] < RELATION_RANK[existing.relation]) {
+      strongest.set(id, edge);
+    }
+  }
+  for (const edge of strongest.values()) {
+    const up = normalizeNodeType(edge.upstream);
+    const down = normalizeNodeType(edge.downstream);
+    if (!graph.names.has(up)) {
+      graph.names.set(up, edge.upstream);
+    }
+    if (!graph.names.has(down)) {
+      graph.names.set(down, edge.downstream);
+    }
+    graph.upstream.set(down, [...(graph.upstream.get(down) ?? []), edge]);
+    graph.downstream.set(up, [...(graph.downstream.get(up) ?? []), edge]);
+  }
+  return graph;
+}
+
+/**
+ * Re-derive node_edges from node annotations: one node (all versions) after
+ * an ingest or review edit, or every node when `nodeName` is omitted.
+ * Returns the number of edges written.
+ */
+export function syncNodeEdges(kb: KnowledgeBase, nodeName?: string): number {
+  let written = 0;
+  for (const row of kb.getNodeNetworkRows(nodeName)) {
+    const edges = deriveNodeEdges({
+      node_name: row.node_name,
+      node_category: row.node_category ?? undefined,
+      prerequisite_nodes: parseJsonArray(row.prerequisite_nodes),
+      typical_network: row.typical_network ?? undefined,
+    });
+    kb.replaceNodeEdges(row.node_name, row.houdini_version, edges);
+    written += edges.length;
+  }
+  return written;
+}
+
+/**
+ * Graph of each node's annotation nearest to `houdiniVersion`. Databases
+ * created before node_edges existed are backfilled on first use.
+ */
+export function loadNodeGraph(kb: KnowledgeBase, houdiniVersion?: string): NodeGraph {
+  if (kb.countNodeEdges() === 0) {
+    syncNodeEdges(kb);
+  }
+  return buildNodeGraph(kb.getNodeEdges(houdiniVersion));
+}
+
+function parseJsonArray(value: string | null): string[] {
+  if (!value) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed) ? parsed.filter((v): v is string => typeof v === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Nodes reachable from `start` following edges with an allowed relation */
+function reachable(
+  graph: NodeGraph,
+  start: string,
+  direction: "upstream" | "downstream",
+  relations: Set<EdgeRelation>,
+): Set<string> {
+  const seen = new Set<string>();
+  const stack = [start];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    for (const edge of graph[direction].get(current) ?? []) {
+      if (!relations.has(edge.relation)) {
+        continue;
+      }
+      const next = normalizeNodeType(direction === "upstream" ? edge.upstream : edge.downstream);
+      if (!seen.has(next)) {
+        seen.add(next);
+        stack.push(next);
+      }
+    }
+  }
+  return seen;
+}
+
+/**
+ * Strongly connected components with more than one node (or a self-loop),
+ * i.e. groups of nodes that depend on each other in a loop.
+ */
+export function findCycles(adjacency: Map<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  const visit = (node: string) => {
+    index.set(node, counter);
+    lowLink.set(node, counter);
+    counter++;
+    stack.push(node);
+    onStack.add(node);
+    for (const next of adjacency.get(node) ?? []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(node, Math.min(lowLink.get(node)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(node, Math.min(lowLink.get(node)!, index.get(next)!));
+      }
+    }
+    if (lowLink.get(node) === index.get(node)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+      if (component.length > 1 || adjacency.get(node)?.includes(node)) {
+        cycles.push(component.toSorted());
+      }
+    }
+  };
+
+  for (const node of adjacency.keys()) {
+    if (!index.has(node)) {
+      visit(node);
+    }
+  }
+  return cycles;
+}
+
+/**
+ * Ordered build path to `target`: every node upstream of it (required and
+ * typical edges; optional ones too with `includeOptional`), prerequisites
+ * first. With `from`, only nodes between `from` and the target are kept, plus
+ * the required prerequisites those nodes need. Returns undefined when the
+ * target has no recorded relationships.
+ */
+export function findBuildPath(
+  graph: NodeGraph,
+  target: string,
+  options?: { from?: string; includeOptional?: boolean },
+): BuildPath | undefined {
+  const targetKey = normalizeNodeType(target);
+  if (!graph.names.has(targetKey)) {
+    return undefined;
+  }
+  const targetName = graph.names.get(targetKey)!;
+  const relations = new Set<EdgeRelation>(
+    options?.includeOptional ? ["required", "typical", "optional"] : ["required", "typical"],
+  );
+  const ancestors = reachable(graph, targetKey, "upstream", relations);
+
+  const nodes = new Set<string>([targetKey]);
+  let fromName: string | undefined;
+  if (options?.from) {
+    const fromKey = normalizeNodeType(options.from);
+    fromName = graph.names.get(fromKey) ?? options.from;
+    if (!ancestors.has(fromKey)) {
+      return { target: targetName, from: fromName, connected: false, steps: [], cycles: [] };
+    }
+    const descendants = reachable(graph, fromKey, "downstream", relations);
+    nodes.add(fromKey);
+    for (const key of ancestors) {
+      if (descendants.has(key)) {
+        nodes.add(key);
+      }
+    }
+    // Whatever is on the path still needs its own required inputs
+    for (const key of nodes) {
+      for (const prerequisite of reachable(graph, key, "upstream", new Set(["required"]))) {
+        nodes.add(prerequisite);
+      }
+    }
+  } else {
+    for (const key of ancestors) {
+      nodes.add(key);
+    }
+  }
+
+  // Sub-graph edges between the selected nodes
+  const inputs = new Map<string, NodeEdge[]>();
+  const adjacency = new Map<string, string[]>();
+  for (const key of nodes) {
+    const edges = (graph.upstream.get(key) ?? []).filter(
+      (edge) => relations.has(edge.relation) && nodes.has(normalizeNodeType(edge.upstream)),
+    );
+    inputs.set(key, edges);
+    for (const edge of edges) {
+      const up = normalizeNodeType(edge.upstream);
+      adjacency.set(up, [...(adjacency.get(up) ?? []), key]);
+    }
+  }
+  const cycles = findCycles(adjacency);
+  const inCycle = new Set(cycles.flat());
+
+  // Kahn's algorithm; ties are broken by name so the order is stable
+  const pending = new Map(
+    [...nodes]
+      .filter((key) => !inCycle.has(key))
+      .map((key) => [
+        key,
+        inputs.get(key)!.filter((edge) => !inCycle.has(normalizeNodeType(edge.upstream))).length,
+      ]),
+  );
+  const steps: BuildStep[] = [];
+  while (pending.size > 0) {
+    const ready = [...pending.entries()]
+      .filter(([, count]) => count === 0)
+      .map(([key]) => key)
+      .toSorted();
+    if (ready.length === 0) {
+      break;
+    }
+    for (const key of ready) {
+      pending.delete(key);
+      const edges = inputs.get(key)!;
+      steps.push({
+        node: graph.names.get(key)!,
+        ...(edges[0]?.context ? { context: edges[0].context } : {}),
+        inputs: edges
+          .toSorted((a, b) => RELATION_RANK[a.relation] - RELATION_RANK[b.relation])
+          .map((edge) => ({ node: edge.upstream, relation: edge.relation })),
+      });
+      for (const next of adjacency.get(key) ?? []) {
+        const count = pending.get(next);
+        if (count !== undefined) {
+          pending.set(next, count - 1);
+        }
+      }
+    }
+  }
+
+  return {
+    target: targetName,
+    ...(fromName ? { from: fromName } : {}),
+    connected: true,
+    steps,
+    cycles: cycles.map((cycle) => cycle.map((key) => graph.names.get(key) ?? key)),
+  };
+}
+
+/**
+ * Parse a network written as arrow chains, one per line or separated by ";":
+ * "Smoke Object -> Pyro Solver; Volume Source -> Pyro Solver". A line without
+ * arrows lists nodes separated by commas.
+ */
+export function parseNetworkDescription(text: string): NetworkDescription {
+  const nodes: string[] = [];
+  const connections: Array<{ from: string; to: string }> = [];
+  const addNode = (key: string) => {
+    if (key && !nodes.includes(key)) {
+      nodes.push(key);
+    }
+  };
+  for (const line of text.split(/[\n;]+/)) {
+    const chain = line
+      .split(/\s*(?:→|->|=>)\s*/)
+      .map(toNodeKey)
+      .filter(Boolean);
+    if (chain.length === 1) {
+      line.split(",").map(toNodeKey).forEach(addNode);
+      continue;
+    }
+    chain.forEach(addNode);
+    for (let i = 1; i < chain.length; i++) {
+      connections.push({ from: chain[i - 1], to: chain[i] });
+    }
+  }
+  return { nodes, connections };
+}
+
+/**
+ * Check a user-described network against the graph: required prerequisites
+ * that are missing, present but not wired upstream (when connections are
+ * given), and cycles in the described wiring.
+ */
+export function checkNetwork(graph: NodeGraph, network: NetworkDescription): NetworkCheck {
+  const present = new Map(network.nodes.map((node) => [normalizeNodeType(node), node]));
+  const connections = (network.connections ?? []).map((c) => ({
+    from: normalizeNodeType(c.from),
+    to: normalizeNodeType(c.to),
+  }));
+
+  const missing: NetworkCheck["missing"] = [];
+  const unconnected: NetworkCheck["unconnected"] = [];
+  const unknown: string[] = [];
+  for (const [key, node] of present) {
+    if (!graph.names.has(key)) {
+      unknown.push(node);
+      continue;
+    }
+    const upstream = connections.length > 0 ? collectUpstream(key, connections) : undefined;
+    for (const edge of graph.upstream.get(key) ?? []) {
+      if (edge.relation !== "required") {
+        continue;
+      }
+      const prerequisiteKey = normalizeNodeType(edge.upstream);
+      if (!present.has(prerequisiteKey)) {
+        missing.push({ node, prerequisite: edge.upstream });
+      } else if (upstream && !upstream.has(prerequisiteKey)) {
+        unconnected.push({ node, prerequisite: present.get(prerequisiteKey)! });
+      }
+    }
+  }
+
+  const adjacency = new Map<string, string[]>();
+  for (const connection of connections) {
+    adjacency.set(connection.from, [...(adjacency.get(connection.from) ?? []), connection.to]);
+  }
+  const cycles = findCycles(adjacency).map((cycle) => cycle.map((key) => present.get(key) ?? key));
+
+  return {
+    ok: missing.length === 0 && unconnected.length === 0 && cycles.length === 0,
+    nodes: network.nodes,
+    missing,
+    unconnected,
+    cycles,
+    unknown,
+  };
+}
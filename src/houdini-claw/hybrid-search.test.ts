@@ -0,0 +1,244 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { initDatabase, type KnowledgeBase } from "./db.js";
+import {
+  buildKbFtsQuery,
+  hasExactIdentifierMatch,
+  hybridSearch,
+  keywordSearch,
+  reciprocalRankFusion,
+} from "./hybrid-search.js";
+import { diversifyResults, rebuildIndex } from "./vector-search.js";
+
+describe("houdini-claw hybrid search helpers", () => {
+  it("buildKbFtsQuery quotes tokens and OR-joins them", () => {
+    expect(buildKbFtsQuery("smoke dissipation")).toBe('"smoke" OR "dissipation"');
+    expect(buildKbFtsQuery("divsize AND -x")).toBe('"divsize" OR "AND" OR "x"');
+    expect(buildKbFtsQuery("cooling_rate")).toBe('"cooling_rate"');
+    expect(buildKbFtsQuery("  ?! ")).toBeNull();
+  });
+
+  it("reciprocalRankFusion sums weighted reciprocal ranks", () => {
+    const scores = reciprocalRankFusion(
+      [{ keys: ["a", "b"] }, { keys: ["b", "c"], weight: 2 }],
+      60,
+    );
+    expect(scores.get("a")).toBeCloseTo(1 / 61);
+    expect(scores.get("b")).toBeCloseTo(1 / 62 + 2 / 61);
+    expect(scores.get("c")).toBeCloseTo(2 / 62);
+    expect(scores.get("b")).toBeGreaterThan(scores.get("a") ?? 0);
+  });
+
+  it("hasExactIdentifierMatch matches whole identifiers and path segments", () => {
+    const names = "pyro_solver dissipation pyrosolver1/flameSolver/dissipation";
+    expect(hasExactIdentifierMatch("what does dissipation do", names)).toBe(true);
+    expect(hasExactIdentifierMatch("FlameSolver", names)).toBe(true);
+    expect(hasExactIdentifierMatch("dissipate", names)).toBe(false);
+    expect(hasExactIdentifierMatch("", names)).toBe(false);
+  });
+
+  it("diversifyResults moves near-duplicate chunks below distinct ones", () => {
+    const results = [
+      { score: 0.9, text: "pyro_solver dissipation fades smoke density" },
+      { score: 0.85, text: "pyro_solver dissipation fades smoke density over time" },
+      { score: 0.8, text: "flip_solver particle separation controls spacing" },
+      { score: 0.5, text: "vellum_solver substeps" },
+    ];
+
+    expect(diversifyResults(results, { enabled: true }).map((r) => r.score)).toEqual([
+      0.9, 0.8, 0.85, 0.5,
+    ]);
+    expect(diversifyResults(results).map((r) => r.score)).toEqual([0.9, 0.85, 0.8, 0.5]);
+  });
+});
+
+describe("houdini-claw hybrid search against a real database", () => {
+  let tmpDir: string | undefined;
+  let kb: KnowledgeBase | undefined;
+
+  afterEach(() => {
+    kb?.close();
+    kb = undefined;
+    if (tmpDir) {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+      tmpDir = undefined;
+    }
+  });
+
+  async function seedKnowledgeBase(): Promise<KnowledgeBase> {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "houdini-claw-search-"));
+    kb = await initDatabase(path.join(tmpDir, "kb.db"));
+    kb.upsertNodeAnnotation({
+      node_name: "pyro_solver",
+      node_category: "DOP",
+      one_line: "Sparse pyro solver",
+      annotation_yaml: "",
+      annotated_at: "2026-01-01T00:00:00Z",
+      annotation_model: "test",
+    });
+    kb.upsertParameterAnnotation({
+      node_name: "pyro_solver",
+      param_name: "dissipation",
+      param_path: "pyrosolver1/dissipation",
+      semantic_name_en: "Smoke fade rate",
+      one_line: "How quickly density fades each frame",
+    });
+    kb.insertChunk({
+      chunk_text:
+        "Raising temperature and cooling makes smoke fade faster, a bit like dissipation. " +
+        "Dissipation-style fading also shows up when the density field is advected.",
+      chunk_type: "overview",
+      source_id: 1,
+      source_table: "node_annotations",
+      node_name: "smoke_notes",
+      system: "pyro",
+    });
+    kb.insertChunk({
+      chunk_text: "FLIP particle separation controls how tightly particles pack.",
+      chunk_type: "overview",
+      source_id: 2,
+      source_table: "node_annotations",
+      node_name: "flip_solver",
+      system: "flip",
+    });
+    return kb;
+  }
+
+  it("ranks exact identifier hits first", async () => {
+    const db = await seedKnowledgeBase();
+    expect(db.ftsAvailable).toBe(true);
+    expect(db.rebuildKeywordIndex()).toBe(3);
+
+    const hits = keywordSearch(db, "dissipation");
+    expect(hits.map((hit) => hit.nodeName)).toEqual(["pyro_solver", "smoke_notes"]);
+    expect(hits[0]?.sourceTable).toBe("parameter_annotations");
+
+    expect(keywordSearch(db, "particle separation", { system: "pyro" })).toEqual([]);
+    expect(keywordSearch(db, "particle separation", { system: "flip" })).toHaveLength(1);
+  });
+
+  it("falls back to keyword-only results when no vectors are indexed", async () => {
+    const db = await seedKnowledgeBase();
+
+    // The keyword index is built on first use
+    const response = await hybridSearch(db, "dissipation", {
+      embeddingOptions: { provider: "hash", dimensions: 8 },
+    });
+
+    expect(response.mode).toBe("keyword");
+    expect(response.vectorError).toContain("Vector index is empty");
+    expect(response.results.map((r) => r.nodeName)).toEqual(["pyro_solver", "smoke_notes"]);
+    expect(response.results[0]?.matchedBy).toEqual(["keyword"]);
+    expect(response.results[0]?.score).toBeGreaterThan(response.results[1]?.score ?? 0);
+  });
+  it("searches one annotation version per node with nearest-older fallback", async () => {
+    const db = await seedKnowledgeBase();
+    for (const [version, fade] of [
+      ["19.5", "Legacy density fade"],
+      ["20.5", "Current density fade"],
+    ]) {
+      db.upsertNodeAnnotation({
+        node_name: "pyro_solver",
+        node_category: "DOP",
+        houdini_version: version,
+        one_line: "Sparse pyro solver",
+        annotation_yaml: "",
+        annotated_at: "2026-01-01T00:00:00Z",
+        annotation_model: "test",
+      });
+      db.upsertParameterAnnotation({
+        node_name: "pyro_solver",
+        param_name: "dissipation",
+        param_path: "pyrosolver1/dissipation",
+        houdini_version: version,
+        one_line: fade,
+      });
+      db.insertChunk({
+        chunk_text: `${fade}: dissipation removes smoke`,
+        chunk_type: "parameter",
+        source_id: 0,
+        source_table: "parameter_annotations",
+        node_name: "pyro_solver",
+        system: "pyro",
+        houdini_version: version,
+      });
+    }
+
+    // Re-ingesting one version leaves the other version's chunks alone
+    db.clearChunksForNode("pyro_solver", "20.5");
+    db.insertChunk({
+      chunk_text: "Current density fade: dissipation removes smoke",
+      chunk_type: "parameter",
+      source_id: 0,
+      source_table: "parameter_annotations",
+      node_name: "pyro_solver",
+      system: "pyro",
+      houdini_version: "20.5",
+    });
+    const versions = db.db
+      .prepare("SELECT houdini_version FROM embedding_chunks WHERE node_name = 'pyro_solver'")
+      .all() as Array<{ houdini_version: string }>;
+    expect(versions.map((row) => row.houdini_version).toSorted()).toEqual(["19.5", "20.5"]);
+
+    db.rebuildKeywordIndex();
+    const pyroTexts = (houdiniVersion?: string) =>
+      keywordSearch(db, "dissipation", { houdiniVersion, limit: 20 })
+        .filter((hit) => hit.nodeName === "pyro_solver")
+        .map((hit) => hit.text);
+    // No version: newest only, so the parameter is not listed once per version
+    expect(pyroTexts().every((text) => text.includes("Current"))).toBe(true);
+    expect(pyroTexts()).toHaveLength(2);
+    expect(pyroTexts("20.0").every((text) => text.includes("Legacy"))).toBe(true);
+    expect(pyroTexts("19.0")).toEqual([]);
+
+    await rebuildIndex(db, { embeddingOptions: { provider: "hash", dimensions: 8 } });
+    const response = await hybridSearch(db, "dissipation removes smoke", {
+      houdiniVersion: "20.0",
+      embeddingOptions: { provider: "hash", dimensions: 8 },
+    });
+    expect(response.mode).toBe("hybrid");
+    const pyroResults = response.results.filter((r) => r.nodeName === "pyro_solver");
+    expect(pyroResults.length).toBeGreaterThan(0);
+    expect(pyroResults.every((r) => r.text.includes("Legacy"))).toBe(true);
+  });
+
+  it("splits chunks over the embedding input limit instead of dropping their tail", async () => {
+    const db = await seedKnowledgeBase();
+    const tail = "vorticity confinement keeps small swirls alive";
+    db.insertChunk({
+      chunk_text: `${"padding ".repeat(1100)}${tail}`,
+      chunk_type: "overview",
+      source_id: 3,
+      source_table: "node_annotations",
+      node_name: "pyro_solver",
+      system: "pyro",
+    });
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const result = await rebuildIndex(db, {
+      embeddingOptions: { provider: "hash", dimensions: 8 },
+    });
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("splitting it into 2 chunks"));
+    warn.mockRestore();
+    expect(result).toEqual({ indexed: 4, cached: 0, errors: 0 });
+    const pieces = db.db
+      .prepare(
+        "SELECT chunk_text FROM embedding_chunks WHERE node_name = 'pyro_solver' ORDER BY id",
+      )
+      .all() as Array<{ chunk_text: string }>;
+    expect(pieces).toHaveLength(2);
+    expect(pieces.every((piece) => Buffer.byteLength(piece.chunk_text) <= 8192)).toBe(true);
+    expect(pieces[1]?.chunk_text.endsWith(tail)).toBe(true);
+    expect(keywordSearch(db, "vorticity").map((hit) => hit.nodeName)).toEqual(["pyro_solver"]);
+
+    const response = await hybridSearch(db, "vorticity confinement", {
+      embeddingOptions: { provider: "hash", dimensions: 8 },
+    });
+    expect(response.vectorError).toBeUndefined();
+    expect(response.results[0]?.text.endsWith(tail)).toBe(true);
+    expect(response.results[0]?.matchedBy).toEqual(["vector", "keyword"]);
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Houdini Claw - Hybrid Search
+ *
+ * Combines BM25 keyword ranking from the kb_fts index with kb_vec semantic
+ * results using reciprocal-rank fusion. Keyword search works without an
+ * embedding API key, and exact parameter/node names are boosted so queries
+ * like "dissipation" or "divsize" hit the matching parameter first. The fused
+ * list is re-ranked with MMR (shared with memory search) so several chunks of
+ * the same node don't fill every slot.
+ */
+
+import type { MMRConfig } from "../memory/mmr.js";
+import { nodeVersionFilterSql, type KnowledgeBase } from "./db.js";
+import type { EmbeddingProviderOptions } from "./embedding-providers.js";
+import { diversifyResults, semanticSearch } from "./vector-search.js";
+
+/** Standard RRF damping constant (Cormack et al.) */
+const DEFAULT_RRF_K = 60;
+
+/** Maximum number of results to return from a search */
+const DEFAULT_TOP_K = 5;
+
+/** bm25 column weights for kb_fts: identifiers count 10x more than free text */
+const NAMES_WEIGHT = 10.0;
+const BODY_WEIGHT = 1.0;
+
+export interface KeywordHit {
+  key: string;
+  rank: number;
+  text: string;
+  chunkType: string;
+  nodeName: string | null;
+  system: string | null;
+  sourceTable: string;
+  sourceId: number;
+  names: string;
+}
+
+export interface HybridSearchResult {
+  score: number;
+  text: string;
+  chunkType: string;
+  nodeName: string | null;
+  system: string | null;
+  sourceTable: string;
+  sourceId: number;
+  matchedBy: Array<"vector" | "keyword">;
+}
+
+export interface HybridSearchResponse {
+  mode: "hybrid" | "keyword" | "vector";
+  results: HybridSearchResult[];
+  /** Set when the vector leg failed (no API key, no sqlite-vec, offline) */
+  vectorError?: string;
+}
+
+/**
+ * Tokenize a free-text query into an OR-joined FTS5 expression.
+ * Each token is quoted so FTS5 operators in user input are treated literally.
+ */
+export function buildKbFtsQuery(raw: string): string | null {
+  const tokens =
+    raw
+      .match(/[\p{L}\p{N}_]+/gu)
+      ?.map((t) => t.trim())
+      .filter(Boolean) ?? [];
+  if (tokens.length === 0) {
+    return null;
+  }
+  return tokens.map((t) => `"${t.replaceAll('"', "")}"`).join(" OR ");
+}
+
+/**
+ * Fuse several ranked lists into one score per key: sum of weight / (k + rank).
+ * Ranks are 1-based; keys missing from a list contribute nothing for it.
+ */
+export function reciprocalRankFusion(
+  lists: Array<{ keys: string[]; weight?: number }>,
+  k: number = DEFAULT_RRF_K,
+): Map<string, number> {
+  const scores = new Map<string, number>();
+  for (const list of lists) {
+    const weight = list.weight ?? 1;
+    list.keys.forEach((key, index) => {
+      scores.set(key, (scores.get(key) ?? 0) + weight / (k + index + 1));
+    });
+  }
+  return scores;
+}
+
+/**
+ * Whether any query token is exactly one of the identifiers in `names`
+ * (node name, parameter name, or a segment of the parameter path).
+ */
+export function hasExactIdentifierMatch(query: string, names: string): boolean {
+  const queryTokens = new Set(query.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []);
+  if (queryTokens.size === 0) {
+    return false;
+  }
+  return names
+    .toLowerCase()
+    .split(/[\s/]+/)
+    .some((id) => id.length > 0 && queryTokens.has(id));
+}
+
+/**
+ * BM25 keyword search over the kb_fts index. Node and parameter rows are
+ * limited to one annotation version per node: `houdiniVersion`, else the
+ * nearest older one, else the newest.
+ */
+export function keywordSearch(
+  kb: KnowledgeBase,
+  query: string,
+  options?: {
+    limit?: number;
+    system?: string;
+    chunkType?: string;
+    nodeName?: string;
+    houdiniVersion?: string;
+  },
+): KeywordHit[] {
+  if (!kb.ftsAvailable) {
+    return [];
+  }
+  const ftsQuery = buildKbFtsQuery(query);
+  if (!ftsQuery) {
+    return [];
+  }
+
+  const filters = [nodeVersionFilterSql()];
+  const params: unknown[] = [
+    ftsQuery,
+    JSON.stringify(kb.resolveNodeVersions(options?.houdiniVersion)),
+  ];
+  if (options?.system) {
+    filters.push("system = ?");
+    params.push(options.system);
+  }
+  if (options?.chunkType) {
+    filters.push("chunk_type = ?");
+    params.push(options.chunkType);
+  }
+  if (options?.nodeName) {
+    filters.push("node_name = ?");
+    params.push(options.nodeName);
+  }
+  params.push(options?.limit ?? DEFAULT_TOP_K);
+
+  const rows = kb.db
+    .prepare(
+      `SELECT names, body, source_table, source_id, chunk_type, node_name, system,
+              bm25(kb_fts, ${NAMES_WEIGHT}, ${BODY_WEIGHT}) AS rank
+       FROM kb_fts
+       WHERE kb_fts MATCH ?
+         AND ${filters.join(" AND ")}
+       ORDER BY rank ASC
+       LIMIT ?`,
+    )
+    .all(...params) as Array<{
+    names: string;
+    body: string;
+    source_table: string;
+    source_id: number;
+    chunk_type: string;
+    node_name: string | null;
+    system: string | null;
+    rank: number;
+  }>;
+
+  return rows.map((row) => ({
+    key: resultKey(row.source_table, Number(row.source_id)),
+    rank: row.rank,
+    text: row.body,
+    chunkType: row.chunk_type,
+    nodeName: row.node_name,
+    system: row.system,
+    sourceTable: row.source_table,
+    sourceId: Number(row.source_id),
+    names: row.names,
+  }));
+}
+
+/**
+ * Hybrid search: run keyword and vector retrieval, then fuse with RRF.
+ * Degrades to keyword-only when embeddings are unavailable, and throws only
+ * when neither leg can run so callers can fall back further.
+ */
+export async function hybridSearch(
+  kb: KnowledgeBase,
+  query: string,
+  options?: {
+    topK?: number;
+    system?: string;
+    chunkType?: string;
+    nodeName?: string;
+    /** Houdini version to search, with nearest-older fallback per node (default: newest) */
+    houdiniVersion?: string;
+    rrfK?: number;
+    vectorWeight?: number;
+    keywordWeight?: number;
+    embeddingOptions?: EmbeddingProviderOptions;
+    /** MMR re-ranking of fused results (default: enabled, lambda 0.7) */
+    mmr?: Partial<MMRConfig>;
+    /**
+     * Text for the keyword leg when it differs from the embedded query, e.g.
+     * a Chinese query expanded with the identifiers its semantic names map to
+     */
+    keywordQuery?: string;
+  },
+): Promise<HybridSearchResponse> {
+  const topK = options?.topK ?? DEFAULT_TOP_K;
+  const rrfK = options?.rrfK ?? DEFAULT_RRF_K;
+  // Over-fetch from each leg so fusion has candidates to reorder
+  const candidateLimit = topK * 4;
+  const filters = {
+    system: options?.system,
+    chunkType: options?.chunkType,
+    nodeName: options?.nodeName,
+    houdiniVersion: options?.houdiniVersion,
+  };
+
+  const candidates = new Map<string, HybridSearchResult>();
+  const exactKeys = new Set<string>();
+
+  let vectorKeys: string[] = [];
+  let vectorError: string | undefined;
+  try {
+    const vectorResults = await semanticSearch(kb, query, {
+      ...filters,
+      topK: candidateLimit,
+      embeddingOptions: options?.embeddingOptions,
+    });
+    vectorKeys = vectorResults.map((r) => {
+      // Vector rows are embedding chunks; key them the same way as kb_fts chunk rows
+      const key = resultKey("embedding_chunks", r.chunkId);
+      candidates.set(key, {
+        score: 0,
+        text: r.text,
+        chunkType: r.chunkType,
+        nodeName: r.nodeName,
+        system: r.system,
+        sourceTable: r.sourceTable,
+        sourceId: r.sourceId,
+        matchedBy: ["vector"],
+      });
+      return key;
+    });
+  } catch (err) {
+    vectorError = (err as Error).message;
+  }
+
+  let keywordKeys: string[] = [];
+  const keywordQuery = options?.keywordQuery ?? query;
+  if (kb.ftsAvailable) {
+    kb.ensureKeywordIndex();
+    const hits = keywordSearch(kb, keywordQuery, { ...filters, limit: candidateLimit });
+    keywordKeys = hits.map((hit) => {
+      const existing = candidates.get(hit.key);
+      if (existing) {
+        existing.matchedBy.push("keyword");
+      } else {
+        candidates.set(hit.key, {
+          score: 0,
+          text: hit.text,
+          chunkType: hit.chunkType,
+          nodeName: hit.nodeName,
+          system: hit.system,
+          sourceTable: hit.sourceTable,
+          sourceId: hit.sourceId,
+          matchedBy: ["keyword"],
+        });
+      }
+      if (hasExactIdentifierMatch(keywordQuery, hit.names)) {
+        exactKeys.add(hit.key);
+      }
+      return hit.key;
+    });
+  } else if (vectorError) {
+    throw new Error(`Keyword index unavailable and vector search failed: ${vectorError}`);
+  }
+
+  const fused = reciprocalRankFusion(
+    [
+      { keys: vectorKeys, weight: options?.vectorWeight ?? 1 },
+      { keys: keywordKeys, weight: options?.keywordWeight ?? 1 },
+    ],
+    rrfK,
+  );
+
+  // An exact identifier hit counts as an extra first-place vote
+  for (const key of exactKeys) {
+    fused.set(key, (fused.get(key) ?? 0) + 1 / (rrfK + 1));
+  }
+
+  const ranked = Array.from(candidates.entries())
+    .map(([key, result]) => ({ ...result, score: fused.get(key) ?? 0 }))
+    .toSorted((a, b) => b.score - a.score);
+  const results = diversifyResults(ranked, { enabled: true, ...options?.mmr }).slice(0, topK);
+
+  return {
+    mode: vectorError ? "keyword" : kb.ftsAvailable ? "hybrid" : "vector",
+    results,
+    ...(vectorError ? { vectorError } : {}),
+  };
+}
+
+function resultKey(sourceTable: string, sourceId: number): string {
+  return `${sourceTable}:${sourceId}`;
+}
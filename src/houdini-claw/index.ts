@@ -6,13 +6,21 @@
  * for Houdini node documentation, parameter ranges, recipes, and error patterns.
  *
  * Architecture:
- *   Backend (Cron):  crawl.ts → annotate.ts → ingest.ts → SQLite + sqlite-vec
- *   Frontend (Query): query.ts → db.ts → vector-search.ts → JSON response
+ *   Backend (Cron):  discover.ts → crawl.ts → annotate.ts → ingest.ts → SQLite + sqlite-vec
+ *                    (refresh.ts runs one budgeted pass for the cron houdiniRefresh payload)
+ *   Frontend (Query): query.ts → db.ts → hybrid-search.ts (FTS5 + vector-search.ts) → JSON response
+ *   Linter:          lint.ts (network snapshot JSON) → db.ts → findings linked to error_patterns
  *   Seed data:       seed.ts → db.ts (human-verified baseline)
  */
 
 export { initDatabase, KnowledgeBase, resolveDbPath } from "./db.js";
-export { SCHEMA_SQL, VECTOR_TABLE_SQL } from "./schema.js";
+export {
+  DEFAULT_HOUDINI_VERSION,
+  FTS_TABLE_SQL,
+  SCHEMA_SQL,
+  VECTOR_TABLE_SQL,
+  vectorTableSql,
+} from "./schema.js";
 export type {
   NodeCategory,
   SimulationSystem,
@@ -21,15 +29,192 @@ export type {
   ErrorPattern,
 } from "./schema.js";
 export {
+  createEmbeddingProvider,
+  createHashEmbeddingProvider,
+  resolveEmbeddingProviderOptions,
+} from "./embedding-providers.js";
+export type {
+  EmbeddingProvider,
+  EmbeddingProviderKind,
+  EmbeddingProviderOptions,
+} from "./embedding-providers.js";
+export {
+  EmbeddingModelMismatchError,
+  ensureVectorIndex,
+  getStoredEmbeddingIdentity,
+  resetVectorIndex,
   generateEmbedding,
   semanticSearch,
+  diversifyResults,
   rebuildIndex,
   indexChunk,
   chunkNodeAnnotation,
   chunkParameterAnnotation,
 } from "./vector-search.js";
-export type { SearchResult } from "./vector-search.js";
-export { runCrawl, crawlSideFxDoc, ALL_NODE_PATHS } from "./crawl.js";
+export type { EmbeddingIdentity, SearchResult } from "./vector-search.js";
+export {
+  hybridSearch,
+  keywordSearch,
+  buildKbFtsQuery,
+  reciprocalRankFusion,
+} from "./hybrid-search.js";
+export type { HybridSearchResult, HybridSearchResponse } from "./hybrid-search.js";
+export { compareHoudiniVersions, diffNodeVersions, resolveNearestVersion } from "./versions.js";
+export type { NodeVersionDiff, ParameterVersionChange } from "./versions.js";
+export { collectUpstream, lintNetwork, normalizeNodeType, parseNetworkSnapshot } from "./lint.js";
+export type {
+  LintFinding,
+  LintReport,
+  LintRule,
+  LintSeverity,
+  NetworkSnapshot,
+  NetworkSnapshotNode,
+} from "./lint.js";
+export {
+  buildNodeGraph,
+  checkNetwork,
+  deriveNodeEdges,
+  findBuildPath,
+  loadNodeGraph,
+  parseNetworkDescription,
+  syncNodeEdges,
+} from "./graph.js";
+export type {
+  BuildPath,
+  BuildStep,
+  EdgeRelation,
+  NetworkCheck,
+  NetworkDescription,
+  NodeEdge,
+  NodeGraph,
+} from "./graph.js";
+export {
+  detectQueryLanguage,
+  expandQueryTerms,
+  localize,
+  localizedName,
+  resolveAliases,
+  resolveNodeAlias,
+  resolveParamAlias,
+  segmentQuery,
+} from "./bilingual.js";
+export type { AliasMatch, QueryLanguage } from "./bilingual.js";
+export { exportRecipeScript, slugifyRecipeName } from "./recipe-export.js";
+export type {
+  RecipeNodePlan,
+  RecipeParamSetting,
+  RecipeScript,
+  RecipeScriptFormat,
+  RecipeScriptOptions,
+} from "./recipe-export.js";
+export { adviseParameter, buildParamAdvice, classifyParamValue } from "./param-advice.js";
+export type {
+  AdjustDirection,
+  ParamAdvice,
+  ParamAdviceRequest,
+  RiskAssessment,
+  RiskLevel,
+} from "./param-advice.js";
+export {
+  runCrawl,
+  crawlSideFxDoc,
+  fetchOfflineDoc,
+  fetchSideFxDoc,
+  resolveOfflineDocsPath,
+  ALL_NODE_PATHS,
+} from "./crawl.js";
+export type {
+  CrawlChangeReport,
+  CrawledPage,
+  CrawlRunResult,
+  CrawlValidators,
+  DocFetchResult,
+} from "./crawl.js";
+export {
+  NODE_CONTEXTS,
+  classifyNodePath,
+  discoverNodePaths,
+  groupNodePathsBySystem,
+  nodePathFromFile,
+  parseDiscoverySource,
+  parseDocsIndex,
+  recordDiscovery,
+} from "./discover.js";
+export type { DiscoveredNode, DiscoverySource } from "./discover.js";
+export {
+  formatWikiDocPage,
+  openOfflineDocs,
+  parseWikiDocPage,
+  stripWikiMarkup,
+} from "./offline-docs.js";
+export type { OfflineDocs, WikiDocPage, WikiDocParameter } from "./offline-docs.js";
 export { annotateNode, annotateAll } from "./annotate.js";
+export { consolePipelineLog } from "./pipeline-log.js";
+export type { PipelineLog, PipelineLogLevel } from "./pipeline-log.js";
+export { createAnnotationModel, resolveAnnotationModelRef } from "./annotation-model.js";
+export type {
+  AnnotationCompletion,
+  AnnotationModel,
+  AnnotationModelOptions,
+  AnnotationUsage,
+} from "./annotation-model.js";
+export {
+  getReviewItem,
+  listReviewQueue,
+  loadCrawledSource,
+  mergeVerifiedAnnotation,
+  resolveReviewer,
+  reviewAnnotation,
+} from "./review.js";
+export type { ReviewAction, ReviewRequest, ReviewResult, ReviewTarget } from "./review.js";
+export {
+  AnnotatedFileSchema,
+  AnnotationValidationError,
+  NodeAnnotationSchema,
+  ParameterAnnotationSchema,
+  formatAnnotationIssues,
+  validateAnnotatedFile,
+  validateNodeAnnotation,
+} from "./annotation-schema.js";
+export type {
+  AnnotatedFile,
+  AnnotationValidationIssue,
+  AnnotationValidationResult,
+  NodeAnnotation,
+} from "./annotation-schema.js";
+export {
+  learnedRate,
+  matchRootCause,
+  rankErrorPatterns,
+  recordDiagnosisFeedback,
+  symptomSimilarity,
+} from "./diagnosis.js";
+export type {
+  DiagnosisFeedbackRequest,
+  DiagnosisFeedbackStat,
+  RankedErrorPattern,
+  RankedRootCause,
+} from "./diagnosis.js";
+export {
+  BundleVerificationError,
+  canonicalJson,
+  exportBundle,
+  importBundle,
+  readBundle,
+  resolveMergeAction,
+  signBundleManifest,
+  verifyBundleManifest,
+} from "./bundle.js";
+export type {
+  BundleExportOptions,
+  BundleImportOptions,
+  BundleImportReport,
+  BundleManifest,
+  BundleTable,
+  BundleTableReport,
+  MergeAction,
+} from "./bundle.js";
 export { ingestAll } from "./ingest.js";
 export { seedDatabase } from "./seed.js";
+export { formatRefreshSummary, refreshKnowledgeBase, resolveRefreshWorkDir } from "./refresh.js";
+export type { CoverageChange, RefreshOptions, RefreshResult } from "./refresh.js";
@@ -3,74 +3,34 @@
  *
  * Reads annotated JSON files and writes them into the SQLite knowledge base.
  * Also chunks the content and prepares it for vector embedding.
+ * Files are validated against the annotation schema first; invalid files are
+ * skipped with per-field errors.
  *
  * Usage:
  *   bun src/houdini-claw/ingest.ts --input /tmp/houdini-annotated/ --db ~/.openclaw/houdini-claw/houdini_kb.db
+ *   bun src/houdini-claw/ingest.ts --input /tmp/houdini-annotated-19.5/ --houdini-version 19.5
+ *   bun src/houdini-claw/ingest.ts --embedding-provider ollama --embedding-model nomic-embed-text --reset-vectors
+ *   bun src/houdini-claw/ingest.ts --embedding-provider gemini --embedding-batch
  */
 
 import fs from "node:fs";
 import path from "node:path";
+import {
+  formatAnnotationIssues,
+  validateAnnotatedFile,
+  type AnnotatedFile,
+} from "./annotation-schema.js";
 import { initDatabase, type KnowledgeBase } from "./db.js";
-import { chunkNodeAnnotation, chunkParameterAnnotation, rebuildIndex } from "./vector-search.js";
-
-// ── Types ──────────────────────────────────────────────────
-
-interface AnnotatedFile {
-  nodeName: string;
-  system: string;
-  sourceUrls: string[];
-  annotatedAt: string;
-  model: string;
-  annotation: {
-    semantic_name_zh?: string;
-    semantic_name_en?: string;
-    one_line: string;
-    analogy?: string;
-    prerequisite_nodes?: string[];
-    required_context?: string;
-    typical_network?: string;
-    parameters?: Array<{
-      name: string;
-      path: string;
-      semantic_name_zh?: string;
-      semantic_name_en?: string;
-      one_line?: string;
-      intent_mapping?: Record<string, string>;
-      default_value?: number;
-      safe_range?: [number, number];
-      expert_range?: [number, number];
-      danger_zone?: { below?: number; above?: number; description?: string };
-      visual_effect?: Record<string, string>;
-      interactions?: Array<{
-        param: string;
-        relationship: string;
-        warning?: string;
-        tip?: string;
-      }>;
-      context_adjustments?: Record<string, string>;
-    }>;
-    recipes?: Array<{
-      name: string;
-      tags: string[];
-      description: string;
-      parameters: Record<string, Record<string, unknown>>;
-      prerequisites?: string[];
-      warnings?: string[];
-      variations?: Record<string, Record<string, unknown>>;
-    }>;
-    error_patterns?: Array<{
-      pattern_id: string;
-      symptoms: string[];
-      root_causes: Array<{
-        cause: string;
-        probability: string;
-        explanation: string;
-        fix: string[];
-        verify?: string;
-      }>;
-    }>;
-  };
-}
+import type { EmbeddingProviderOptions } from "./embedding-providers.js";
+import { syncNodeEdges } from "./graph.js";
+import { consolePipelineLog, type PipelineLog } from "./pipeline-log.js";
+import { mergeVerifiedAnnotation } from "./review.js";
+import {
+  chunkNodeAnnotation,
+  chunkParameterAnnotation,
+  rebuildIndex,
+  resetVectorIndex,
+} from "./vector-search.js";
 
 // ── Ingest Functions ───────────────────────────────────────
 
@@ -83,11 +43,17 @@ function systemToCategory(system: string): string {
     rbd: "DOP",
     flip: "DOP",
     vellum: "DOP",
+    dop: "DOP",
     sop: "SOP",
+    kinefx: "SOP",
     chop: "CHOP",
     cop: "COP",
     lop: "LOP",
     vop: "VOP",
+    obj: "OBJ",
+    rop: "ROP",
+    top: "TOP",
+    shop: "SHOP",
   };
   return map[system] ?? "SOP";
 }
@@ -95,14 +61,34 @@ function systemToCategory(system: string): string {
 /**
  * Ingest a single annotated file into the knowledge base.
  */
-function ingestAnnotation(kb: KnowledgeBase, data: AnnotatedFile): void {
-  const { nodeName, system, annotation, sourceUrls, annotatedAt, model } = data;
+function ingestAnnotation(
+  kb: KnowledgeBase,
+  data: AnnotatedFile,
+  defaultHoudiniVersion?: string,
+  log: PipelineLog = consolePipelineLog,
+): void {
+  const { nodeName, system, sourceUrls, annotatedAt, model } = data;
   const category = systemToCategory(system);
+  const houdiniVersion = data.houdiniVersion ?? defaultHoudiniVersion;
+
+  // Human-reviewed fields win over the new machine annotation
+  const { annotation, keptNode, keptParams } = mergeVerifiedAnnotation(
+    kb,
+    nodeName,
+    houdiniVersion,
+    data.annotation,
+  );
+  if (keptNode || keptParams.length > 0) {
+    log(
+      `[ingest] ${nodeName}: keeping human-verified ${[keptNode ? "node" : "", ...keptParams].filter(Boolean).join(", ")}`,
+    );
+  }
 
   // 1. Upsert node annotation
   kb.upsertNodeAnnotation({
     node_name: nodeName,
     node_category: category,
+    houdini_version: houdiniVersion,
     semantic_name_zh: annotation.semantic_name_zh,
     semantic_name_en: annotation.semantic_name_en,
     one_line: annotation.one_line,
@@ -112,15 +98,21 @@ function ingestAnnotation(kb: KnowledgeBase, data: AnnotatedFile): void {
     typical_network: annotation.typical_network,
     annotation_yaml: JSON.stringify(annotation),
     source_urls: sourceUrls,
+    source_hash: data.sourceHash,
     annotated_at: annotatedAt,
     annotation_model: model,
   });
+  syncNodeEdges(kb, nodeName);
 
-  // 2. Clear old embedding chunks for this node
-  kb.clearChunksForNode(nodeName);
+  // 2. Clear old embedding chunks for this node version
+  kb.clearChunksForNode(nodeName, houdiniVersion);
 
   // 3. Create new embedding chunks for the node overview
-  const nodeChunks = chunkNodeAnnotation(nodeName, system, annotation as unknown as Record<string, unknown>);
+  const nodeChunks = chunkNodeAnnotation(
+    nodeName,
+    system,
+    annotation as unknown as Record<string, unknown>,
+  );
   for (const chunk of nodeChunks) {
     kb.insertChunk({
       chunk_text: chunk.text,
@@ -129,6 +121,7 @@ function ingestAnnotation(kb: KnowledgeBase, data: AnnotatedFile): void {
       source_table: "node_annotations",
       node_name: nodeName,
       system,
+      houdini_version: houdiniVersion,
     });
   }
 
@@ -139,6 +132,7 @@ function ingestAnnotation(kb: KnowledgeBase, data: AnnotatedFile): void {
         node_name: nodeName,
         param_name: param.name,
         param_path: param.path,
+        houdini_version: houdiniVersion,
         semantic_name_zh: param.semantic_name_zh,
         semantic_name_en: param.semantic_name_en,
         one_line: param.one_line,
@@ -170,6 +164,7 @@ function ingestAnnotation(kb: KnowledgeBase, data: AnnotatedFile): void {
           source_table: "parameter_annotations",
           node_name: nodeName,
           system,
+          houdini_version: houdiniVersion,
         });
       }
     }
@@ -249,52 +244,81 @@ export async function ingestAll(options: {
   inputDir: string;
   dbPath?: string;
   rebuildVectors?: boolean;
+  /** Houdini version for files that don't declare one */
+  houdiniVersion?: string;
+  /** Drop existing vectors first, e.g. when switching embedding models */
+  resetVectors?: boolean;
+  embeddingOptions?: EmbeddingProviderOptions;
+  /** Only ingest these file names from inputDir (default: every .json file) */
+  files?: string[];
   onProgress?: (done: number, total: number, nodeName: string) => void;
-}): Promise<{ ingested: number; errors: number }> {
+  /** Progress messages, skipped files and failures (default: the console) */
+  log?: PipelineLog;
+}): Promise<{ ingested: number; errors: number; invalid: number }> {
+  const log = options.log ?? consolePipelineLog;
   const kb = await initDatabase(options.dbPath);
-  const files = fs.readdirSync(options.inputDir).filter((f) => f.endsWith(".json"));
+  const files =
+    options.files ?? fs.readdirSync(options.inputDir).filter((f) => f.endsWith(".json"));
 
   let ingested = 0;
   let errors = 0;
+  let invalid = 0;
 
   for (let i = 0; i < files.length; i++) {
     const file = files[i];
     try {
-      const data = JSON.parse(
-        fs.readFileSync(path.join(options.inputDir, file), "utf-8"),
-      ) as AnnotatedFile;
+      const raw = JSON.parse(fs.readFileSync(path.join(options.inputDir, file), "utf-8"));
+      const validated = validateAnnotatedFile(raw);
+      if (!validated.ok) {
+        log(
+          `[ingest] Skipping ${file}: ${validated.issues.length} validation issue(s)\n${formatAnnotationIssues(validated.issues)}`,
+          "error",
+        );
+        invalid++;
+        errors++;
+        options.onProgress?.(ingested + errors, files.length, file);
+        continue;
+      }
 
-      ingestAnnotation(kb, data);
+      ingestAnnotation(kb, validated.data, options.houdiniVersion, log);
       ingested++;
     } catch (err) {
-      console.error(`[ingest] Failed for ${file}:`, (err as Error).message);
+      log(`[ingest] Failed for ${file}: ${(err as Error).message}`, "error");
       errors++;
     }
 
     options.onProgress?.(ingested + errors, files.length, file);
   }
 
+  // Refresh the keyword index so new rows are searchable without embeddings
+  const keywordRows = kb.rebuildKeywordIndex();
+  log(`[ingest] Keyword index: ${keywordRows} rows`);
+
   // Rebuild vector index if requested
   if (options.rebuildVectors !== false) {
-    console.log("[ingest] Rebuilding vector index...");
+    log("[ingest] Rebuilding vector index...");
     try {
+      if (options.resetVectors) {
+        resetVectorIndex(kb);
+      }
       const indexResult = await rebuildIndex(kb, {
+        embeddingOptions: options.embeddingOptions,
         onProgress: (indexed, total) => {
           if (indexed % 50 === 0) {
-            console.log(`[ingest] Indexed ${indexed}/${total} chunks`);
+            log(`[ingest] Indexed ${indexed}/${total} chunks`);
           }
         },
       });
-      console.log(
-        `[ingest] Vector index: ${indexResult.indexed} indexed, ${indexResult.errors} errors`,
+      log(
+        `[ingest] Vector index: ${indexResult.indexed} indexed (${indexResult.cached} from cache), ${indexResult.errors} errors`,
       );
     } catch (err) {
-      console.warn("[ingest] Vector index rebuild failed:", (err as Error).message);
+      log(`[ingest] Vector index rebuild failed: ${(err as Error).message}`, "warn");
     }
   }
 
   kb.close();
-  return { ingested, errors };
+  return { ingested, errors, invalid };
 }
 
 // ── CLI Entry Point ────────────────────────────────────────
@@ -304,6 +328,11 @@ if (import.meta.url === `file://${process.argv[1]}`) {
   const inputIdx = args.indexOf("--input");
   const dbIdx = args.indexOf("--db");
   const skipVectors = args.includes("--skip-vectors");
+  const resetVectors = args.includes("--reset-vectors");
+  const providerIdx = args.indexOf("--embedding-provider");
+  const embeddingModelIdx = args.indexOf("--embedding-model");
+  const embeddingBatch = args.includes("--embedding-batch");
+  const versionIdx = args.indexOf("--houdini-version");
 
   const inputDir = inputIdx !== -1 ? args[inputIdx + 1] : "/tmp/houdini-annotated";
   const dbPath = dbIdx !== -1 ? args[dbIdx + 1] : undefined;
@@ -314,12 +343,22 @@ if (import.meta.url === `file://${process.argv[1]}`) {
     inputDir,
     dbPath,
     rebuildVectors: !skipVectors,
+    resetVectors,
+    houdiniVersion: versionIdx !== -1 ? args[versionIdx + 1] : undefined,
+    embeddingOptions: {
+      provider:
+        providerIdx !== -1
+          ? (args[providerIdx + 1] as EmbeddingProviderOptions["provider"])
+          : undefined,
+      model: embeddingModelIdx !== -1 ? args[embeddingModelIdx + 1] : undefined,
+      batch: embeddingBatch || undefined,
+    },
     onProgress: (done, total, name) => {
       console.log(`[ingest] ${done}/${total}: ${name}`);
     },
   }).then((result) => {
     console.log(
-      `[ingest] Done. Ingested: ${result.ingested}, Errors: ${result.errors}`,
+      `[ingest] Done. Ingested: ${result.ingested}, Errors: ${result.errors} (${result.invalid} failed validation)`,
     );
   });
 }
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import type { KnowledgeBase } from "./db.js";
+import { collectUpstream, lintNetwork, normalizeNodeType, parseNetworkSnapshot } from "./lint.js";
+
+function fakeKb(): KnowledgeBase {
+  const params = [
+    {
+      node_name: "pyro_solver",
+      param_name: "dissipation",
+      param_path: "pyrosolver1/flameSolver/dissipation",
+      safe_range_min: 0.01,
+      safe_range_max: 0.5,
+      expert_range_min: 0.001,
+      expert_range_max: 1.0,
+      danger_below: 0.001,
+      danger_above: 1.0,
+      danger_description: "Smoke never disappears",
+      interactions: JSON.stringify([
+        { param: "cooling_rate", relationship: "Both reduce density", warning: "Don't max both" },
+      ]),
+    },
+    {
+      node_name: "pyro_solver",
+      param_name: "cooling_rate",
+      param_path: "pyrosolver1/flameSolver/coolingRate",
+      safe_range_min: 0.1,
+      safe_range_max: 0.9,
+      expert_range_min: 0.01,
+      expert_range_max: 2.0,
+      danger_below: null,
+      danger_above: null,
+    },
+  ];
+  return {
+    listNodes: () => [{ node_name: "pyro_solver" }],
+    getNodeAnnotation: (name: string) =>
+      name === "pyro_solver"
+        ? { node_name: name, prerequisite_nodes: JSON.stringify(["smoke_object", "source_volume"]) }
+        : undefined,
+    getNodeSystem: () => "pyro",
+    getParametersForNode: () => params,
+    findErrorPatternsMentioning: (terms: string[]) =>
+      terms.includes("dissipation") ? [{ pattern_id: "PYRO-003" }] : [],
+  } as unknown as KnowledgeBase;
+}
+
+describe("houdini-claw network linter", () => {
+  it("normalizes namespaced and versioned node types", () => {
+    expect(normalizeNodeType("sidefx::pyrosolver::2.0")).toBe("pyrosolver");
+    expect(normalizeNodeType("pyro_solver")).toBe("pyrosolver");
+    expect(normalizeNodeType("smokeobject")).toBe(normalizeNodeType("smoke_object"));
+  });
+
+  it("rejects snapshots without nodes", () => {
+    expect(() => parseNetworkSnapshot({})).toThrow(/nodes/);
+    expect(() => parseNetworkSnapshot({ nodes: [{ path: "/obj/a" }] })).toThrow(/nodes\[0\]/);
+  });
+
+  it("walks connections transitively", () => {
+    const upstream = collectUpstream("/c", [
+      { from: "/a", to: "/b" },
+      { from: "/b", to: "/c" },
+      { from: "/x", to: "/y" },
+    ]);
+    expect([...upstream].toSorted()).toEqual(["/a", "/b"]);
+  });
+
+  it("reports danger zones, missing prerequisites and interactions", () => {
+    const report = lintNetwork(
+      fakeKb(),
+      parseNetworkSnapshot({
+        nodes: [
+          { path: "/obj/dop/smokeobject1", type: "smokeobject" },
+          {
+            path: "/obj/dop/pyrosolver1",
+            type: "sidefx::pyrosolver::2.0",
+            params: { dissipation: 1.5, coolingRate: 0.95 },
+          },
+          { path: "/obj/dop/unknown1", type: "mystery" },
+        ],
+        connections: [],
+      }),
+    );
+
+    expect(report.unannotated_nodes).toEqual(["/obj/dop/smokeobject1", "/obj/dop/unknown1"]);
+    expect(report.findings.map((f) => [f.severity, f.rule, f.param ?? f.related?.[0]])).toEqual([
+      ["error", "danger-zone", "dissipation"],
+      ["warning", "missing-prerequisite", "source_volume"],
+      ["warning", "interaction", "dissipation"],
+      ["info", "expert-range", "cooling_rate"],
+    ]);
+    expect(report.findings[0].error_patterns).toEqual(["PYRO-003"]);
+    expect(report.summary).toEqual({ error: 1, warning: 2, info: 1 });
+  });
+});
@@ -0,0 +1,429 @@
+/**
+ * Houdini Claw - Network Snapshot Linter
+ *
+ * Checks a JSON description of a Houdini network (nodes, types, parameter
+ * values, connections) against the knowledge base: parameter values in
+ * danger zones or outside the annotated ranges, missing prerequisite nodes,
+ * and known risky parameter interactions. Findings are linked to the
+ * error_patterns that mention the offending parameter or node.
+ *
+ * A snapshot can be exported from a Houdini Python shell:
+ *
+ *   import json, hou
+ *   net = hou.node("/obj/pyro_sim")
+ *   nodes = net.allSubChildren()
+ *   print(json.dumps({
+ *     "houdini_version": hou.applicationVersionString(),
+ *     "nodes": [{"path": n.path(), "type": n.type().name(),
+ *                "params": {p.name(): p.eval() for p in n.parms()}} for n in nodes],
+ *     "connections": [{"from": c.inputNode().path(), "to": c.outputNode().path(),
+ *                      "input": c.inputIndex()} for n in nodes for c in n.inputConnections()],
+ *   }))
+ *
+ * Usage:
+ *   bun src/houdini-claw/lint.ts --input network.json
+ *   hython export_network.py | bun src/houdini-claw/lint.ts --input -
+ *   bun src/houdini-claw/lint.ts --input network.json --houdini-version 19.5
+ */
+
+import fs from "node:fs";
+import { initDatabase, type KnowledgeBase } from "./db.js";
+import { classifyParamValue, type RiskLevel } from "./param-advice.js";
+
+// ── Types ──────────────────────────────────────────────────
+
+export interface NetworkSnapshotNode {
+  /** Full node path, e.g. "/obj/pyro_sim/pyrosolver1" */
+  path: string;
+  /** Houdini node type name, e.g. "pyrosolver" or "sidefx::pyrosolver::2.0" */
+  type: string;
+  params?: Record<string, unknown>;
+}
+
+export interface NetworkSnapshot {
+  houdini_version?: string;
+  nodes: NetworkSnapshotNode[];
+  connections?: Array<{ from: string; to: string; input?: number }>;
+}
+
+export type LintSeverity = "error" | "warning" | "info";
+
+export type LintRule =
+  | "danger-zone"
+  | "out-of-range"
+  | "expert-range"
+  | "missing-prerequisite"
+  | "unwired-prerequisite"
+  | "interaction";
+
+export interface LintFinding {
+  severity: LintSeverity;
+  rule: LintRule;
+  node_path: string;
+  node_name: string;
+  param?: string;
+  value?: number;
+  message: string;
+  /** Other parameters or nodes involved in the finding */
+  related?: string[];
+  /** IDs of error_patterns that mention the parameter or node */
+  error_patterns: string[];
+}
+
+export interface LintReport {
+  houdini_version?: string;
+  nodes_checked: number;
+  /** Node paths whose type has no annotation in the knowledge base */
+  unannotated_nodes: string[];
+  findings: LintFinding[];
+  summary: Record<LintSeverity, number>;
+}
+
+const RISK_SEVERITY: Partial<Record<RiskLevel, { severity: LintSeverity; rule: LintRule }>> = {
+  danger: { severity: "error", rule: "danger-zone" },
+  extreme: { severity: "warning", rule: "out-of-range" },
+  expert: { severity: "info", rule: "expert-range" },
+};
+
+const SEVERITY_ORDER: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+// ── Helpers ────────────────────────────────────────────────
+
+/**
+ * Reduce a Houdini type or knowledge-base node name to a comparable key:
+ * "sidefx::pyrosolver::2.0", "pyrosolver" and "pyro_solver" all become "pyrosolver".
+ */
+export function normalizeNodeType(type: string): string {
+  // Houdini type names are [namespace::]name[::version]
+  const parts = type.split("::");
+  if (parts.length > 1 && /^\d/.test(parts.at(-1)!)) {
+    parts.pop();
+  }
+  return normalizeIdentifier(parts.at(-1)!);
+}
+
+/** Lowercase and drop separators so "cooling_rate" and "coolingRate" compare equal */
+function normalizeIdentifier(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Validate and normalize parsed snapshot JSON.
+ */
+export function parseNetworkSnapshot(raw: unknown): NetworkSnapshot {
+  if (!raw || typeof raw !== "object") {
+    throw new Error("Network snapshot must be a JSON object");
+  }
+  const data = raw as Record<string, unknown>;
+  if (!Array.isArray(data.nodes)) {
+    throw new Error('Network snapshot is missing a "nodes" array');
+  }
+
+  const nodes = data.nodes.map((node, index) => {
+    const entry = node as Record<string, unknown>;
+    if (typeof entry?.path !== "string" || typeof entry.type !== "string") {
+      throw new Error(`nodes[${index}] needs string "path" and "type" fields`);
+    }
+    const params =
+      entry.params && typeof entry.params === "object"
+        ? (entry.params as Record<string, unknown>)
+        : undefined;
+    return { path: entry.path, type: entry.type, params };
+  });
+
+  const connections = Array.isArray(data.connections)
+    ? data.connections.flatMap((connection) => {
+        const entry = connection as Record<string, unknown>;
+        return typeof entry?.from === "string" && typeof entry.to === "string"
+          ? [
+              {
+                from: entry.from,
+                to: entry.to,
+                input: typeof entry.input === "number" ? entry.input : undefined,
+              },
+            ]
+          : [];
+      })
+    : undefined;
+
+  return {
+    houdini_version: typeof data.houdini_version === "string" ? data.houdini_version : undefined,
+    nodes,
+    connections,
+  };
+}
+
+/**
+ * All node paths that feed into `nodePath`, directly or transitively.
+ */
+export function collectUpstream(
+  nodePath: string,
+  connections: NonNullable<NetworkSnapshot["connections"]>,
+): Set<string> {
+  const inputs = new Map<string, string[]>();
+  for (const connection of connections) {
+    const list = inputs.get(connection.to) ?? [];
+    list.push(connection.from);
+    inputs.set(connection.to, list);
+  }
+
+  const upstream = new Set<string>();
+  const stack = [...(inputs.get(nodePath) ?? [])];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (upstream.has(current)) {
+      continue;
+    }
+    upstream.add(current);
+    stack.push(...(inputs.get(current) ?? []));
+  }
+  return upstream;
+}
+
+function parseJsonArray<T>(value: unknown): T[] {
+  if (typeof value !== "string" || value.length === 0) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed) ? (parsed as T[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function searchTerms(name: string): string[] {
+  const spaced = name.replace(/_/g, " ");
+  return spaced === name ? [name] : [name, spaced];
+}
+
+// ── Linter ─────────────────────────────────────────────────
+
+/**
+ * Lint a network snapshot against the knowledge base.
+ * `houdiniVersion` overrides the version recorded in the snapshot.
+ */
+export function lintNetwork(
+  kb: KnowledgeBase,
+  snapshot: NetworkSnapshot,
+  houdiniVersion?: string,
+): LintReport {
+  const version = houdiniVersion ?? snapshot.houdini_version;
+  const connections = snapshot.connections ?? [];
+  const findings: LintFinding[] = [];
+  const unannotated: string[] = [];
+
+  const kbNodes = new Map<string, string>();
+  for (const node of kb.listNodes()) {
+    kbNodes.set(normalizeNodeType(node.node_name as string), node.node_name as string);
+  }
+
+  const nodeTypesByPath = new Map(
+    snapshot.nodes.map((node) => [node.path, normalizeNodeType(node.type)]),
+  );
+  const presentTypes = new Set(nodeTypesByPath.values());
+
+  const patternCache = new Map<string, string[]>();
+  const linkPatterns = (name: string, system?: string): string[] => {
+    const key = `${system ?? ""}:${name}`;
+    let ids = patternCache.get(key);
+    if (!ids) {
+      ids = kb
+        .findErrorPatternsMentioning(searchTerms(name), system)
+        .map((pattern) => pattern.pattern_id as string);
+      patternCache.set(key, ids);
+    }
+    return ids;
+  };
+
+  for (const node of snapshot.nodes) {
+    const nodeName = kbNodes.get(normalizeNodeType(node.type));
+    const annotation = nodeName ? kb.getNodeAnnotation(nodeName, version) : undefined;
+    if (!nodeName || !annotation) {
+      unannotated.push(node.path);
+      continue;
+    }
+    const system = kb.getNodeSystem(nodeName);
+
+    // Prerequisite nodes
+    const prerequisites = parseJsonArray<string>(annotation.prerequisite_nodes);
+    const upstreamTypes =
+      connections.length > 0
+        ? new Set(
+            Array.from(collectUpstream(node.path, connections)).map((p) => nodeTypesByPath.get(p)),
+          )
+        : undefined;
+    for (const prerequisite of prerequisites) {
+      const key = normalizeNodeType(prerequisite);
+      if (!presentTypes.has(key)) {
+        findings.push({
+          severity: "warning",
+          rule: "missing-prerequisite",
+          node_path: node.path,
+          node_name: nodeName,
+          message: `${nodeName} expects a ${prerequisite} node, but none is in the network`,
+          related: [prerequisite],
+          error_patterns: linkPatterns(prerequisite, system),
+        });
+      } else if (upstreamTypes && !upstreamTypes.has(key)) {
+        findings.push({
+          severity: "info",
+          rule: "unwired-prerequisite",
+          node_path: node.path,
+          node_name: nodeName,
+          message: `${prerequisite} is in the network but not connected upstream of ${node.path}`,
+          related: [prerequisite],
+          error_patterns: [],
+        });
+      }
+    }
+
+    // Parameter values against annotated ranges
+    const annotatedParams = kb.getParametersForNode(nodeName, version);
+    const paramsByKey = new Map<string, Record<string, unknown>>();
+    for (const param of annotatedParams) {
+      paramsByKey.set(normalizeIdentifier(param.param_name as string), param);
+      const leaf = (param.param_path as string).split("/").at(-1);
+      if (leaf) {
+        paramsByKey.set(normalizeIdentifier(leaf), param);
+      }
+    }
+
+    const values = new Map<string, number>();
+    for (const [parmName, rawValue] of Object.entries(node.params ?? {})) {
+      const param = paramsByKey.get(normalizeIdentifier(parmName));
+      if (!param || typeof rawValue !== "number" || !Number.isFinite(rawValue)) {
+        continue;
+      }
+      values.set(param.param_name as string, rawValue);
+    }
+
+    const safeSide = new Map<string, "above" | "below">();
+    for (const param of annotatedParams) {
+      const paramName = param.param_name as string;
+      const value = values.get(paramName);
+      if (value === undefined) {
+        continue;
+      }
+      const safeMin = param.safe_range_min as number | null;
+      const safeMax = param.safe_range_max as number | null;
+      if (safeMax !== null && safeMax !== undefined && value >= safeMax) {
+        safeSide.set(paramName, "above");
+      } else if (safeMin !== null && safeMin !== undefined && value <= safeMin) {
+        safeSide.set(paramName, "below");
+      }
+
+      const risk = classifyParamValue(value, {
+        safe: pairOf(param.safe_range_min, param.safe_range_max),
+        expert: pairOf(param.expert_range_min, param.expert_range_max),
+        danger_below: (param.danger_below as number | null) ?? undefined,
+        danger_above: (param.danger_above as number | null) ?? undefined,
+      });
+      const mapped = RISK_SEVERITY[risk.level];
+      if (!mapped) {
+        continue;
+      }
+      const description =
+        risk.level === "danger" && param.danger_description
+          ? `: ${param.danger_description as string}`
+          : "";
+      findings.push({
+        ...mapped,
+        node_path: node.path,
+        node_name: nodeName,
+        param: paramName,
+        value,
+        message: `${paramName} = ${value} is ${risk.reason}${description}`,
+        error_patterns: mapped.severity === "info" ? [] : linkPatterns(paramName, system),
+      });
+    }
+
+    // Known interactions where both parameters are pushed to the same extreme
+    const reportedPairs = new Set<string>();
+    for (const param of annotatedParams) {
+      const paramName = param.param_name as string;
+      const side = safeSide.get(paramName);
+      if (!side) {
+        continue;
+      }
+      const interactions = parseJsonArray<{
+        param: string;
+        relationship: string;
+        warning?: string;
+      }>(param.interactions);
+      for (const interaction of interactions) {
+        const pairKey = [paramName, interaction.param].toSorted().join("+");
+        if (safeSide.get(interaction.param) !== side || reportedPairs.has(pairKey)) {
+          continue;
+        }
+        reportedPairs.add(pairKey);
+        findings.push({
+          severity: "warning",
+          rule: "interaction",
+          node_path: node.path,
+          node_name: nodeName,
+          param: paramName,
+          value: values.get(paramName),
+          message: `${paramName} and ${interaction.param} are both at or ${side} their safe range: ${interaction.warning ?? interaction.relationship}`,
+          related: [interaction.param],
+          error_patterns: linkPatterns(paramName, system),
+        });
+      }
+    }
+  }
+
+  const sorted = findings.toSorted(
+    (a, b) =>
+      SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+      a.node_path.localeCompare(b.node_path),
+  );
+  const summary: Record<LintSeverity, number> = { error: 0, warning: 0, info: 0 };
+  for (const finding of sorted) {
+    summary[finding.severity]++;
+  }
+
+  return {
+    houdini_version: version,
+    nodes_checked: snapshot.nodes.length - unannotated.length,
+    unannotated_nodes: unannotated,
+    findings: sorted,
+    summary,
+  };
+}
+
+function pairOf(min: unknown, max: unknown): [number, number] | undefined {
+  return typeof min === "number" && typeof max === "number" ? [min, max] : undefined;
+}
+
+// ── CLI Entry Point ────────────────────────────────────────
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const inputIdx = args.indexOf("--input");
+  const dbIdx = args.indexOf("--db");
+  const versionIdx = args.indexOf("--houdini-version");
+
+  if (inputIdx === -1) {
+    console.log(JSON.stringify({ error: "Specify a network snapshot with --input <file|->" }));
+    return;
+  }
+
+  const input = args[inputIdx + 1];
+  const text = input === "-" ? fs.readFileSync(0, "utf-8") : fs.readFileSync(input, "utf-8");
+  const snapshot = parseNetworkSnapshot(JSON.parse(text));
+
+  const kb = await initDatabase(dbIdx !== -1 ? args[dbIdx + 1] : undefined);
+  try {
+    const report = lintNetwork(kb, snapshot, versionIdx !== -1 ? args[versionIdx + 1] : undefined);
+    console.log(JSON.stringify(report));
+  } finally {
+    kb.close();
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((err) => {
+    console.error("[lint] Fatal:", (err as Error).message);
+    process.exit(1);
+  });
+}
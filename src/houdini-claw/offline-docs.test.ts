@@ -0,0 +1,125 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import JSZip from "jszip";
+import { afterEach, describe, expect, it } from "vitest";
+import { formatWikiDocPage, openOfflineDocs, parseWikiDocPage } from "./offline-docs.js";
+
+const SCATTER_PAGE = `= Scatter =
+
+#type: node
+#context: sop
+#internal: scatter
+#icon: SOP/scatter
+
+"""Scatters new points randomly across a surface or through a volume."""
+
+== Overview ==
+
+Use this node with [Copy to Points|Node:sop/copytopoints] to distribute
+instances. See also [Node:sop/attribscatter].
+
+@parameters
+
+Group:
+    #id: group
+    The primitives to scatter onto.
+
+== Density ==
+
+Force Total Count:
+    #id: useforcetotal
+    Generate exactly the given number of points.
+
+Total Count:
+    #id: npts
+    #default: 1000
+    The number of points to generate.
+
+Relax Iterations:
+    The number of relaxation passes. The default is 10.
+
+    Off:
+        No relaxation.
+
+@inputs
+
+Geometry:
+    The surface to scatter onto.
+`;
+
+describe("houdini-claw offline docs", () => {
+  let tempDir: string | undefined;
+
+  afterEach(() => {
+    if (tempDir) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      tempDir = undefined;
+    }
+  });
+
+  it("parses wiki markup into properties, sections and parameters", () => {
+    const page = parseWikiDocPage(SCATTER_PAGE);
+
+    expect(page.title).toBe("Scatter");
+    expect(page.properties).toMatchObject({ type: "node", context: "sop", internal: "scatter" });
+    expect(page.summary).toBe("Scatters new points randomly across a surface or through a volume.");
+    expect(page.sections[0]).toEqual({
+      heading: "Overview",
+      text: "Use this node with Copy to Points to distribute instances. See also attribscatter.",
+    });
+    expect(page.parameters).toEqual([
+      { name: "group", label: "Group", description: "The primitives to scatter onto." },
+      {
+        name: "useforcetotal",
+        label: "Force Total Count",
+        folder: "Density",
+        description: "Generate exactly the given number of points.",
+      },
+      {
+        name: "npts",
+        label: "Total Count",
+        folder: "Density",
+        default: "1000",
+        description: "The number of points to generate.",
+      },
+      {
+        name: "relax_iterations",
+        label: "Relax Iterations",
+        folder: "Density",
+        default: "10",
+        description: "The number of relaxation passes. The default is 10. Off: No relaxation.",
+      },
+    ]);
+    expect(page.sections.map((s) => s.heading)).toEqual(["Overview", "inputs"]);
+  });
+
+  it("formats one structured line per parameter", () => {
+    const text = formatWikiDocPage(parseWikiDocPage(SCATTER_PAGE));
+    expect(text).toContain("Parameters:");
+    expect(text).toContain(
+      "- [Density] Total Count (npts), default 1000: The number of points to generate.",
+    );
+  });
+
+  it("reads pages from a help directory and a help archive", async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "houdini-claw-offline-"));
+    fs.mkdirSync(path.join(tempDir, "sop"));
+    fs.writeFileSync(path.join(tempDir, "sop", "scatter.txt"), SCATTER_PAGE);
+
+    const fromDir = await openOfflineDocs(tempDir);
+    expect((await fromDir.readPage("nodes/sop/scatter"))?.format).toBe("wiki");
+    expect(await fromDir.readPage("nodes/sop/blast")).toBeUndefined();
+
+    const zip = new JSZip();
+    zip.file("nodes/sop/scatter.html", "<title>Scatter</title>");
+    zip.file("nodes/sop/scatter.txt", SCATTER_PAGE);
+    const archive = path.join(tempDir, "nodes.zip");
+    fs.writeFileSync(archive, await zip.generateAsync({ type: "nodebuffer" }));
+
+    const fromZip = await openOfflineDocs(archive);
+    const page = await fromZip.readPage("nodes/sop/scatter");
+    expect(page?.format).toBe("wiki");
+    expect(page?.text).toBe(SCATTER_PAGE);
+  });
+});
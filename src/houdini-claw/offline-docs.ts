@@ -0,0 +1,306 @@
+/**
+ * Houdini Claw - Offline Documentation Source
+ *
+ * Reads node documentation from a local copy of Houdini's help instead of
+ * sidefx.com: either a directory (an extracted help archive or a docs mirror)
+ * or the bundled archive itself ($HFS/houdini/help/nodes.zip). Help pages are
+ * wiki markup (.txt); their parameter sections are parsed into structured
+ * names, labels, folders and defaults.
+ *
+ * Used by crawl.ts through the "offline_docs" crawl source.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import JSZip from "jszip";
+import { nodePathFromFile } from "./discover.js";
+
+// ── Types ──────────────────────────────────────────────────
+
+export interface WikiDocParameter {
+  /** Parameter name (the `#id:` property, else derived from the label) */
+  name: string;
+  label: string;
+  /** Enclosing folder heading inside the parameters section */
+  folder?: string;
+  default?: string;
+  description: string;
+}
+
+export interface WikiDocPage {
+  title: string;
+  /** Page properties such as type, context, internal, icon */
+  properties: Record<string, string>;
+  summary?: string;
+  /** Non-parameter sections, markup stripped */
+  sections: Array<{ heading: string; text: string }>;
+  parameters: WikiDocParameter[];
+}
+
+export interface OfflineDocPage {
+  format: "wiki" | "html";
+  file: string;
+  text: string;
+}
+
+export interface OfflineDocs {
+  location: string;
+  readPage(nodePath: string): Promise<OfflineDocPage | undefined>;
+}
+
+// ── Wiki Markup Parsing ────────────────────────────────────
+
+/**
+ * Strip inline wiki markup: links, icons, emphasis and code markers.
+ */
+export function stripWikiMarkup(text: string): string {
+  return text
+    .replace(/\[Icon:[^\]]*\]/g, "")
+    .replace(/\[([^\]|]+)\|[^\]]+\]/g, "$1")
+    .replace(/\[(?:Node|Hom|Vex|Exp|Cmd):([^\]]+)\]/g, (_, target: string) =>
+      target.split("/").pop()!.replace(/#.*$/, ""),
+    )
+    .replace(/\[([^\]]+)\]/g, "$1")
+    .replace(/'''|''|\{\{\{|\}\}\}|<<|>>/g, "")
+    .replace(/[ \t]+/g, " ")
+    .trim();
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/** Snake-case a label when a parameter has no `#id:` ("Total Count" → "total_count") */
+function nameFromLabel(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_|_$/g, "");
+}
+
+/** "The default is 0.5." / "Defaults to `Off`" in parameter prose */
+const DEFAULT_IN_TEXT = /\bdefaults?\s+(?:value\s+)?(?:is|to)\s+`?([^\s`,;]+)/i;
+
+function parseParameters(lines: string[]): WikiDocParameter[] {
+  const params: WikiDocParameter[] = [];
+  let folder: string | undefined;
+  let current: { param: WikiDocParameter; indent: number; body: string[] } | undefined;
+
+  const finish = () => {
+    if (!current) {
+      return;
+    }
+    const description = stripWikiMarkup(current.body.join(" "));
+    current.param.description = description;
+    if (current.param.default === undefined) {
+      const match = description.match(DEFAULT_IN_TEXT);
+      if (match) {
+        current.param.default = match[1].replace(/\.$/, "");
+      }
+    }
+    params.push(current.param);
+    current = undefined;
+  };
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      continue;
+    }
+
+    const heading = trimmed.match(/^(={2,})\s*(.+?)\s*\1$/);
+    if (heading) {
+      finish();
+      folder = stripWikiMarkup(heading[2]);
+      continue;
+    }
+
+    const indent = indentOf(line);
+    const entry = trimmed.match(/^([^#:"][^:]*):$/);
+    if (entry && (!current || indent <= current.indent)) {
+      finish();
+      const label = stripWikiMarkup(entry[1]);
+      current = {
+        param: { name: nameFromLabel(label), label, folder, description: "" },
+        indent,
+        body: [],
+      };
+      continue;
+    }
+
+    if (!current) {
+      continue;
+    }
+    const property = trimmed.match(/^#(\w+):\s*(.*)$/);
+    if (property && property[1] === "id") {
+      current.param.name = property[2].trim();
+    } else if (property && property[1] === "default") {
+      current.param.default = property[2].trim();
+    } else if (!property) {
+      current.body.push(trimmed);
+    }
+  }
+
+  finish();
+  return params;
+}
+
+/**
+ * Parse a Houdini help page in wiki markup.
+ */
+export function parseWikiDocPage(text: string): WikiDocPage {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const page: WikiDocPage = { title: "", properties: {}, sections: [], parameters: [] };
+
+  let section: { heading: string; lines: string[] } | undefined;
+  const closeSection = () => {
+    if (!section) {
+      return;
+    }
+    if (section.heading === "parameters") {
+      page.parameters.push(...parseParameters(section.lines));
+    } else {
+      const body = section.lines
+        .map((line) => line.trim())
+        .filter((line) => line && !line.startsWith("#"))
+        .join(" ");
+      if (body) {
+        page.sections.push({ heading: section.heading, text: stripWikiMarkup(body) });
+      }
+    }
+    section = undefined;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (!page.title && /^=\s*.+?\s*=$/.test(trimmed) && !trimmed.startsWith("==")) {
+      page.title = stripWikiMarkup(trimmed.replace(/^=\s*|\s*=$/g, ""));
+      continue;
+    }
+
+    // Page properties come before the first section
+    const property = !section && trimmed.match(/^#(\w+):\s*(.*)$/);
+    if (property) {
+      page.properties[property[1]] = property[2].trim();
+      continue;
+    }
+
+    if (!section && !page.summary && trimmed.startsWith('"""')) {
+      const summaryLines = [trimmed.slice(3)];
+      while (!summaryLines.at(-1)!.endsWith('"""') && i + 1 < lines.length) {
+        summaryLines.push(lines[++i].trim());
+      }
+      page.summary = stripWikiMarkup(summaryLines.join(" ").replace(/"""$/, ""));
+      continue;
+    }
+
+    // "@parameters", "@inputs", ... start a new top-level section
+    const marker = line.match(/^@(\w+)/);
+    if (marker) {
+      closeSection();
+      section = { heading: marker[1], lines: [] };
+      continue;
+    }
+
+    // A top-level "== Heading ==" outside @parameters starts a prose section
+    const heading = line.match(/^(={2,})\s*(.+?)\s*\1$/);
+    if (heading && section?.heading !== "parameters") {
+      closeSection();
+      section = { heading: stripWikiMarkup(heading[2]), lines: [] };
+      continue;
+    }
+
+    if (!section) {
+      if (!trimmed) {
+        continue;
+      }
+      section = { heading: "overview", lines: [] };
+    }
+    section.lines.push(line);
+  }
+
+  closeSection();
+  return page;
+}
+
+/**
+ * Render a parsed page as the plain text handed to the annotation model,
+ * with one structured line per parameter.
+ */
+export function formatWikiDocPage(page: WikiDocPage): string {
+  const parts = [page.title];
+  if (page.summary) {
+    parts.push(page.summary);
+  }
+  for (const section of page.sections) {
+    parts.push(`${section.heading}: ${section.text}`);
+  }
+  if (page.parameters.length > 0) {
+    parts.push("Parameters:");
+    for (const param of page.parameters) {
+      const folder = param.folder ? `[${param.folder}] ` : "";
+      const defaultText = param.default !== undefined ? `, default ${param.default}` : "";
+      parts.push(`- ${folder}${param.label} (${param.name})${defaultText}: ${param.description}`);
+    }
+  }
+  return parts.join("\n");
+}
+
+// ── Offline Docs Readers ───────────────────────────────────
+
+/**
+ * Open a local docs directory or help archive (.zip). Pages are looked up by
+ * docs path ("nodes/sop/scatter"); wiki pages win over HTML pages.
+ */
+export async function openOfflineDocs(location: string): Promise<OfflineDocs> {
+  if (!fs.existsSync(location)) {
+    throw new Error(`Offline docs not found: ${location}`);
+  }
+
+  if (fs.statSync(location).isDirectory()) {
+    return {
+      location,
+      readPage: async (nodePath) => {
+        const [, context, name] = nodePath.split("/");
+        const candidates = [
+          { format: "wiki" as const, file: path.join(location, "nodes", context, `${name}.txt`) },
+          { format: "wiki" as const, file: path.join(location, context, `${name}.txt`) },
+          { format: "html" as const, file: path.join(location, "nodes", context, `${name}.html`) },
+          { format: "html" as const, file: path.join(location, context, `${name}.html`) },
+        ];
+        const found = candidates.find((c) => fs.existsSync(c.file));
+        return found ? { ...found, text: fs.readFileSync(found.file, "utf-8") } : undefined;
+      },
+    };
+  }
+
+  const zip = await JSZip.loadAsync(fs.readFileSync(location));
+  const entries = new Map<string, JSZip.JSZipObject>();
+  for (const entry of Object.values(zip.files)) {
+    const nodePath = entry.dir ? undefined : nodePathFromFile(entry.name);
+    if (!nodePath) {
+      continue;
+    }
+    const existing = entries.get(nodePath);
+    if (!existing || (entry.name.endsWith(".txt") && !existing.name.endsWith(".txt"))) {
+      entries.set(nodePath, entry);
+    }
+  }
+
+  return {
+    location,
+    readPage: async (nodePath) => {
+      const entry = entries.get(nodePath);
+      if (!entry) {
+        return undefined;
+      }
+      return {
+        format: entry.name.endsWith(".txt") ? "wiki" : "html",
+        file: `${location}:${entry.name}`,
+        text: await entry.async("string"),
+      };
+    },
+  };
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildParamAdvice,
+  classifyParamValue,
+  matchMappingKey,
+  parseIntentInstruction,
+  parseRangeFromText,
+} from "./param-advice.js";
+
+const dissipation = {
+  node_name: "pyro_solver",
+  param_name: "dissipation",
+  param_path: "pyrosolver1/flameSolver/dissipation",
+  houdini_version: "20.5",
+  default_value: 0.1,
+  safe_range_min: 0.01,
+  safe_range_max: 0.5,
+  expert_range_min: 0.001,
+  expert_range_max: 1.0,
+  danger_below: 0.001,
+  danger_above: 1.0,
+  danger_description: "Below 0.001: smoke never disappears.",
+  intent_mapping: JSON.stringify({
+    "smoke lingers longer": "decrease dissipation",
+    "smoke disappears faster": "increase dissipation",
+    "thicker smoke": "decrease dissipation + increase density",
+  }),
+  visual_effect: JSON.stringify({
+    "0.01": "Dense, persistent fog",
+    "0.05": "Slow, realistic indoor smoke",
+    "0.3": "Fast-fading wispy smoke",
+  }),
+  interactions: JSON.stringify([
+    { param: "cooling_rate", relationship: "Both reduce density", warning: "Don't max both" },
+  ]),
+  context_adjustments: JSON.stringify({
+    indoor: "Use 0.01-0.05 (enclosed spaces trap smoke)",
+    large_scale: "Use 0.02-0.1",
+  }),
+};
+
+describe("houdini-claw param advice", () => {
+  it("classifies values against safe, expert and danger ranges", () => {
+    const ranges = {
+      safe: [0.01, 0.5] as [number, number],
+      expert: [0.001, 1] as [number, number],
+    };
+    expect(classifyParamValue(0.1, ranges).level).toBe("safe");
+    expect(classifyParamValue(0.8, ranges).level).toBe("expert");
+    expect(classifyParamValue(3, ranges).level).toBe("extreme");
+    expect(classifyParamValue(1, { ...ranges, danger_above: 1 }).level).toBe("danger");
+    expect(classifyParamValue(1, {}).level).toBe("unknown");
+  });
+
+  it("parses absolute ranges but not multipliers", () => {
+    expect(parseRangeFromText("Use 0.01-0.05 (enclosed spaces)")).toEqual([0.01, 0.05]);
+    expect(parseRangeFromText("between 2 to 0.5")).toEqual([0.5, 2]);
+    expect(parseRangeFromText("2-3x final value")).toBeUndefined();
+  });
+
+  it("matches mapping keys by word overlap", () => {
+    const mapping = { indoor: "", large_scale: "", "smoke disappears faster": "" };
+    expect(matchMappingKey(mapping, "indoor explosion")).toBe("indoor");
+    expect(matchMappingKey(mapping, "a large scale pyro shot")).toBe("large_scale");
+    expect(matchMappingKey(mapping, "make the smoke disappear faster")).toBe(
+      "smoke disappears faster",
+    );
+    expect(matchMappingKey(mapping, "underwater")).toBeUndefined();
+  });
+
+  it("splits compound intent instructions into co-adjustments", () => {
+    expect(
+      parseIntentInstruction("decrease dissipation + increase density", "dissipation"),
+    ).toEqual({
+      direction: "decrease",
+      coAdjustments: [{ param: "density", direction: "increase" }],
+    });
+  });
+
+  it("recommends within the context range and flags dangerous current values", () => {
+    const advice = buildParamAdvice(
+      dissipation,
+      {
+        nodeName: "pyro_solver",
+        paramName: "dissipation",
+        context: "indoor explosion",
+        currentValue: 1.2,
+      },
+      (param) => (param === "cooling_rate" ? [0.1, 0.9] : undefined),
+    );
+
+    expect(advice.current_risk?.level).toBe("danger");
+    expect(advice.current_risk?.reason).toContain("never disappears");
+    expect(advice.context?.range).toEqual([0.01, 0.05]);
+    expect(advice.recommendation.range).toEqual([0.01, 0.05]);
+    expect(advice.recommendation.direction).toBe("decrease");
+    expect(advice.recommendation.value).toBeGreaterThanOrEqual(0.01);
+    expect(advice.recommendation.value).toBeLessThanOrEqual(0.05);
+    expect(advice.recommendation.risk).toBe("safe");
+    expect(advice.interactions).toEqual([
+      expect.objectContaining({ param: "cooling_rate", safe_range: [0.1, 0.9] }),
+    ]);
+  });
+
+  it("moves the current value in the intent direction", () => {
+    const advice = buildParamAdvice(dissipation, {
+      nodeName: "pyro_solver",
+      paramName: "dissipation",
+      intent: "thicker smoke",
+      currentValue: 0.3,
+    });
+
+    expect(advice.intent?.direction).toBe("decrease");
+    expect(advice.recommendation.direction).toBe("decrease");
+    expect(advice.recommendation.value).toBeLessThan(0.3);
+    expect(advice.co_adjustments).toEqual([{ param: "density", direction: "increase" }]);
+    expect(advice.visual_effect).toBeDefined();
+  });
+});
@@ -0,0 +1,415 @@
+/**
+ * Houdini Claw - Parameter Advice Engine
+ *
+ * Answers "the user wants X in context Y, the current value is Z" for an
+ * annotated parameter: classifies the risk of the current value, recommends a
+ * value or direction from the safe/expert ranges, context adjustments and
+ * intent mapping, and lists the interacting parameters to change alongside.
+ */
+
+import type { KnowledgeBase } from "./db.js";
+
+export type RiskLevel = "safe" | "expert" | "extreme" | "danger" | "unknown";
+export type AdjustDirection = "increase" | "decrease" | "set" | "keep";
+
+export interface ParamAdviceRequest {
+  nodeName: string;
+  paramName: string;
+  /** Scene description, e.g. "indoor explosion" */
+  context?: string;
+  /** What the user wants, e.g. "smoke disappears faster" */
+  intent?: string;
+  currentValue?: number;
+  houdiniVersion?: string;
+}
+
+export interface RiskAssessment {
+  level: RiskLevel;
+  reason: string;
+}
+
+export interface ParamAdvice {
+  node_name: string;
+  param_name: string;
+  param_path: string;
+  houdini_version?: string;
+  context?: {
+    requested: string;
+    matched_key?: string;
+    note?: string;
+    range?: [number, number];
+  };
+  intent?: {
+    requested: string;
+    matched_key?: string;
+    mapping?: string;
+    direction?: AdjustDirection;
+  };
+  current_value?: number;
+  current_risk?: RiskAssessment;
+  recommendation: {
+    value?: number;
+    direction: AdjustDirection;
+    range?: [number, number];
+    risk: RiskLevel;
+    rationale: string[];
+  };
+  /** Other parameters the intent mapping says to move together with this one */
+  co_adjustments: Array<{ param: string; direction: AdjustDirection }>;
+  interactions: Array<{
+    param: string;
+    relationship: string;
+    warning?: string;
+    tip?: string;
+    safe_range?: [number, number];
+  }>;
+  visual_effect?: { at: number; description: string };
+}
+
+/** Parsed numeric columns of a parameter_annotations row */
+interface ParamRanges {
+  default_value?: number;
+  safe?: [number, number];
+  expert?: [number, number];
+  danger_below?: number;
+  danger_above?: number;
+  danger_description?: string;
+}
+
+/**
+ * Classify a value against the annotated ranges. Danger thresholds win over
+ * everything else; values between the safe and expert ranges are "expert",
+ * beyond the expert range (but not in a danger zone) "extreme".
+ */
+export function classifyParamValue(
+  value: number,
+  ranges: Pick<ParamRanges, "safe" | "expert" | "danger_below" | "danger_above">,
+): RiskAssessment {
+  if (ranges.danger_below !== undefined && value <= ranges.danger_below) {
+    return { level: "danger", reason: `at or below danger threshold ${ranges.danger_below}` };
+  }
+  if (ranges.danger_above !== undefined && value >= ranges.danger_above) {
+    return { level: "danger", reason: `at or above danger threshold ${ranges.danger_above}` };
+  }
+  if (ranges.safe && value >= ranges.safe[0] && value <= ranges.safe[1]) {
+    return { level: "safe", reason: `inside safe range ${formatRange(ranges.safe)}` };
+  }
+  if (ranges.expert && value >= ranges.expert[0] && value <= ranges.expert[1]) {
+    return {
+      level: "expert",
+      reason: ranges.safe
+        ? `outside safe range ${formatRange(ranges.safe)} but inside expert range ${formatRange(ranges.expert)}`
+        : `inside expert range ${formatRange(ranges.expert)}`,
+    };
+  }
+  if (ranges.expert) {
+    return { level: "extreme", reason: `outside expert range ${formatRange(ranges.expert)}` };
+  }
+  if (ranges.safe) {
+    return { level: "expert", reason: `outside safe range ${formatRange(ranges.safe)}` };
+  }
+  return { level: "unknown", reason: "no ranges annotated for this parameter" };
+}
+
+/**
+ * Extract a numeric range such as "0.01-0.05" or "0.5 to 2" from free text.
+ * Multipliers like "2-3x final value" are not absolute ranges and are ignored.
+ */
+export function parseRangeFromText(text: string): [number, number] | undefined {
+  const match = text.match(/(-?\d*\.?\d+)\s*(?:-|–|to)\s*(-?\d*\.?\d+)(?!\s*x\b|\d)/i);
+  if (!match) {
+    return undefined;
+  }
+  const a = parseFloat(match[1]);
+  const b = parseFloat(match[2]);
+  if (!Number.isFinite(a) || !Number.isFinite(b)) {
+    return undefined;
+  }
+  return a <= b ? [a, b] : [b, a];
+}
+
+/**
+ * Find the mapping key that best matches free text by word overlap.
+ * Keys are normalized so "large_scale" matches "large scale".
+ */
+export function matchMappingKey(mapping: Record<string, string>, text: string): string | undefined {
+  const words = tokenize(text);
+  if (words.size === 0) {
+    return undefined;
+  }
+
+  let best: { key: string; score: number } | undefined;
+  for (const key of Object.keys(mapping)) {
+    const keyWords = tokenize(key);
+    if (keyWords.size === 0) {
+      continue;
+    }
+    let overlap = 0;
+    for (const word of keyWords) {
+      if (words.has(word)) {
+        overlap++;
+      }
+    }
+    // Fraction of the key that is covered, so short exact keys beat long partial ones
+    const score = overlap / keyWords.size;
+    if (overlap > 0 && (!best || score > best.score)) {
+      best = { key, score };
+    }
+  }
+  return best && best.score >= 0.5 ? best.key : undefined;
+}
+
+/**
+ * Parse an intent-mapping instruction like "decrease dissipation + increase density"
+ * into the direction for `paramName` and co-adjustments for the other parameters.
+ */
+export function parseIntentInstruction(
+  instruction: string,
+  paramName: string,
+): {
+  direction?: AdjustDirection;
+  coAdjustments: Array<{ param: string; direction: AdjustDirection }>;
+} {
+  let direction: AdjustDirection | undefined;
+  const coAdjustments: Array<{ param: string; direction: AdjustDirection }> = [];
+  const normalizedParam = paramName.toLowerCase().replace(/_/g, " ");
+
+  for (const clause of instruction.split(/\s*(?:\+|,|\band\b)\s*/i)) {
+    const match = clause.trim().match(/^(increase|raise|decrease|lower|reduce|set)\b\s*(.*)$/i);
+    if (!match) {
+      continue;
+    }
+    const verb = match[1].toLowerCase();
+    const clauseDirection: AdjustDirection =
+      verb === "increase" || verb === "raise" ? "increase" : verb === "set" ? "set" : "decrease";
+    const target = match[2].trim().toLowerCase().replace(/_/g, " ");
+    if (!target || target === "this parameter" || target.startsWith(normalizedParam)) {
+      direction ??= clauseDirection;
+    } else {
+      coAdjustments.push({ param: target.split(/\s+/).join("_"), direction: clauseDirection });
+    }
+  }
+  return { direction, coAdjustments };
+}
+
+/**
+ * Build parameter advice from an annotated parameter row (as returned by
+ * KnowledgeBase.getParameterAnnotation). `lookupSafeRange` resolves the safe
+ * range of interacting parameters on the same node.
+ */
+export function buildParamAdvice(
+  param: Record<string, unknown>,
+  request: ParamAdviceRequest,
+  lookupSafeRange?: (paramName: string) => [number, number] | undefined,
+): ParamAdvice {
+  const ranges = readRanges(param);
+  const contextAdjustments = parseJson<Record<string, string>>(param.context_adjustments) ?? {};
+  const intentMapping = parseJson<Record<string, string>>(param.intent_mapping) ?? {};
+  const visualEffect = parseJson<Record<string, string>>(param.visual_effect) ?? {};
+  const interactions =
+    parseJson<Array<{ param: string; relationship: string; warning?: string; tip?: string }>>(
+      param.interactions,
+    ) ?? [];
+
+  const rationale: string[] = [];
+  const advice: ParamAdvice = {
+    node_name: param.node_name as string,
+    param_name: param.param_name as string,
+    param_path: param.param_path as string,
+    houdini_version: param.houdini_version as string | undefined,
+    recommendation: { direction: "keep", risk: "unknown", rationale },
+    co_adjustments: [],
+    interactions: [],
+  };
+
+  // 1. Context: narrow the target range
+  let targetRange = ranges.safe ?? ranges.expert;
+  if (request.context) {
+    const key = matchMappingKey(contextAdjustments, request.context);
+    const note = key ? contextAdjustments[key] : undefined;
+    const range = note ? parseRangeFromText(note) : undefined;
+    advice.context = { requested: request.context, matched_key: key, note, range };
+    if (range) {
+      targetRange = range;
+      rationale.push(`context "${key}" suggests ${formatRange(range)}`);
+    } else if (!key) {
+      rationale.push(`no context adjustment matches "${request.context}", using safe range`);
+    }
+  }
+
+  // 2. Intent: choose a direction and collect co-adjustments
+  let direction: AdjustDirection | undefined;
+  if (request.intent) {
+    const key = matchMappingKey(intentMapping, request.intent);
+    const mapping = key ? intentMapping[key] : undefined;
+    const parsed = mapping
+      ? parseIntentInstruction(mapping, advice.param_name)
+      : { direction: undefined, coAdjustments: [] };
+    direction = parsed.direction;
+    advice.intent = { requested: request.intent, matched_key: key, mapping, direction };
+    advice.co_adjustments = parsed.coAdjustments;
+    if (mapping) {
+      rationale.push(`intent "${key}" maps to "${mapping}"`);
+    } else {
+      rationale.push(`no intent mapping matches "${request.intent}"`);
+    }
+  }
+
+  // 3. Current value risk
+  const current =
+    request.currentValue !== undefined && Number.isFinite(request.currentValue)
+      ? request.currentValue
+      : undefined;
+  if (current !== undefined) {
+    advice.current_value = current;
+    advice.current_risk = classifyParamValue(current, ranges);
+    if (advice.current_risk.level === "danger" && ranges.danger_description) {
+      advice.current_risk.reason += `: ${ranges.danger_description}`;
+    }
+  }
+
+  // 4. Recommendation
+  let value: number | undefined;
+  if (!targetRange) {
+    value = ranges.default_value;
+    rationale.push("no ranges annotated; falling back to the default value");
+  } else if (direction === "increase" || direction === "decrease") {
+    const bound = direction === "increase" ? targetRange[1] : targetRange[0];
+    const from = current ?? rangeMidpoint(targetRange);
+    const movesTheRightWay = direction === "increase" ? from < bound : from > bound;
+    value = movesTheRightWay
+      ? rangeMidpoint([Math.min(from, bound), Math.max(from, bound)])
+      : bound;
+    if (!movesTheRightWay && current !== undefined) {
+      rationale.push(
+        `current value is already at or past the ${direction === "increase" ? "upper" : "lower"} end of ${formatRange(targetRange)}`,
+      );
+    }
+  } else if (current !== undefined && current >= targetRange[0] && current <= targetRange[1]) {
+    value = current;
+    rationale.push(`current value is already inside ${formatRange(targetRange)}`);
+  } else {
+    value = rangeMidpoint(targetRange);
+  }
+
+  if (value !== undefined) {
+    value = roundSignificant(value);
+    advice.recommendation.value = value;
+    advice.recommendation.risk = classifyParamValue(value, ranges).level;
+  }
+  advice.recommendation.range = targetRange;
+  advice.recommendation.direction =
+    current !== undefined && value !== undefined
+      ? value > current
+        ? "increase"
+        : value < current
+          ? "decrease"
+          : "keep"
+      : (direction ?? "set");
+
+  // 5. Interactions: everything that must be watched when this value moves
+  advice.interactions = interactions.map((interaction) => ({
+    ...interaction,
+    safe_range: lookupSafeRange?.(interaction.param),
+  }));
+
+  // 6. Visual preview closest to the recommendation
+  if (value !== undefined) {
+    advice.visual_effect = nearestVisualEffect(visualEffect, value);
+  }
+
+  return advice;
+}
+
+/**
+ * Look up a parameter and build advice for it. Returns undefined if the
+ * parameter isn't annotated.
+ */
+export function adviseParameter(
+  kb: KnowledgeBase,
+  request: ParamAdviceRequest,
+): ParamAdvice | undefined {
+  const param = kb.getParameterAnnotation(
+    request.nodeName,
+    request.paramName,
+    request.houdiniVersion,
+  );
+  if (!param) {
+    return undefined;
+  }
+
+  return buildParamAdvice(param, request, (other) => {
+    const row = kb.getParameterAnnotation(request.nodeName, other, request.houdiniVersion);
+    return row ? readRanges(row).safe : undefined;
+  });
+}
+
+// ── Helpers ────────────────────────────────────────────────
+
+function readRanges(param: Record<string, unknown>): ParamRanges {
+  const num = (value: unknown): number | undefined =>
+    typeof value === "number" && Number.isFinite(value) ? value : undefined;
+  const pair = (a: unknown, b: unknown): [number, number] | undefined => {
+    const min = num(a);
+    const max = num(b);
+    return min !== undefined && max !== undefined ? [min, max] : undefined;
+  };
+  return {
+    default_value: num(param.default_value),
+    safe: pair(param.safe_range_min, param.safe_range_max),
+    expert: pair(param.expert_range_min, param.expert_range_max),
+    danger_below: num(param.danger_below),
+    danger_above: num(param.danger_above),
+    danger_description: param.danger_description as string | undefined,
+  };
+}
+
+function parseJson<T>(value: unknown): T | undefined {
+  if (typeof value !== "string" || value.length === 0) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Lowercased words with a trailing plural "s" dropped ("disappears" ~ "disappear") */
+function tokenize(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return new Set(words.map((word) => (word.length > 3 ? word.replace(/s$/, "") : word)));
+}
+
+/** Geometric midpoint for ranges spanning an order of magnitude, arithmetic otherwise */
+function rangeMidpoint([min, max]: [number, number]): number {
+  if (min > 0 && max / min >= 10) {
+    return Math.sqrt(min * max);
+  }
+  return (min + max) / 2;
+}
+
+function roundSignificant(value: number): number {
+  return value === 0 ? 0 : Number(value.toPrecision(3));
+}
+
+function formatRange([min, max]: [number, number]): string {
+  return `[${min}, ${max}]`;
+}
+
+function nearestVisualEffect(
+  visualEffect: Record<string, string>,
+  value: number,
+): { at: number; description: string } | undefined {
+  let best: { at: number; description: string } | undefined;
+  for (const [key, description] of Object.entries(visualEffect)) {
+    const at = parseFloat(key);
+    if (!Number.isFinite(at)) {
+      continue;
+    }
+    if (!best || Math.abs(at - value) < Math.abs(best.at - value)) {
+      best = { at, description };
+    }
+  }
+  return best;
+}
@@ -0,0 +1,22 @@
+/**
+ * Houdini Claw - Pipeline Log
+ *
+ * Message sink shared by the crawl, annotate and ingest stages. The CLI prints
+ * to the terminal, and cron refresh runs write to the cron logger instead.
+ */
+
+export type PipelineLogLevel = "info" | "warn" | "error";
+
+/** A plain `(message) => void` works too; levels then all go to the same place. */
+export type PipelineLog = (message: string, level?: PipelineLogLevel) => void;
+
+/** Default sink: console.log, console.warn or console.error by level. */
+export const consolePipelineLog: PipelineLog = (message, level = "info") => {
+  if (level === "error") {
+    console.error(message);
+  } else if (level === "warn") {
+    console.warn(message);
+  } else {
+    console.log(message);
+  }
+};
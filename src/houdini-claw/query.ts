@@ -9,126 +9,253 @@
  *   bun src/houdini-claw/query.ts --node pyro_solver --param dissipation
  *   bun src/houdini-claw/query.ts --query "how to make smoke disappear faster" --top-k 5
  *   bun src/houdini-claw/query.ts --recipe --system pyro --tags "indoor,explosion"
+ *   bun src/houdini-claw/query.ts --recipe-script "Realistic Indoor Explosion" --variation smaller_room --format hscript
  *   bun src/houdini-claw/query.ts --diagnose --symptoms "sim explodes" --system pyro
+ *   bun src/houdini-claw/query.ts --feedback --pattern PYRO-001 --cause "Insufficient substeps" --fixed
  *   bun src/houdini-claw/query.ts --param-advice --node pyro_solver --param dissipation --context "indoor explosion"
+ *   bun src/houdini-claw/query.ts --param-advice --node pyro_solver --param dissipation --intent "smoke disappears faster" --value 0.05
+ *   bun src/houdini-claw/query.ts --node pyro_solver --param dissipation --houdini-version 19.5
+ *   bun src/houdini-claw/query.ts --node pyro_solver --diff-versions 19.5,20.5
+ *   bun src/houdini-claw/query.ts --build-path --node flip_solver
+ *   bun src/houdini-claw/query.ts --build-path --node pyro_solver --from smoke_object --optional
+ *   bun src/houdini-claw/query.ts --check-network "Smoke Object -> Pyro Solver; Volume Source -> Pyro Solver"
  *   bun src/houdini-claw/query.ts --coverage
  */
 
+import {
+  detectQueryLanguage,
+  expandQueryTerms,
+  localize,
+  localizedName,
+  resolveAliases,
+  resolveNodeAlias,
+  resolveParamAlias,
+  segmentQuery,
+} from "./bilingual.js";
 import { initDatabase, type KnowledgeBase } from "./db.js";
-import { semanticSearch, type SearchResult } from "./vector-search.js";
+import {
+  rankErrorPatterns,
+  recordDiagnosisFeedback,
+  type DiagnosisFeedbackRequest,
+} from "./diagnosis.js";
+import { checkNetwork, findBuildPath, loadNodeGraph, parseNetworkDescription } from "./graph.js";
+import { hybridSearch } from "./hybrid-search.js";
+import { adviseParameter, type ParamAdviceRequest } from "./param-advice.js";
+import { exportRecipeScript, type RecipeScriptOptions } from "./recipe-export.js";
+import { diffNodeVersions } from "./versions.js";
 
 // ── Query Functions ────────────────────────────────────────
+// Each query returns a JSON-serializable payload; errors are reported in an
+// `error` field rather than thrown, so the CLI and the houdini_kb agent tool
+// can hand results to the model unchanged.
+
+export type QueryResult = Record<string, unknown>;
 
 /**
- * Look up a node's full annotation.
+ * Map semantic names ("烟火解算器", "Pyro Solver", "冷却速率") to node and
+ * parameter identifiers when the names given are not annotated as-is.
  */
-function queryNode(kb: KnowledgeBase, nodeName: string, format: "full" | "summary"): void {
-  const node = kb.getNodeAnnotation(nodeName);
+function resolveNames(
+  kb: KnowledgeBase,
+  nodeName: string,
+  paramName?: string,
+): { nodeName: string; paramName?: string; resolved: boolean } {
+  let node = nodeName;
+  if (kb.listNodeVersions(nodeName).length === 0) {
+    node = resolveNodeAlias(kb, nodeName) ?? nodeName;
+  }
+  let param = paramName;
+  if (paramName && !kb.getParameterAnnotation(node, paramName)) {
+    param = resolveParamAlias(kb, node, paramName) ?? paramName;
+  }
+  return { nodeName: node, paramName: param, resolved: node !== nodeName || param !== paramName };
+}
+
+/**
+ * Look up a node's full annotation, optionally for a specific Houdini version
+ * (falls back to the nearest older annotated version). The node may be given
+ * by its semantic name in either language; the response is localized to it.
+ */
+function queryNode(
+  kb: KnowledgeBase,
+  requestedName: string,
+  format: "full" | "summary",
+  houdiniVersion?: string,
+): QueryResult {
+  const language = detectQueryLanguage(requestedName);
+  const { nodeName, resolved } = resolveNames(kb, requestedName);
+  const node = kb.getNodeAnnotation(nodeName, houdiniVersion);
   if (!node) {
-    console.log(JSON.stringify({ error: `Node "${nodeName}" not found in knowledge base` }));
-    return;
+    return {
+      error: houdiniVersion
+        ? localize(language, {
+            en: `Node "${requestedName}" not found for Houdini ${houdiniVersion} or older`,
+            zh: `未找到 Houdini ${houdiniVersion} 或更早版本的节点 "${requestedName}"`,
+          })
+        : localize(language, {
+            en: `Node "${requestedName}" not found in knowledge base`,
+            zh: `知识库中未找到节点 "${requestedName}"`,
+          }),
+      available_versions: kb.listNodeVersions(nodeName),
+    };
   }
+  kb.recordLookup(nodeName);
+  const localized = {
+    language,
+    display_name: localizedName(node, language),
+    ...(resolved ? { resolved_from: requestedName } : {}),
+  };
 
   if (format === "summary") {
-    console.log(
-      JSON.stringify({
-        node_name: node.node_name,
-        category: node.node_category,
-        semantic_name_zh: node.semantic_name_zh,
-        semantic_name_en: node.semantic_name_en,
-        one_line: node.one_line,
-        analogy: node.analogy,
-        human_verified: node.human_verified === 1,
-      }),
-    );
-    return;
+    return {
+      node_name: node.node_name,
+      category: node.node_category,
+      semantic_name_zh: node.semantic_name_zh,
+      semantic_name_en: node.semantic_name_en,
+      one_line: node.one_line,
+      analogy: node.analogy,
+      houdini_version: node.houdini_version,
+      requested_version: houdiniVersion,
+      human_verified: node.human_verified === 1,
+      ...localized,
+    };
   }
 
   // Full format: include parameters
-  const params = kb.getParametersForNode(nodeName);
-  console.log(
-    JSON.stringify({
-      ...node,
-      prerequisite_nodes: node.prerequisite_nodes ? JSON.parse(node.prerequisite_nodes as string) : [],
-      source_urls: node.source_urls ? JSON.parse(node.source_urls as string) : [],
-      parameters: params.map((p) => ({
-        ...p,
-        intent_mapping: p.intent_mapping ? JSON.parse(p.intent_mapping as string) : {},
-        visual_effect: p.visual_effect ? JSON.parse(p.visual_effect as string) : {},
-        interactions: p.interactions ? JSON.parse(p.interactions as string) : [],
-        context_adjustments: p.context_adjustments ? JSON.parse(p.context_adjustments as string) : {},
-      })),
-    }),
-  );
+  const params = kb.getParametersForNode(nodeName, node.houdini_version as string);
+  return {
+    ...node,
+    ...localized,
+    requested_version: houdiniVersion,
+    available_versions: kb.listNodeVersions(nodeName),
+    prerequisite_nodes: node.prerequisite_nodes
+      ? JSON.parse(node.prerequisite_nodes as string)
+      : [],
+    source_urls: node.source_urls ? JSON.parse(node.source_urls as string) : [],
+    parameters: params.map((p) => ({
+      ...p,
+      display_name: localizedName(p, language),
+      intent_mapping: p.intent_mapping ? JSON.parse(p.intent_mapping as string) : {},
+      visual_effect: p.visual_effect ? JSON.parse(p.visual_effect as string) : {},
+      interactions: p.interactions ? JSON.parse(p.interactions as string) : [],
+      context_adjustments: p.context_adjustments ? JSON.parse(p.context_adjustments as string) : {},
+    })),
+  };
 }
 
 /**
- * Look up a specific parameter on a node.
+ * Look up a specific parameter on a node. Node and parameter may be given by
+ * semantic name; the response is localized to the parameter name's language.
  */
-function queryParam(kb: KnowledgeBase, nodeName: string, paramName: string): void {
-  const param = kb.getParameterAnnotation(nodeName, paramName);
+function queryParam(
+  kb: KnowledgeBase,
+  requestedNode: string,
+  requestedParam: string,
+  houdiniVersion?: string,
+): QueryResult {
+  const language = detectQueryLanguage(requestedParam);
+  const {
+    nodeName,
+    paramName = requestedParam,
+    resolved,
+  } = resolveNames(kb, requestedNode, requestedParam);
+  const param = kb.getParameterAnnotation(nodeName, paramName, houdiniVersion);
   if (!param) {
-    console.log(
-      JSON.stringify({
-        error: `Parameter "${paramName}" on node "${nodeName}" not found in knowledge base`,
-      }),
-    );
-    return;
+    return {
+      error: houdiniVersion
+        ? localize(language, {
+            en: `Parameter "${requestedParam}" on node "${requestedNode}" not found for Houdini ${houdiniVersion} or older`,
+            zh: `未找到 Houdini ${houdiniVersion} 或更早版本中节点 "${requestedNode}" 的参数 "${requestedParam}"`,
+          })
+        : localize(language, {
+            en: `Parameter "${requestedParam}" on node "${requestedNode}" not found in knowledge base`,
+            zh: `知识库中未找到节点 "${requestedNode}" 的参数 "${requestedParam}"`,
+          }),
+    };
   }
+  kb.recordLookup(nodeName, paramName);
 
-  console.log(
-    JSON.stringify({
-      ...param,
-      intent_mapping: param.intent_mapping ? JSON.parse(param.intent_mapping as string) : {},
-      visual_effect: param.visual_effect ? JSON.parse(param.visual_effect as string) : {},
-      interactions: param.interactions ? JSON.parse(param.interactions as string) : [],
-      context_adjustments: param.context_adjustments ? JSON.parse(param.context_adjustments as string) : {},
-    }),
-  );
+  return {
+    ...param,
+    language,
+    display_name: localizedName(param, language),
+    ...(resolved ? { resolved_from: `${requestedNode}/${requestedParam}` } : {}),
+    requested_version: houdiniVersion,
+    intent_mapping: param.intent_mapping ? JSON.parse(param.intent_mapping as string) : {},
+    visual_effect: param.visual_effect ? JSON.parse(param.visual_effect as string) : {},
+    interactions: param.interactions ? JSON.parse(param.interactions as string) : [],
+    context_adjustments: param.context_adjustments
+      ? JSON.parse(param.context_adjustments as string)
+      : {},
+  };
 }
 
 /**
- * Semantic search across the knowledge base.
+ * Hybrid (BM25 + vector) search across the knowledge base.
  */
 async function querySemanticSearch(
   kb: KnowledgeBase,
   query: string,
   topK: number,
   system?: string,
-): Promise<void> {
+  houdiniVersion?: string,
+): Promise<QueryResult> {
+  const language = detectQueryLanguage(query);
+  // Semantic names in the query ("烟雾消散速度") add their identifiers to the keyword leg
+  const aliases = resolveAliases(kb, query);
+  const keywordQuery =
+    language === "zh" || aliases.length > 0
+      ? [query, ...expandQueryTerms(query, aliases)].join(" ")
+      : undefined;
+  const aliasInfo = aliases.length > 0 ? { aliases } : {};
+
   try {
-    const results = await semanticSearch(kb, query, {
+    const { mode, results, vectorError } = await hybridSearch(kb, query, {
       topK,
       system,
+      houdiniVersion,
+      keywordQuery,
     });
 
-    console.log(
-      JSON.stringify({
-        query,
-        results: results.map((r) => ({
-          score: r.score.toFixed(4),
-          type: r.chunkType,
-          node: r.nodeName,
-          system: r.system,
-          text: r.text,
-        })),
-      }),
-    );
-  } catch (err) {
-    // If vector search is unavailable, fall back to text search
-    console.log(
-      JSON.stringify({
-        query,
-        error: "Vector search unavailable, showing text search fallback",
-        fallback: true,
-        results: fallbackTextSearch(kb, query, topK, system),
+    return {
+      query,
+      language,
+      mode,
+      ...aliasInfo,
+      ...(vectorError ? { warning: `Vector search unavailable: ${vectorError}` } : {}),
+      results: results.map((r) => ({
+        score: r.score.toFixed(4),
+        type: r.chunkType,
+        node: r.nodeName,
+        node_label: r.nodeName
+          ? localizedName(kb.getNodeAnnotation(r.nodeName, houdiniVersion), language)
+          : undefined,
+        system: r.system,
+        source: r.sourceTable,
+        matched_by: r.matchedBy,
+        text: r.text,
+      })),
+    };
+  } catch {
+    // Neither keyword nor vector search is available, fall back to substring matching
+    return {
+      query,
+      language,
+      error: localize(language, {
+        en: "Keyword and vector search unavailable, showing text search fallback",
+        zh: "关键词和向量搜索均不可用，以下为文本匹配结果",
       }),
-    );
+      fallback: true,
+      ...aliasInfo,
+      results: fallbackTextSearch(kb, query, topK, system),
+    };
   }
 }
 
 /**
- * Fallback text search when vector search is unavailable.
+ * Fallback text search when neither FTS5 nor vector search is available.
+ * Matches query words (CJK segmented) against node names, semantic names and
+ * summaries; nodes whose semantic names match the query rank first.
  */
 function fallbackTextSearch(
   kb: KnowledgeBase,
@@ -136,14 +263,19 @@ function fallbackTextSearch(
   topK: number,
   system?: string,
 ): unknown[] {
-  // Simple keyword matching against node annotations
-  const keywords = query.toLowerCase().split(/\s+/);
-  const nodes = kb.listNodes();
+  const language = detectQueryLanguage(query);
+  const keywords = segmentQuery(query);
+  const aliasNodes = new Set(resolveAliases(kb, query).map((a) => a.node_name));
+  const nodes = kb
+    .listNodes()
+    .filter((node) => !system || kb.getNodeSystem(node.node_name as string) === system);
 
   const scored = nodes
     .map((node) => {
       const text = [
         node.node_name,
+        node.semantic_name_zh,
+        node.semantic_name_en,
         node.one_line,
         node.node_category,
       ]
@@ -151,20 +283,23 @@ function fallbackTextSearch(
         .join(" ")
         .toLowerCase();
 
-      let score = 0;
+      let score = aliasNodes.has(node.node_name as string) ? 2 : 0;
       for (const kw of keywords) {
-        if (text.includes(kw)) score++;
+        if (text.includes(kw)) {
+          score++;
+        }
       }
       return { node, score };
     })
     .filter((item) => item.score > 0)
-    .sort((a, b) => b.score - a.score)
+    .toSorted((a, b) => b.score - a.score)
     .slice(0, topK);
 
   return scored.map((item) => ({
     score: item.score,
     type: "node",
     node: item.node.node_name,
+    node_label: localizedName(item.node, language),
     text: item.node.one_line,
   }));
 }
@@ -172,71 +307,191 @@ function fallbackTextSearch(
 /**
  * Search for matching recipes.
  */
-function queryRecipe(kb: KnowledgeBase, system?: string, tags?: string[]): void {
+function queryRecipe(kb: KnowledgeBase, system?: string, tags?: string[]): QueryResult {
   const recipes = kb.searchRecipes(system, tags);
 
   if (recipes.length === 0) {
-    console.log(
-      JSON.stringify({
-        error: "No matching recipes found",
-        system,
-        tags,
-      }),
-    );
-    return;
+    return {
+      error: "No matching recipes found",
+      system,
+      tags,
+    };
   }
 
-  console.log(
-    JSON.stringify({
-      count: recipes.length,
-      recipes: recipes.map((r) => ({
-        ...r,
-        tags: r.tags ? JSON.parse(r.tags as string) : [],
-        prerequisites: r.prerequisites ? JSON.parse(r.prerequisites as string) : [],
-        parameters: r.parameters ? JSON.parse(r.parameters as string) : {},
-        warnings: r.warnings ? JSON.parse(r.warnings as string) : [],
-        variations: r.variations ? JSON.parse(r.variations as string) : {},
-      })),
-    }),
-  );
+  return {
+    count: recipes.length,
+    recipes: recipes.map((r) => ({
+      ...r,
+      tags: r.tags ? JSON.parse(r.tags as string) : [],
+      prerequisites: r.prerequisites ? JSON.parse(r.prerequisites as string) : [],
+      parameters: r.parameters ? JSON.parse(r.parameters as string) : {},
+      warnings: r.warnings ? JSON.parse(r.warnings as string) : [],
+      variations: r.variations ? JSON.parse(r.variations as string) : {},
+    })),
+  };
+}
+
+/**
+ * Build a Python or HScript setup script for one recipe.
+ */
+function queryRecipeScript(
+  kb: KnowledgeBase,
+  recipeName: string,
+  options?: RecipeScriptOptions,
+): QueryResult {
+  let script;
+  try {
+    script = exportRecipeScript(kb, recipeName, options);
+  } catch (err) {
+    return { error: (err as Error).message };
+  }
+  if (!script) {
+    return {
+      error: `Recipe "${recipeName}" not found`,
+      suggestion: "Use --recipe to list recipes by system and tags",
+    };
+  }
+  return { ...script };
 }
 
 /**
- * Search for matching error patterns.
+ * Search for matching error patterns, most likely first: symptom similarity,
+ * severity and the fix rates learned from recorded diagnosis outcomes.
  */
-function queryDiagnose(kb: KnowledgeBase, system?: string, symptoms?: string): void {
-  const patterns = kb.searchErrorPatterns(system, symptoms);
+function queryDiagnose(kb: KnowledgeBase, system?: string, symptoms?: string): QueryResult {
+  const language = detectQueryLanguage(symptoms ?? "");
+  // Symptom words plus the identifiers of any node/parameter names mentioned;
+  // identifiers appear in pattern prose as words ("cooling rate")
+  const terms = symptoms
+    ? expandQueryTerms(symptoms, resolveAliases(kb, symptoms)).flatMap((term) =>
+        term.includes("_") ? [term, term.replaceAll("_", " ")] : [term],
+      )
+    : undefined;
+  const patterns = kb.searchErrorPatterns(system, terms);
 
   if (patterns.length === 0) {
-    console.log(
-      JSON.stringify({
-        error: "No matching error patterns found",
-        system,
-        symptoms,
+    return {
+      error: localize(language, {
+        en: "No matching error patterns found",
+        zh: "未找到匹配的错误模式",
       }),
-    );
-    return;
+      language,
+      system,
+      symptoms,
+    };
   }
 
-  console.log(
-    JSON.stringify({
-      count: patterns.length,
-      patterns: patterns.map((p) => ({
-        ...p,
-        symptoms: p.symptoms ? JSON.parse(p.symptoms as string) : [],
-        root_causes: p.root_causes ? JSON.parse(p.root_causes as string) : [],
-        related_patterns: p.related_patterns ? JSON.parse(p.related_patterns as string) : [],
-      })),
-    }),
+  const stats = kb.getDiagnosisFeedbackStats(patterns.map((p) => String(p.pattern_id)));
+  return {
+    count: patterns.length,
+    language,
+    patterns: rankErrorPatterns(patterns, terms ?? [], stats),
+    follow_up:
+      "Once the user has tried the fixes, ask which root cause fixed it and record it as feedback (pattern_id, cause, fixed)",
+  };
+}
+
+/**
+ * Record which root cause of a diagnosed pattern fixed the user's problem.
+ */
+function queryDiagnosisFeedback(kb: KnowledgeBase, request: DiagnosisFeedbackRequest): QueryResult {
+  try {
+    const recorded = recordDiagnosisFeedback(kb, request);
+    const stats = kb.getDiagnosisFeedbackStats([request.patternId]);
+    const [pattern] = rankErrorPatterns([kb.getErrorPattern(request.patternId)!], [], stats);
+    return { recorded, fix_rate: pattern.fix_rate, root_causes: pattern.root_causes };
+  } catch (err) {
+    return { error: (err as Error).message };
+  }
+}
+
+/**
+ * Show which parameters of a node were added, removed or re-ranged between two versions.
+ */
+function queryVersionDiff(
+  kb: KnowledgeBase,
+  nodeName: string,
+  fromVersion: string,
+  toVersion: string,
+): QueryResult {
+  try {
+    return { ...diffNodeVersions(kb, nodeName, fromVersion, toVersion) };
+  } catch (err) {
+    return { error: (err as Error).message };
+  }
+}
+
+/**
+ * Recommend a value for a parameter given the scene context, the user's intent
+ * and the current value, with risk class and parameters to adjust together.
+ */
+function queryParamAdvice(kb: KnowledgeBase, request: ParamAdviceRequest): QueryResult {
+  const { nodeName, paramName = request.paramName } = resolveNames(
+    kb,
+    request.nodeName,
+    request.paramName,
   );
+  const advice = adviseParameter(kb, { ...request, nodeName, paramName });
+
+  if (!advice) {
+    return {
+      error: `Parameter "${request.paramName}" not found on node "${request.nodeName}"`,
+      suggestion: `Use --node ${request.nodeName} to list the node's annotated parameters`,
+    };
+  }
+  kb.recordLookup(nodeName, paramName);
+
+  return { ...advice };
+}
+
+/**
+ * Ordered build path to a node: everything it needs upstream, prerequisites
+ * first, optionally starting from a given source node.
+ */
+function queryBuildPath(
+  kb: KnowledgeBase,
+  target: string,
+  options?: { from?: string; includeOptional?: boolean; houdiniVersion?: string },
+): QueryResult {
+  const graph = loadNodeGraph(kb, options?.houdiniVersion);
+  const path = findBuildPath(graph, target, options);
+
+  if (!path) {
+    return {
+      error: `Node "${target}" has no recorded upstream or downstream nodes`,
+      suggestion: `Use --node ${target} to check its prerequisite_nodes and typical_network`,
+    };
+  }
+  if (!path.connected) {
+    return { error: `"${path.from}" is not upstream of "${path.target}"`, ...path };
+  }
+  return { ...path };
+}
+
+/**
+ * Check a described network ("Smoke Object -> Pyro Solver; ...") for missing
+ * prerequisites and cycles.
+ */
+function queryNetworkCheck(
+  kb: KnowledgeBase,
+  description: string,
+  houdiniVersion?: string,
+): QueryResult {
+  const network = parseNetworkDescription(description);
+  if (network.nodes.length === 0) {
+    return { error: 'Describe the network as node chains, e.g. "Smoke Object -> Pyro Solver"' };
+  }
+  return { ...checkNetwork(loadNodeGraph(kb, houdiniVersion), network) };
 }
 
 /**
  * Print coverage report.
  */
-function queryCoverage(kb: KnowledgeBase): void {
+function queryCoverage(kb: KnowledgeBase): QueryResult {
   const report = kb.getCoverageReport();
-  console.log(JSON.stringify({ coverage: report }));
+  // Per-system totals against discovered node pages (written by discover.ts)
+  const bySystem = kb.getCoverageSnapshot();
+  return { coverage: report, by_system: bySystem };
 }
 
 // ── CLI Entry Point ────────────────────────────────────────
@@ -247,7 +502,31 @@ async function main(): Promise<void> {
 
   try {
     if (args.includes("--coverage")) {
-      queryCoverage(kb);
+      console.log(JSON.stringify(queryCoverage(kb)));
+      return;
+    }
+
+    const checkIdx = args.indexOf("--check-network");
+    if (checkIdx !== -1) {
+      const versionIdx = args.indexOf("--houdini-version");
+      const houdiniVersion = versionIdx !== -1 ? args[versionIdx + 1] : undefined;
+      console.log(JSON.stringify(queryNetworkCheck(kb, args[checkIdx + 1], houdiniVersion)));
+      return;
+    }
+
+    const recipeScriptIdx = args.indexOf("--recipe-script");
+    if (recipeScriptIdx !== -1) {
+      const variationIdx = args.indexOf("--variation");
+      const contextIdx = args.indexOf("--context");
+      const formatIdx = args.indexOf("--format");
+      const versionIdx = args.indexOf("--houdini-version");
+      const result = queryRecipeScript(kb, args[recipeScriptIdx + 1], {
+        format: formatIdx !== -1 && args[formatIdx + 1] === "hscript" ? "hscript" : "python",
+        variation: variationIdx !== -1 ? args[variationIdx + 1] : undefined,
+        context: contextIdx !== -1 ? args[contextIdx + 1] : undefined,
+        houdiniVersion: versionIdx !== -1 ? args[versionIdx + 1] : undefined,
+      });
+      console.log(JSON.stringify(result));
       return;
     }
 
@@ -256,7 +535,7 @@ async function main(): Promise<void> {
       const tagsIdx = args.indexOf("--tags");
       const system = systemIdx !== -1 ? args[systemIdx + 1] : undefined;
       const tags = tagsIdx !== -1 ? args[tagsIdx + 1].split(",") : undefined;
-      queryRecipe(kb, system, tags);
+      console.log(JSON.stringify(queryRecipe(kb, system, tags)));
       return;
     }
 
@@ -265,7 +544,25 @@ async function main(): Promise<void> {
       const symptomsIdx = args.indexOf("--symptoms");
       const system = systemIdx !== -1 ? args[systemIdx + 1] : undefined;
       const symptoms = symptomsIdx !== -1 ? args[symptomsIdx + 1] : undefined;
-      queryDiagnose(kb, system, symptoms);
+      console.log(JSON.stringify(queryDiagnose(kb, system, symptoms)));
+      return;
+    }
+
+    if (args.includes("--feedback")) {
+      const patternIdx = args.indexOf("--pattern");
+      const causeIdx = args.indexOf("--cause");
+      const symptomsIdx = args.indexOf("--symptoms");
+      if (patternIdx === -1) {
+        console.log(JSON.stringify({ error: "--feedback requires --pattern" }));
+        return;
+      }
+      const result = queryDiagnosisFeedback(kb, {
+        patternId: args[patternIdx + 1],
+        cause: causeIdx !== -1 ? args[causeIdx + 1] : undefined,
+        fixed: args.includes("--fixed"),
+        symptoms: symptomsIdx !== -1 ? args[symptomsIdx + 1] : undefined,
+      });
+      console.log(JSON.stringify(result));
       return;
     }
 
@@ -275,31 +572,62 @@ async function main(): Promise<void> {
     const topKIdx = args.indexOf("--top-k");
     const formatIdx = args.indexOf("--format");
     const systemIdx = args.indexOf("--system");
+    const versionIdx = args.indexOf("--houdini-version");
+    const diffIdx = args.indexOf("--diff-versions");
+    const houdiniVersion = versionIdx !== -1 ? args[versionIdx + 1] : undefined;
 
-    if (nodeIdx !== -1 && paramIdx !== -1) {
+    let result: QueryResult;
+    if (args.includes("--param-advice")) {
+      // Parameter advice (param lookup + context, intent and current value)
+      if (nodeIdx === -1 || paramIdx === -1) {
+        console.log(JSON.stringify({ error: "--param-advice requires --node and --param" }));
+        return;
+      }
+      const contextIdx = args.indexOf("--context");
+      const intentIdx = args.indexOf("--intent");
+      const valueIdx = args.indexOf("--value");
+      result = queryParamAdvice(kb, {
+        nodeName: args[nodeIdx + 1],
+        paramName: args[paramIdx + 1],
+        context: contextIdx !== -1 ? args[contextIdx + 1] : undefined,
+        intent: intentIdx !== -1 ? args[intentIdx + 1] : undefined,
+        currentValue: valueIdx !== -1 ? parseFloat(args[valueIdx + 1]) : undefined,
+        houdiniVersion,
+      });
+    } else if (args.includes("--build-path")) {
+      // Ordered build path from the node graph
+      if (nodeIdx === -1) {
+        console.log(JSON.stringify({ error: "--build-path requires --node" }));
+        return;
+      }
+      const fromIdx = args.indexOf("--from");
+      result = queryBuildPath(kb, args[nodeIdx + 1], {
+        from: fromIdx !== -1 ? args[fromIdx + 1] : undefined,
+        includeOptional: args.includes("--optional"),
+        houdiniVersion,
+      });
+    } else if (nodeIdx !== -1 && diffIdx !== -1) {
+      // Version diff
+      const [fromVersion, toVersion] = args[diffIdx + 1].split(",");
+      result = queryVersionDiff(kb, args[nodeIdx + 1], fromVersion, toVersion);
+    } else if (nodeIdx !== -1 && paramIdx !== -1) {
       // Parameter lookup
-      queryParam(kb, args[nodeIdx + 1], args[paramIdx + 1]);
+      result = queryParam(kb, args[nodeIdx + 1], args[paramIdx + 1], houdiniVersion);
     } else if (nodeIdx !== -1) {
       // Node lookup
       const format = (formatIdx !== -1 ? args[formatIdx + 1] : "full") as "full" | "summary";
-      queryNode(kb, args[nodeIdx + 1], format);
+      result = queryNode(kb, args[nodeIdx + 1], format, houdiniVersion);
     } else if (queryIdx !== -1) {
       // Semantic search
       const topK = topKIdx !== -1 ? parseInt(args[topKIdx + 1], 10) : 5;
       const system = systemIdx !== -1 ? args[systemIdx + 1] : undefined;
-      await querySemanticSearch(kb, args[queryIdx + 1], topK, system);
-    } else if (args.includes("--param-advice")) {
-      // Parameter advice (combines param lookup with context)
-      if (nodeIdx !== -1 && paramIdx !== -1) {
-        queryParam(kb, args[nodeIdx + 1], args[paramIdx + 1]);
-      }
+      result = await querySemanticSearch(kb, args[queryIdx + 1], topK, system, houdiniVersion);
     } else {
-      console.log(
-        JSON.stringify({
-          error: "No query specified. Use --node, --query, --recipe, --diagnose, or --coverage",
-        }),
-      );
+      result = {
+        error: "No query specified. Use --node, --query, --recipe, --diagnose, or --coverage",
+      };
     }
+    console.log(JSON.stringify(result));
   } finally {
     kb.close();
   }
@@ -312,4 +640,17 @@ if (import.meta.url === `file://${process.argv[1]}`) {
   });
 }
 
-export { queryNode, queryParam, querySemanticSearch, queryRecipe, queryDiagnose, queryCoverage };
+export {
+  queryNode,
+  queryParam,
+  querySemanticSearch,
+  queryRecipe,
+  queryRecipeScript,
+  queryDiagnose,
+  queryDiagnosisFeedback,
+  queryVersionDiff,
+  queryParamAdvice,
+  queryBuildPath,
+  queryNetworkCheck,
+  queryCoverage,
+};
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import type { KnowledgeBase } from "./db.js";
+import { exportRecipeScript, slugifyRecipeName } from "./recipe-export.js";
+
+function fakeKb(
+  overrides: Record<string, string> = {},
+  paramOverrides: Record<string, Record<string, unknown>> = {},
+): KnowledgeBase {
+  const recipe = {
+    name: "Realistic Indoor Explosion",
+    system: "pyro",
+    parameters: JSON.stringify({
+      pyro_solver: { dissipation: 0.02, cooling_rate: 0.15, turbulence: 0.8 },
+      smoke_object: { division_size: 0.02 },
+      dop_network: { substeps: 4 },
+    }),
+    warnings: JSON.stringify(["Ensure collision normals point inward"]),
+    variations: JSON.stringify({
+      smaller_room: { dissipation: 0.3, turbulence: 0.6, note: "Tighter container" },
+    }),
+    ...overrides,
+  };
+  const params: Record<string, Record<string, unknown>> = {
+    "pyro_solver.dissipation": {
+      param_path: "pyrosolver1/flameSolver/dissipation",
+      context_adjustments: JSON.stringify({ indoor: "Use 0.01-0.05 (enclosed spaces trap smoke)" }),
+    },
+    "pyro_solver.cooling_rate": { param_path: "pyrosolver1/flameSolver/coolingRate" },
+    "pyro_solver.turbulence": { param_path: "pyrosolver1/flameSolver/turbulence" },
+    ...paramOverrides,
+  };
+  return {
+    getRecipe: (name: string) =>
+      name.toLowerCase() === recipe.name.toLowerCase() ? recipe : undefined,
+    getParameterAnnotation: (node: string, param: string) => params[`${node}.${param}`],
+    getNodeAnnotation: (name: string) =>
+      name === "pyro_solver"
+        ? {
+            node_name: name,
+            node_category: "DOP",
+            prerequisite_nodes: JSON.stringify(["smoke_object", "source_volume"]),
+          }
+        : undefined,
+  } as unknown as KnowledgeBase;
+}
+
+describe("houdini-claw recipe export", () => {
+  it("builds a hou script with annotated parm names and flags unknown parameters", () => {
+    const result = exportRecipeScript(fakeKb(), "realistic indoor explosion")!;
+
+    expect(result.nodes.map((n) => [n.key, n.type, n.name])).toEqual([
+      ["pyro_solver", "pyrosolver", "pyrosolver1"],
+      ["smoke_object", "smokeobject", "smokeobject1"],
+      ["dop_network", "dopnet", "realistic_indoor_explosion"],
+    ]);
+    expect(result.nodes[0].inputs).toEqual(["smoke_object"]);
+    expect(result.script).toContain(
+      'dop_net = parent.createNode("dopnet", "realistic_indoor_explosion")',
+    );
+    expect(result.script).toContain('set_parm(pyrosolver1, "coolingRate", 0.15)');
+    expect(result.script).toContain(
+      '# set_parm(smokeobject1, "division_size", 0.02)  # not in knowledge base',
+    );
+    expect(result.script).toContain("pyrosolver1.setInput(0, smokeobject1)");
+    expect(result.unknown).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ node: "smoke_object", param: "division_size" }),
+        expect.objectContaining({ node: "dop_network", param: "substeps" }),
+        expect.objectContaining({ node: "smoke_object", reason: expect.stringMatching(/type/) }),
+      ]),
+    );
+  });
+
+  it("applies variation overrides, then pulls values into the context range", () => {
+    const result = exportRecipeScript(fakeKb(), "Realistic Indoor Explosion", {
+      variation: "smaller_room",
+      context: "indoor explosion",
+      format: "hscript",
+    })!;
+
+    const byParam = new Map(result.settings.map((s) => [s.param, s]));
+    expect(byParam.get("turbulence")).toMatchObject({ value: 0.6, source: "variation" });
+    expect(byParam.get("dissipation")).toMatchObject({ value: 0.05, source: "context" });
+    expect(result.warnings).toContain("smaller_room: Tighter container");
+    expect(result.script).toContain("opadd pyrosolver pyrosolver1");
+    expect(result.script).toContain(
+      "opparm /obj/realistic_indoor_explosion/pyrosolver1 dissipation ( 0.05 )",
+    );
+    expect(result.script).toContain("opwire smokeobject1 -0 pyrosolver1");
+  });
+
+  it("reports missing recipes and variations", () => {
+    expect(exportRecipeScript(fakeKb(), "Nope")).toBeUndefined();
+    expect(() =>
+      exportRecipeScript(fakeKb(), "Realistic Indoor Explosion", { variation: "huge" }),
+    ).toThrow(/available: smaller_room/);
+    expect(slugifyRecipeName("3D Smoke!")).toBe("recipe_3d_smoke");
+  });
+
+  it("keeps injected recipe text out of the generated code", () => {
+    const payload = "careful\nimport os; os.system('echo pwned')";
+    const kb = fakeKb({
+      parameters: JSON.stringify({
+        pyro_solver: {
+          dissipation: 0.02,
+          turbulence: `x"\nimport os #`,
+          cooling_rate: "`rm`$HOME",
+        },
+      }),
+      warnings: JSON.stringify([payload, 'quote " and \r\nopcf /']),
+    });
+
+    for (const format of ["python", "hscript"] as const) {
+      const { script } = exportRecipeScript(kb, "Realistic Indoor Explosion", { format })!;
+      const lines = script.split("\n");
+      expect(lines.some((line) => /^\s*import os/.test(line))).toBe(false);
+      expect(lines.some((line) => line.startsWith("opcf /;"))).toBe(false);
+      expect(lines).toContain("#   - careful import os; os.system('echo pwned')");
+      if (format === "python") {
+        expect(script).toContain('set_parm(pyrosolver1, "turbulence", "x\\"\\nimport os #")');
+      } else {
+        expect(script).toContain(
+          'opparm /obj/realistic_indoor_explosion/pyrosolver1 turbulence ( "x\\" import os #" )',
+        );
+        expect(script).toContain('coolingRate ( "\\`rm\\`\\$HOME" )');
+      }
+    }
+  });
+
+  it("rejects node and parm names that are not plain identifiers", () => {
+    const withNode = fakeKb(
+      {},
+      { "pyro_solver.dissipation": { param_path: 'pyro");import os;("1/flameSolver/dissipation' } },
+    );
+    expect(() => exportRecipeScript(withNode, "Realistic Indoor Explosion")).toThrow(
+      /unsafe node type/,
+    );
+    const withParm = fakeKb({
+      parameters: JSON.stringify({ pyro_solver: { "dissipation\nopadd": 0.02 } }),
+    });
+    expect(() =>
+      exportRecipeScript(withParm, "Realistic Indoor Explosion", { format: "hscript" }),
+    ).toThrow(/unsafe parm name/);
+    expect(() =>
+      exportRecipeScript(fakeKb(), "Realistic Indoor Explosion", { parent: "/obj; opadd x" }),
+    ).toThrow(/Unsafe parent/);
+  });
+});
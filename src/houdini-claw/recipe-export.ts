@@ -0,0 +1,678 @@
+/**
+ * Houdini Claw - Recipe Script Export
+ *
+ * Turns a stored recipe into a setup script that creates the node network and
+ * sets the recipe's parameter values: a `hou` Python script for the Python
+ * Shell or a shelf tool, or an HScript `.cmd` file for `source`. A named
+ * variation overrides the base values, and a scene context (e.g. "indoor")
+ * pulls numeric values into the matching context_adjustments range.
+ *
+ * Every parameter is checked against its annotated param_path, which also
+ * supplies the Houdini parm name ("cooling_rate" → "coolingRate"). Parameters
+ * the knowledge base does not know are written commented out and reported in
+ * `unknown`, so the script never sets a guessed parm name silently.
+ *
+ * Recipes come from model output and from imported bundles, so nothing from
+ * them reaches the script as code: comment text is kept on one line, Python
+ * strings are JSON literals, and node types, node names and parm names must be
+ * plain identifiers or the export fails.
+ *
+ * Usage:
+ *   bun src/houdini-claw/recipe-export.ts --recipe "Realistic Indoor Explosion"
+ *   bun src/houdini-claw/recipe-export.ts --recipe "Realistic Indoor Explosion" --variation smaller_room --context indoor
+ *   bun src/houdini-claw/recipe-export.ts --recipe "Outdoor Campfire" --format hscript --output campfire.cmd
+ *   bun src/houdini-claw/recipe-export.ts --recipe "Outdoor Campfire" --json
+ */
+
+import fs from "node:fs";
+import { initDatabase, type KnowledgeBase } from "./db.js";
+import { normalizeNodeType } from "./lint.js";
+import { matchMappingKey, parseRangeFromText } from "./param-advice.js";
+
+// ── Types ──────────────────────────────────────────────────
+
+export type RecipeScriptFormat = "python" | "hscript";
+
+export type NetworkContext = "DOP" | "SOP";
+
+export type RecipeValueSource = "recipe" | "variation" | "context";
+
+export interface RecipeScriptOptions {
+  /** Output language (default: python) */
+  format?: RecipeScriptFormat;
+  /** Recipe variation whose values override the base recipe */
+  variation?: string;
+  /** Scene description matched against each parameter's context_adjustments */
+  context?: string;
+  houdiniVersion?: string;
+  /** Network the containers are created in (default: /obj) */
+  parent?: string;
+}
+
+export interface RecipeNodePlan {
+  /** Recipe node key, e.g. "pyro_solver" */
+  key: string;
+  /** Houdini node type, e.g. "pyrosolver" */
+  type: string;
+  /** Node name inside its network, e.g. "pyrosolver1" */
+  name: string;
+  context: NetworkContext;
+  /** True for the DOP network itself ("dop_network" in recipes) */
+  container: boolean;
+  annotated: boolean;
+  /** Recipe node keys wired into this node, in input order */
+  inputs: string[];
+}
+
+export interface RecipeParamSetting {
+  node: string;
+  param: string;
+  /** Houdini parm name, taken from the last segment of the param_path */
+  parm: string;
+  /** Annotated param_path; missing for parameters the knowledge base doesn't know */
+  path?: string;
+  value: unknown;
+  source: RecipeValueSource;
+  note?: string;
+}
+
+export interface RecipeScript {
+  recipe: string;
+  system: string;
+  format: RecipeScriptFormat;
+  variation?: string;
+  context?: string;
+  nodes: RecipeNodePlan[];
+  settings: RecipeParamSetting[];
+  /** Nodes and parameters missing from the knowledge base */
+  unknown: Array<{ node?: string; param?: string; reason: string }>;
+  /** Recipe warnings and variation notes; also written as script comments */
+  warnings: string[];
+  script: string;
+}
+
+// ── Constants ──────────────────────────────────────────────
+
+const DEFAULT_PARENT = "/obj";
+
+/** Recipe keys that address the DOP network itself rather than a node inside it */
+const CONTAINER_KEYS = new Set(["dop_network", "dopnet"]);
+
+/** Systems whose recipe nodes live in a DOP network unless annotated otherwise */
+const SIM_SYSTEMS = new Set(["pyro", "rbd", "flip", "vellum"]);
+
+/** Houdini types for common recipe node keys that may not be annotated yet */
+const FALLBACK_NODE_TYPES: Record<string, { type: string; context: NetworkContext }> = {
+  pyro_solver: { type: "pyrosolver", context: "DOP" },
+  smoke_object: { type: "smokeobject", context: "DOP" },
+  smoke_solver: { type: "smokesolver", context: "DOP" },
+  source_volume: { type: "volumesource", context: "DOP" },
+  flip_solver: { type: "flipsolver", context: "DOP" },
+  rbd_solver: { type: "rbdsolver", context: "DOP" },
+  vellum_solver: { type: "vellumsolver", context: "DOP" },
+  voronoi_fracture: { type: "voronoifracture", context: "SOP" },
+};
+
+const CONTAINER_VARS: Record<NetworkContext, string> = { DOP: "dop_net", SOP: "sop_net" };
+
+/** Node types, node names and parm names the script may emit as code */
+const SAFE_NAME = /^[A-Za-z0-9_:]+$/;
+
+/** Network paths the script may `cd` into, e.g. "/obj" or "/obj/geo1" */
+const SAFE_PARENT = /^(\/[A-Za-z0-9_]+)+\/?$/;
+
+// ── Helpers ────────────────────────────────────────────────
+
+function parseJson<T>(value: unknown): T | undefined {
+  if (typeof value !== "string" || value.length === 0) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+/** "Realistic Indoor Explosion" → "realistic_indoor_explosion" */
+export function slugifyRecipeName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  return /^[a-z]/.test(slug) ? slug : `recipe_${slug}`;
+}
+
+/** First segment of a param_path such as "pyrosolver1/flameSolver/dissipation" */
+function instanceNameFromPath(path: string | undefined): string | undefined {
+  const segments = path?.split("/").filter(Boolean) ?? [];
+  return segments.length > 1 ? segments[0] : undefined;
+}
+
+function uniqueName(name: string, used: Set<string>): string {
+  let candidate = name;
+  const base = name.replace(/\d+$/, "");
+  for (let i = 2; used.has(candidate); i++) {
+    candidate = `${base}${i}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
+
+/** Keep recipe text on one comment line */
+function commentText(text: string): string {
+  return text.replace(/[\r\n\u2028\u2029]+/g, " ");
+}
+
+/** Reject names that would be emitted as code unless they are plain identifiers. */
+function assertSafeNames(recipe: string, nodes: RecipeNodePlan[], settings: RecipeParamSetting[]) {
+  const check = (label: string, value: string) => {
+    if (!SAFE_NAME.test(value)) {
+      throw new Error(
+        `Recipe "${commentText(recipe)}" has an unsafe ${label}: ${JSON.stringify(value)}`,
+      );
+    }
+  };
+  for (const node of nodes) {
+    check("node type", node.type);
+    check("node name", node.name);
+  }
+  for (const setting of settings) {
+    check("parm name", setting.parm);
+  }
+}
+
+function containerName(context: NetworkContext, slug: string, hasDop: boolean): string {
+  return context === "SOP" && hasDop ? `${slug}_source` : slug;
+}
+
+// ── Export ─────────────────────────────────────────────────
+
+/**
+ * Build a setup script for a stored recipe. Returns undefined when the recipe
+ * does not exist and throws when the requested variation does not, or when a
+ * node type, node name or parm name is not a plain identifier.
+ */
+export function exportRecipeScript(
+  kb: KnowledgeBase,
+  recipeName: string,
+  options: RecipeScriptOptions = {},
+): RecipeScript | undefined {
+  const row = kb.getRecipe(recipeName);
+  if (!row) {
+    return undefined;
+  }
+  const name = row.name as string;
+  const system = row.system as string;
+  const version = options.houdiniVersion;
+  const parameters = parseJson<Record<string, Record<string, unknown>>>(row.parameters) ?? {};
+  const variations = parseJson<Record<string, Record<string, unknown>>>(row.variations) ?? {};
+  const recipeWarnings = parseJson<unknown[]>(row.warnings);
+  const warnings = Array.isArray(recipeWarnings)
+    ? recipeWarnings.filter((w): w is string => typeof w === "string")
+    : [];
+  const unknown: RecipeScript["unknown"] = [];
+
+  const annotations = new Map<string, Record<string, unknown> | undefined>();
+  const lookupParam = (node: string, param: string) => {
+    const id = `${node}.${param}`;
+    if (!annotations.has(id)) {
+      annotations.set(id, kb.getParameterAnnotation(node, param, version));
+    }
+    return annotations.get(id);
+  };
+
+  // Keyed by node.param so variation and context values replace recipe values in place
+  const settings = new Map<string, RecipeParamSetting>();
+  const setValue = (
+    node: string,
+    param: string,
+    value: unknown,
+    source: RecipeValueSource,
+    note?: string,
+  ) => {
+    const annotation = lookupParam(node, param);
+    const path = typeof annotation?.param_path === "string" ? annotation.param_path : undefined;
+    settings.set(`${node}.${param}`, {
+      node,
+      param,
+      parm: path?.split("/").at(-1) || param,
+      ...(path ? { path } : {}),
+      value,
+      source,
+      ...(note ? { note } : {}),
+    });
+  };
+
+  for (const [node, params] of Object.entries(parameters)) {
+    for (const [param, value] of Object.entries(isRecord(params) ? params : {})) {
+      setValue(node, param, value, "recipe");
+    }
+  }
+
+  if (options.variation) {
+    const variation = variations[options.variation];
+    if (!isRecord(variation)) {
+      const available = Object.keys(variations);
+      throw new Error(
+        `Recipe "${name}" has no variation "${options.variation}" (available: ${available.length > 0 ? available.join(", ") : "none"})`,
+      );
+    }
+    const note = `variation ${options.variation}`;
+    const nodeKeys = Object.keys(parameters);
+    for (const [key, value] of Object.entries(variation)) {
+      if (key === "note") {
+        if (typeof value === "string") {
+          warnings.push(`${options.variation}: ${value}`);
+        }
+        continue;
+      }
+      // Variations are usually flat { param: value }; a nested { node: { param } } is accepted too
+      if (nodeKeys.includes(key) && isRecord(value)) {
+        for (const [param, nested] of Object.entries(value)) {
+          setValue(key, param, nested, "variation", note);
+        }
+        continue;
+      }
+      const owner =
+        nodeKeys.find((node) => isRecord(parameters[node]) && key in parameters[node]) ??
+        nodeKeys.find((node) => lookupParam(node, key));
+      if (!owner) {
+        unknown.push({
+          param: key,
+          reason: `${note} sets a parameter that no recipe node has`,
+        });
+        continue;
+      }
+      setValue(owner, key, value, "variation", note);
+    }
+  }
+
+  if (options.context) {
+    for (const setting of settings.values()) {
+      const annotation = lookupParam(setting.node, setting.param);
+      if (!annotation || typeof setting.value !== "number") {
+        continue;
+      }
+      const adjustments = parseJson<Record<string, string>>(annotation.context_adjustments) ?? {};
+      const key = matchMappingKey(adjustments, options.context);
+      const range = key ? parseRangeFromText(adjustments[key]) : undefined;
+      if (!key || !range) {
+        continue;
+      }
+      const clamped = Math.min(Math.max(setting.value, range[0]), range[1]);
+      if (clamped !== setting.value) {
+        setting.value = clamped;
+        setting.source = "context";
+        setting.note = `context ${key}: ${adjustments[key]}`;
+      }
+    }
+  }
+
+  for (const setting of settings.values()) {
+    if (!setting.path) {
+      unknown.push({
+        node: setting.node,
+        param: setting.param,
+        reason: "parameter is not annotated; written commented out",
+      });
+    }
+  }
+
+  const nodes = planNodes(kb, {
+    keys: Object.keys(parameters),
+    settings: [...settings.values()],
+    system,
+    version,
+    slug: slugifyRecipeName(name),
+    unknown,
+  });
+
+  assertSafeNames(name, nodes, [...settings.values()]);
+  const parent = options.parent ?? DEFAULT_PARENT;
+  if (!SAFE_PARENT.test(parent)) {
+    throw new Error(`Unsafe parent network path: ${JSON.stringify(parent)}`);
+  }
+
+  const format = options.format ?? "python";
+  const render = format === "hscript" ? renderHScript : renderPython;
+  const script = render({
+    recipe: name,
+    system,
+    variation: options.variation,
+    context: options.context,
+    parent,
+    nodes,
+    settings: [...settings.values()],
+    warnings,
+  });
+
+  return {
+    recipe: name,
+    system,
+    format,
+    ...(options.variation ? { variation: options.variation } : {}),
+    ...(options.context ? { context: options.context } : {}),
+    nodes,
+    settings: [...settings.values()],
+    unknown,
+    warnings,
+    script,
+  };
+}
+
+/**
+ * Decide the type, name and network of each recipe node, and wire nodes to
+ * the annotated prerequisite nodes that are part of the same recipe.
+ */
+function planNodes(
+  kb: KnowledgeBase,
+  input: {
+    keys: string[];
+    settings: RecipeParamSetting[];
+    system: string;
+    version?: string;
+    slug: string;
+    unknown: RecipeScript["unknown"];
+  },
+): RecipeNodePlan[] {
+  const used = new Set<string>();
+  const nodeAnnotations = new Map(
+    input.keys.map((key) => [key, kb.getNodeAnnotation(key, input.version)]),
+  );
+
+  const plans = input.keys.map((key): RecipeNodePlan => {
+    const annotation = nodeAnnotations.get(key);
+    if (CONTAINER_KEYS.has(key)) {
+      return {
+        key,
+        type: "dopnet",
+        name: input.slug,
+        context: "DOP",
+        container: true,
+        annotated: Boolean(annotation),
+        inputs: [],
+      };
+    }
+
+    const fallback = FALLBACK_NODE_TYPES[key];
+    const instance = input.settings
+      .filter((s) => s.node === key)
+      .map((s) => instanceNameFromPath(s.path))
+      .find(Boolean);
+    const type = instance
+      ? instance.replace(/\d+$/, "")
+      : (fallback?.type ?? normalizeNodeType(key));
+    const category =
+      typeof annotation?.node_category === "string" ? annotation.node_category.toUpperCase() : "";
+    const context: NetworkContext =
+      category === "DOP" || category === "SOP"
+        ? category
+        : (fallback?.context ?? (SIM_SYSTEMS.has(input.system) ? "DOP" : "SOP"));
+    if (!annotation) {
+      input.unknown.push({ node: key, reason: `node is not annotated; created as type "${type}"` });
+    }
+    return {
+      key,
+      type,
+      name: uniqueName(instance ?? `${type}1`, used),
+      context,
+      container: false,
+      annotated: Boolean(annotation),
+      inputs: [],
+    };
+  });
+
+  for (const plan of plans) {
+    if (plan.container) {
+      continue;
+    }
+    const prerequisites =
+      parseJson<string[]>(nodeAnnotations.get(plan.key)?.prerequisite_nodes) ?? [];
+    plan.inputs = prerequisites.filter((prerequisite) =>
+      plans.some((p) => p.key === prerequisite && !p.container && p.context === plan.context),
+    );
+  }
+  return plans;
+}
+
+// ── Rendering ──────────────────────────────────────────────
+
+interface RenderInput {
+  recipe: string;
+  system: string;
+  variation?: string;
+  context?: string;
+  parent: string;
+  nodes: RecipeNodePlan[];
+  settings: RecipeParamSetting[];
+  warnings: string[];
+}
+
+function headerLines(input: RenderInput): string[] {
+  const lines = [`# houdini-claw recipe: ${commentText(`${input.recipe} (${input.system})`)}`];
+  if (input.variation) {
+    lines.push(`# Variation: ${commentText(input.variation)}`);
+  }
+  if (input.context) {
+    lines.push(`# Context: ${commentText(input.context)}`);
+  }
+  if (input.warnings.length > 0) {
+    lines.push("# Warnings:", ...input.warnings.map((w) => `#   - ${commentText(w)}`));
+  }
+  return lines;
+}
+
+/** Networks the script creates, in creation order (DOP first) */
+function networksOf(input: RenderInput): NetworkContext[] {
+  const contexts = new Set(input.nodes.map((n) => n.context));
+  return (["DOP", "SOP"] as const).filter((c) => contexts.has(c));
+}
+
+function settingComment(setting: RecipeParamSetting): string {
+  if (!setting.path) {
+    return commentText(`not in knowledge base: ${setting.node}.${setting.param}`);
+  }
+  return commentText(setting.note ?? "");
+}
+
+function formatPythonValue(value: unknown): string {
+  if (typeof value === "number") {
+    return String(value);
+  }
+  if (typeof value === "boolean") {
+    return value ? "1" : "0";
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(formatPythonValue).join(", ")}]`;
+  }
+  return JSON.stringify(typeof value === "string" ? value : JSON.stringify(value));
+}
+
+function formatHScriptValue(value: unknown): string {
+  if (typeof value === "number") {
+    return String(value);
+  }
+  if (typeof value === "boolean") {
+    return value ? "1" : "0";
+  }
+  if (Array.isArray(value)) {
+    return value.map(formatHScriptValue).join(" ");
+  }
+  // Double-quoted HScript strings expand $variables and `expressions`; escape both.
+  const text = commentText(typeof value === "string" ? value : JSON.stringify(value));
+  return `"${text.replace(/[\\"$`]/g, "\\$&")}"`;
+}
+
+function pythonIdentifier(name: string): string {
+  const id = name.replace(/[^A-Za-z0-9_]/g, "_");
+  return /^[A-Za-z_]/.test(id) ? id : `n_${id}`;
+}
+
+const PYTHON_SET_PARM = `def set_parm(node, name, value):
+    """Set a parm (or parm tuple for lists); warn instead of failing when it is missing."""
+    target = node.parmTuple(name) if isinstance(value, (list, tuple)) else node.parm(name)
+    if target is None:
+        print("houdini-claw: %s has no parameter %r" % (node.path(), name))
+        return
+    target.set(value)`;
+
+/** Render a `hou` Python script */
+function renderPython(input: RenderInput): string {
+  const hasDop = input.nodes.some((n) => n.context === "DOP");
+  const slug = slugifyRecipeName(input.recipe);
+  const vars = new Map(
+    input.nodes.map((n) => [
+      n.key,
+      n.container ? CONTAINER_VARS[n.context] : pythonIdentifier(n.name),
+    ]),
+  );
+
+  const lines = [...headerLines(input), "import hou", "", PYTHON_SET_PARM, ""];
+  lines.push(`parent = hou.node(${JSON.stringify(input.parent)})`);
+  for (const context of networksOf(input)) {
+    const type = context === "DOP" ? "dopnet" : "geo";
+    lines.push(
+      `${CONTAINER_VARS[context]} = parent.createNode(${JSON.stringify(type)}, ${JSON.stringify(containerName(context, slug, hasDop))})`,
+    );
+  }
+  for (const node of input.nodes.filter((n) => !n.container)) {
+    lines.push(
+      `${vars.get(node.key)} = ${CONTAINER_VARS[node.context]}.createNode(${JSON.stringify(node.type)}, ${JSON.stringify(node.name)})`,
+    );
+  }
+
+  if (input.settings.length > 0) {
+    lines.push("", "# Parameters");
+    for (const setting of input.settings) {
+      const call = `set_parm(${vars.get(setting.node)}, ${JSON.stringify(setting.parm)}, ${formatPythonValue(setting.value)})`;
+      const comment = settingComment(setting);
+      lines.push(`${setting.path ? "" : "# "}${call}${comment ? `  # ${comment}` : ""}`);
+    }
+  }
+
+  const wired = input.nodes.filter((n) => n.inputs.length > 0);
+  if (wired.length > 0) {
+    lines.push("", "# Wiring follows the annotated prerequisite nodes; check the input order");
+    for (const node of wired) {
+      node.inputs.forEach((source, index) => {
+        lines.push(`${vars.get(node.key)}.setInput(${index}, ${vars.get(source)})`);
+      });
+    }
+  }
+
+  lines.push("");
+  for (const context of networksOf(input)) {
+    lines.push(`${CONTAINER_VARS[context]}.layoutChildren()`);
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/** Render an HScript `.cmd` file */
+function renderHScript(input: RenderInput): string {
+  const hasDop = input.nodes.some((n) => n.context === "DOP");
+  const slug = slugifyRecipeName(input.recipe);
+  const networkPath = (context: NetworkContext) =>
+    `${input.parent.replace(/\/+$/, "")}/${containerName(context, slug, hasDop)}`;
+  const nodePath = (key: string) => {
+    const node = input.nodes.find((n) => n.key === key)!;
+    return node.container ? networkPath(node.context) : `${networkPath(node.context)}/${node.name}`;
+  };
+
+  const lines = [...headerLines(input)];
+  for (const context of networksOf(input)) {
+    lines.push(
+      `opcf ${input.parent}`,
+      `opadd ${context === "DOP" ? "dopnet" : "geo"} ${containerName(context, slug, hasDop)}`,
+      `opcf ${networkPath(context)}`,
+    );
+    const members = input.nodes.filter((n) => n.context === context && !n.container);
+    for (const node of members) {
+      lines.push(`opadd ${node.type} ${node.name}`);
+    }
+    for (const node of members) {
+      node.inputs.forEach((source, index) => {
+        const from = input.nodes.find((n) => n.key === source)!;
+        lines.push(`opwire ${from.name} -${index} ${node.name}`);
+      });
+    }
+    lines.push("oplayout");
+  }
+  lines.push(`opcf ${input.parent}`);
+
+  if (input.settings.length > 0) {
+    lines.push("", "# Parameters");
+    for (const setting of input.settings) {
+      const command = `opparm ${nodePath(setting.node)} ${setting.parm} ( ${formatHScriptValue(setting.value)} )`;
+      const comment = settingComment(setting);
+      lines.push(setting.path ? command : `# ${command}`);
+      if (comment) {
+        lines.push(`#   ${comment}`);
+      }
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+// ── CLI Entry Point ────────────────────────────────────────
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const recipeIdx = args.indexOf("--recipe");
+  const variationIdx = args.indexOf("--variation");
+  const contextIdx = args.indexOf("--context");
+  const formatIdx = args.indexOf("--format");
+  const outputIdx = args.indexOf("--output");
+  const versionIdx = args.indexOf("--houdini-version");
+  const dbIdx = args.indexOf("--db");
+
+  if (recipeIdx === -1) {
+    console.log(JSON.stringify({ error: "Specify a recipe name with --recipe" }));
+    return;
+  }
+  const format = formatIdx !== -1 ? args[formatIdx + 1] : "python";
+  if (format !== "python" && format !== "hscript") {
+    throw new Error(`Unknown --format "${format}" (expected python or hscript)`);
+  }
+
+  const kb = await initDatabase(dbIdx !== -1 ? args[dbIdx + 1] : undefined);
+  try {
+    const result = exportRecipeScript(kb, args[recipeIdx + 1], {
+      format,
+      variation: variationIdx !== -1 ? args[variationIdx + 1] : undefined,
+      context: contextIdx !== -1 ? args[contextIdx + 1] : undefined,
+      houdiniVersion: versionIdx !== -1 ? args[versionIdx + 1] : undefined,
+    });
+    if (!result) {
+      console.log(JSON.stringify({ error: `Recipe "${args[recipeIdx + 1]}" not found` }));
+      return;
+    }
+
+    if (outputIdx !== -1) {
+      fs.writeFileSync(args[outputIdx + 1], result.script);
+      const { script: _script, ...summary } = result;
+      console.log(JSON.stringify({ ...summary, output: args[outputIdx + 1] }));
+    } else if (args.includes("--json")) {
+      console.log(JSON.stringify(result));
+    } else {
+      process.stdout.write(result.script);
+      for (const entry of result.unknown) {
+        const target = [entry.node, entry.param].filter(Boolean).join(".");
+        console.error(`[recipe-export] ${target}: ${entry.reason}`);
+      }
+    }
+  } finally {
+    kb.close();
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((err) => {
+    console.error("[recipe-export] Fatal:", (err as Error).message);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,209 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { createAnnotationModel } from "./annotation-model.js";
+import { runCrawl } from "./crawl.js";
+import { ingestAll } from "./ingest.js";
+import { formatRefreshSummary, refreshKnowledgeBase, type RefreshResult } from "./refresh.js";
+
+const { coverageReports, kb } = vi.hoisted(() => {
+  const coverageReports: Array<Array<Record<string, unknown>>> = [];
+  return {
+    coverageReports,
+    kb: {
+      close: () => {},
+      getCoverageReport: () => coverageReports.shift() ?? [],
+      getDiscoveredNodePaths: () => ({}),
+      listStaleAnnotations: () => [{ node_name: "pyro_solver" }],
+      writeCoverageSnapshot: () => [{ system: "pyro", total_nodes: 40 }],
+    },
+  };
+});
+
+vi.mock("./db.js", () => ({
+  initDatabase: vi.fn(async () => kb),
+  resolveDbPath: () => "/nonexistent/houdini_kb.db",
+}));
+
+vi.mock("./crawl.js", () => ({ runCrawl: vi.fn() }));
+vi.mock("./ingest.js", () => ({
+  ingestAll: vi.fn(async (options: { files?: string[] }) => ({
+    ingested: options.files?.length ?? 0,
+    errors: 0,
+    invalid: 0,
+  })),
+}));
+vi.mock("./annotation-model.js", () => ({ createAnnotationModel: vi.fn() }));
+
+describe("refreshKnowledgeBase", () => {
+  let workDir = "";
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "houdini-refresh-"));
+    coverageReports.push(
+      [{ system: "pyro", annotated_nodes: 12, verified_nodes: 3 }],
+      [{ system: "pyro", annotated_nodes: 14, verified_nodes: 3 }],
+    );
+
+    vi.mocked(runCrawl).mockImplementation(async ({ outputDir }) => {
+      fs.mkdirSync(outputDir, { recursive: true });
+      for (const node of ["pyro_source", "pyro_solver", "smoke_solver"]) {
+        fs.writeFileSync(
+          path.join(outputDir, `pyro--${node}.json`),
+          JSON.stringify({ nodeName: node, url: `https://docs/${node}`, content: "docs" }),
+        );
+      }
+      return {
+        pages: [],
+        report: {
+          mode: "incremental",
+          startedAt: "",
+          finishedAt: "",
+          added: ["pyro_source", "smoke_solver"],
+          changed: ["pyro_solver"],
+          unchanged: [],
+          failed: [],
+          staleNodes: ["pyro_solver"],
+        },
+      };
+    });
+    vi.mocked(createAnnotationModel).mockResolvedValue({
+      ref: "anthropic/claude-opus-4-6",
+      complete: vi.fn(async () => ({
+        text: JSON.stringify({ one_line: "Solves smoke and fire", parameters: [] }),
+        model: "anthropic/claude-opus-4-6",
+        attempts: [],
+        usage: { input: 1200, output: 300, total: 1500 },
+      })),
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    coverageReports.length = 0;
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("annotates stale nodes first and defers the rest once the token budget is spent", async () => {
+    const run = refreshKnowledgeBase({ workDir, maxTokens: 2500, cfg: {} as OpenClawConfig });
+    await vi.runAllTimersAsync();
+    const result = await run;
+
+    expect(result.annotate).toEqual({
+      annotated: 2,
+      errors: 0,
+      deferred: 1,
+      usage: { input: 2400, output: 600, total: 3000 },
+      model: "anthropic/claude-opus-4-6",
+    });
+    expect(vi.mocked(ingestAll).mock.calls[0][0].files).toEqual([
+      "pyro--pyro_solver.json",
+      "pyro--pyro_source.json",
+    ]);
+    expect(result.coverage).toEqual([
+      {
+        system: "pyro",
+        annotatedBefore: 12,
+        annotatedAfter: 14,
+        verifiedBefore: 3,
+        verifiedAfter: 3,
+        totalNodes: 40,
+      },
+    ]);
+  });
+
+  it("stops at maxNodes", async () => {
+    const run = refreshKnowledgeBase({ workDir, maxNodes: 1, cfg: {} as OpenClawConfig });
+    await vi.runAllTimersAsync();
+    const result = await run;
+
+    expect(result.annotate.annotated).toBe(1);
+    expect(result.annotate.deferred).toBe(2);
+    expect(fs.readdirSync(path.join(workDir, "annotated"))).toEqual(["pyro--pyro_solver.json"]);
+  });
+
+  it("sends every stage's messages to the log option instead of the console", async () => {
+    vi.mocked(createAnnotationModel).mockResolvedValue({
+      ref: "anthropic/claude-opus-4-6",
+      complete: vi.fn(async () => {
+        throw new Error("model unavailable");
+      }),
+    });
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    const log = vi.fn();
+
+    const run = refreshKnowledgeBase({ workDir, maxNodes: 1, cfg: {} as OpenClawConfig, log });
+    await vi.runAllTimersAsync();
+    const result = await run;
+
+    expect(result.annotate.errors).toBe(1);
+    expect(log).toHaveBeenCalledWith(
+      "[annotate] Failed for pyro--pyro_solver.json: model unavailable",
+      "error",
+    );
+    expect(consoleError).not.toHaveBeenCalled();
+    expect(runCrawl).toHaveBeenCalledWith(expect.objectContaining({ log }));
+  });
+});
+
+describe("formatRefreshSummary", () => {
+  const base: RefreshResult = {
+    crawl: { added: 2, changed: 1, unchanged: 30, failed: 0 },
+    annotate: {
+      annotated: 3,
+      errors: 0,
+      deferred: 4,
+      usage: { input: 90_000, output: 30_000, total: 120_000 },
+      model: "anthropic/claude-opus-4-6",
+    },
+    ingest: { ingested: 3, errors: 0 },
+    coverage: [
+      {
+        system: "flip",
+        annotatedBefore: 8,
+        annotatedAfter: 8,
+        verifiedBefore: 2,
+        verifiedAfter: 2,
+      },
+      {
+        system: "pyro",
+        annotatedBefore: 12,
+        annotatedAfter: 15,
+        verifiedBefore: 3,
+        verifiedAfter: 3,
+        totalNodes: 40,
+      },
+    ],
+  };
+
+  it("lists pipeline counts, changed systems and token usage", () => {
+    expect(formatRefreshSummary(base)).toBe(
+      [
+        "Houdini KB refresh: 2 new, 1 changed, 0 failed pages; annotated 3 nodes, 4 deferred by budget; ingested 3.",
+        "Coverage: pyro 12 → 15/40 (+3)",
+        "Tokens: 120,000 (anthropic/claude-opus-4-6)",
+      ].join("\n"),
+    );
+  });
+
+  it("says when coverage did not move", () => {
+    const summary = formatRefreshSummary({
+      ...base,
+      annotate: {
+        ...base.annotate,
+        annotated: 0,
+        deferred: 0,
+        usage: { input: 0, output: 0, total: 0 },
+      },
+      coverage: base.coverage.slice(0, 1),
+    });
+    expect(summary).toBe(
+      "Houdini KB refresh: 2 new, 1 changed, 0 failed pages; annotated 0 nodes; ingested 3.\nCoverage unchanged.",
+    );
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Houdini Claw - Scheduled Knowledge Base Refresh
+ *
+ * One pass of the backend pipeline as run by the cron `houdiniRefresh`
+ * payload: crawl → annotate (within node / token budgets) → ingest, with the
+ * per-system coverage measured before and after so the run can be announced.
+ *
+ * Crawled and annotated pages are kept in a work directory next to the
+ * database, so an incremental run only sends new, changed or previously
+ * deferred pages to the model.
+ *
+ * Usage:
+ *   bun src/houdini-claw/refresh.ts --max-nodes 20 --max-tokens 400000
+ *   bun src/houdini-claw/refresh.ts --mode full --system pyro,flip --model anthropic/claude-opus-4-6
+ */
+
+import path from "node:path";
+import { loadConfig, type OpenClawConfig } from "../config/config.js";
+import { annotateAll } from "./annotate.js";
+import type { AnnotationUsage } from "./annotation-model.js";
+import { runCrawl } from "./crawl.js";
+import { initDatabase, resolveDbPath, type KnowledgeBase } from "./db.js";
+import { ingestAll } from "./ingest.js";
+import type { PipelineLog } from "./pipeline-log.js";
+
+// ── Types ──────────────────────────────────────────────────
+
+export interface RefreshOptions {
+  /** Crawl mode (default incremental) */
+  mode?: "full" | "incremental";
+  systems?: string[];
+  /** Max nodes sent to the annotation model this run */
+  maxNodes?: number;
+  /** Max annotation tokens this run */
+  maxTokens?: number;
+  /** Annotation model ref or alias */
+  model?: string;
+  fallbacks?: string[];
+  cfg?: OpenClawConfig;
+  agentId?: string;
+  dbPath?: string;
+  /** Raw and annotated page cache (default: "refresh" next to the database) */
+  workDir?: string;
+  /** Local help directory or archive to crawl instead of sidefx.com */
+  offlineDocs?: string;
+  /** Progress, warnings and failures of every stage (default: the console) */
+  log?: PipelineLog;
+}
+
+export interface CoverageChange {
+  system: string;
+  annotatedBefore: number;
+  annotatedAfter: number;
+  verifiedBefore: number;
+  verifiedAfter: number;
+  /** Discovered node pages for the system, when discovery has run */
+  totalNodes?: number;
+}
+
+export interface RefreshResult {
+  crawl: { added: number; changed: number; unchanged: number; failed: number };
+  annotate: {
+    annotated: number;
+    errors: number;
+    deferred: number;
+    usage: AnnotationUsage;
+    /** Model of the last completion as "provider/model" */
+    model?: string;
+  };
+  ingest: { ingested: number; errors: number };
+  coverage: CoverageChange[];
+}
+
+// ── Coverage ───────────────────────────────────────────────
+
+function readCoverage(kb: KnowledgeBase): Map<string, { annotated: number; verified: number }> {
+  return new Map(
+    kb
+      .getCoverageReport()
+      .map((row) => [
+        String(row.system),
+        { annotated: Number(row.annotated_nodes ?? 0), verified: Number(row.verified_nodes ?? 0) },
+      ]),
+  );
+}
+
+function compareCoverage(
+  before: Map<string, { annotated: number; verified: number }>,
+  after: Map<string, { annotated: number; verified: number }>,
+  snapshot: Array<Record<string, unknown>>,
+): CoverageChange[] {
+  const totals = new Map(snapshot.map((row) => [String(row.system), Number(row.total_nodes)]));
+  const systems = [...new Set([...before.keys(), ...after.keys()])].toSorted();
+  return systems.map((system) => ({
+    system,
+    annotatedBefore: before.get(system)?.annotated ?? 0,
+    annotatedAfter: after.get(system)?.annotated ?? 0,
+    verifiedBefore: before.get(system)?.verified ?? 0,
+    verifiedAfter: after.get(system)?.verified ?? 0,
+    totalNodes: totals.get(system),
+  }));
+}
+
+// ── Refresh ────────────────────────────────────────────────
+
+/** Raw and annotated page cache for a knowledge base: "refresh" next to the database */
+export function resolveRefreshWorkDir(dbPath: string): string {
+  return path.join(path.dirname(dbPath), "refresh");
+}
+
+/**
+ * Run crawl → annotate → ingest once and report what changed.
+ *
+ * Nodes whose docs changed (this run or an earlier one) are re-annotated
+ * first; pages left over when a budget runs out are deferred to the next run.
+ */
+export async function refreshKnowledgeBase(options: RefreshOptions = {}): Promise<RefreshResult> {
+  const dbPath = options.dbPath ?? resolveDbPath(options.cfg);
+  const workDir = options.workDir ?? resolveRefreshWorkDir(dbPath);
+  const rawDir = path.join(workDir, "raw");
+  const annotatedDir = path.join(workDir, "annotated");
+
+  const kb = await initDatabase(dbPath);
+  let coverageBefore: ReturnType<typeof readCoverage>;
+  let crawl: RefreshResult["crawl"];
+  let staleNodes: string[];
+  try {
+    coverageBefore = readCoverage(kb);
+    const discovered = kb.getDiscoveredNodePaths();
+    const { report } = await runCrawl({
+      mode: options.mode ?? "incremental",
+      outputDir: rawDir,
+      systems: options.systems,
+      nodePaths: Object.keys(discovered).length > 0 ? discovered : undefined,
+      kb,
+      offlineDocs: options.offlineDocs,
+      log: options.log,
+    });
+    crawl = {
+      added: report.added.length,
+      changed: report.changed.length,
+      unchanged: report.unchanged.length,
+      failed: report.failed.length,
+    };
+    // Includes nodes that went stale in earlier runs but were deferred
+    staleNodes = [
+      ...new Set([...report.staleNodes, ...kb.listStaleAnnotations().map((row) => row.node_name)]),
+    ];
+  } finally {
+    kb.close();
+  }
+
+  const cfg = options.cfg ?? loadConfig();
+  const annotated = await annotateAll({
+    inputDir: rawDir,
+    outputDir: annotatedDir,
+    model: options.model,
+    fallbacks: options.fallbacks,
+    cfg,
+    agentId: options.agentId,
+    reannotate: staleNodes,
+    maxNodes: options.maxNodes,
+    maxTokens: options.maxTokens,
+    log: options.log,
+  });
+
+  const ingested =
+    annotated.files.length > 0
+      ? await ingestAll({
+          inputDir: annotatedDir,
+          dbPath,
+          files: annotated.files,
+          embeddingOptions: { cfg, agentId: options.agentId },
+          log: options.log,
+        })
+      : { ingested: 0, errors: 0 };
+
+  const after = await initDatabase(dbPath);
+  try {
+    return {
+      crawl,
+      annotate: {
+        annotated: annotated.annotated,
+        errors: annotated.errors,
+        deferred: annotated.deferred,
+        usage: annotated.usage,
+        model: annotated.model,
+      },
+      ingest: { ingested: ingested.ingested, errors: ingested.errors },
+      coverage: compareCoverage(coverageBefore, readCoverage(after), after.writeCoverageSnapshot()),
+    };
+  } finally {
+    after.close();
+  }
+}
+
+/**
+ * Plain-text run summary: pipeline counts, then the systems whose coverage
+ * changed (or "unchanged"), then token usage.
+ */
+export function formatRefreshSummary(result: RefreshResult): string {
+  const { crawl, annotate, ingest } = result;
+  const lines = [
+    `Houdini KB refresh: ${crawl.added} new, ${crawl.changed} changed, ${crawl.failed} failed pages; ` +
+      `annotated ${annotate.annotated} nodes` +
+      (annotate.errors > 0 ? ` (${annotate.errors} failed)` : "") +
+      (annotate.deferred > 0 ? `, ${annotate.deferred} deferred by budget` : "") +
+      `; ingested ${ingest.ingested}.`,
+  ];
+
+  const changed = result.coverage.filter(
+    (row) => row.annotatedAfter !== row.annotatedBefore || row.verifiedAfter !== row.verifiedBefore,
+  );
+  if (changed.length === 0) {
+    lines.push("Coverage unchanged.");
+  } else {
+    const parts = changed.map((row) => {
+      const delta = row.annotatedAfter - row.annotatedBefore;
+      const total = row.totalNodes ? `/${row.totalNodes}` : "";
+      return `${row.system} ${row.annotatedBefore} → ${row.annotatedAfter}${total} (${delta >= 0 ? "+" : ""}${delta})`;
+    });
+    lines.push(`Coverage: ${parts.join(", ")}`);
+  }
+
+  if (annotate.usage.total > 0) {
+    lines.push(
+      `Tokens: ${annotate.usage.total.toLocaleString("en-US")}${annotate.model ? ` (${annotate.model})` : ""}`,
+    );
+  }
+  return lines.join("\n");
+}
+
+// ── CLI Entry Point ────────────────────────────────────────
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const args = process.argv.slice(2);
+  const modeIdx = args.indexOf("--mode");
+  const systemIdx = args.indexOf("--system");
+  const maxNodesIdx = args.indexOf("--max-nodes");
+  const maxTokensIdx = args.indexOf("--max-tokens");
+  const modelIdx = args.indexOf("--model");
+  const dbIdx = args.indexOf("--db");
+
+  refreshKnowledgeBase({
+    mode: modeIdx !== -1 && args[modeIdx + 1] === "full" ? "full" : "incremental",
+    systems: systemIdx !== -1 ? args[systemIdx + 1].split(",") : undefined,
+    maxNodes: maxNodesIdx !== -1 ? Number(args[maxNodesIdx + 1]) : undefined,
+    maxTokens: maxTokensIdx !== -1 ? Number(args[maxTokensIdx + 1]) : undefined,
+    model: modelIdx !== -1 ? args[modelIdx + 1] : undefined,
+    dbPath: dbIdx !== -1 ? args[dbIdx + 1] : undefined,
+  })
+    .then((result) => {
+      console.log(formatRefreshSummary(result));
+      console.log(JSON.stringify(result, null, 2));
+    })
+    .catch((err) => {
+      console.error("[refresh] Fatal:", err);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,201 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { initDatabase, type KnowledgeBase } from "./db.js";
+import {
+  getReviewItem,
+  listReviewQueue,
+  loadCrawledSource,
+  parameterRowToAnnotation,
+  parseEditValue,
+  reviewAnnotation,
+} from "./review.js";
+
+describe("houdini-claw review helpers", () => {
+  let tempDir: string | undefined;
+
+  afterEach(() => {
+    if (tempDir) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      tempDir = undefined;
+    }
+  });
+
+  it("parses edited values by column kind", () => {
+    expect(parseEditValue("safe_range_max", "number", "0.4")).toBe(0.4);
+    expect(parseEditValue("safe_range_max", "number", "null")).toBeNull();
+    expect(() => parseEditValue("safe_range_max", "number", "high")).toThrow(/must be a number/);
+    expect(parseEditValue("interactions", "json", '[ {"param": "x"} ]')).toBe('[{"param":"x"}]');
+    expect(() => parseEditValue("interactions", "json", "[oops")).toThrow(/valid JSON/);
+    expect(parseEditValue("one_line", "text", "Fades smoke")).toBe("Fades smoke");
+  });
+
+  it("converts stored parameter rows back to annotation format", () => {
+    expect(
+      parameterRowToAnnotation({
+        param_name: "dissipation",
+        param_path: "pyrosolver1/dissipation",
+        one_line: null,
+        default_value: 0.1,
+        safe_range_min: 0.01,
+        safe_range_max: 0.5,
+        expert_range_min: 0.001,
+        expert_range_max: null,
+        danger_below: 0.001,
+        danger_above: null,
+        danger_description: null,
+        intent_mapping: '{"thicker smoke":"decrease dissipation"}',
+      }),
+    ).toMatchObject({
+      name: "dissipation",
+      path: "pyrosolver1/dissipation",
+      one_line: undefined,
+      default_value: 0.1,
+      safe_range: [0.01, 0.5],
+      expert_range: undefined,
+      danger_zone: { below: 0.001, above: undefined },
+      intent_mapping: { "thicker smoke": "decrease dissipation" },
+    });
+  });
+
+  it("finds the crawled page for a node and excerpts around the parameter", () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "houdini-claw-review-"));
+    const content = `${"intro ".repeat(300)}Dissipation controls how fast smoke fades. ${"tail ".repeat(300)}`;
+    fs.writeFileSync(
+      path.join(tempDir, "pyro--pyrosolver.json"),
+      JSON.stringify({ url: "https://example.test/pyrosolver", title: "Pyro Solver", content }),
+    );
+
+    const source = loadCrawledSource(tempDir, "pyro_solver", "dissipation");
+    expect(source?.url).toBe("https://example.test/pyrosolver");
+    expect(source?.excerpt).toContain("Dissipation controls how fast smoke fades.");
+    expect(source?.excerpt.startsWith("intro")).toBe(true);
+    expect(loadCrawledSource(tempDir, "flip_solver")).toBeUndefined();
+  });
+});
+
+describe("houdini-claw review against a real database", () => {
+  let tempDir: string | undefined;
+  let kb: KnowledgeBase | undefined;
+
+  afterEach(() => {
+    kb?.close();
+    kb = undefined;
+    if (tempDir) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      tempDir = undefined;
+    }
+  });
+
+  async function seedKnowledgeBase(): Promise<KnowledgeBase> {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "houdini-claw-review-db-"));
+    const db = await initDatabase(path.join(tempDir, "kb.db"));
+    kb = db;
+    db.upsertNodeAnnotation({
+      node_name: "pyro_solver",
+      node_category: "DOP",
+      one_line: "Sparse pyro solver",
+      annotation_yaml: "",
+      annotated_at: "2026-01-01T00:00:00Z",
+      annotation_model: "test",
+      confidence_score: 0.9,
+    });
+    db.upsertParameterAnnotation({
+      node_name: "pyro_solver",
+      param_name: "dissipation",
+      param_path: "dissipation",
+      safe_range_min: 0.01,
+      safe_range_max: 0.3,
+      confidence_score: 0.5,
+    });
+    db.upsertParameterAnnotation({
+      node_name: "pyro_solver",
+      param_name: "cooling_rate",
+      param_path: "cooling_rate",
+      confidence_score: 0.5,
+    });
+    return db;
+  }
+
+  it("orders the queue by confidence, then lookups", async () => {
+    const db = await seedKnowledgeBase();
+    db.recordLookup("pyro_solver", "cooling_rate");
+    db.recordLookup("pyro_solver", "cooling_rate");
+
+    expect(
+      listReviewQueue(db).map((item) => [item.target_type, item.param_name, item.lookups]),
+    ).toEqual([
+      ["parameter", "cooling_rate", 2],
+      ["parameter", "dissipation", 0],
+      ["node", null, 0],
+    ]);
+    expect(listReviewQueue(db, { targetType: "node", category: "DOP" })).toHaveLength(1);
+    expect(listReviewQueue(db, { category: "SOP" })).toEqual([]);
+  });
+
+  it("writes edits, logs them and keeps verified rows through re-annotation", async () => {
+    const db = await seedKnowledgeBase();
+
+    const result = reviewAnnotation(db, {
+      nodeName: "pyro_solver",
+      paramName: "dissipation",
+      action: "edit",
+      reviewer: "alice",
+      notes: "matches the docs",
+      edits: { safe_range_max: "0.2" },
+    });
+    expect(result.changes).toEqual({ safe_range_max: { from: 0.3, to: 0.2 } });
+
+    const item = getReviewItem(db, { nodeName: "pyro_solver", paramName: "dissipation" });
+    expect(item).toMatchObject({ human_verified: true, review_status: "approved" });
+    expect(item?.history).toMatchObject([
+      {
+        action: "edit",
+        reviewer: "alice",
+        notes: "matches the docs",
+        changes: { safe_range_max: { from: 0.3, to: 0.2 } },
+      },
+    ]);
+    expect(listReviewQueue(db).map((entry) => entry.param_name)).toEqual(["cooling_rate", null]);
+
+    // A machine re-annotation leaves the verified row alone
+    db.upsertParameterAnnotation({
+      node_name: "pyro_solver",
+      param_name: "dissipation",
+      param_path: "dissipation",
+      safe_range_max: 0.9,
+    });
+    expect(db.getParameterAnnotation("pyro_solver", "dissipation")).toMatchObject({
+      safe_range_max: 0.2,
+      human_verified: 1,
+      confidence_score: 1,
+    });
+  });
+
+  it("drops rejected rows from the queue and rejects invalid edits", async () => {
+    const db = await seedKnowledgeBase();
+
+    reviewAnnotation(db, {
+      nodeName: "pyro_solver",
+      paramName: "cooling_rate",
+      action: "reject",
+      reviewer: "bob",
+    });
+    expect(listReviewQueue(db).map((item) => item.param_name)).toEqual(["dissipation", null]);
+    expect(listReviewQueue(db, { includeRejected: true })).toHaveLength(3);
+    expect(db.getReviewHistory("pyro_solver").map((entry) => entry.action)).toEqual(["reject"]);
+
+    expect(() =>
+      reviewAnnotation(db, {
+        nodeName: "pyro_solver",
+        paramName: "dissipation",
+        action: "edit",
+        reviewer: "bob",
+        edits: { safe_range_min: "0.5" },
+      }),
+    ).toThrow();
+    expect(db.getParameterAnnotation("pyro_solver", "dissipation")?.safe_range_min).toBe(0.01);
+    expect(db.getReviewHistory("pyro_solver", "dissipation")).toEqual([]);
+  });
+});
@@ -0,0 +1,528 @@
+/**
+ * Houdini Claw - Human Review Workflow
+ *
+ * Lets TDs work through machine-generated annotations: a queue of unverified
+ * nodes and parameters (least confident and most used first), each shown next
+ * to its crawled source text, and approve / edit / reject actions recorded in
+ * the review_log audit table with the reviewer's identity and notes.
+ *
+ * Approved or edited rows are marked human_verified; later ingests of
+ * re-annotated files (including `annotate --force`) keep those rows as-is.
+ *
+ * Usage:
+ *   bun src/houdini-claw/review.ts --queue --type parameter --limit 10
+ *   bun src/houdini-claw/review.ts --show --node pyro_solver --param dissipation --raw-dir /tmp/houdini-raw
+ *   bun src/houdini-claw/review.ts --approve --node pyro_solver --param dissipation --notes "checked in H20.5"
+ *   bun src/houdini-claw/review.ts --edit --node pyro_solver --param dissipation --set safe_range_max=0.4
+ *   bun src/houdini-claw/review.ts --reject --node pyro_solver --notes "ranges copied from smoke solver"
+ *   bun src/houdini-claw/review.ts --history --node pyro_solver
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  AnnotationValidationError,
+  ParameterAnnotationSchema,
+  type NodeAnnotation,
+  type ParameterAnnotationData,
+} from "./annotation-schema.js";
+import type { CrawledPage } from "./crawl.js";
+import { initDatabase, type KnowledgeBase } from "./db.js";
+import { syncNodeEdges } from "./graph.js";
+import { DEFAULT_HOUDINI_VERSION } from "./schema.js";
+
+// ── Types ──────────────────────────────────────────────────
+
+export type ReviewAction = "approve" | "edit" | "reject";
+
+export interface ReviewTarget {
+  nodeName: string;
+  /** Omit to review the node-level annotation */
+  paramName?: string;
+  houdiniVersion?: string;
+}
+
+export interface ReviewRequest extends ReviewTarget {
+  action: ReviewAction;
+  reviewer: string;
+  notes?: string;
+  /** Column → new value (as typed on the command line) for "edit" */
+  edits?: Record<string, string>;
+}
+
+export interface ReviewResult {
+  target_type: "node" | "parameter";
+  node_name: string;
+  param_name?: string;
+  houdini_version: string;
+  action: ReviewAction;
+  reviewer: string;
+  changes: Record<string, { from: unknown; to: unknown }>;
+}
+
+export interface CrawledSourceExcerpt {
+  file: string;
+  url: string;
+  title: string;
+  /** Text around the parameter name, or the start of the page for node reviews */
+  excerpt: string;
+}
+
+type ColumnKind = "text" | "number" | "json";
+
+/** Columns a reviewer may edit, and how to parse the edited value */
+const NODE_EDITABLE_COLUMNS: Record<string, ColumnKind> = {
+  semantic_name_zh: "text",
+  semantic_name_en: "text",
+  one_line: "text",
+  analogy: "text",
+  prerequisite_nodes: "json",
+  required_context: "text",
+  typical_network: "text",
+};
+
+const PARAM_EDITABLE_COLUMNS: Record<string, ColumnKind> = {
+  param_path: "text",
+  semantic_name_zh: "text",
+  semantic_name_en: "text",
+  one_line: "text",
+  intent_mapping: "json",
+  default_value: "number",
+  safe_range_min: "number",
+  safe_range_max: "number",
+  expert_range_min: "number",
+  expert_range_max: "number",
+  danger_below: "number",
+  danger_above: "number",
+  danger_description: "text",
+  visual_effect: "json",
+  interactions: "json",
+  context_adjustments: "json",
+};
+
+/** Characters of source text shown on each side of the parameter mention */
+const EXCERPT_RADIUS = 600;
+
+// ── Helpers ────────────────────────────────────────────────
+
+/**
+ * Reviewer identity: explicit value, HOUDINI_CLAW_REVIEWER, or the OS user.
+ */
+export function resolveReviewer(explicit?: string): string {
+  const reviewer = explicit ?? process.env.HOUDINI_CLAW_REVIEWER ?? os.userInfo().username;
+  if (!reviewer?.trim()) {
+    throw new Error("Reviewer identity required. Pass --reviewer or set HOUDINI_CLAW_REVIEWER.");
+  }
+  return reviewer.trim();
+}
+
+/**
+ * Parse an edited value for a column. "null" clears the column.
+ */
+export function parseEditValue(column: string, kind: ColumnKind, raw: string): unknown {
+  if (raw === "null") {
+    return null;
+  }
+  if (kind === "number") {
+    const value = Number(raw);
+    if (!Number.isFinite(value)) {
+      throw new Error(`${column} must be a number, got "${raw}"`);
+    }
+    return value;
+  }
+  if (kind === "json") {
+    try {
+      return JSON.stringify(JSON.parse(raw));
+    } catch {
+      throw new Error(`${column} must be valid JSON`);
+    }
+  }
+  return raw;
+}
+
+/**
+ * Convert a parameter_annotations row back into the annotation file format.
+ */
+export function parameterRowToAnnotation(row: Record<string, unknown>): ParameterAnnotationData {
+  const num = (value: unknown): number | undefined =>
+    typeof value === "number" ? value : undefined;
+  const json = <T>(value: unknown): T | undefined =>
+    typeof value === "string" && value.length > 0 ? (JSON.parse(value) as T) : undefined;
+  const range = (min: unknown, max: unknown): [number, number] | undefined =>
+    typeof min === "number" && typeof max === "number" ? [min, max] : undefined;
+
+  const below = num(row.danger_below);
+  const above = num(row.danger_above);
+  const description = (row.danger_description as string | null) ?? undefined;
+
+  return {
+    name: row.param_name as string,
+    path: row.param_path as string,
+    semantic_name_zh: (row.semantic_name_zh as string | null) ?? undefined,
+    semantic_name_en: (row.semantic_name_en as string | null) ?? undefined,
+    one_line: (row.one_line as string | null) ?? undefined,
+    intent_mapping: json(row.intent_mapping),
+    default_value: num(row.default_value),
+    safe_range: range(row.safe_range_min, row.safe_range_max),
+    expert_range: range(row.expert_range_min, row.expert_range_max),
+    danger_zone:
+      below !== undefined || above !== undefined || description
+        ? { below, above, description }
+        : undefined,
+    visual_effect: json(row.visual_effect),
+    interactions: json(row.interactions),
+    context_adjustments: json(row.context_adjustments),
+  };
+}
+
+/**
+ * Find the crawled page for a node in a crawl output directory
+ * (files named "<system>--<node>.json") and cut an excerpt around `focus`.
+ */
+export function loadCrawledSource(
+  rawDir: string,
+  nodeName: string,
+  focus?: string,
+): CrawledSourceExcerpt | undefined {
+  if (!fs.existsSync(rawDir)) {
+    return undefined;
+  }
+  const key = nodeName.toLowerCase().replace(/[^a-z0-9]/g, "");
+  const file = fs.readdirSync(rawDir).find(
+    (f) =>
+      f.endsWith(".json") &&
+      (f.split("--").pop() ?? "")
+        .replace(/\.json$/, "")
+        .toLowerCase()
+        .replace(/[^a-z0-9]/g, "") === key,
+  );
+  if (!file) {
+    return undefined;
+  }
+
+  const page = JSON.parse(fs.readFileSync(path.join(rawDir, file), "utf-8")) as CrawledPage;
+  const content = page.content ?? "";
+  let start = 0;
+  if (focus) {
+    const index = content.toLowerCase().indexOf(focus.toLowerCase().replace(/_/g, " "));
+    const fallback = content.toLowerCase().indexOf(focus.toLowerCase());
+    const hit = index !== -1 ? index : fallback;
+    if (hit !== -1) {
+      start = Math.max(0, hit - EXCERPT_RADIUS);
+    }
+  }
+
+  return {
+    file: path.join(rawDir, file),
+    url: page.url,
+    title: page.title,
+    excerpt: content.slice(start, start + EXCERPT_RADIUS * 2),
+  };
+}
+
+/**
+ * Replace fields of a freshly annotated node with the human-verified values
+ * stored for the same node and Houdini version, so re-ingesting a
+ * re-annotated file keeps reviewed content (including its search chunks).
+ */
+export function mergeVerifiedAnnotation(
+  kb: KnowledgeBase,
+  nodeName: string,
+  houdiniVersion: string | undefined,
+  annotation: NodeAnnotation,
+): { annotation: NodeAnnotation; keptNode: boolean; keptParams: string[] } {
+  const version = houdiniVersion ?? DEFAULT_HOUDINI_VERSION;
+  // Only the exact version counts; older versions are separate annotations
+  if (!kb.listNodeVersions(nodeName).includes(version)) {
+    return { annotation, keptNode: false, keptParams: [] };
+  }
+
+  const merged: NodeAnnotation = { ...annotation };
+  const node = kb.getNodeAnnotation(nodeName, version);
+  const keptNode = node?.human_verified === 1;
+  if (node && keptNode) {
+    merged.semantic_name_zh = (node.semantic_name_zh as string | null) ?? undefined;
+    merged.semantic_name_en = (node.semantic_name_en as string | null) ?? undefined;
+    merged.one_line = node.one_line as string;
+    merged.analogy = (node.analogy as string | null) ?? undefined;
+    merged.prerequisite_nodes = node.prerequisite_nodes
+      ? (JSON.parse(node.prerequisite_nodes as string) as string[])
+      : undefined;
+    merged.required_context = (node.required_context as string | null) ?? undefined;
+    merged.typical_network = (node.typical_network as string | null) ?? undefined;
+  }
+
+  const verifiedParams = new Map(
+    kb
+      .getParametersForNode(nodeName, version)
+      .filter((row) => row.human_verified === 1)
+      .map((row) => [row.param_name as string, row]),
+  );
+  const keptParams: string[] = [];
+  const parameters = (annotation.parameters ?? []).map((param) => {
+    const row = verifiedParams.get(param.name);
+    if (!row) {
+      return param;
+    }
+    keptParams.push(param.name);
+    verifiedParams.delete(param.name);
+    return parameterRowToAnnotation(row);
+  });
+  // Verified parameters the new annotation dropped are kept too
+  for (const [name, row] of verifiedParams) {
+    keptParams.push(name);
+    parameters.push(parameterRowToAnnotation(row));
+  }
+  merged.parameters = parameters;
+
+  return { annotation: merged, keptNode, keptParams };
+}
+
+// ── Queue / Show / Review ──────────────────────────────────
+
+/**
+ * Unverified annotations awaiting review.
+ */
+export function listReviewQueue(
+  kb: KnowledgeBase,
+  options?: Parameters<KnowledgeBase["getReviewQueue"]>[0],
+): Array<Record<string, unknown>> {
+  return kb.getReviewQueue(options);
+}
+
+/**
+ * An annotation with its crawled source excerpt and review history.
+ */
+export function getReviewItem(
+  kb: KnowledgeBase,
+  target: ReviewTarget,
+  options?: { rawDir?: string },
+): Record<string, unknown> | undefined {
+  const row = target.paramName
+    ? kb.getParameterAnnotation(target.nodeName, target.paramName, target.houdiniVersion)
+    : kb.getNodeAnnotation(target.nodeName, target.houdiniVersion);
+  if (!row) {
+    return undefined;
+  }
+
+  const annotation = target.paramName
+    ? parameterRowToAnnotation(row)
+    : {
+        ...row,
+        prerequisite_nodes: row.prerequisite_nodes
+          ? JSON.parse(row.prerequisite_nodes as string)
+          : [],
+        source_urls: row.source_urls ? JSON.parse(row.source_urls as string) : [],
+        annotation_yaml: undefined,
+      };
+
+  return {
+    target_type: target.paramName ? "parameter" : "node",
+    node_name: target.nodeName,
+    param_name: target.paramName,
+    houdini_version: row.houdini_version,
+    human_verified: row.human_verified === 1,
+    review_status: row.review_status ?? "pending",
+    confidence_score: row.confidence_score,
+    annotation,
+    source: options?.rawDir
+      ? (loadCrawledSource(options.rawDir, target.nodeName, target.paramName) ?? null)
+      : undefined,
+    history: kb.getReviewHistory(target.nodeName, target.paramName).map((entry) => ({
+      ...entry,
+      changes: entry.changes ? JSON.parse(entry.changes as string) : undefined,
+    })),
+  };
+}
+
+/**
+ * Approve, edit or reject an annotation and record the action in review_log.
+ * Edits are range-checked with the annotation schema before being written.
+ */
+export function reviewAnnotation(kb: KnowledgeBase, request: ReviewRequest): ReviewResult {
+  const isParam = request.paramName !== undefined;
+  const row = isParam
+    ? kb.getParameterAnnotation(request.nodeName, request.paramName!, request.houdiniVersion)
+    : kb.getNodeAnnotation(request.nodeName, request.houdiniVersion);
+  if (!row) {
+    const label = isParam ? `${request.nodeName}/${request.paramName}` : request.nodeName;
+    throw new Error(`No annotation found for ${label}`);
+  }
+
+  const editable = isParam ? PARAM_EDITABLE_COLUMNS : NODE_EDITABLE_COLUMNS;
+  const changes: ReviewResult["changes"] = {};
+  if (request.action === "edit") {
+    const edits = Object.entries(request.edits ?? {});
+    if (edits.length === 0) {
+      throw new Error("Edit requires at least one --set column=value");
+    }
+    for (const [column, raw] of edits) {
+      const kind = editable[column];
+      if (!kind) {
+        throw new Error(
+          `Column "${column}" is not editable. Editable: ${Object.keys(editable).join(", ")}`,
+        );
+      }
+      const value = parseEditValue(column, kind, raw);
+      if (value !== row[column]) {
+        changes[column] = { from: row[column] ?? null, to: value };
+      }
+    }
+
+    if (isParam) {
+      const updated = { ...row };
+      for (const [column, change] of Object.entries(changes)) {
+        updated[column] = change.to;
+      }
+      const check = ParameterAnnotationSchema.safeParse(parameterRowToAnnotation(updated));
+      if (!check.success) {
+        throw new AnnotationValidationError(
+          `Edit of ${request.nodeName}/${request.paramName}`,
+          check.error.issues.map((issue) => ({
+            path: issue.path.map(String).join(".") || "(root)",
+            message: issue.message,
+          })),
+        );
+      }
+    }
+  }
+
+  const values: Record<string, unknown> = {};
+  for (const [column, change] of Object.entries(changes)) {
+    values[column] = change.to;
+  }
+  if (request.action === "reject") {
+    values.human_verified = 0;
+    values.review_status = "rejected";
+  } else {
+    values.human_verified = 1;
+    values.review_status = "approved";
+    values.confidence_score = 1.0;
+    if (!isParam) {
+      // The reviewer has checked the node against the current documentation
+      values.stale_since = null;
+    }
+  }
+
+  const result: ReviewResult = {
+    target_type: isParam ? "parameter" : "node",
+    node_name: request.nodeName,
+    param_name: request.paramName,
+    houdini_version: row.houdini_version as string,
+    action: request.action,
+    reviewer: request.reviewer,
+    changes,
+  };
+
+  kb.db.exec("BEGIN");
+  try {
+    kb.updateAnnotationRow(
+      isParam ? "parameter_annotations" : "node_annotations",
+      row.id as number,
+      values,
+    );
+    kb.insertReviewLog({
+      ...result,
+      notes: request.notes,
+      changes: Object.keys(changes).length > 0 ? changes : undefined,
+    });
+    kb.db.exec("COMMIT");
+  } catch (err) {
+    kb.db.exec("ROLLBACK");
+    throw err;
+  }
+
+  // Keep keyword search and the node graph in step with edited text
+  if (Object.keys(changes).length > 0) {
+    kb.rebuildKeywordIndex();
+    if ("prerequisite_nodes" in changes || "typical_network" in changes) {
+      syncNodeEdges(kb, request.nodeName);
+    }
+  }
+
+  return result;
+}
+
+// ── CLI Entry Point ────────────────────────────────────────
+
+function parseSetArgs(args: string[]): Record<string, string> {
+  const edits: Record<string, string> = {};
+  args.forEach((arg, index) => {
+    if (arg !== "--set") {
+      return;
+    }
+    const assignment = args[index + 1] ?? "";
+    const eq = assignment.indexOf("=");
+    if (eq <= 0) {
+      throw new Error(`--set expects column=value, got "${assignment}"`);
+    }
+    edits[assignment.slice(0, eq)] = assignment.slice(eq + 1);
+  });
+  return edits;
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const valueOf = (flag: string): string | undefined => {
+    const idx = args.indexOf(flag);
+    return idx !== -1 ? args[idx + 1] : undefined;
+  };
+
+  const kb = await initDatabase(valueOf("--db"));
+  try {
+    const target: ReviewTarget = {
+      nodeName: valueOf("--node") ?? "",
+      paramName: valueOf("--param"),
+      houdiniVersion: valueOf("--houdini-version"),
+    };
+    const action = (["approve", "edit", "reject"] as const).find((a) => args.includes(`--${a}`));
+
+    if (args.includes("--queue")) {
+      const limit = valueOf("--limit");
+      console.log(
+        JSON.stringify({
+          queue: listReviewQueue(kb, {
+            targetType: valueOf("--type") as "node" | "parameter" | undefined,
+            category: valueOf("--category"),
+            includeRejected: args.includes("--include-rejected"),
+            limit: limit ? parseInt(limit, 10) : undefined,
+          }),
+        }),
+      );
+    } else if (!target.nodeName) {
+      console.log(
+        JSON.stringify({
+          error: "Specify --queue, or --node with --show, --history, --approve, --edit or --reject",
+        }),
+      );
+    } else if (args.includes("--history")) {
+      console.log(
+        JSON.stringify({ history: kb.getReviewHistory(target.nodeName, target.paramName) }),
+      );
+    } else if (action) {
+      const result = reviewAnnotation(kb, {
+        ...target,
+        action,
+        reviewer: resolveReviewer(valueOf("--reviewer")),
+        notes: valueOf("--notes"),
+        edits: action === "edit" ? parseSetArgs(args) : undefined,
+      });
+      console.log(JSON.stringify(result));
+    } else {
+      const item = getReviewItem(kb, target, {
+        rawDir: valueOf("--raw-dir") ?? "/tmp/houdini-raw",
+      });
+      console.log(JSON.stringify(item ?? { error: `No annotation found for ${target.nodeName}` }));
+    }
+  } finally {
+    kb.close();
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((err) => {
+    console.error("[review] Fatal:", (err as Error).message);
+    process.exit(1);
+  });
+}
@@ -6,14 +6,16 @@
  * semantic search.
  */
 
-/** SQL statements to initialize the knowledge base. Run once on first startup. */
-export const SCHEMA_SQL = `
--- Core node annotation table
-CREATE TABLE IF NOT EXISTS node_annotations (
+/** Houdini version assumed when an annotation doesn't specify one */
+export const DEFAULT_HOUDINI_VERSION = "20.5";
+
+function nodeAnnotationsTableSql(table: string): string {
+  return `
+CREATE TABLE IF NOT EXISTS ${table} (
   id              INTEGER PRIMARY KEY AUTOINCREMENT,
-  node_name       TEXT NOT NULL UNIQUE,
+  node_name       TEXT NOT NULL,
   node_category   TEXT NOT NULL,          -- DOP, SOP, VOP, CHOP, etc.
-  houdini_version TEXT NOT NULL DEFAULT '20.5',
+  houdini_version TEXT NOT NULL DEFAULT '${DEFAULT_HOUDINI_VERSION}',
 
   -- Semantic metadata (stored as JSON)
   semantic_name_zh    TEXT,               -- Chinese semantic name
@@ -38,18 +40,21 @@ CREATE TABLE IF NOT EXISTS node_annotations (
   confidence_score    REAL NOT NULL DEFAULT 0.0,
 
   created_at  TEXT NOT NULL DEFAULT (datetime('now')),
-  updated_at  TEXT NOT NULL DEFAULT (datetime('now'))
-);
+  updated_at  TEXT NOT NULL DEFAULT (datetime('now')),
 
-CREATE INDEX IF NOT EXISTS idx_node_annotations_category ON node_annotations(node_category);
-CREATE INDEX IF NOT EXISTS idx_node_annotations_name ON node_annotations(node_name);
+  UNIQUE(node_name, houdini_version)
+);
+`;
+}
 
--- Parameter annotations (one row per parameter per node)
-CREATE TABLE IF NOT EXISTS parameter_annotations (
+function parameterAnnotationsTableSql(table: string): string {
+  return `
+CREATE TABLE IF NOT EXISTS ${table} (
   id              INTEGER PRIMARY KEY AUTOINCREMENT,
   node_name       TEXT NOT NULL,
   param_name      TEXT NOT NULL,
   param_path      TEXT NOT NULL,          -- Full Houdini parameter path
+  houdini_version TEXT NOT NULL DEFAULT '${DEFAULT_HOUDINI_VERSION}',
 
   -- Semantic metadata
   semantic_name_zh    TEXT,
@@ -84,12 +89,39 @@ CREATE TABLE IF NOT EXISTS parameter_annotations (
   created_at  TEXT NOT NULL DEFAULT (datetime('now')),
   updated_at  TEXT NOT NULL DEFAULT (datetime('now')),
 
-  UNIQUE(node_name, param_name),
-  FOREIGN KEY (node_name) REFERENCES node_annotations(node_name)
+  UNIQUE(node_name, param_name, houdini_version),
+  FOREIGN KEY (node_name, houdini_version) REFERENCES node_annotations(node_name, houdini_version)
 );
+`;
+}
 
+/** SQL statements to initialize the knowledge base. Run once on first startup. */
+export const SCHEMA_SQL = `
+-- Core node annotation table (one row per node per Houdini version)
+${nodeAnnotationsTableSql("node_annotations")}
+CREATE INDEX IF NOT EXISTS idx_node_annotations_category ON node_annotations(node_category);
+CREATE INDEX IF NOT EXISTS idx_node_annotations_name ON node_annotations(node_name);
+CREATE INDEX IF NOT EXISTS idx_node_annotations_version ON node_annotations(node_name, houdini_version);
+
+-- Parameter annotations (one row per parameter per node per Houdini version)
+${parameterAnnotationsTableSql("parameter_annotations")}
 CREATE INDEX IF NOT EXISTS idx_param_annotations_node ON parameter_annotations(node_name);
 CREATE INDEX IF NOT EXISTS idx_param_annotations_param ON parameter_annotations(param_name);
+CREATE INDEX IF NOT EXISTS idx_param_annotations_version ON parameter_annotations(node_name, houdini_version);
+
+-- Node relationship graph derived from node_annotations (see graph.ts):
+-- prerequisite_nodes are required edges, typical_network chains typical or optional ones
+CREATE TABLE IF NOT EXISTS node_edges (
+  annotated_node  TEXT NOT NULL,          -- annotation the edge was derived from
+  houdini_version TEXT NOT NULL,
+  upstream_node   TEXT NOT NULL,
+  downstream_node TEXT NOT NULL,
+  relation        TEXT NOT NULL,          -- required, typical, optional
+  context         TEXT,                   -- DOP, SOP, ... of the annotated node
+  PRIMARY KEY (annotated_node, houdini_version, upstream_node, downstream_node)
+);
+CREATE INDEX IF NOT EXISTS idx_node_edges_upstream ON node_edges(upstream_node);
+CREATE INDEX IF NOT EXISTS idx_node_edges_downstream ON node_edges(downstream_node);
 
 -- Recipe storage
 CREATE TABLE IF NOT EXISTS recipes (
@@ -134,6 +166,21 @@ CREATE TABLE IF NOT EXISTS error_patterns (
 
 CREATE INDEX IF NOT EXISTS idx_error_patterns_system ON error_patterns(system);
 
+-- Diagnosis outcomes: which root cause fixed the user's problem (cause NULL when
+-- none of the pattern's causes did). Learned fix rates rank error patterns and
+-- their root causes (see diagnosis.ts)
+CREATE TABLE IF NOT EXISTS diagnosis_feedback (
+  id              INTEGER PRIMARY KEY AUTOINCREMENT,
+  pattern_id      TEXT NOT NULL,
+  cause           TEXT,                   -- root_causes[].cause that was tried
+  fixed           INTEGER NOT NULL,       -- 1 when it resolved the problem
+  symptoms        TEXT,                   -- the user's description
+  system          TEXT,
+  created_at      TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_diagnosis_feedback_pattern ON diagnosis_feedback(pattern_id);
+
 -- Crawl log (tracks what was fetched and when)
 CREATE TABLE IF NOT EXISTS crawl_log (
   id              INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -141,7 +188,7 @@ CREATE TABLE IF NOT EXISTS crawl_log (
   source_type     TEXT NOT NULL,          -- sidefx_docs, sidefx_forum, odforce, tutorial
   content_hash    TEXT NOT NULL,          -- SHA-256 of fetched content
   fetched_at      TEXT NOT NULL DEFAULT (datetime('now')),
-  status          TEXT NOT NULL DEFAULT 'success',  -- success, error, skipped
+  status          TEXT NOT NULL DEFAULT 'success',  -- success, not_modified, error, skipped
   error_message   TEXT
 );
 
@@ -159,6 +206,7 @@ CREATE TABLE IF NOT EXISTS embedding_chunks (
   source_table    TEXT NOT NULL,          -- Which table this chunk came from
   node_name       TEXT,                   -- For filtering by node
   system          TEXT,                   -- For filtering by system
+  houdini_version TEXT,                   -- Annotation version (NULL for recipes and error patterns)
 
   created_at  TEXT NOT NULL DEFAULT (datetime('now'))
 );
@@ -167,6 +215,65 @@ CREATE INDEX IF NOT EXISTS idx_embedding_chunks_type ON embedding_chunks(chunk_t
 CREATE INDEX IF NOT EXISTS idx_embedding_chunks_node ON embedding_chunks(node_name);
 CREATE INDEX IF NOT EXISTS idx_embedding_chunks_system ON embedding_chunks(system);
 
+-- Embeddings keyed by chunk content hash, so re-ingesting unchanged text
+-- (or rebuilding kb_vec after a reset) doesn't call the embedding API again
+CREATE TABLE IF NOT EXISTS embedding_cache (
+  provider    TEXT NOT NULL,
+  model       TEXT NOT NULL,
+  hash        TEXT NOT NULL,              -- sha256 of the embedded text
+  embedding   BLOB NOT NULL,              -- float32 vector
+  dims        INTEGER NOT NULL,
+  updated_at  TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (provider, model, hash)
+);
+
+-- Knowledge base metadata (embedding provider/model/dimension, schema flags)
+CREATE TABLE IF NOT EXISTS kb_meta (
+  key         TEXT PRIMARY KEY,
+  value       TEXT NOT NULL,
+  updated_at  TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Human review audit trail (approve/edit/reject of node and parameter annotations)
+CREATE TABLE IF NOT EXISTS review_log (
+  id              INTEGER PRIMARY KEY AUTOINCREMENT,
+  target_type     TEXT NOT NULL,          -- node, parameter
+  node_name       TEXT NOT NULL,
+  param_name      TEXT,                   -- NULL for node reviews
+  houdini_version TEXT NOT NULL,
+  action          TEXT NOT NULL,          -- approve, edit, reject
+  reviewer        TEXT NOT NULL,
+  notes           TEXT,
+  changes         TEXT,                   -- JSON: { column: { from, to } } for edits
+  created_at      TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_log_target ON review_log(node_name, param_name);
+
+-- Lookup counts per node/parameter, used to prioritize the review queue
+CREATE TABLE IF NOT EXISTS annotation_usage (
+  node_name       TEXT NOT NULL,
+  param_name      TEXT NOT NULL DEFAULT '',  -- '' for node-level lookups
+  lookup_count    INTEGER NOT NULL DEFAULT 0,
+  last_used_at    TEXT,
+  PRIMARY KEY (node_name, param_name)
+);
+
+-- Node documentation pages found by discover.ts; the denominator for coverage
+CREATE TABLE IF NOT EXISTS discovered_nodes (
+  node_path       TEXT PRIMARY KEY,       -- e.g. nodes/dop/pyrosolver
+  node_name       TEXT NOT NULL,          -- docs page name, e.g. pyrosolver
+  node_key        TEXT NOT NULL,          -- lowercase alphanumerics, matches annotation names
+  context         TEXT NOT NULL,          -- sop, dop, cop, lop, chop, vop, ...
+  system          TEXT NOT NULL,          -- pyro, rbd, flip, vellum, kinefx, or the context
+  title           TEXT,
+  source          TEXT NOT NULL,          -- site, mirror directory or archive path
+  discovered_at   TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_discovered_nodes_system ON discovered_nodes(system);
+CREATE INDEX IF NOT EXISTS idx_discovered_nodes_key ON discovered_nodes(node_key);
+
 -- Coverage tracking
 CREATE TABLE IF NOT EXISTS coverage_report (
   id              INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -185,13 +292,101 @@ CREATE TABLE IF NOT EXISTS coverage_report (
 );
 `;
 
-/** SQL to create the sqlite-vec virtual table for vector search. */
-export const VECTOR_TABLE_SQL = `
+/**
+ * Columns added to existing tables after their first release. initDatabase
+ * adds any that are missing with ALTER TABLE, so older databases keep working.
+ */
+export const ADDED_COLUMNS: ReadonlyArray<{ table: string; column: string; definition: string }> = [
+  // NULL = awaiting review, 'approved', 'rejected'
+  { table: "node_annotations", column: "review_status", definition: "TEXT" },
+  { table: "parameter_annotations", column: "review_status", definition: "TEXT" },
+  // SHA-256 of the crawled page the annotation was generated from
+  { table: "node_annotations", column: "source_hash", definition: "TEXT" },
+  // Set when a later crawl finds different source content; cleared on re-ingest
+  { table: "node_annotations", column: "stale_since", definition: "TEXT" },
+  // HTTP validators for conditional requests in incremental crawls
+  { table: "crawl_log", column: "node_name", definition: "TEXT" },
+  { table: "crawl_log", column: "etag", definition: "TEXT" },
+  { table: "crawl_log", column: "last_modified", definition: "TEXT" },
+  // Annotation version a node or parameter chunk was generated from
+  { table: "embedding_chunks", column: "houdini_version", definition: "TEXT" },
+];
+
+/** Embedding dimension used by knowledge bases created before kb_meta existed */
+export const LEGACY_EMBEDDING_DIM = 1536;
+
+/**
+ * SQL to create the sqlite-vec virtual table for vector search.
+ * The dimension must match the embedding model recorded in kb_meta.
+ */
+export function vectorTableSql(dimensions: number): string {
+  if (!Number.isInteger(dimensions) || dimensions <= 0) {
+    throw new Error(`Invalid embedding dimension: ${dimensions}`);
+  }
+  return `
 -- sqlite-vec virtual table for semantic search embeddings
--- dimension=1536 matches text-embedding-3-small output
 CREATE VIRTUAL TABLE IF NOT EXISTS kb_vec USING vec0(
   chunk_id INTEGER PRIMARY KEY,
-  embedding float[1536]
+  embedding float[${dimensions}]
+);
+`;
+}
+
+/** Vector table for the legacy text-embedding-3-small (1536-dim) layout. */
+export const VECTOR_TABLE_SQL = vectorTableSql(LEGACY_EMBEDDING_DIM);
+
+/**
+ * Migration from the v1 layout (node_name UNIQUE, one row per node) to per-version
+ * rows. SQLite cannot alter UNIQUE constraints, so both tables are rebuilt and
+ * existing parameters inherit their node's houdini_version.
+ * Must run with foreign_keys OFF, before SCHEMA_SQL creates the new indexes.
+ */
+export const MIGRATE_VERSIONED_ANNOTATIONS_SQL = `
+${nodeAnnotationsTableSql("node_annotations_v2")}
+${parameterAnnotationsTableSql("parameter_annotations_v2")}
+
+INSERT INTO node_annotations_v2 SELECT * FROM node_annotations;
+
+INSERT INTO parameter_annotations_v2 (
+  id, node_name, param_name, param_path, houdini_version,
+  semantic_name_zh, semantic_name_en, one_line, intent_mapping, default_value,
+  safe_range_min, safe_range_max, expert_range_min, expert_range_max,
+  danger_below, danger_above, danger_description,
+  visual_effect, interactions, context_adjustments,
+  human_verified, confidence_score, created_at, updated_at
+)
+SELECT
+  p.id, p.node_name, p.param_name, p.param_path,
+  COALESCE((SELECT n.houdini_version FROM node_annotations n WHERE n.node_name = p.node_name), '${DEFAULT_HOUDINI_VERSION}'),
+  p.semantic_name_zh, p.semantic_name_en, p.one_line, p.intent_mapping, p.default_value,
+  p.safe_range_min, p.safe_range_max, p.expert_range_min, p.expert_range_max,
+  p.danger_below, p.danger_above, p.danger_description,
+  p.visual_effect, p.interactions, p.context_adjustments,
+  p.human_verified, p.confidence_score, p.created_at, p.updated_at
+FROM parameter_annotations p;
+
+DROP TABLE parameter_annotations;
+DROP TABLE node_annotations;
+ALTER TABLE node_annotations_v2 RENAME TO node_annotations;
+ALTER TABLE parameter_annotations_v2 RENAME TO parameter_annotations;
+`;
+
+/**
+ * SQL to create the FTS5 keyword index used by hybrid search.
+ * `names` holds exact identifiers (node/param names, paths, pattern IDs) and is
+ * weighted above `body` when ranking, so exact parameter names hit first.
+ * `houdini_version` is NULL for rows that are not tied to an annotation version.
+ */
+export const FTS_TABLE_SQL = `
+CREATE VIRTUAL TABLE IF NOT EXISTS kb_fts USING fts5(
+  names,
+  body,
+  source_table UNINDEXED,
+  source_id UNINDEXED,
+  chunk_type UNINDEXED,
+  node_name UNINDEXED,
+  system UNINDEXED,
+  houdini_version UNINDEXED
 );
 `;
 
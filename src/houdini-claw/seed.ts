@@ -11,6 +11,9 @@
  */
 
 import { initDatabase, type KnowledgeBase } from "./db.js";
+import { syncNodeEdges } from "./graph.js";
+
+type ParameterAnnotationInput = Parameters<KnowledgeBase["upsertParameterAnnotation"]>[0];
 
 // ── Seed Data ──────────────────────────────────────────────
 
@@ -22,10 +25,12 @@ function seedPyroSolver(kb: KnowledgeBase): void {
     semantic_name_zh: "烟火解算器",
     semantic_name_en: "Pyro Simulation Solver",
     one_line: "The core solver for all smoke, fire, and explosion simulations in Houdini DOPs",
-    analogy: "Think of it as the physics engine specifically for gaseous phenomena — it handles how smoke drifts, fire burns, and explosions expand through space",
+    analogy:
+      "Think of it as the physics engine specifically for gaseous phenomena — it handles how smoke drifts, fire burns, and explosions expand through space",
     prerequisite_nodes: ["smoke_object", "source_volume"],
     required_context: "DOP",
-    typical_network: "DOP Network → Smoke Object → Pyro Solver → (optional: Gas Resize, Gas Turbulence, source_volume merges)",
+    typical_network:
+      "DOP Network → Smoke Object → Pyro Solver → (optional: Gas Resize, Gas Turbulence, source_volume merges)",
     annotation_yaml: "{}",
     source_urls: ["https://www.sidefx.com/docs/houdini/nodes/dop/pyrosolver.html"],
     annotated_at: new Date().toISOString(),
@@ -35,7 +40,7 @@ function seedPyroSolver(kb: KnowledgeBase): void {
   });
 
   // Key Pyro Solver parameters
-  const pyroParams = [
+  const pyroParams: Array<Omit<ParameterAnnotationInput, "node_name">> = [
     {
       param_name: "dissipation",
       param_path: "pyrosolver1/flameSolver/dissipation",
@@ -55,7 +60,8 @@ function seedPyroSolver(kb: KnowledgeBase): void {
       expert_range_max: 1.0,
       danger_below: 0.001,
       danger_above: 1.0,
-      danger_description: "Below 0.001: smoke never disappears, fills entire container. Above 1.0: smoke vanishes almost instantly.",
+      danger_description:
+        "Below 0.001: smoke never disappears, fills entire container. Above 1.0: smoke vanishes almost instantly.",
       visual_effect: {
         "0.01": "Dense, persistent fog that barely fades",
         "0.05": "Slow, realistic indoor smoke behavior",
@@ -64,15 +70,28 @@ function seedPyroSolver(kb: KnowledgeBase): void {
         "0.5": "Very quick fade, smoke barely visible after source stops",
       },
       interactions: [
-        { param: "cooling_rate", relationship: "Both reduce density over time; high dissipation + high cooling = very fast fade", warning: "Don't max both unless you want smoke to vanish in 2-3 frames" },
-        { param: "turbulence", relationship: "Turbulence spreads smoke, making dissipation less noticeable", tip: "High turbulence + low dissipation = large persistent smoke cloud" },
-        { param: "buoyancy", relationship: "Buoyancy moves smoke up; combined with dissipation, smoke may thin out before rising fully" },
+        {
+          param: "cooling_rate",
+          relationship:
+            "Both reduce density over time; high dissipation + high cooling = very fast fade",
+          warning: "Don't max both unless you want smoke to vanish in 2-3 frames",
+        },
+        {
+          param: "turbulence",
+          relationship: "Turbulence spreads smoke, making dissipation less noticeable",
+          tip: "High turbulence + low dissipation = large persistent smoke cloud",
+        },
+        {
+          param: "buoyancy",
+          relationship:
+            "Buoyancy moves smoke up; combined with dissipation, smoke may thin out before rising fully",
+        },
       ],
       context_adjustments: {
-        "indoor": "Use 0.01-0.05 (enclosed spaces trap smoke)",
-        "outdoor": "Use 0.05-0.2 (wind and open air dissipate faster)",
-        "large_scale": "Use 0.02-0.1 (large volumes need slower dissipation)",
-        "stylized": "Use 0.2-0.5 (faster fade for cleaner look)",
+        indoor: "Use 0.01-0.05 (enclosed spaces trap smoke)",
+        outdoor: "Use 0.05-0.2 (wind and open air dissipate faster)",
+        large_scale: "Use 0.02-0.1 (large volumes need slower dissipation)",
+        stylized: "Use 0.2-0.5 (faster fade for cleaner look)",
       },
       human_verified: true,
       confidence_score: 1.0,
@@ -82,7 +101,8 @@ function seedPyroSolver(kb: KnowledgeBase): void {
       param_path: "pyrosolver1/flameSolver/coolingRate",
       semantic_name_zh: "冷却速率",
       semantic_name_en: "Fire Cooling Rate",
-      one_line: "How quickly the temperature field decreases, affecting fire visibility and buoyancy",
+      one_line:
+        "How quickly the temperature field decreases, affecting fire visibility and buoyancy",
       intent_mapping: {
         "fire burns longer": "decrease cooling_rate",
         "fire dies quickly": "increase cooling_rate",
@@ -96,7 +116,8 @@ function seedPyroSolver(kb: KnowledgeBase): void {
       expert_range_max: 1.0,
       danger_below: 0.01,
       danger_above: 1.0,
-      danger_description: "Below 0.01: temperature never drops, eternal fire. Above 1.0: fire cools before it can render visibly.",
+      danger_description:
+        "Below 0.01: temperature never drops, eternal fire. Above 1.0: fire cools before it can render visibly.",
       visual_effect: {
         "0.05": "Long-lasting flames, fire persists far from source",
         "0.15": "Moderate flame duration, good for explosions",
@@ -105,14 +126,23 @@ function seedPyroSolver(kb: KnowledgeBase): void {
         "0.8": "Very brief flash, barely visible flames",
       },
       interactions: [
-        { param: "dissipation", relationship: "Cooling removes temperature while dissipation removes density; they compound", warning: "Both high = nothing visible after a few frames" },
-        { param: "buoyancy", relationship: "Buoyancy driven by temperature; faster cooling = less rise", tip: "Low cooling + high buoyancy = tall rising fire column" },
+        {
+          param: "dissipation",
+          relationship:
+            "Cooling removes temperature while dissipation removes density; they compound",
+          warning: "Both high = nothing visible after a few frames",
+        },
+        {
+          param: "buoyancy",
+          relationship: "Buoyancy driven by temperature; faster cooling = less rise",
+          tip: "Low cooling + high buoyancy = tall rising fire column",
+        },
       ],
       context_adjustments: {
-        "indoor": "0.1-0.2 (fire cools slower in enclosed spaces)",
-        "outdoor": "0.2-0.4 (default range works well)",
-        "explosion": "0.1-0.2 (let the explosion bloom before cooling)",
-        "candle": "0.3-0.5 (small, steady flame)",
+        indoor: "0.1-0.2 (fire cools slower in enclosed spaces)",
+        outdoor: "0.2-0.4 (default range works well)",
+        explosion: "0.1-0.2 (let the explosion bloom before cooling)",
+        candle: "0.3-0.5 (small, steady flame)",
       },
       human_verified: true,
       confidence_score: 1.0,
@@ -122,7 +152,8 @@ function seedPyroSolver(kb: KnowledgeBase): void {
       param_path: "pyrosolver1/flameSolver/turbulence",
       semantic_name_zh: "湍流强度",
       semantic_name_en: "Turbulence Intensity",
-      one_line: "Controls the chaotic motion injected into the velocity field, creating swirling, organic smoke behavior",
+      one_line:
+        "Controls the chaotic motion injected into the velocity field, creating swirling, organic smoke behavior",
       intent_mapping: {
         "more chaotic smoke": "increase turbulence",
         "smoother smoke": "decrease turbulence",
@@ -136,7 +167,8 @@ function seedPyroSolver(kb: KnowledgeBase): void {
       expert_range_max: 3.0,
       danger_below: undefined,
       danger_above: 3.0,
-      danger_description: "Above 3.0: smoke becomes extremely noisy and unrealistic, may cause solver instability",
+      danger_description:
+        "Above 3.0: smoke becomes extremely noisy and unrealistic, may cause solver instability",
       visual_effect: {
         "0.0": "Perfectly smooth, laminar flow — unrealistic but clean",
         "0.3": "Gentle organic motion, good for calm scenes",
@@ -145,15 +177,26 @@ function seedPyroSolver(kb: KnowledgeBase): void {
         "1.5": "Very turbulent, dramatic swirling",
       },
       interactions: [
-        { param: "dissipation", relationship: "Turbulence spreads smoke, counteracting dissipation", tip: "High turbulence keeps smoke visible longer by spreading it" },
-        { param: "confinement", relationship: "Confinement counteracts turbulence diffusion, keeping structures tight" },
-        { param: "disturbance", relationship: "Both add variation; turbulence is velocity-based, disturbance is density-based" },
+        {
+          param: "dissipation",
+          relationship: "Turbulence spreads smoke, counteracting dissipation",
+          tip: "High turbulence keeps smoke visible longer by spreading it",
+        },
+        {
+          param: "confinement",
+          relationship: "Confinement counteracts turbulence diffusion, keeping structures tight",
+        },
+        {
+          param: "disturbance",
+          relationship:
+            "Both add variation; turbulence is velocity-based, disturbance is density-based",
+        },
       ],
       context_adjustments: {
-        "explosion": "0.6-1.2 (chaotic, energetic)",
-        "campfire": "0.2-0.4 (gentle flickering)",
+        explosion: "0.6-1.2 (chaotic, energetic)",
+        campfire: "0.2-0.4 (gentle flickering)",
         "indoor smoke": "0.1-0.3 (calm drift)",
-        "volcanic": "0.5-0.8 (large-scale turbulence)",
+        volcanic: "0.5-0.8 (large-scale turbulence)",
       },
       human_verified: true,
       confidence_score: 1.0,
@@ -186,14 +229,22 @@ function seedPyroSolver(kb: KnowledgeBase): void {
         "3.0": "Very aggressive rise, good for volcanic plumes",
       },
       interactions: [
-        { param: "cooling_rate", relationship: "Buoyancy is driven by temperature; fast cooling reduces buoyancy effect over time" },
-        { param: "turbulence", relationship: "Turbulence disrupts the buoyancy column, creating billowing rather than straight rise" },
+        {
+          param: "cooling_rate",
+          relationship:
+            "Buoyancy is driven by temperature; fast cooling reduces buoyancy effect over time",
+        },
+        {
+          param: "turbulence",
+          relationship:
+            "Turbulence disrupts the buoyancy column, creating billowing rather than straight rise",
+        },
       ],
       context_adjustments: {
-        "indoor": "0.5-1.0 (ceiling will catch the smoke anyway)",
-        "outdoor": "1.0-2.0 (smoke needs to rise visibly in open air)",
-        "fog": "0.0-0.1 (fog stays low)",
-        "explosion": "1.0-2.0 (strong initial rise, then turbulence takes over)",
+        indoor: "0.5-1.0 (ceiling will catch the smoke anyway)",
+        outdoor: "1.0-2.0 (smoke needs to rise visibly in open air)",
+        fog: "0.0-0.1 (fog stays low)",
+        explosion: "1.0-2.0 (strong initial rise, then turbulence takes over)",
       },
       human_verified: true,
       confidence_score: 1.0,
@@ -201,7 +252,7 @@ function seedPyroSolver(kb: KnowledgeBase): void {
   ];
 
   for (const param of pyroParams) {
-    kb.upsertParameterAnnotation(param);
+    kb.upsertParameterAnnotation({ ...param, node_name: "pyro_solver" });
   }
 
   // Seed key recipes
@@ -237,17 +288,12 @@ function seedPyroSolver(kb: KnowledgeBase): void {
     system: "pyro",
     tags: ["outdoor", "fire", "realistic", "small-scale", "continuous"],
     description: "Steady burning flame with gentle smoke rising",
-    prerequisites: [
-      "Source geometry (logs/emitter shape)",
-      "Continuous emission source",
-    ],
+    prerequisites: ["Source geometry (logs/emitter shape)", "Continuous emission source"],
     parameters: {
       pyro_solver: { dissipation: 0.1, cooling_rate: 0.3, turbulence: 0.3, buoyancy_lift: 1.2 },
       source_volume: { fuel_amount: 0.5, temperature: 1.5 },
     },
-    warnings: [
-      "Outdoor sims need larger containers — smoke rises and spreads",
-    ],
+    warnings: ["Outdoor sims need larger containers — smoke rises and spreads"],
   });
 
   kb.upsertRecipe({
@@ -255,17 +301,19 @@ function seedPyroSolver(kb: KnowledgeBase): void {
     system: "pyro",
     tags: ["stylized", "magic", "smoke", "art-directed"],
     description: "Thick swirling colorful smoke for fantasy effects",
-    prerequisites: [
-      "Point or curve source for directional emission",
-    ],
+    prerequisites: ["Point or curve source for directional emission"],
     parameters: {
-      pyro_solver: { dissipation: 0.05, cooling_rate: 0.05, turbulence: 1.2, buoyancy_lift: 0.3, confinement: 0.5 },
+      pyro_solver: {
+        dissipation: 0.05,
+        cooling_rate: 0.05,
+        turbulence: 1.2,
+        buoyancy_lift: 0.3,
+        confinement: 0.5,
+      },
       smoke_object: { division_size: 0.015 },
       source_volume: { fuel_amount: 0.8, temperature: 1.0 },
     },
-    warnings: [
-      "Low buoyancy keeps the smoke floating rather than rising fast",
-    ],
+    warnings: ["Low buoyancy keeps the smoke floating rather than rising fast"],
   });
 
   // Seed key error patterns
@@ -282,7 +330,8 @@ function seedPyroSolver(kb: KnowledgeBase): void {
       {
         cause: "Insufficient substeps for the simulation speed",
         probability: "high",
-        explanation: "When forces are strong relative to voxel size, the solver can't resolve motion in a single step",
+        explanation:
+          "When forces are strong relative to voxel size, the solver can't resolve motion in a single step",
         fix: [
           "Increase substeps on the DOP network: 2 → 4 or higher",
           "Or reduce force magnitudes (buoyancy, turbulence)",
@@ -345,7 +394,8 @@ function seedSmokeSolver(kb: KnowledgeBase): void {
     semantic_name_zh: "烟雾解算器",
     semantic_name_en: "Smoke Simulation Solver",
     one_line: "Legacy smoke solver for pure smoke simulations without fire/combustion",
-    analogy: "A simpler version of the Pyro Solver — handles only smoke (no fire). Like a fog machine simulator.",
+    analogy:
+      "A simpler version of the Pyro Solver — handles only smoke (no fire). Like a fog machine simulator.",
     prerequisite_nodes: ["smoke_object"],
     required_context: "DOP",
     typical_network: "DOP Network → Smoke Object → Smoke Solver → Source merges",
@@ -365,11 +415,14 @@ function seedVoronoiFracture(kb: KnowledgeBase): void {
     houdini_version: "20.5",
     semantic_name_zh: "泰森多边形碎裂",
     semantic_name_en: "Voronoi Fracture (Pre-Fracture Tool)",
-    one_line: "Breaks geometry into pieces using Voronoi cell division, typically used before RBD simulation",
-    analogy: "Like dropping a plate — the fracture pattern depends on where and how hard it's hit. Voronoi controls the 'crack pattern' before the physics simulation runs.",
+    one_line:
+      "Breaks geometry into pieces using Voronoi cell division, typically used before RBD simulation",
+    analogy:
+      "Like dropping a plate — the fracture pattern depends on where and how hard it's hit. Voronoi controls the 'crack pattern' before the physics simulation runs.",
     prerequisite_nodes: ["scatter"],
     required_context: "SOP",
-    typical_network: "Geometry → Scatter (fracture points) → Voronoi Fracture → Assemble → DOP Import",
+    typical_network:
+      "Geometry → Scatter (fracture points) → Voronoi Fracture → Assemble → DOP Import",
     annotation_yaml: "{}",
     source_urls: ["https://www.sidefx.com/docs/houdini/nodes/sop/voronoifracture.html"],
     annotated_at: new Date().toISOString(),
@@ -406,13 +459,17 @@ function seedVoronoiFracture(kb: KnowledgeBase): void {
       "500": "Very fine shatter, tiny pieces",
     },
     interactions: [
-      { param: "cluster_size", relationship: "Clustering groups small pieces into larger chunks", tip: "High num_points + clustering = detail where needed, efficiency elsewhere" },
+      {
+        param: "cluster_size",
+        relationship: "Clustering groups small pieces into larger chunks",
+        tip: "High num_points + clustering = detail where needed, efficiency elsewhere",
+      },
     ],
     context_adjustments: {
-      "glass": "200-500 (fine shatter pattern)",
-      "concrete": "30-80 (chunky pieces)",
-      "rock": "20-50 (irregular large chunks)",
-      "wood": "10-30 (long splinters, use directional noise)",
+      glass: "200-500 (fine shatter pattern)",
+      concrete: "30-80 (chunky pieces)",
+      rock: "20-50 (irregular large chunks)",
+      wood: "10-30 (long splinters, use directional noise)",
     },
     human_verified: true,
     confidence_score: 1.0,
@@ -426,11 +483,14 @@ function seedFlipSolver(kb: KnowledgeBase): void {
     houdini_version: "20.5",
     semantic_name_zh: "FLIP流体解算器",
     semantic_name_en: "FLIP Fluid Solver",
-    one_line: "Particle-based fluid solver for realistic water, lava, honey, and other liquid simulations",
-    analogy: "Simulates fluid by tracking millions of tiny particles that carry velocity through a grid — like tracking individual water droplets to simulate a whole ocean wave",
+    one_line:
+      "Particle-based fluid solver for realistic water, lava, honey, and other liquid simulations",
+    analogy:
+      "Simulates fluid by tracking millions of tiny particles that carry velocity through a grid — like tracking individual water droplets to simulate a whole ocean wave",
     prerequisite_nodes: ["flip_object"],
     required_context: "DOP",
-    typical_network: "DOP Network → FLIP Object → FLIP Solver → (optional: Whitewater, Volume Source)",
+    typical_network:
+      "DOP Network → FLIP Object → FLIP Solver → (optional: Whitewater, Volume Source)",
     annotation_yaml: "{}",
     source_urls: ["https://www.sidefx.com/docs/houdini/nodes/dop/flipsolver.html"],
     annotated_at: new Date().toISOString(),
@@ -445,7 +505,8 @@ function seedFlipSolver(kb: KnowledgeBase): void {
     node_name: "flip_solver",
     semantic_name_zh: "粒子间距",
     semantic_name_en: "Particle Separation Distance",
-    one_line: "The spacing between fluid particles — smaller = more detail but exponentially more expensive",
+    one_line:
+      "The spacing between fluid particles — smaller = more detail but exponentially more expensive",
     intent_mapping: {
       "more detail": "decrease particle_separation",
       "faster sim": "increase particle_separation",
@@ -459,7 +520,8 @@ function seedFlipSolver(kb: KnowledgeBase): void {
     expert_range_max: 0.5,
     danger_below: 0.002,
     danger_above: 0.5,
-    danger_description: "Below 0.002: billions of particles, memory exhaustion. Above 0.5: fluid looks blobby and unrealistic.",
+    danger_description:
+      "Below 0.002: billions of particles, memory exhaustion. Above 0.5: fluid looks blobby and unrealistic.",
     visual_effect: {
       "0.01": "Very fine detail, splashes and thin sheets visible",
       "0.03": "Good production quality for close-up shots",
@@ -468,11 +530,19 @@ function seedFlipSolver(kb: KnowledgeBase): void {
       "0.2": "Very coarse, only for blocking and layout",
     },
     interactions: [
-      { param: "grid_scale", relationship: "Grid resolution = particle_separation × grid_scale", tip: "grid_scale of 2.0 is standard; lower for more accurate pressure solve" },
-      { param: "substeps", relationship: "Finer particles with fast motion need more substeps", warning: "Reducing particle_separation without increasing substeps can cause instability" },
+      {
+        param: "grid_scale",
+        relationship: "Grid resolution = particle_separation × grid_scale",
+        tip: "grid_scale of 2.0 is standard; lower for more accurate pressure solve",
+      },
+      {
+        param: "substeps",
+        relationship: "Finer particles with fast motion need more substeps",
+        warning: "Reducing particle_separation without increasing substeps can cause instability",
+      },
     ],
     context_adjustments: {
-      "ocean": "0.05-0.2 (large scale, coarser is fine)",
+      ocean: "0.05-0.2 (large scale, coarser is fine)",
       "pouring liquid": "0.002-0.01 (small scale needs fine detail)",
       "destruction flood": "0.05-0.1 (balance detail vs. volume)",
       "test/preview": "2-3x final value (iterate fast, refine later)",
@@ -484,28 +554,38 @@ function seedFlipSolver(kb: KnowledgeBase): void {
 
 // ── Main ───────────────────────────────────────────────────
 
-export async function seedDatabase(dbPath?: string): Promise<void> {
+export async function seedDatabase(
+  dbPath?: string,
+  options: {
+    /** Progress messages (default: console.log) */
+    log?: (message: string) => void;
+  } = {},
+): Promise<void> {
+  const log = options.log ?? console.log;
   const kb = await initDatabase(dbPath);
 
-  console.log("[seed] Seeding Pyro Solver...");
+  log("[seed] Seeding Pyro Solver...");
   seedPyroSolver(kb);
 
-  console.log("[seed] Seeding Smoke Solver...");
+  log("[seed] Seeding Smoke Solver...");
   seedSmokeSolver(kb);
 
-  console.log("[seed] Seeding Voronoi Fracture...");
+  log("[seed] Seeding Voronoi Fracture...");
   seedVoronoiFracture(kb);
 
-  console.log("[seed] Seeding FLIP Solver...");
+  log("[seed] Seeding FLIP Solver...");
   seedFlipSolver(kb);
 
-  console.log("[seed] Done. Seeded core nodes with human-verified annotations.");
+  kb.rebuildKeywordIndex();
+  syncNodeEdges(kb);
+
+  log("[seed] Done. Seeded core nodes with human-verified annotations.");
 
   // Print coverage
   const report = kb.getCoverageReport();
   for (const row of report) {
-    console.log(
-      `  ${row.system}: ${row.annotated_nodes} nodes, ${row.annotated_params} params, ${row.verified_nodes} verified`,
+    log(
+      `  ${String(row.system)}: ${Number(row.annotated_nodes)} nodes, ${Number(row.annotated_params)} params, ${Number(row.verified_nodes)} verified`,
     );
   }
 
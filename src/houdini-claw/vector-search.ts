@@ -2,60 +2,205 @@
  * Houdini Claw - Vector Search Layer
  *
  * Provides semantic search over the knowledge base using sqlite-vec
- * for embedding storage and cosine similarity search.
+ * for embedding storage and cosine similarity search. Indexing reuses the
+ * memory search machinery: token-bounded request batches with rate-limit
+ * retries, provider batch jobs, an embedding cache keyed by content hash,
+ * and MMR re-ranking of results.
  */
 
-import type { KnowledgeBase } from "./db.js";
-
-/** Embedding dimension (text-embedding-3-small = 1536) */
-const EMBEDDING_DIM = 1536;
+import {
+  buildEmbeddingBatches,
+  runEmbeddingRequestWithRetry,
+} from "../memory/embedding-batches.js";
+import { splitTextToUtf8ByteLimit } from "../memory/embedding-input-limits.js";
+import { hashText } from "../memory/internal.js";
+import { mmrRerank, type MMRConfig } from "../memory/mmr.js";
+import { nodeVersionFilterSql, type KnowledgeBase } from "./db.js";
+import {
+  createEmbeddingProvider,
+  type EmbeddingProvider,
+  type EmbeddingProviderOptions,
+} from "./embedding-providers.js";
+import { LEGACY_EMBEDDING_DIM, vectorTableSql } from "./schema.js";
 
 /** Maximum number of chunks to return from a search */
 const DEFAULT_TOP_K = 5;
 
+/** Candidates fetched per returned result when MMR re-ranking is on */
+const MMR_CANDIDATE_MULTIPLIER = 4;
+
+/** Nearest neighbours fetched per candidate, leaving room for the join filters */
+const FILTER_CANDIDATE_MULTIPLIER = 4;
+
+/** kb_meta keys describing the embeddings stored in kb_vec */
+const META_EMBEDDING_PROVIDER = "embedding_provider";
+const META_EMBEDDING_MODEL = "embedding_model";
+const META_EMBEDDING_DIM = "embedding_dim";
+
+/** Identity of the embedding model that produced the vectors in kb_vec */
+export interface EmbeddingIdentity {
+  provider: string;
+  model: string;
+  dimensions: number;
+}
+
 /**
- * Generate an embedding for the given text using the configured embedding model.
- * Supports OpenAI-compatible embedding APIs.
+ * Raised when a query or index operation would mix embeddings from a
+ * different model (or dimension) into an existing kb_vec table.
  */
-export async function generateEmbedding(
-  text: string,
-  options?: {
-    model?: string;
-    apiKey?: string;
-    baseUrl?: string;
-  },
-): Promise<Float32Array> {
-  const model = options?.model ?? process.env.HOUDINI_CLAW_EMBEDDING_MODEL ?? "text-embedding-3-small";
-  const apiKey = options?.apiKey ?? process.env.OPENAI_API_KEY;
-  const baseUrl = options?.baseUrl ?? "https://api.openai.com/v1";
-
-  if (!apiKey) {
-    throw new Error("No API key for embeddings. Set OPENAI_API_KEY or pass apiKey option.");
+export class EmbeddingModelMismatchError extends Error {
+  constructor(
+    public readonly stored: EmbeddingIdentity,
+    public readonly requested: EmbeddingIdentity,
+  ) {
+    super(
+      `kb_vec holds ${describeIdentity(stored)} embeddings but ${describeIdentity(requested)} was requested. ` +
+        "Reset the vector index (ingest --reset-vectors) to switch embedding models.",
+    );
+    this.name = "EmbeddingModelMismatchError";
   }
+}
 
-  const response = await fetch(`${baseUrl}/embeddings`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
+function describeIdentity(identity: EmbeddingIdentity): string {
+  return `${identity.provider}/${identity.model} (${identity.dimensions}d)`;
+}
+
+function isSameEmbeddingIdentity(a: EmbeddingIdentity, b: EmbeddingIdentity): boolean {
+  return a.provider === b.provider && a.model === b.model && a.dimensions === b.dimensions;
+}
+
+/**
+ * Read the embedding identity recorded for this knowledge base.
+ * Databases created before kb_meta existed are assumed to hold
+ * text-embedding-3-small vectors if a kb_vec table is present.
+ */
+export function getStoredEmbeddingIdentity(kb: KnowledgeBase): EmbeddingIdentity | undefined {
+  const model = kb.getMeta(META_EMBEDDING_MODEL);
+  const dim = kb.getMeta(META_EMBEDDING_DIM);
+  if (model && dim) {
+    return {
+      provider: kb.getMeta(META_EMBEDDING_PROVIDER) ?? "openai",
       model,
-      input: text,
-      encoding_format: "float",
-    }),
-  });
-
-  if (!response.ok) {
-    const body = await response.text();
-    throw new Error(`Embedding API error ${response.status}: ${body}`);
+      dimensions: parseInt(dim, 10),
+    };
   }
+  if (kb.hasTable("kb_vec")) {
+    return {
+      provider: "openai",
+      model: "text-embedding-3-small",
+      dimensions: LEGACY_EMBEDDING_DIM,
+    };
+  }
+  return undefined;
+}
 
-  const result = (await response.json()) as {
-    data: Array<{ embedding: number[] }>;
-  };
+/**
+ * Make sure kb_vec exists for the given embedding identity, creating it and
+ * recording the identity in kb_meta on first use. Throws
+ * EmbeddingModelMismatchError instead of mixing models in one table.
+ */
+export function ensureVectorIndex(kb: KnowledgeBase, identity: EmbeddingIdentity): void {
+  if (!kb.vecAvailable) {
+    throw new Error("sqlite-vec extension not loaded, vector search disabled");
+  }
+
+  const stored = getStoredEmbeddingIdentity(kb);
+  if (stored) {
+    if (!isSameEmbeddingIdentity(stored, identity)) {
+      throw new EmbeddingModelMismatchError(stored, identity);
+    }
+    if (kb.hasTable("kb_vec")) {
+      return;
+    }
+  }
+
+  kb.db.exec(vectorTableSql(identity.dimensions));
+  kb.setMeta(META_EMBEDDING_PROVIDER, identity.provider);
+  kb.setMeta(META_EMBEDDING_MODEL, identity.model);
+  kb.setMeta(META_EMBEDDING_DIM, String(identity.dimensions));
+}
+
+/**
+ * Drop all stored vectors and the recorded embedding identity so the index
+ * can be rebuilt with a different embedding model.
+ */
+export function resetVectorIndex(kb: KnowledgeBase): void {
+  kb.db.exec("DROP TABLE IF EXISTS kb_vec");
+  kb.deleteMeta(META_EMBEDDING_PROVIDER);
+  kb.deleteMeta(META_EMBEDDING_MODEL);
+  kb.deleteMeta(META_EMBEDDING_DIM);
+}
+
+function identityOf(provider: EmbeddingProvider, embedding: Float32Array): EmbeddingIdentity {
+  return { provider: provider.kind, model: provider.model, dimensions: embedding.length };
+}
+
+/** A chunk ready to embed, plus its cache key */
+interface EmbeddingInput {
+  chunkId: number;
+  text: string;
+  hash: string;
+}
+
+/**
+ * Embedding inputs for a chunk. A chunk over the model's input limit is split
+ * into several chunk rows (as memory's enforceEmbeddingMaxInputTokens does)
+ * instead of embedding only its beginning.
+ */
+function toEmbeddingInputs(
+  kb: KnowledgeBase,
+  provider: EmbeddingProvider,
+  chunkId: number,
+  text: string,
+): EmbeddingInput[] {
+  const pieces = splitTextToUtf8ByteLimit(text, provider.maxInputTokens);
+  if (pieces.length <= 1) {
+    return [{ chunkId, text, hash: hashText(text) }];
+  }
+  console.warn(
+    `[houdini-claw] Chunk ${chunkId} exceeds the ${provider.maxInputTokens}-token input limit of ${provider.model}; splitting it into ${pieces.length} chunks`,
+  );
+  const ids = kb.splitChunk(chunkId, pieces);
+  return pieces.map((piece, idx) => ({ chunkId: ids[idx], text: piece, hash: hashText(piece) }));
+}
 
-  return new Float32Array(result.data[0].embedding);
+function insertVector(kb: KnowledgeBase, chunkId: number, embedding: Float32Array): void {
+  // vec0 rejects REAL primary keys, which is how node:sqlite binds plain numbers
+  kb.db
+    .prepare("INSERT OR REPLACE INTO kb_vec (chunk_id, embedding) VALUES (?, ?)")
+    .run(
+      BigInt(chunkId),
+      Buffer.from(embedding.buffer, embedding.byteOffset, embedding.byteLength),
+    );
+}
+
+/**
+ * Embed one token-bounded request, retrying rate limits.
+ */
+async function embedBatch(
+  provider: EmbeddingProvider,
+  batch: EmbeddingInput[],
+): Promise<Float32Array[]> {
+  const embeddings = await runEmbeddingRequestWithRetry(
+    () => provider.embed(batch.map((input) => input.text)),
+    (waitMs) => console.warn(`[houdini-claw] Embeddings rate limited; retrying in ${waitMs}ms`),
+  );
+  if (embeddings.length !== batch.length) {
+    throw new Error(`expected ${batch.length} embeddings, got ${embeddings.length}`);
+  }
+  return embeddings;
+}
+
+/**
+ * Generate an embedding for the given text using the configured embedding provider
+ * (see embedding-providers.ts).
+ */
+export async function generateEmbedding(
+  text: string,
+  options?: EmbeddingProviderOptions,
+): Promise<Float32Array> {
+  const provider = await createEmbeddingProvider(options);
+  return provider.embedQuery(text);
 }
 
 /**
@@ -65,24 +210,31 @@ export async function indexChunk(
   kb: KnowledgeBase,
   chunkId: number,
   text: string,
-  embeddingOptions?: {
-    model?: string;
-    apiKey?: string;
-    baseUrl?: string;
-  },
+  embeddingOptions?: EmbeddingProviderOptions,
 ): Promise<void> {
-  const embedding = await generateEmbedding(text, embeddingOptions);
-
-  // Insert into sqlite-vec virtual table
-  const stmt = kb.db.prepare(
-    "INSERT OR REPLACE INTO kb_vec (chunk_id, embedding) VALUES (?, ?)",
-  );
-  stmt.run(chunkId, Buffer.from(embedding.buffer));
+  const provider = await createEmbeddingProvider(embeddingOptions);
+  const inputs = toEmbeddingInputs(kb, provider, chunkId, text);
+  for (const input of inputs) {
+    let embedding = kb
+      .getCachedEmbeddings(provider.kind, provider.model, [input.hash])
+      .get(input.hash);
+    if (!embedding) {
+      [embedding] = await embedBatch(provider, [input]);
+      kb.putCachedEmbeddings(provider.kind, provider.model, [{ hash: input.hash, embedding }]);
+    }
+    ensureVectorIndex(kb, identityOf(provider, embedding));
+    insertVector(kb, input.chunkId, embedding);
+  }
+  if (inputs.length > 1) {
+    kb.rebuildKeywordIndex();
+  }
 }
 
 /**
  * Perform a semantic search over the knowledge base.
- * Returns the top-k most similar chunks with their scores and metadata.
+ * Returns the top-k most similar chunks with their scores and metadata,
+ * optionally re-ranked with MMR so near-duplicate chunks don't crowd out the rest.
+ * Node chunks come from one annotation version per node (see keywordSearch).
  */
 export async function semanticSearch(
   kb: KnowledgeBase,
@@ -92,71 +244,65 @@ export async function semanticSearch(
     system?: string;
     chunkType?: string;
     nodeName?: string;
-    embeddingOptions?: {
-      model?: string;
-      apiKey?: string;
-      baseUrl?: string;
-    };
+    houdiniVersion?: string;
+    embeddingOptions?: EmbeddingProviderOptions;
+    mmr?: Partial<MMRConfig>;
   },
 ): Promise<SearchResult[]> {
   const topK = options?.topK ?? DEFAULT_TOP_K;
-  const queryEmbedding = await generateEmbedding(query, options?.embeddingOptions);
-
-  // Build the vector search query with optional filters
-  let sql: string;
-  const params: unknown[] = [Buffer.from(queryEmbedding.buffer), topK];
-
-  if (options?.system || options?.chunkType || options?.nodeName) {
-    // Join with embedding_chunks for filtering
-    const filters: string[] = [];
-    if (options.system) {
-      filters.push("ec.system = ?");
-      params.push(options.system);
-    }
-    if (options.chunkType) {
-      filters.push("ec.chunk_type = ?");
-      params.push(options.chunkType);
-    }
-    if (options.nodeName) {
-      filters.push("ec.node_name = ?");
-      params.push(options.nodeName);
-    }
+  const limit = options?.mmr?.enabled ? topK * MMR_CANDIDATE_MULTIPLIER : topK;
+  const provider = await createEmbeddingProvider(options?.embeddingOptions);
+  const queryEmbedding = await provider.embedQuery(query);
+
+  // Never compare a query against vectors produced by another model
+  const requested = identityOf(provider, queryEmbedding);
+  const stored = getStoredEmbeddingIdentity(kb);
+  if (!stored) {
+    throw new Error("Vector index is empty. Run ingest to build embeddings.");
+  }
+  if (!isSameEmbeddingIdentity(stored, requested)) {
+    throw new EmbeddingModelMismatchError(stored, requested);
+  }
 
-    sql = `
-      SELECT
-        v.chunk_id,
-        v.distance,
-        ec.chunk_text,
-        ec.chunk_type,
-        ec.node_name,
-        ec.system,
-        ec.source_table,
-        ec.source_id
-      FROM kb_vec v
-      JOIN embedding_chunks ec ON ec.id = v.chunk_id
-      WHERE v.embedding MATCH ?
-        AND k = ?
-        ${filters.length > 0 ? "AND " + filters.join(" AND ") : ""}
-      ORDER BY v.distance
-    `;
-  } else {
-    sql = `
-      SELECT
-        v.chunk_id,
-        v.distance,
-        ec.chunk_text,
-        ec.chunk_type,
-        ec.node_name,
-        ec.system,
-        ec.source_table,
-        ec.source_id
-      FROM kb_vec v
-      JOIN embedding_chunks ec ON ec.id = v.chunk_id
-      WHERE v.embedding MATCH ?
-        AND k = ?
-      ORDER BY v.distance
-    `;
+  // kb_vec applies k before the join filters, so over-fetch and trim afterwards
+  const filters = [nodeVersionFilterSql("ec.")];
+  const params: unknown[] = [
+    Buffer.from(queryEmbedding.buffer),
+    limit * FILTER_CANDIDATE_MULTIPLIER,
+    JSON.stringify(kb.resolveNodeVersions(options?.houdiniVersion)),
+  ];
+  if (options?.system) {
+    filters.push("ec.system = ?");
+    params.push(options.system);
+  }
+  if (options?.chunkType) {
+    filters.push("ec.chunk_type = ?");
+    params.push(options.chunkType);
   }
+  if (options?.nodeName) {
+    filters.push("ec.node_name = ?");
+    params.push(options.nodeName);
+  }
+  params.push(limit);
+
+  const sql = `
+    SELECT
+      v.chunk_id,
+      v.distance,
+      ec.chunk_text,
+      ec.chunk_type,
+      ec.node_name,
+      ec.system,
+      ec.source_table,
+      ec.source_id
+    FROM kb_vec v
+    JOIN embedding_chunks ec ON ec.id = v.chunk_id
+    WHERE v.embedding MATCH ?
+      AND k = ?
+      AND ${filters.join(" AND ")}
+    ORDER BY v.distance
+    LIMIT ?
+  `;
 
   const stmt = kb.db.prepare(sql);
   const rows = stmt.all(...params) as Array<{
@@ -170,7 +316,7 @@ export async function semanticSearch(
     source_id: number;
   }>;
 
-  return rows.map((row) => ({
+  const results = rows.map((row) => ({
     chunkId: row.chunk_id,
     score: 1 - row.distance, // Convert distance to similarity
     text: row.chunk_text,
@@ -180,58 +326,161 @@ export async function semanticSearch(
     sourceTable: row.source_table,
     sourceId: row.source_id,
   }));
+  return diversifyResults(results, options?.mmr).slice(0, topK);
+}
+
+/**
+ * Re-rank scored results with MMR (a no-op unless `mmr.enabled`).
+ */
+export function diversifyResults<T extends { score: number; text: string }>(
+  results: T[],
+  mmr?: Partial<MMRConfig>,
+): T[] {
+  const byId = new Map(results.map((result, index) => [String(index), result]));
+  return mmrRerank(
+    Array.from(byId, ([id, result]) => ({ id, score: result.score, content: result.text })),
+    mmr,
+  ).map((item) => byId.get(item.id)!);
 }
 
 /**
  * Build embedding index for all chunks in the database.
  * Use after bulk-inserting annotations.
+ *
+ * Chunks whose text was embedded before (same provider, model and content
+ * hash) come from the embedding cache; the rest go through a provider batch
+ * job when enabled, then inline requests for anything still missing.
  */
 export async function rebuildIndex(
   kb: KnowledgeBase,
   options?: {
-    batchSize?: number;
-    embeddingOptions?: {
-      model?: string;
-      apiKey?: string;
-      baseUrl?: string;
-    };
+    embeddingOptions?: EmbeddingProviderOptions;
     onProgress?: (indexed: number, total: number) => void;
   },
-): Promise<{ indexed: number; errors: number }> {
-  const batchSize = options?.batchSize ?? 50;
-
-  // Get all chunks that need indexing
-  const allChunks = kb.db
-    .prepare(
-      `SELECT ec.id, ec.chunk_text
-       FROM embedding_chunks ec
-       LEFT JOIN kb_vec v ON v.chunk_id = ec.id
-       WHERE v.chunk_id IS NULL
-       ORDER BY ec.id`,
-    )
-    .all() as Array<{ id: number; chunk_text: string }>;
-
-  const total = allChunks.length;
+): Promise<{ indexed: number; cached: number; errors: number }> {
+  const provider = await createEmbeddingProvider(options?.embeddingOptions);
+
+  // Validate the model against kb_meta before embedding anything
+  const stored = getStoredEmbeddingIdentity(kb);
+  if (stored && provider.dimensions !== undefined) {
+    ensureVectorIndex(kb, {
+      provider: provider.kind,
+      model: provider.model,
+      dimensions: provider.dimensions,
+    });
+  }
+
+  // Get all chunks that need indexing (everything, if kb_vec doesn't exist yet)
+  const allChunks = (
+    kb.hasTable("kb_vec")
+      ? kb.db.prepare(
+          `SELECT ec.id, ec.chunk_text
+           FROM embedding_chunks ec
+           LEFT JOIN kb_vec v ON v.chunk_id = ec.id
+           WHERE v.chunk_id IS NULL
+           ORDER BY ec.id`,
+        )
+      : kb.db.prepare("SELECT id, chunk_text FROM embedding_chunks ORDER BY id")
+  ).all() as Array<{ id: number; chunk_text: string }>;
+
+  const inputs = allChunks.flatMap((chunk) =>
+    toEmbeddingInputs(kb, provider, chunk.id, chunk.chunk_text),
+  );
+  if (inputs.length > allChunks.length) {
+    // Split chunks add rows the keyword index doesn't know about yet
+    kb.rebuildKeywordIndex();
+  }
+
+  const total = inputs.length;
   let indexed = 0;
+  let cached = 0;
   let errors = 0;
 
-  for (let i = 0; i < allChunks.length; i += batchSize) {
-    const batch = allChunks.slice(i, i + batchSize);
-
-    for (const chunk of batch) {
+  const store = (inputs: EmbeddingInput[], embeddings: Float32Array[]) => {
+    if (inputs.length === 0) {
+      return;
+    }
+    ensureVectorIndex(kb, identityOf(provider, embeddings[0]));
+    inputs.forEach((input, idx) => {
       try {
-        await indexChunk(kb, chunk.id, chunk.chunk_text, options?.embeddingOptions);
+        insertVector(kb, input.chunkId, embeddings[idx]);
         indexed++;
       } catch (err) {
-        console.error(`[houdini-claw] Failed to index chunk ${chunk.id}:`, (err as Error).message);
+        console.error(
+          `[houdini-claw] Failed to index chunk ${input.chunkId}:`,
+          (err as Error).message,
+        );
         errors++;
       }
+    });
+    options?.onProgress?.(indexed, total);
+  };
+  const remember = (inputs: EmbeddingInput[], embeddings: Float32Array[]) => {
+    kb.putCachedEmbeddings(
+      provider.kind,
+      provider.model,
+      inputs.map((input, idx) => ({ hash: input.hash, embedding: embeddings[idx] })),
+    );
+  };
+
+  const hits = kb.getCachedEmbeddings(
+    provider.kind,
+    provider.model,
+    inputs.map((input) => input.hash),
+  );
+  const fromCache = inputs.filter((input) => hits.has(input.hash));
+  store(
+    fromCache,
+    fromCache.map((input) => hits.get(input.hash)!),
+  );
+  cached = fromCache.length;
+  let missing = inputs.filter((input) => !hits.has(input.hash));
+
+  if (provider.embedBatchJob && missing.length > 0) {
+    try {
+      const byId = await provider.embedBatchJob(
+        missing.map((input) => ({ id: String(input.chunkId), text: input.text })),
+      );
+      const done = missing.filter((input) => byId.has(String(input.chunkId)));
+      const embeddings = done.map((input) => byId.get(String(input.chunkId))!);
+      remember(done, embeddings);
+      store(done, embeddings);
+      missing = missing.filter((input) => !byId.has(String(input.chunkId)));
+    } catch (err) {
+      if (err instanceof EmbeddingModelMismatchError) {
+        throw err;
+      }
+      console.warn(
+        "[houdini-claw] Embedding batch job failed, embedding inline:",
+        (err as Error).message,
+      );
     }
+  }
 
-    options?.onProgress?.(indexed, total);
+  for (const batch of buildEmbeddingBatches(missing)) {
+    let embeddings: Float32Array[];
+    try {
+      embeddings = await embedBatch(provider, batch);
+      ensureVectorIndex(kb, identityOf(provider, embeddings[0]));
+    } catch (err) {
+      // A model mismatch would fail every batch the same way
+      if (err instanceof EmbeddingModelMismatchError) {
+        throw err;
+      }
+      console.error(
+        `[houdini-claw] Failed to embed chunks ${batch[0].chunkId}-${batch[batch.length - 1].chunkId}:`,
+        (err as Error).message,
+      );
+      errors += batch.length;
+      options?.onProgress?.(indexed, total);
+      continue;
+    }
+
+    remember(batch, embeddings);
+    store(batch, embeddings);
   }
 
-  return { indexed, errors };
+  return { indexed, cached, errors };
 }
 
 /**
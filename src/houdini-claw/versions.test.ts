@@ -0,0 +1,179 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { requireNodeSqlite } from "../memory/sqlite.js";
+import { initDatabase, type KnowledgeBase } from "./db.js";
+import { compareHoudiniVersions, diffNodeVersions, resolveNearestVersion } from "./versions.js";
+
+describe("houdini-claw versions", () => {
+  it("compares dotted versions numerically", () => {
+    expect(compareHoudiniVersions("19.5", "20.0")).toBeLessThan(0);
+    expect(compareHoudiniVersions("20.5", "20.0")).toBeGreaterThan(0);
+    expect(compareHoudiniVersions("20.0", "20.0.0")).toBe(0);
+    expect(compareHoudiniVersions("20.0.547", "20.0")).toBeGreaterThan(0);
+    expect(compareHoudiniVersions("9.5", "19.5")).toBeLessThan(0);
+  });
+
+  it("resolves the exact or nearest older version", () => {
+    const available = ["20.5", "19.5", "20.0"];
+    expect(resolveNearestVersion(available, "20.0")).toBe("20.0");
+    expect(resolveNearestVersion(available, "20.0.625")).toBe("20.0");
+    expect(resolveNearestVersion(available, "21.0")).toBe("20.5");
+    expect(resolveNearestVersion(available, "19.0")).toBeUndefined();
+    expect(resolveNearestVersion(available)).toBe("20.5");
+    expect(resolveNearestVersion([], "20.5")).toBeUndefined();
+  });
+});
+
+describe("houdini-claw versioned annotations in the knowledge base", () => {
+  let tmpDir: string | undefined;
+  let kb: KnowledgeBase | undefined;
+
+  afterEach(() => {
+    kb?.close();
+    kb = undefined;
+    if (tmpDir) {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+      tmpDir = undefined;
+    }
+  });
+
+  function dbPath(): string {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "houdini-claw-versions-"));
+    return path.join(tmpDir, "kb.db");
+  }
+
+  function upsertNode(db: KnowledgeBase, houdiniVersion: string) {
+    db.upsertNodeAnnotation({
+      node_name: "pyro_solver",
+      node_category: "DOP",
+      houdini_version: houdiniVersion,
+      one_line: `Pyro solver (${houdiniVersion})`,
+      annotation_yaml: "",
+      annotated_at: "2026-01-01T00:00:00Z",
+      annotation_model: "test",
+    });
+  }
+
+  it("stores one annotation per version and falls back to the nearest older one", async () => {
+    const db = await initDatabase(dbPath());
+    kb = db;
+    upsertNode(db, "20.5");
+    upsertNode(db, "19.5");
+    upsertNode(db, "20.5");
+    db.upsertParameterAnnotation({
+      node_name: "pyro_solver",
+      param_name: "dissipation",
+      param_path: "dissipation",
+      houdini_version: "19.5",
+      safe_range_max: 0.1,
+    });
+    db.upsertParameterAnnotation({
+      node_name: "pyro_solver",
+      param_name: "dissipation",
+      param_path: "shape/dissipation",
+      houdini_version: "20.5",
+      safe_range_max: 0.2,
+    });
+    db.upsertParameterAnnotation({
+      node_name: "pyro_solver",
+      param_name: "flame_height",
+      param_path: "shape/flame_height",
+      houdini_version: "20.5",
+    });
+
+    expect(db.listNodeVersions("pyro_solver")).toEqual(["19.5", "20.5"]);
+    expect(db.getNodeAnnotation("pyro_solver")?.houdini_version).toBe("20.5");
+    expect(db.getNodeAnnotation("pyro_solver", "20.0")?.houdini_version).toBe("19.5");
+    expect(db.getNodeAnnotation("pyro_solver", "19.0")).toBeUndefined();
+    expect(db.listNodes()).toMatchObject([{ node_name: "pyro_solver", houdini_version: "20.5" }]);
+
+    expect(db.getParameterAnnotation("pyro_solver", "dissipation", "21.0")).toMatchObject({
+      houdini_version: "20.5",
+      safe_range_max: 0.2,
+    });
+    expect(db.getParameterAnnotation("pyro_solver", "flame_height", "20.0")).toBeUndefined();
+    expect(db.getParametersForNode("pyro_solver", "20.0").map((p) => p.param_name)).toEqual([
+      "dissipation",
+    ]);
+    expect(db.getParametersForNode("pyro_solver").map((p) => p.param_name)).toEqual([
+      "dissipation",
+      "flame_height",
+    ]);
+
+    expect(diffNodeVersions(db, "pyro_solver", "19.5", "20.5")).toEqual({
+      node_name: "pyro_solver",
+      from_version: "19.5",
+      to_version: "20.5",
+      added: [{ param_name: "flame_height", param_path: "shape/flame_height" }],
+      removed: [],
+      changed: [
+        {
+          param_name: "dissipation",
+          param_path: { from: "dissipation", to: "shape/dissipation" },
+          changes: { safe_range_max: { from: 0.1, to: 0.2 } },
+        },
+      ],
+    });
+    expect(() => diffNodeVersions(db, "pyro_solver", "18.0", "20.5")).toThrow(
+      "no annotation for Houdini 18.0 or older",
+    );
+  });
+
+  it("migrates single-version databases to the versioned layout", async () => {
+    const file = dbPath();
+    const { DatabaseSync } = requireNodeSqlite();
+    const legacy = new DatabaseSync(file);
+    legacy.exec(`
+      CREATE TABLE node_annotations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        node_name TEXT NOT NULL UNIQUE,
+        node_category TEXT NOT NULL,
+        houdini_version TEXT NOT NULL DEFAULT '20.5',
+        semantic_name_zh TEXT, semantic_name_en TEXT,
+        one_line TEXT NOT NULL, analogy TEXT,
+        prerequisite_nodes TEXT, required_context TEXT, typical_network TEXT,
+        annotation_yaml TEXT NOT NULL,
+        source_urls TEXT, crawled_at TEXT,
+        annotated_at TEXT NOT NULL, annotation_model TEXT NOT NULL,
+        human_verified INTEGER NOT NULL DEFAULT 0,
+        confidence_score REAL NOT NULL DEFAULT 0.0,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      CREATE TABLE parameter_annotations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        node_name TEXT NOT NULL, param_name TEXT NOT NULL, param_path TEXT NOT NULL,
+        semantic_name_zh TEXT, semantic_name_en TEXT, one_line TEXT,
+        intent_mapping TEXT, default_value REAL,
+        safe_range_min REAL, safe_range_max REAL,
+        expert_range_min REAL, expert_range_max REAL,
+        danger_below REAL, danger_above REAL, danger_description TEXT,
+        visual_effect TEXT, interactions TEXT, context_adjustments TEXT,
+        human_verified INTEGER NOT NULL DEFAULT 0,
+        confidence_score REAL NOT NULL DEFAULT 0.0,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        UNIQUE(node_name, param_name),
+        FOREIGN KEY (node_name) REFERENCES node_annotations(node_name)
+      );
+      INSERT INTO node_annotations (node_name, node_category, houdini_version, one_line,
+        annotation_yaml, annotated_at, annotation_model)
+      VALUES ('pyro_solver', 'DOP', '20.0', 'Pyro solver', '', '2025-01-01', 'legacy');
+      INSERT INTO parameter_annotations (node_name, param_name, param_path, safe_range_max)
+      VALUES ('pyro_solver', 'dissipation', 'dissipation', 0.1);
+    `);
+    legacy.close();
+
+    kb = await initDatabase(file);
+
+    expect(kb.getParameterAnnotation("pyro_solver", "dissipation")).toMatchObject({
+      houdini_version: "20.0",
+      safe_range_max: 0.1,
+    });
+    // A new version no longer conflicts with the migrated row
+    upsertNode(kb, "20.5");
+    expect(kb.listNodeVersions("pyro_solver")).toEqual(["20.0", "20.5"]);
+  });
+});
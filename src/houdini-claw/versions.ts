@@ -0,0 +1,146 @@
+/**
+ * Houdini Claw - Houdini Version Handling
+ *
+ * Annotations are stored per Houdini version (e.g. "19.5", "20.0", "20.5").
+ * Lookups for a version without its own annotation fall back to the nearest
+ * older annotated version, and two versions of a node can be diffed to see
+ * which parameters were added, removed or re-ranged.
+ */
+
+import type { KnowledgeBase } from "./db.js";
+
+/** Range-related parameter columns compared by the version diff */
+const RANGE_FIELDS = [
+  "default_value",
+  "safe_range_min",
+  "safe_range_max",
+  "expert_range_min",
+  "expert_range_max",
+  "danger_below",
+  "danger_above",
+] as const;
+
+export type RangeField = (typeof RANGE_FIELDS)[number];
+
+export interface ParameterVersionChange {
+  param_name: string;
+  param_path: { from: string; to: string } | undefined;
+  changes: Partial<Record<RangeField, { from: number | null; to: number | null }>>;
+}
+
+export interface NodeVersionDiff {
+  node_name: string;
+  from_version: string;
+  to_version: string;
+  added: Array<{ param_name: string; param_path: string }>;
+  removed: Array<{ param_name: string; param_path: string }>;
+  changed: ParameterVersionChange[];
+}
+
+/**
+ * Compare dotted Houdini versions numerically ("19.5" < "20.0" < "20.0.547").
+ * Returns a negative number, zero, or a positive number like Array#sort comparators.
+ */
+export function compareHoudiniVersions(a: string, b: string): number {
+  const pa = a.split(".").map((part) => parseInt(part, 10) || 0);
+  const pb = b.split(".").map((part) => parseInt(part, 10) || 0);
+  const length = Math.max(pa.length, pb.length);
+  for (let i = 0; i < length; i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Pick the version to serve for a request: the exact version if annotated,
+ * otherwise the nearest older one. Without a requested version, the newest wins.
+ * Returns undefined when every annotated version is newer than requested.
+ */
+export function resolveNearestVersion(available: string[], requested?: string): string | undefined {
+  const sorted = available.toSorted(compareHoudiniVersions);
+  if (!requested) {
+    return sorted.at(-1);
+  }
+  let match: string | undefined;
+  for (const version of sorted) {
+    if (compareHoudiniVersions(version, requested) <= 0) {
+      match = version;
+    }
+  }
+  return match;
+}
+
+/**
+ * Diff the parameter annotations of a node between two Houdini versions.
+ * Each side resolves to its nearest annotated version (see resolveNearestVersion).
+ */
+export function diffNodeVersions(
+  kb: KnowledgeBase,
+  nodeName: string,
+  fromVersion: string,
+  toVersion: string,
+): NodeVersionDiff {
+  const versions = kb.listNodeVersions(nodeName);
+  const from = resolveNearestVersion(versions, fromVersion);
+  const to = resolveNearestVersion(versions, toVersion);
+  if (!from || !to) {
+    const missing = !from ? fromVersion : toVersion;
+    throw new Error(
+      `Node "${nodeName}" has no annotation for Houdini ${missing} or older (annotated: ${versions.join(", ") || "none"})`,
+    );
+  }
+
+  const before = new Map(
+    kb.getParametersForNode(nodeName, from).map((p) => [p.param_name as string, p]),
+  );
+  const after = new Map(
+    kb.getParametersForNode(nodeName, to).map((p) => [p.param_name as string, p]),
+  );
+
+  const diff: NodeVersionDiff = {
+    node_name: nodeName,
+    from_version: from,
+    to_version: to,
+    added: [],
+    removed: [],
+    changed: [],
+  };
+
+  for (const [name, param] of after) {
+    if (!before.has(name)) {
+      diff.added.push({ param_name: name, param_path: param.param_path as string });
+    }
+  }
+
+  for (const [name, oldParam] of before) {
+    const newParam = after.get(name);
+    if (!newParam) {
+      diff.removed.push({ param_name: name, param_path: oldParam.param_path as string });
+      continue;
+    }
+
+    const changes: ParameterVersionChange["changes"] = {};
+    for (const field of RANGE_FIELDS) {
+      const a = (oldParam[field] as number | null | undefined) ?? null;
+      const b = (newParam[field] as number | null | undefined) ?? null;
+      if (a !== b) {
+        changes[field] = { from: a, to: b };
+      }
+    }
+    const pathChanged = oldParam.param_path !== newParam.param_path;
+    if (pathChanged || Object.keys(changes).length > 0) {
+      diff.changed.push({
+        param_name: name,
+        param_path: pathChanged
+          ? { from: oldParam.param_path as string, to: newParam.param_path as string }
+          : undefined,
+        changes,
+      });
+    }
+  }
+
+  return diff;
+}
@@ -14,25 +14,7 @@ import { parseSlackTarget } from "../../slack/targets.js";
 import { parseTelegramTarget } from "../../telegram/targets.js";
 import { loadWebMedia } from "../../web/media.js";
 
-export function readBooleanParam(
-  params: Record<string, unknown>,
-  key: string,
-): boolean | undefined {
-  const raw = params[key];
-  if (typeof raw === "boolean") {
-    return raw;
-  }
-  if (typeof raw === "string") {
-    const trimmed = raw.trim().toLowerCase();
-    if (trimmed === "true") {
-      return true;
-    }
-    if (trimmed === "false") {
-      return false;
-    }
-  }
-  return undefined;
-}
+export { readBooleanParam } from "../../agents/tools/common.js";
 
 export function resolveSlackAutoThreadId(params: {
   to: string;
@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  buildEmbeddingBatches,
+  isRetryableEmbeddingError,
+  runEmbeddingRequestWithRetry,
+} from "./embedding-batches.js";
+
+describe("embedding batches", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("groups items under the token budget and isolates oversized ones", () => {
+    const items = [
+      { id: "a", text: "x".repeat(40) },
+      { id: "b", text: "x".repeat(40) },
+      { id: "c", text: "x".repeat(150) },
+      { id: "d", text: "x".repeat(10) },
+    ];
+
+    const batches = buildEmbeddingBatches(items, 100);
+
+    expect(batches.map((batch) => batch.map((item) => item.id))).toEqual([
+      ["a", "b"],
+      ["c"],
+      ["d"],
+    ]);
+  });
+
+  it("classifies rate limits and server errors as retryable", () => {
+    expect(isRetryableEmbeddingError("openai embeddings failed: 429 Too Many Requests")).toBe(true);
+    expect(isRetryableEmbeddingError("gemini: RESOURCE has been exhausted")).toBe(true);
+    expect(isRetryableEmbeddingError("503 Service Unavailable")).toBe(true);
+    expect(isRetryableEmbeddingError("401 invalid api key")).toBe(false);
+  });
+
+  it("retries rate-limited requests with backoff", async () => {
+    vi.useFakeTimers();
+    const run = vi
+      .fn<() => Promise<number[][]>>()
+      .mockRejectedValueOnce(new Error("429 rate limit"))
+      .mockResolvedValueOnce([[1, 0]]);
+    const onRetry = vi.fn();
+
+    const result = runEmbeddingRequestWithRetry(run, onRetry);
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toEqual([[1, 0]]);
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(expect.any(Number));
+  });
+
+  it("throws non-retryable errors without waiting", async () => {
+    const run = vi.fn(async () => {
+      throw new Error("400 input too long");
+    });
+
+    await expect(runEmbeddingRequestWithRetry(run)).rejects.toThrow("400 input too long");
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,79 @@
+// Request batching and rate-limit retries shared by every embedding indexer
+// (the memory manager and the houdini-claw knowledge base).
+
+import { estimateUtf8Bytes } from "./embedding-input-limits.js";
+
+export const EMBEDDING_BATCH_MAX_TOKENS = 8000;
+const EMBEDDING_RETRY_MAX_ATTEMPTS = 3;
+const EMBEDDING_RETRY_BASE_DELAY_MS = 500;
+const EMBEDDING_RETRY_MAX_DELAY_MS = 8000;
+
+/**
+ * Group items into embedding requests of at most `maxTokens` (estimated as
+ * UTF-8 bytes). An item larger than the limit gets a request of its own.
+ */
+export function buildEmbeddingBatches<T extends { text: string }>(
+  items: T[],
+  maxTokens: number = EMBEDDING_BATCH_MAX_TOKENS,
+): T[][] {
+  const batches: T[][] = [];
+  let current: T[] = [];
+  let currentTokens = 0;
+
+  for (const item of items) {
+    const estimate = estimateUtf8Bytes(item.text);
+    const wouldExceed = current.length > 0 && currentTokens + estimate > maxTokens;
+    if (wouldExceed) {
+      batches.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    if (current.length === 0 && estimate > maxTokens) {
+      batches.push([item]);
+      continue;
+    }
+    current.push(item);
+    currentTokens += estimate;
+  }
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+}
+
+export function isRetryableEmbeddingError(message: string): boolean {
+  return /(rate[_ ]limit|too many requests|429|resource has been exhausted|5\d\d|cloudflare)/i.test(
+    message,
+  );
+}
+
+/**
+ * Run an embedding request, retrying rate-limit and 5xx failures with
+ * jittered exponential backoff. Other errors are thrown immediately.
+ */
+export async function runEmbeddingRequestWithRetry<T>(
+  run: () => Promise<T>,
+  onRetry?: (waitMs: number) => void,
+): Promise<T> {
+  let attempt = 0;
+  let delayMs = EMBEDDING_RETRY_BASE_DELAY_MS;
+  while (true) {
+    try {
+      return await run();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      if (!isRetryableEmbeddingError(message) || attempt >= EMBEDDING_RETRY_MAX_ATTEMPTS) {
+        throw err;
+      }
+      const waitMs = Math.min(
+        EMBEDDING_RETRY_MAX_DELAY_MS,
+        Math.round(delayMs * (1 + Math.random() * 0.2)),
+      );
+      onRetry?.(waitMs);
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+      delayMs *= 2;
+      attempt += 1;
+    }
+  }
+}
@@ -59,6 +59,14 @@ export function formatCronSchedule(job: CronJob) {
   if (s.kind === "every") {
     return `Every ${formatDurationHuman(s.everyMs)}`;
   }
+  if (s.kind === "after") {
+    return `After ${s.jobId} (on ${s.on ?? "ok"})`;
+  }
+  if (s.kind === "trigger") {
+    return s.trigger.kind === "webhook"
+      ? `Webhook ${s.trigger.name}`
+      : `Watch ${s.trigger.path}${s.trigger.glob ? ` (${s.trigger.glob})` : ""}`;
+  }
   return `Cron ${s.expr}${s.tz ? ` (${s.tz})` : ""}`;
 }
 
@@ -437,7 +437,14 @@ export type {
 export type CronSchedule =
   | { kind: "at"; at: string }
   | { kind: "every"; everyMs: number; anchorMs?: number }
-  | { kind: "cron"; expr: string; tz?: string };
+  | { kind: "cron"; expr: string; tz?: string }
+  | { kind: "after"; jobId: string; on?: "ok" | "error" | "any" }
+  | {
+      kind: "trigger";
+      trigger:
+        | { kind: "file"; path: string; glob?: string; debounceMs?: number }
+        | { kind: "webhook"; name: string; template?: string };
+    };
 
 export type CronSessionTarget = "main" | "isolated";
 export type CronWakeMode = "next-heartbeat" | "now";
@@ -456,6 +463,9 @@ export type CronDelivery = {
   channel?: string;
   to?: string;
   bestEffort?: boolean;
+  onChange?: boolean;
+  whenMatches?: { pattern?: string; flags?: string; path?: string };
+  quietSummary?: boolean;
 };
 
 export type CronJobState = {